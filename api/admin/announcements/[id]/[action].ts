@@ -0,0 +1,45 @@
+/**
+ * Vercel API Function: Publish or archive an announcement
+ * Admin role required. POST /api/admin/announcements/:id/:action; publishing
+ * broadcasts the announcement to every user unless it was already live.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../../lib/database/database-factory';
+import { MessageQueueFactory } from '../../../../lib/queue/queue-factory';
+import { authorizeAdmin } from '../../../../lib/auth/admin';
+import { broadcastAnnouncement, setAnnouncementStatus } from '../../../../lib/moderation/announcements';
+import { ModerationError } from '../../../../lib/moderation/reports';
+import { logSystemEvent } from '../../../../lib/monitoring/event-log';
+import type { AnnouncementAction } from '../../../../src/protocol';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const access = await authorizeAdmin(db, req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    const action = String(req.query.action) as AnnouncementAction;
+    const { announcement, published } = await setAnnouncementStatus(db, String(req.query.id), action);
+    if (published) {
+      const recipients = await broadcastAnnouncement(db, MessageQueueFactory.getOrCreateFromEnvironment(), announcement);
+      logSystemEvent('INFO', 'moderation', `Announcement "${announcement.title}" sent to ${recipients} users`, { status: 'success' });
+    }
+    res.status(200).json({ success: true, id: announcement.announcement_id, status: announcement.status });
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logSystemEvent('ERROR', 'admin', 'Failed to update an announcement', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Vercel API Function: Platform announcements
+ * Admin role required. GET lists every announcement with its view count;
+ * POST creates one from { title, content, publish? }, broadcasting it straight
+ * away when publish is set.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../lib/database/database-factory';
+import { MessageQueueFactory } from '../../../lib/queue/queue-factory';
+import { authorizeAdmin } from '../../../lib/auth/admin';
+import {
+  broadcastAnnouncement, createAnnouncement, listAdminAnnouncements, setAnnouncementStatus
+} from '../../../lib/moderation/announcements';
+import { ModerationError } from '../../../lib/moderation/reports';
+import { logSystemEvent } from '../../../lib/monitoring/event-log';
+import type { CreateAnnouncementRequest } from '../../../src/protocol';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const access = await authorizeAdmin(db, req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200).json(await listAdminAnnouncements(db));
+      return;
+    }
+
+    const request = (req.body ?? {}) as CreateAnnouncementRequest;
+    let announcement = await createAnnouncement(db, access.user.user_id, request);
+    if (request.publish) {
+      ({ announcement } = await setAnnouncementStatus(db, announcement.announcement_id, 'publish'));
+      const recipients = await broadcastAnnouncement(db, MessageQueueFactory.getOrCreateFromEnvironment(), announcement);
+      logSystemEvent('INFO', 'moderation', `Announcement "${announcement.title}" sent to ${recipients} users`, { status: 'success' });
+    }
+    res.status(201).json({ success: true, id: announcement.announcement_id, status: announcement.status });
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logSystemEvent('ERROR', 'admin', 'Failed to handle announcements', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Vercel API Function: Moderation queue for the content admin console
+ * Moderator or admin role required; pending reports grouped per target,
+ * oldest first
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../lib/database/database-factory';
+import { authorizeModerator } from '../../../lib/auth/admin';
+import { buildReportQueue } from '../../../lib/moderation/stats';
+import { logSystemEvent } from '../../../lib/monitoring/event-log';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const access = await authorizeModerator(db, req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(await buildReportQueue(db));
+  } catch (error) {
+    logSystemEvent('ERROR', 'admin', 'Failed to load the report queue', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
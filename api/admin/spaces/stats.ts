@@ -0,0 +1,41 @@
+/**
+ * Vercel API Function: Per-space figures for the content admin console
+ * Moderator or admin role required; ?limit= and ?offset= page through every
+ * space
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../lib/database/database-factory';
+import { authorizeModerator } from '../../../lib/auth/admin';
+import { buildSpaceStats } from '../../../lib/moderation/stats';
+import { logSystemEvent } from '../../../lib/monitoring/event-log';
+
+function queryValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const access = await authorizeModerator(db, req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    const stats = await buildSpaceStats(db, {
+      limit: Number(queryValue(req.query.limit)) || undefined,
+      offset: Number(queryValue(req.query.offset)) || undefined
+    });
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(stats);
+  } catch (error) {
+    logSystemEvent('ERROR', 'admin', 'Failed to load space stats', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
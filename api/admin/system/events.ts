@@ -0,0 +1,37 @@
+/**
+ * Vercel API Function: Recent system events for the admin console
+ * Admin role required; ?limit= caps the count (newest first)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../lib/database/database-factory';
+import { authorizeAdmin } from '../../../lib/auth/admin';
+import { MAX_SYSTEM_EVENTS, getSystemEvents, logSystemEvent } from '../../../lib/monitoring/event-log';
+
+const DEFAULT_LIMIT = 50;
+
+function parseLimit(value: string | string[] | undefined): number {
+  const limit = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_SYSTEM_EVENTS) : DEFAULT_LIMIT;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const access = await authorizeAdmin(await DatabaseFactory.getOrCreateFromEnvironment(), req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(getSystemEvents(parseLimit(req.query.limit)));
+  } catch (error) {
+    logSystemEvent('ERROR', 'admin', 'Failed to list system events', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
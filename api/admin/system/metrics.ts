@@ -0,0 +1,32 @@
+/**
+ * Vercel API Function: System metrics for the admin console
+ * Admin role required; figures cover the instance that answers
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../lib/database/database-factory';
+import { authorizeAdmin } from '../../../lib/auth/admin';
+import { logSystemEvent } from '../../../lib/monitoring/event-log';
+import { buildSystemMetrics } from '../../../lib/monitoring/system-metrics';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const access = await authorizeAdmin(db, req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(await buildSystemMetrics(db));
+  } catch (error) {
+    logSystemEvent('ERROR', 'admin', 'Failed to build system metrics', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Vercel API Function: Node status for the admin console
+ * Admin role required; each instance reports only itself
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../lib/database/database-factory';
+import { authorizeAdmin } from '../../../lib/auth/admin';
+import { logSystemEvent } from '../../../lib/monitoring/event-log';
+import { buildNodeStatus } from '../../../lib/monitoring/system-metrics';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const access = await authorizeAdmin(await DatabaseFactory.getOrCreateFromEnvironment(), req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(buildNodeStatus());
+  } catch (error) {
+    logSystemEvent('ERROR', 'admin', 'Failed to report node status', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Vercel API Function: Act on an account
+ * Moderator or admin role required. POST /api/admin/users/:userId/:action
+ * where action is warn, suspend, ban or reinstate; the body may carry a note
+ * and, for suspend, the number of days. Only admins act on moderators.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../../../lib/database/database-factory';
+import { MessageQueueFactory } from '../../../../lib/queue/queue-factory';
+import { authorizeModerator } from '../../../../lib/auth/admin';
+import { applyUserAction, deliverOutcome } from '../../../../lib/moderation/actions';
+import { ModerationError } from '../../../../lib/moderation/reports';
+import { logSystemEvent } from '../../../../lib/monitoring/event-log';
+import type { ModerationActionOptions, UserModerationAction } from '../../../../src/protocol';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const access = await authorizeModerator(db, req);
+    if (!access.ok) {
+      res.status(access.statusCode).json({ error: access.error });
+      return;
+    }
+
+    const userId = String(req.query.id);
+    const action = String(req.query.action) as UserModerationAction;
+    const options = (req.body ?? {}) as ModerationActionOptions;
+
+    const outcome = await applyUserAction(db, userId, action, access.user, options);
+    await deliverOutcome(MessageQueueFactory.getOrCreateFromEnvironment(), outcome);
+
+    logSystemEvent('INFO', 'moderation', `${access.user.username} applied ${action} to user ${userId}`, { status: 'success' });
+    res.status(200).json({ success: true, resolvedReports: outcome.resolvedReports });
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    logSystemEvent('ERROR', 'admin', 'Failed to apply a moderation action', { detail: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -4,47 +4,11 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { Pool } from 'pg';
 import { randomBytes } from 'crypto';
-import { pbkdf2 } from 'crypto';
-import { promisify } from 'util';
-
-const pbkdf2Async = promisify(pbkdf2);
-
-// Database connection pool (reused across invocations)
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    const connectionString = process.env.DATABASE_URL || process.env.NEON_DATABASE_URL;
-    if (!connectionString) {
-      throw new Error('DATABASE_URL or NEON_DATABASE_URL environment variable is required');
-    }
-    
-    pool = new Pool({
-      connectionString,
-      ssl: { rejectUnauthorized: false },
-      max: 20,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 2000,
-    });
-  }
-  return pool;
-}
-
-// Password hashing with proper salt usage
-async function hashPassword(password: string, salt: Buffer): Promise<string> {
-  const iterations = 100000;
-  const keylen = 64;
-  const digest = 'sha512';
-  const derivedKey = await pbkdf2Async(password, salt, iterations, keylen, digest);
-  return derivedKey.toString('hex');
-}
-
-async function verifyPassword(password: string, salt: Buffer, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password, salt);
-  return passwordHash === hash;
-}
+import { DatabaseFactory } from '../../lib/database/database-factory';
+import { getSessionToken, issueSession, refreshSession, resolveSession, revokeSession } from '../../lib/auth/session';
+import { MIN_PASSWORD_LENGTH, generateSalt, hashPassword, verifyPassword } from '../../lib/auth/password';
+import { confirmPasswordReset } from '../../lib/auth/password-reset';
 
 // Generate PRI (simplified version)
 function generatePRI() {
@@ -68,7 +32,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     res.status(200).end();
@@ -83,15 +47,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     const { action, username, email, password } = req.body;
     
-    // Log the incoming request for debugging
-    console.log('[AUTH] Request:', { action, username, hasPassword: !!password });
-    
     // Validate required fields
     if (!action) {
       throw new Error('Action is required');
     }
-    
-    const db = getPool();
 
     switch (action) {
       case 'register': {
@@ -100,43 +59,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         const userId = pri.nodeAddress;
 
         // Generate salt and hash password
-        const salt = randomBytes(32);
+        const salt = generateSalt();
         const passwordHash = await hashPassword(password, salt);
 
         // Insert user
-        await db.query(`
-          INSERT INTO users (
-            user_id, username, email, password_hash, salt,
-            node_public_key, node_private_key_encrypted, master_phase_key_encrypted,
-            pri_public_resonance, pri_private_resonance, pri_fingerprint
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-        `, [
-          userId,
+        const db = await DatabaseFactory.getOrCreateFromEnvironment();
+        await db.createUser({
+          user_id: userId,
           username,
           email,
-          passwordHash,
+          password_hash: passwordHash,
           salt,
-          Buffer.from(pri.fingerprint, 'utf8'),
-          Buffer.from(JSON.stringify(pri.privateResonance), 'utf8'),
-          Buffer.from(JSON.stringify(pri.publicResonance), 'utf8'),
-          JSON.stringify({
+          node_public_key: Buffer.from(pri.fingerprint, 'utf8'),
+          node_private_key_encrypted: Buffer.from(JSON.stringify(pri.privateResonance), 'utf8'),
+          master_phase_key_encrypted: Buffer.from(JSON.stringify(pri.publicResonance), 'utf8'),
+          pri_public_resonance: {
             base_resonance: 0.8,
             amplification_factor: 0.7,
             phase_alignment: 0.9,
             entropy_level: 0.6,
             prime_sequence: pri.publicResonance.primaryPrimes,
             resonance_signature: pri.publicResonance.primaryPrimes.join('-')
-          }),
-          JSON.stringify({
+          },
+          pri_private_resonance: {
             base_resonance: 0.75,
             amplification_factor: 0.65,
             phase_alignment: 0.85,
             entropy_level: 0.55,
             prime_sequence: pri.privateResonance.secretPrimes,
             resonance_signature: pri.privateResonance.secretPrimes.join('-')
-          }),
-          pri.fingerprint
-        ]);
+          },
+          pri_fingerprint: pri.fingerprint
+        });
 
         res.status(200).json({
           success: true,
@@ -148,84 +102,125 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       case 'login': {
         // Get user
-        const result = await db.query(
-          'SELECT * FROM users WHERE username = $1',
-          [username]
-        );
+        const db = await DatabaseFactory.getOrCreateFromEnvironment();
+        const user = await db.getUserByUsername(username);
 
-        if (result.rows.length === 0) {
+        if (!user) {
           throw new Error('User not found');
         }
 
-        const user = result.rows[0];
-
         // Verify password with the user's salt
-        // Note: PostgreSQL returns bytea as Buffer already
-        const userSalt = Buffer.isBuffer(user.salt) ? user.salt : Buffer.from(user.salt);
-        
-        console.log('[AUTH] Verifying password for user:', username);
-        console.log('[AUTH] Salt type:', typeof user.salt, 'isBuffer:', Buffer.isBuffer(user.salt));
-        
-        const passwordValid = await verifyPassword(
-          password,
-          userSalt,
-          user.password_hash
-        );
-        
-        console.log('[AUTH] Password valid:', passwordValid);
+        const passwordValid = await verifyPassword(password, user.salt, user.password_hash);
 
         if (!passwordValid) {
           throw new Error('Invalid credentials');
         }
 
+        if (user.moderation_status === 'banned') {
+          res.status(403).json({ success: false, error: 'This account has been banned' });
+          break;
+        }
+
         // Reconstruct PRI
         const pri = {
-          publicResonance: typeof user.pri_public_resonance === 'string' 
-            ? JSON.parse(user.pri_public_resonance) 
-            : user.pri_public_resonance,
-          privateResonance: typeof user.pri_private_resonance === 'string'
-            ? JSON.parse(user.pri_private_resonance)
-            : user.pri_private_resonance,
+          publicResonance: user.pri_public_resonance,
+          privateResonance: user.pri_private_resonance,
           fingerprint: user.pri_fingerprint,
           nodeAddress: user.user_id
         };
 
-        // Create session token
-        const sessionToken = randomBytes(32).toString('hex');
+        const session = await issueSession(db, user.user_id);
 
         res.status(200).json({
           success: true,
           kind: 'loginSuccess',
           payload: {
-            sessionToken,
+            sessionToken: session.sessionToken,
+            expiresAt: session.expiresAt,
             userId: user.user_id,
+            role: user.role,
             pri,
           }
         });
         break;
       }
 
+      // Both report the caller's current platform role, so a client restoring a
+      // saved session picks up role changes made since it logged in
       case 'validateSession': {
-        const { sessionToken, userId } = req.body;
-        
-        if (!sessionToken || sessionToken.length !== 64) {
-          throw new Error('Invalid session token');
+        const adapter = await DatabaseFactory.getOrCreateFromEnvironment();
+        const caller = await resolveSession(adapter, getSessionToken(req));
+        const account = caller && await adapter.getUserById(caller.userId);
+
+        if (!caller || !account) {
+          res.status(401).json({ success: false, error: 'Invalid or expired session' });
+          break;
         }
 
-        // Get user
-        const result = await db.query(
-          'SELECT * FROM users WHERE user_id = $1',
-          [userId]
-        );
+        res.status(200).json({
+          success: true,
+          kind: 'sessionValidated',
+          payload: { valid: true, userId: caller.userId, role: account.role, expiresAt: caller.expiresAt }
+        });
+        break;
+      }
 
-        if (result.rows.length === 0) {
-          throw new Error('User not found');
+      case 'refreshSession': {
+        const adapter = await DatabaseFactory.getOrCreateFromEnvironment();
+        const session = await refreshSession(adapter, getSessionToken(req));
+        const account = session && await adapter.getUserById(session.userId);
+
+        if (!session || !account) {
+          res.status(401).json({ success: false, error: 'Invalid or expired session' });
+          break;
         }
 
         res.status(200).json({
           success: true,
-          kind: 'sessionValidated',
-          payload: { valid: true }
+          kind: 'sessionRefreshed',
+          payload: { ...session, role: account.role }
+        });
+        break;
+      }
+
+      case 'logout': {
+        const sessionToken = getSessionToken(req);
+        const revoked = sessionToken
+          ? await revokeSession(await DatabaseFactory.getOrCreateFromEnvironment(), sessionToken)
+          : false;
+
+        res.status(200).json({
+          success: true,
+          kind: 'loggedOut',
+          payload: { revoked }
+        });
+        break;
+      }
+
+      case 'confirmPasswordReset': {
+        const { token } = req.body;
+        if (typeof token !== 'string' || typeof password !== 'string') {
+          res.status(400).json({ success: false, error: 'Reset token and new password are required' });
+          break;
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+          res.status(400).json({
+            success: false,
+            error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+          });
+          break;
+        }
+
+        const userId = await confirmPasswordReset(await DatabaseFactory.getOrCreateFromEnvironment(), token, password);
+        if (!userId) {
+          res.status(400).json({ success: false, error: 'This reset link is invalid or has expired' });
+          break;
+        }
+
+        res.status(200).json({
+          success: true,
+          kind: 'passwordResetConfirmed',
+          payload: { userId }
         });
         break;
       }
@@ -0,0 +1,36 @@
+/**
+ * Vercel Cron Function: Archive old files in spaces with autoArchive on and
+ * delete stored file content nothing refers to any more
+ * Scheduled in vercel.json; the standalone server runs the same job on a timer
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DatabaseFactory } from '../../lib/database/database-factory';
+import { archiveInactiveFiles } from '../../lib/spaces/settings';
+import { sweepSpaceFileBlobs } from '../../lib/files/space-files';
+import { BlobStoreFactory } from '../../lib/storage/blob-store-factory';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  // Vercel sends CRON_SECRET as a bearer token; without one the job stays closed
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const archived = await archiveInactiveFiles(db);
+    const blobsDeleted = await sweepSpaceFileBlobs(db, BlobStoreFactory.getOrCreateFromEnvironment());
+    console.log(`[Cron] Archived ${archived} space files, deleted ${blobsDeleted} unreferenced blobs`);
+    res.status(200).json({ archived, blobsDeleted, timestamp: Date.now() });
+  } catch (error) {
+    console.error('[Cron] Error archiving space files:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -4,64 +4,108 @@
  */
 
 import type { IncomingMessage, ServerResponse } from 'http';
+import type { ServerMessage } from '../src/protocol';
+import { DatabaseFactory } from '../lib/database/database-factory';
+import { getSessionToken, resolveSession } from '../lib/auth/session';
+import type { AuthenticatedCaller } from '../lib/auth/session';
+import { MessageQueueFactory } from '../lib/queue/queue-factory';
+import { trackEventStream } from '../lib/monitoring/connections';
+import { logSystemEvent } from '../lib/monitoring/event-log';
+import { trackPresence } from '../lib/presence/tracker';
+import { presenceSignal } from '../lib/presence/signals';
+import type { UserPresence } from '../src/protocol';
 
 interface VercelRequest extends IncomingMessage {
   query: Record<string, string | string[]>;
   body?: unknown;
 }
 
-interface SSEMessage {
-  kind: string;
-  payload: Record<string, unknown>;
-}
+type SSEMessage = ServerMessage;
 
-// Simple in-memory message queue - in production use Redis
-const messageQueues = new Map<string, SSEMessage[]>();
+// The queue is rechecked this often in case a wake-up was missed
+const PENDING_SWEEP_INTERVAL_MS = 5000;
 
-// Active connections tracking
-const activeConnections = new Map<string, ServerResponse>();
+// Browsers resend the last id as a header on automatic reconnects; clients
+// that open a fresh EventSource pass it as ?lastEventId= instead
+function getLastEventId(req: VercelRequest): number | null {
+  const header = req.headers['last-event-id'];
+  const raw = (Array.isArray(header) ? header[0] : header) ?? req.query.lastEventId;
+  const lastEventId = Number(Array.isArray(raw) ? raw[0] : raw);
+  return Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : null;
+}
 
-// Helper to queue messages for a user
-export function queueMessage(userId: string, message: SSEMessage): void {
-  if (!messageQueues.has(userId)) {
-    messageQueues.set(userId, []);
-  }
-  const queue = messageQueues.get(userId)!;
-  queue.push(message);
-  
-  // Keep only last 100 messages per user
-  if (queue.length > 100) {
-    queue.shift();
-  }
-  
-  // Try to deliver immediately if user is connected
-  const connection = activeConnections.get(userId);
-  if (connection) {
-    try {
-      connection.write(`data: ${JSON.stringify(message)}\n\n`);
-      // Remove from queue if delivered
-      const index = queue.indexOf(message);
-      if (index > -1) {
-        queue.splice(index, 1);
-      }
-    } catch (error) {
-      // Connection might be closed, keep in queue
-      console.error('[SSE] Failed to deliver message immediately:', error);
+// Tells the user's contacts they came online or went offline
+async function broadcastPresence(presence: UserPresence): Promise<void> {
+  try {
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    const { userIds, message } = await presenceSignal(db, presence);
+    if (userIds.length > 0) {
+      await MessageQueueFactory.getOrCreateFromEnvironment().signal(userIds, message);
     }
+  } catch (error) {
+    logSystemEvent('ERROR', 'sse', 'Failed to broadcast presence', { detail: error });
   }
 }
 
-function getQueuedMessages(userId: string): SSEMessage[] {
-  const messages = messageQueues.get(userId) || [];
-  messageQueues.delete(userId); // Clear after retrieval
-  return messages;
+/**
+ * Stream a user's queued messages to this connection: everything after
+ * lastEventId when resuming, otherwise whatever was never delivered, then
+ * anything the queue announces. Signals are written as they arrive, without
+ * an id since they cannot be replayed. Returns a function that stops delivery.
+ */
+function startDelivery(userId: string, lastEventId: number | null, res: ServerResponse): () => void {
+  const queue = MessageQueueFactory.getOrCreateFromEnvironment();
+  let stopped = false;
+  let cursor = lastEventId;
+  let delivering = Promise.resolve();
+
+  const deliverPending = () => {
+    delivering = delivering.then(async () => {
+      if (stopped) return;
+
+      let entries = await queue.readSince(userId, cursor ?? 0);
+      if (cursor === null) {
+        // A fresh connection skips history that already reached the user
+        cursor = entries.length > 0 ? entries[entries.length - 1].id : 0;
+        entries = entries.filter(entry => !entry.deliveredAt);
+      }
+
+      const written: number[] = [];
+      for (const entry of entries) {
+        if (stopped || res.writableEnded || res.destroyed) break;
+        res.write(`id: ${entry.id}\ndata: ${JSON.stringify(entry.message)}\n\n`);
+        written.push(entry.id);
+        cursor = Math.max(cursor, entry.id);
+      }
+
+      await queue.markDelivered(userId, written);
+    }).catch(error => {
+      logSystemEvent('ERROR', 'sse', 'Failed to deliver queued messages', { detail: error });
+    });
+  };
+
+  const unsubscribe = queue.subscribe(userId, deliverPending);
+  const unsubscribeSignals = queue.subscribeSignals(userId, message => {
+    if (!stopped && !res.writableEnded && !res.destroyed) {
+      res.write(`data: ${JSON.stringify(message)}\n\n`);
+    }
+  });
+  const sweepInterval = setInterval(deliverPending, PENDING_SWEEP_INTERVAL_MS);
+  deliverPending();
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    unsubscribeSignals();
+    clearInterval(sweepInterval);
+  };
 }
 
 export default async function handler(req: VercelRequest, res: ServerResponse): Promise<void> {
   // Enable CORS for SSE
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Cache-Control');
+  res.setHeader('Access-Control-Allow-Headers', 'Cache-Control, Last-Event-ID');
 
   if (req.method === 'OPTIONS') {
     res.statusCode = 200;
@@ -76,17 +120,41 @@ export default async function handler(req: VercelRequest, res: ServerResponse):
     return;
   }
 
+  // EventSource cannot send headers, so the session token arrives as ?token=;
+  // connections without one are anonymous and only receive heartbeats
+  const sessionToken = getSessionToken(req);
+  let caller: AuthenticatedCaller | null = null;
+  try {
+    caller = sessionToken
+      ? await resolveSession(await DatabaseFactory.getOrCreateFromEnvironment(), sessionToken)
+      : null;
+  } catch (error) {
+    logSystemEvent('ERROR', 'sse', 'Failed to resolve session', { detail: error });
+    res.statusCode = 503;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error: 'Session service unavailable' }));
+    return;
+  }
+
+  if (sessionToken && !caller) {
+    res.statusCode = 401;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error: 'Invalid or expired session' }));
+    return;
+  }
+
   // Set up Server-Sent Events headers
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
   res.setHeader('X-Accel-Buffering', 'no'); // Disable Nginx buffering
 
-  // Get user ID from query params
-  const userId = req.query.userId as string | undefined;
+  const userId = caller?.userId;
   
   console.log('[SSE] Client connected to events stream', userId ? `(user: ${userId})` : '(anonymous)');
 
+  // Connection messages and heartbeats carry no id, so they never move the
+  // client's Last-Event-ID
   // Send initial connection message
   const connectionMessage: SSEMessage = {
     kind: 'connected',
@@ -99,20 +167,9 @@ export default async function handler(req: VercelRequest, res: ServerResponse):
   
   res.write(`data: ${JSON.stringify(connectionMessage)}\n\n`);
 
-  // Store connection if user ID provided
-  if (userId) {
-    activeConnections.set(userId, res);
-    
-    // Send any queued messages immediately
-    const queuedMessages = getQueuedMessages(userId);
-    queuedMessages.forEach(message => {
-      try {
-        res.write(`data: ${JSON.stringify(message)}\n\n`);
-      } catch (error) {
-        console.error('[SSE] Error sending queued message:', error);
-      }
-    });
-  }
+  const stopDelivery = userId ? startDelivery(userId, getLastEventId(req), res) : undefined;
+  const releaseStream = trackEventStream(userId);
+  const releasePresence = userId ? trackPresence(userId, presence => void broadcastPresence(presence)) : undefined;
 
   // Send periodic ping messages to keep connection alive
   const pingInterval = setInterval(() => {
@@ -126,52 +183,19 @@ export default async function handler(req: VercelRequest, res: ServerResponse):
     } catch (error) {
       console.error('[SSE] Error sending ping:', error);
       clearInterval(pingInterval);
-      if (userId) {
-        activeConnections.delete(userId);
-      }
+      stopDelivery?.();
+      releaseStream();
+      releasePresence?.();
     }
   }, 30000); // Every 30 seconds
 
-  // Check for new queued messages periodically
-  let messageCheckInterval: NodeJS.Timeout | undefined;
-  if (userId) {
-    messageCheckInterval = setInterval(() => {
-      const messages = messageQueues.get(userId);
-      if (messages && messages.length > 0) {
-        const messagesToSend = [...messages];
-        messageQueues.set(userId, []); // Clear queue
-        
-        messagesToSend.forEach(message => {
-          try {
-            res.write(`data: ${JSON.stringify(message)}\n\n`);
-          } catch (error) {
-            // Connection closed, re-queue messages
-            if (!messageQueues.has(userId)) {
-              messageQueues.set(userId, []);
-            }
-            messageQueues.get(userId)!.push(message);
-            
-            if (messageCheckInterval) {
-              clearInterval(messageCheckInterval);
-            }
-            clearInterval(pingInterval);
-            activeConnections.delete(userId);
-          }
-        });
-      }
-    }, 1000); // Check every second
-  }
-
   // Clean up on client disconnect
   req.on('close', () => {
     console.log('[SSE] Client disconnected from events stream', userId ? `(user: ${userId})` : '(anonymous)');
     clearInterval(pingInterval);
-    if (messageCheckInterval) {
-      clearInterval(messageCheckInterval);
-    }
-    if (userId) {
-      activeConnections.delete(userId);
-    }
+    stopDelivery?.();
+    releaseStream();
+    releasePresence?.();
   });
 
   req.on('error', (error: Error & { code?: string }) => {
@@ -180,15 +204,12 @@ export default async function handler(req: VercelRequest, res: ServerResponse):
     if (error.code === 'ECONNRESET') {
       console.log('[SSE] Client connection reset (normal during navigation/refresh)');
     } else {
-      console.error('[SSE] Client connection error:', error);
+      logSystemEvent('ERROR', 'sse', 'Client connection error', { detail: error });
     }
     clearInterval(pingInterval);
-    if (messageCheckInterval) {
-      clearInterval(messageCheckInterval);
-    }
-    if (userId) {
-      activeConnections.delete(userId);
-    }
+    stopDelivery?.();
+    releaseStream();
+    releasePresence?.();
   });
 
   // Keep the connection open
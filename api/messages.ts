@@ -1,89 +1,125 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 /**
  * Vercel API Function: Handle REST messages for production communication
  * TypeScript version with proper typing for quantum beacon operations
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { queueMessage as sseQueueMessage } from './events';
 import { DatabaseFactory } from '../lib/database/database-factory';
+import { MessageQueueFactory } from '../lib/queue/queue-factory';
+import { MailTransportFactory } from '../lib/mail/mail-factory';
+import { BlobStoreFactory } from '../lib/storage/blob-store-factory';
 import type { DatabaseAdapter } from '../lib/database/abstract-adapter';
+import type { Beacon, Comment, QuantumPrimeIndices, Space, SpaceMember, User } from '../lib/database/types';
+import { authenticateRequest } from '../lib/auth/session';
+import type { AuthenticatedCaller } from '../lib/auth/session';
+import { allowPasswordResetRequest, requestPasswordReset } from '../lib/auth/password-reset';
+import {
+  MembershipError, acceptInvite, approveMember, createInvite, joinSpace, leaveSpace, removeMember, updateMemberRole
+} from '../lib/spaces/membership';
+import { ForbiddenError, hasPermission, permissionsFor, resolveSpaceAccess } from '../lib/spaces/permissions';
+import { SpaceSettingsError, deleteSpace, readSpaceSettings, updateSpace } from '../lib/spaces/settings';
+import { eventForBeacon, recordEvent } from '../lib/analytics/events';
+import { ANALYTICS_RANGE_DAYS, buildAnalyticsReport, isAnalyticsRange } from '../lib/analytics/report';
+import { logSystemEvent } from '../lib/monitoring/event-log';
+import { ModerationError, submitReport } from '../lib/moderation/reports';
+import { standingRestriction } from '../lib/moderation/standing';
+import { getUserAnnouncements } from '../lib/moderation/announcements';
+import { BeaconRoutingError, DIRECT_BEACON_TYPES, beaconRecipients } from '../lib/beacons/fan-out';
+import { visibleBeacons } from '../lib/beacons/visibility';
+import {
+  DirectMessageError, getConversationPage, getUnreadCount, listConversations, markMessageDelivered, markMessageRead,
+  sendDirectMessage
+} from '../lib/messaging/direct-messages';
+import type { Delivery } from '../lib/moderation/actions';
+import { getPresence, setAway } from '../lib/presence/tracker';
+import { SignalError, allowSignal, presenceSignal, typingSignal, visiblePresence } from '../lib/presence/signals';
+import type { Signal } from '../lib/presence/signals';
+import {
+  EncryptionKeyError, SEALED_BEACON_TYPES, isSealedSignature, publicKeysFor, publishEncryptionKey, shareSpaceKeys,
+  spaceKeyState, toClientEncryptionKey
+} from '../lib/encryption/keys';
+import { SpaceFileError, readSpaceFile, storeSpaceFile } from '../lib/files/space-files';
+import { Permission } from '../src/services/space-manager/types';
+import { validateRequest } from '../src/protocol';
+import type {
+  ClientBeacon, ClientComment, ClientSpace, ClientSpaceMember, ProtocolRequest, ProtocolResponse,
+  RequestPayload, ResponseFor, SearchCategory, SearchSort, ServerMessage, UserSummary
+} from '../src/protocol';
 
-// For now, authentication is handled by dedicated /api/auth/login endpoint
-// This file handles other message types
+// Login, registration and session refresh live in /api/auth/login; this
+// file handles the other message kinds for callers with a valid session
 let dbInstance: DatabaseAdapter | null = null;
 
 async function getDatabase(): Promise<DatabaseAdapter> {
   if (!dbInstance) {
-    dbInstance = await DatabaseFactory.createFromEnvironment();
+    dbInstance = await DatabaseFactory.getOrCreateFromEnvironment();
   }
   return dbInstance;
 }
 
-interface CommunicationMessage {
-  kind: string;
-  payload: Record<string, unknown>;
-}
+const DEFAULT_BEACON_PAGE_SIZE = 50;
+const MAX_BEACON_PAGE_SIZE = 200;
+const DEFAULT_COMMENT_PAGE_SIZE = 50;
+const MAX_COMMENT_PAGE_SIZE = 200;
+const MAX_COMMENT_LENGTH = 2000;
+const DEFAULT_SEARCH_PAGE_SIZE = 20;
+const MAX_SEARCH_PAGE_SIZE = 50;
+const SEARCH_CATEGORIES: SearchCategory[] = ['all', 'people', 'spaces', 'posts'];
+const SEARCH_SORTS: SearchSort[] = ['relevance', 'recent', 'popular', 'trending'];
 
-interface CommunicationResponse {
-  kind: string;
-  payload: Record<string, unknown>;
+// Messages for other users go through the shared queue so SSE and polling
+// connections on any instance can deliver them
+async function queueMessage(userId: string, message: ServerMessage): Promise<void> {
+  try {
+    await MessageQueueFactory.getOrCreateFromEnvironment().enqueue(userId, message);
+  } catch (error) {
+    console.error('[API] Failed to queue message:', error);
+  }
 }
 
-interface StoredBeacon {
-  beaconId: string;
-  beaconType: string;
-  authorId: string;
-  data: unknown;
-  createdAt: string;
+// Like queueMessage, a delivery failure never fails the request that caused it
+async function fanOutBeacon(userIds: string[], message: ServerMessage<'beaconReceived'>): Promise<void> {
+  if (userIds.length === 0) {
+    return;
+  }
+  try {
+    await MessageQueueFactory.getOrCreateFromEnvironment().fanOut(userIds, message);
+  } catch (error) {
+    console.error('[API] Failed to fan out beacon:', error);
+  }
 }
 
-interface StoredSpace {
-  spaceId: string;
-  name: string;
-  description: string;
-  isPublic: boolean;
-  owner: string;
-  createdAt: string;
-  memberBeaconId?: string;
+async function deliverAll(deliveries: Delivery[]): Promise<void> {
+  for (const { userId, message } of deliveries) {
+    await queueMessage(userId, message);
+  }
 }
 
-// In-memory storage for beacons and message queues only
-// Spaces are now stored in the database
-const beaconStore = new Map<string, StoredBeacon>();
-const messageQueues = new Map<string, CommunicationMessage[]>();
-
-function queueMessage(userId: string, message: CommunicationMessage): void {
-  if (!messageQueues.has(userId)) {
-    messageQueues.set(userId, []);
-  }
-  const queue = messageQueues.get(userId)!;
-  queue.push(message);
-  
-  // Keep only last 100 messages per user to prevent memory issues
-  if (queue.length > 100) {
-    queue.shift();
+// Signals reach whoever is connected right now and are never queued
+async function sendSignal(signal: Signal): Promise<void> {
+  if (signal.userIds.length === 0) {
+    return;
   }
-  
-  // Also queue for SSE delivery
   try {
-    sseQueueMessage(userId, message);
+    await MessageQueueFactory.getOrCreateFromEnvironment().signal(signal.userIds, signal.message);
   } catch (error) {
-    console.error('[API] Failed to queue message for SSE:', error);
+    console.error('[API] Failed to send signal:', error);
   }
 }
 
-function getQueuedMessages(userId: string): CommunicationMessage[] {
-  const messages = messageQueues.get(userId) || [];
-  messageQueues.set(userId, []); // Clear after retrieval
-  return messages;
+// The X-Forwarded-For hop added by the proxy in front (nginx or Vercel), or
+// the peer without one; hops before it come from the client and can be forged
+function clientAddress(req: VercelRequest): string | null {
+  const forwarded = req.headers['x-forwarded-for'];
+  const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+  return last || req.socket?.remoteAddress || null;
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse): Promise<void> {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     res.statusCode = 200;
@@ -106,35 +142,44 @@ export default async function handler(req: VercelRequest, res: VercelResponse):
 
     console.log('[API] Received message:', message.kind);
     
-    // Check database configuration for auth operations
-    if ((message.kind === 'login' || message.kind === 'register') &&
-        !process.env.DATABASE_URL && !process.env.NEON_DATABASE_URL) {
-      console.error('[API] Database not configured for authentication');
-      const errorResponse: CommunicationResponse = {
+    // Auth messages should use dedicated auth endpoint
+    if (message.kind === 'login' || message.kind === 'register') {
+      const redirectResponse: ProtocolResponse<'error'> = {
         kind: 'error',
         payload: {
           requestKind: message.kind,
-          message: 'Database not configured. Please set DATABASE_URL environment variable in Vercel settings.',
-          details: 'See VERCEL_SETUP.md for configuration instructions'
+          message: 'Please use /api/auth/login for authentication',
+          redirect: '/api/auth/login'
         }
       };
-      res.statusCode = 500;
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(redirectResponse));
+      return;
+    }
+    
+    const validation = validateRequest(message);
+    if (!validation.ok) {
+      console.warn('[API] Rejected message:', validation.error.payload.message);
+      res.statusCode = 400;
       res.setHeader('Content-Type', 'application/json');
-      res.end(JSON.stringify(errorResponse));
+      res.end(JSON.stringify(validation.error));
       return;
     }
 
+    // The caller's identity comes from their session, never from the payload
+    const caller = await authenticateRequest(await getDatabase(), req);
+    
     // Route messages to appropriate handlers
-    const response = await handleMessage(message);
+    const response = await handleMessage(validation.request, caller, clientAddress(req));
     
-    res.statusCode = 200;
+    res.statusCode = response.kind === 'error' && response.payload.code === 'UNAUTHENTICATED' ? 401 : 200;
     res.setHeader('Content-Type', 'application/json');
     res.end(JSON.stringify(response));
   } catch (error) {
-    console.error('[API] Error handling message:', error);
-    console.error('[API] Error stack:', error instanceof Error ? error.stack : 'No stack');
+    logSystemEvent('ERROR', 'api', 'Error handling message', { detail: error });
     
-    const errorResponse: CommunicationResponse = {
+    const errorResponse: ProtocolResponse<'error'> = {
       kind: 'error',
       payload: {
         message: error instanceof Error ? error.message : 'Internal server error',
@@ -148,139 +193,318 @@ export default async function handler(req: VercelRequest, res: VercelResponse):
   }
 }
 
-async function handleMessage(message: CommunicationMessage): Promise<CommunicationResponse> {
-  // Handle different types of quantum beacon and social operations
-  switch (message.kind) {
+async function handleMessage(
+  request: ProtocolRequest,
+  caller: AuthenticatedCaller | null,
+  address: string | null
+): Promise<ProtocolResponse> {
+  // Kinds that work without signing in
+  switch (request.kind) {
     case 'ping':
       return {
         kind: 'pong',
         payload: { timestamp: Date.now() }
       };
       
-    case 'login':
-    case 'register':
-      // Auth messages should use dedicated auth endpoint
-      return {
-        kind: 'error',
-        payload: {
-          requestKind: message.kind,
-          message: 'Please use /api/auth/login for authentication',
-          redirect: '/api/auth/login'
-        }
-      };
+    case 'search':
+      return handleSearch(request.payload, caller?.userId);
+      
+    case 'getPublicSpaces':
+      return handleGetPublicSpaces();
       
+    case 'requestPasswordReset':
+      return handleRequestPasswordReset(request.payload, address);
+  }
+  
+  if (!caller) {
+    return {
+      kind: 'error',
+      payload: {
+        requestKind: request.kind,
+        code: 'UNAUTHENTICATED',
+        message: 'A valid session is required'
+      }
+    };
+  }
+  
+  const { userId } = caller;
+  
+  // Suspended accounts keep read access; banned ones are treated as signed out
+  const user = await (await getDatabase()).getUserById(userId);
+  const restriction = user && standingRestriction(user, request.kind);
+  if (restriction) {
+    return {
+      kind: 'error',
+      payload: { requestKind: request.kind, code: restriction.code, message: restriction.message }
+    };
+  }
+  
+  // Handle different types of quantum beacon and social operations
+  switch (request.kind) {
     case 'submitPostBeacon':
-      return handleSubmitPostBeacon(message.payload);
+      return handleSubmitPostBeacon(request.payload, userId);
       
     case 'follow':
-      return handleFollow(message.payload);
+      return handleFollow(request.payload, userId);
       
     case 'getQueuedMessages':
-      return handleGetQueuedMessages(message.payload);
+      return handleGetQueuedMessages(userId);
       
     case 'unfollow':
-      return handleUnfollow(message.payload);
+      return handleUnfollow(request.payload, userId);
       
     case 'getBeaconsByUser':
-      return handleGetBeaconsByUser(message.payload);
+      return handleGetBeaconsByUser(request.payload, userId);
       
-    case 'search':
-      return handleSearch(message.payload);
+    case 'createSpace':
+      return handleCreateSpace(request.payload, userId);
       
-    case 'getPublicSpaces':
-      return handleGetPublicSpaces();
+    case 'joinSpace':
+      return handleJoinSpace(request.payload, userId);
       
-    case 'createSpace':
-      return handleCreateSpace(message.payload);
+    case 'leaveSpace':
+      return handleLeaveSpace(request.payload, userId);
+      
+    case 'getSpaceMembers':
+      return handleGetSpaceMembers(request.payload, userId);
+      
+    case 'updateMemberRole':
+      return handleUpdateMemberRole(request.payload, userId);
+      
+    case 'approveMember':
+      return handleApproveMember(request.payload, userId);
+      
+    case 'removeMember':
+      return handleRemoveMember(request.payload, userId);
+      
+    case 'createSpaceInvite':
+      return handleCreateSpaceInvite(request.payload, userId);
+      
+    case 'acceptSpaceInvite':
+      return handleAcceptSpaceInvite(request.payload, userId);
+      
+    case 'getSpaceSettings':
+      return handleGetSpaceSettings(request.payload, userId);
+      
+    case 'updateSpaceSettings':
+      return handleUpdateSpaceSettings(request.payload, userId);
+      
+    case 'deleteSpace':
+      return handleDeleteSpace(request.payload, userId);
+      
+    case 'recordSpaceView':
+      return handleRecordSpaceView(request.payload, userId);
+      
+    case 'getAnalytics':
+      return handleGetAnalytics(request.payload, userId);
       
     case 'submitCommentBeacon':
-      return handleSubmitCommentBeacon(message.payload);
+      return handleSubmitCommentBeacon(request.payload, userId);
+      
+    case 'editComment':
+      return handleEditComment(request.payload, userId);
+      
+    case 'deleteComment':
+      return handleDeleteComment(request.payload, userId);
+      
+    case 'getComments':
+      return handleGetComments(request.payload, userId);
       
     case 'likePost':
-      return handleLikePost(message.payload);
+      return handleLikePost(request.payload, userId);
       
-    default:
-      return {
-        kind: 'echo',
-        payload: { 
-          message: `Received ${message.kind} (production mode)`,
-          note: 'Connect to full backend with Neon database for complete functionality',
-          original: message.payload
-        }
-      };
+    case 'unlikePost':
+      return handleUnlikePost(request.payload, userId);
+      
+    case 'getPostEngagement':
+      return handleGetPostEngagement(request.payload, userId);
+      
+    case 'getFollowers':
+      return handleGetFollowers(request.payload, userId);
+      
+    case 'getFollowing':
+      return handleGetFollowing(request.payload, userId);
+      
+    case 'getMutualFollows':
+      return handleGetMutualFollows(userId);
+      
+    case 'getSpaceFiles':
+      return handleGetSpaceFiles(request.payload, userId);
+      
+    case 'addFileToSpace':
+      return handleAddFileToSpace(request.payload, userId);
+      
+    case 'removeFileFromSpace':
+      return handleRemoveFileFromSpace(request.payload, userId);
+      
+    case 'downloadFile':
+      return handleDownloadFile(request.payload, userId);
+      
+    case 'sendPrivateMessage':
+      return handleSendPrivateMessage(request.payload, userId);
+      
+    case 'getConversationHistory':
+      return handleGetConversationHistory(request.payload, userId);
+      
+    case 'getRecentConversations':
+      return handleGetRecentConversations(userId);
+      
+    case 'markMessageRead':
+      return handleMarkMessageRead(request.payload, userId);
+      
+    case 'markMessageDelivered':
+      return handleMarkMessageDelivered(request.payload, userId);
+      
+    case 'getUnreadCount':
+      return handleGetUnreadCount(userId);
+      
+    case 'setTyping':
+      return handleSetTyping(request.payload, userId);
+      
+    case 'setPresence':
+      return handleSetPresence(request.payload, userId);
+      
+    case 'getPresence':
+      return handleGetPresence(request.payload, userId);
+      
+    case 'requestTeleport':
+      return handleRequestTeleport(request.payload, userId);
+      
+    case 'reportContent':
+      return handleReportContent(request.payload, userId);
+      
+    case 'getAnnouncements':
+      return handleGetAnnouncements(userId);
+      
+    case 'dismissAnnouncement':
+      return handleDismissAnnouncement(request.payload, userId);
+      
+    case 'publishEncryptionKey':
+      return handlePublishEncryptionKey(request.payload, userId);
+      
+    case 'getPublicKeys':
+      return handleGetPublicKeys(request.payload);
+      
+    case 'getSpaceKeys':
+      return handleGetSpaceKeys(request.payload, userId);
+      
+    case 'shareSpaceKeys':
+      return handleShareSpaceKeys(request.payload, userId);
   }
 }
 
 // Individual message handlers with proper typing
 
-async function handleSubmitPostBeacon(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { userId, beacon, beaconType } = payload;
+async function handleSubmitPostBeacon(payload: RequestPayload<'submitPostBeacon'>, userId: string): Promise<ResponseFor<'submitPostBeacon'>> {
+  const { beacon, beaconType, recipientId, spaceId } = payload;
+  
+  if (!beaconType || !beacon || typeof beacon !== 'object') {
+    return {
+      kind: 'error',
+      payload: {
+        requestKind: 'submitPostBeacon',
+        message: 'beaconType and beacon are required'
+      }
+    };
+  }
   
+  // Private beacons are sealed on the client; their plaintext never reaches
+  // the server, so nothing is read from their content
+  const sealed = SEALED_BEACON_TYPES.has(beaconType);
+  if (sealed && !isSealedSignature(beacon.signature)) {
+    return errorResponse('submitPostBeacon', `${beaconType} beacons must be sealed`);
+  }
+  const { originalText, ...withoutText } = beacon;
+  const submitted = sealed ? withoutText : beacon;
   const beaconId = `beacon_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   
-  // Store beacon in memory
-  const storedBeacon: StoredBeacon = {
-    beaconId,
-    beaconType: beaconType as string,
-    authorId: userId as string,
-    data: beacon,
-    createdAt: new Date().toISOString()
-  };
+  const metadata: Record<string, unknown> = { index: submitted.index ?? [] };
+  if (originalText && !sealed) {
+    metadata.originalText = originalText;
+  }
+  if (spaceId) {
+    metadata.space_id = spaceId;
+  }
+  const recipient = DIRECT_BEACON_TYPES.has(beaconType) ? recipientId : undefined;
+  if (recipient) {
+    metadata.recipient_id = recipient;
+  }
   
-  beaconStore.set(beaconId, storedBeacon);
-  console.log(`[API] Stored beacon ${beaconId} of type ${beaconType} for user ${userId}`);
-  
-  // If it's a space member beacon, we could update the space metadata in the database
-  // For now, just log it - member count will be calculated from beacons when needed
-  if (beaconType === 'SPACE_MEMBERS' && beacon && typeof beacon === 'object') {
-    const beaconData = beacon as Record<string, unknown>;
-    // Extract spaceId from signature if available
-    if ('signature' in beaconData && beaconData.signature) {
-      try {
-        // Decode signature to get original text
-        const signature = beaconData.signature as number[];
-        const textLength = new DataView(new Uint8Array(signature.slice(0, 4)).buffer).getUint32(0, true);
-        const textBytes = signature.slice(4, 4 + textLength);
-        const originalText = new TextDecoder().decode(new Uint8Array(textBytes));
-        const data = JSON.parse(originalText) as { spaceId?: string };
-        
-        if (data.spaceId) {
-          console.log(`[API] Space member beacon ${beaconId} linked to space ${data.spaceId}`);
-          // TODO: Could update space metadata in database here if needed
-        }
-      } catch (error) {
-        console.error('[API] Error parsing beacon signature:', error);
+  try {
+    const db = await getDatabase();
+    
+    if (spaceId) {
+      const denied = await checkSpacePermission(db, 'submitPostBeacon', spaceId, userId, Permission.CONTRIBUTE_FILES);
+      if (denied) {
+        return denied;
       }
     }
-  }
-  
-  return {
-    kind: 'submitPostSuccess',
-    payload: {
-      message: 'Post beacon submitted and stored',
-      timestamp: Date.now(),
-      beaconId,
-      userId: userId as string
+    
+    const recipients = await beaconRecipients(db, { beaconType, senderId: userId, spaceId, recipientId: recipient });
+    
+    const stored = await db.createBeacon({
+      beacon_id: beaconId,
+      beacon_type: beaconType,
+      author_id: userId,
+      prime_indices: toPrimeIndices(submitted.index ?? []),
+      epoch: typeof submitted.epoch === 'number' ? submitted.epoch : Date.now(),
+      fingerprint: Buffer.from(submitted.fingerprint ?? []),
+      signature: Buffer.from(submitted.signature ?? []),
+      metadata
+    });
+    
+    console.log(`[API] Stored beacon ${stored.beacon_id} of type ${beaconType} for user ${userId}`);
+    
+    const eventType = eventForBeacon(beaconType);
+    if (eventType) {
+      await recordEvent(db, eventType, userId, spaceId);
     }
-  };
+    
+    await fanOutBeacon(recipients, {
+      kind: 'beaconReceived',
+      payload: { beaconId: stored.beacon_id, senderId: userId, beaconType, beacon: submitted, spaceId, timestamp: Date.now() }
+    });
+    
+    return {
+      kind: 'submitPostSuccess',
+      payload: {
+        message: 'Post beacon submitted and stored',
+        timestamp: Date.now(),
+        beaconId: stored.beacon_id,
+        userId: userId
+      }
+    };
+  } catch (error) {
+    if (error instanceof BeaconRoutingError) {
+      return errorResponse('submitPostBeacon', error.message);
+    }
+    console.error('[API] Error storing beacon:', error);
+    return {
+      kind: 'error',
+      payload: {
+        requestKind: 'submitPostBeacon',
+        message: 'Failed to store beacon',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
 }
 
-async function handleFollow(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { userIdToFollow, userId } = payload;
-  // sessionToken validation will be implemented with production database
+async function handleFollow(payload: RequestPayload<'follow'>, userId: string): Promise<ResponseFor<'follow'>> {
+  const { userIdToFollow } = payload;
   
-  // In production, this would:
-  // 1. Update the database follow relationship
-  // 2. Send a real-time notification to the target user
-  // 3. Trigger follower count update
+  if (userIdToFollow !== userId) {
+    const db = await getDatabase();
+    await db.createFollow(userId, userIdToFollow);
+  }
   
   // Queue notification for the target user
-  if (userIdToFollow && userIdToFollow !== userId) {
-    queueMessage(userIdToFollow as string, {
+  if (userIdToFollow !== userId) {
+    await queueMessage(userIdToFollow, {
       kind: 'followNotification',
       payload: {
-        followerId: userId as string,
-        followerUsername: `user_${(userId as string).substring(0, 8)}`,
+        followerId: userId,
+        followerUsername: `user_${userId.substring(0, 8)}`,
         type: 'follow',
         timestamp: Date.now()
       }
@@ -291,15 +515,15 @@ async function handleFollow(payload: Record<string, unknown>): Promise<Communica
   return {
     kind: 'followSuccess',
     payload: {
-      userIdToFollow: userIdToFollow as string,
-      message: 'Follow action completed (production mode)',
-      follower: userId as string,
+      userIdToFollow: userIdToFollow,
+      message: 'Follow action completed',
+      follower: userId,
       // Include notification data that would be sent via SSE
       notification: {
         kind: 'followNotification',
         payload: {
-          followerId: userId as string,
-          followerUsername: `user_${(userId as string).substring(0, 8)}`,
+          followerId: userId,
+          followerUsername: `user_${userId.substring(0, 8)}`,
           type: 'follow'
         }
       }
@@ -307,22 +531,19 @@ async function handleFollow(payload: Record<string, unknown>): Promise<Communica
   };
 }
 
-async function handleUnfollow(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { userIdToUnfollow, userId } = payload;
-  // sessionToken validation will be implemented with production database
+async function handleUnfollow(payload: RequestPayload<'unfollow'>, userId: string): Promise<ResponseFor<'unfollow'>> {
+  const { userIdToUnfollow } = payload;
   
-  // In production, this would:
-  // 1. Remove the database follow relationship
-  // 2. Send a real-time notification to the target user
-  // 3. Trigger follower count update
+  const db = await getDatabase();
+  await db.removeFollow(userId, userIdToUnfollow);
   
   // Queue notification for the target user
-  if (userIdToUnfollow && userIdToUnfollow !== userId) {
-    queueMessage(userIdToUnfollow as string, {
+  if (userIdToUnfollow !== userId) {
+    await queueMessage(userIdToUnfollow, {
       kind: 'followNotification',
       payload: {
-        followerId: userId as string,
-        followerUsername: `user_${(userId as string).substring(0, 8)}`,
+        followerId: userId,
+        followerUsername: `user_${userId.substring(0, 8)}`,
         type: 'unfollow',
         timestamp: Date.now()
       }
@@ -332,15 +553,15 @@ async function handleUnfollow(payload: Record<string, unknown>): Promise<Communi
   return {
     kind: 'unfollowSuccess',
     payload: {
-      userIdToUnfollow: userIdToUnfollow as string,
-      message: 'Unfollow action completed (production mode)',
-      follower: userId as string,
+      userIdToUnfollow: userIdToUnfollow,
+      message: 'Unfollow action completed',
+      follower: userId,
       // Include notification data that would be sent via SSE
       notification: {
         kind: 'followNotification',
         payload: {
-          followerId: userId as string,
-          followerUsername: `user_${(userId as string).substring(0, 8)}`,
+          followerId: userId,
+          followerUsername: `user_${userId.substring(0, 8)}`,
           type: 'unfollow'
         }
       }
@@ -348,59 +569,126 @@ async function handleUnfollow(payload: Record<string, unknown>): Promise<Communi
   };
 }
 
-async function handleGetBeaconsByUser(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { userId, beaconType } = payload;
+async function handleGetBeaconsByUser(payload: RequestPayload<'getBeaconsByUser'>, userId: string): Promise<ResponseFor<'getBeaconsByUser'>> {
+  const { beaconType, limit, cursor } = payload;
   
-  // In production, this would query the Neon database
-  // For now, return empty array with proper structure
-  return {
-    kind: 'beaconsResponse',
-    payload: {
-      beacons: [],
-      userId: userId as string,
-      beaconType: beaconType as string,
-      count: 0,
-      hasMore: false
-    }
-  };
+  // payload.userId names the author and defaults to the caller; '*' requests
+  // beacons from every author. Beacons the caller may not read are left out,
+  // see visibleBeacons
+  const subjectId = payload.userId ?? userId;
+  const authorId = subjectId !== '*' ? subjectId : undefined;
+  const pageSize = Math.min(
+    typeof limit === 'number' && limit > 0 ? limit : DEFAULT_BEACON_PAGE_SIZE,
+    MAX_BEACON_PAGE_SIZE
+  );
+  const offset = typeof cursor === 'string' ? Math.max(parseInt(cursor, 10) || 0, 0) : 0;
+  
+  try {
+    const db = await getDatabase();
+    
+    // Over-fetch by one to find out whether another page exists
+    const rows = await db.queryBeacons({
+      author_id: authorId,
+      beacon_type: beaconType,
+      limit: pageSize + 1,
+      offset,
+      order_by: 'created_at',
+      order_direction: 'desc'
+    });
+    
+    // Pages count stored rows, so a page can come back short of pageSize
+    // while hasMore is still true
+    const hasMore = rows.length > pageSize;
+    const page = await visibleBeacons(db, rows.slice(0, pageSize), userId);
+    const usernames = await resolveUsernames(db, page.map(b => b.author_id));
+    const beacons = page.map(b => toClientBeacon(b, userId, usernames.get(b.author_id)));
+    
+    return {
+      kind: 'beaconsResponse',
+      payload: {
+        beacons,
+        userId: userId,
+        beaconType: beaconType,
+        count: beacons.length,
+        hasMore,
+        cursor: hasMore ? String(offset + pageSize) : null
+      }
+    };
+  } catch (error) {
+    console.error('[API] Error getting beacons:', error);
+    return {
+      kind: 'error',
+      payload: {
+        requestKind: 'getBeaconsByUser',
+        message: 'Failed to retrieve beacons',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
 }
 
-async function handleSearch(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { query, category } = payload;
+async function handleSearch(payload: RequestPayload<'search'>, userId?: string): Promise<ResponseFor<'search'>> {
+  const { query } = payload;
+  const category = payload.category ?? 'all';
+  const sortBy = payload.sortBy ?? 'relevance';
   
-  // In production, this would query the Neon database
-  // For now, return empty results with proper structure
-  return {
-    kind: 'searchResponse',
-    payload: {
-      users: [],
-      spaces: [],
-      beacons: [],
-      query: query as string,
-      category: category as string,
-      totalResults: 0,
-      page: 1,
-      hasMore: false
-    }
-  };
+  if (!SEARCH_CATEGORIES.includes(category) || !SEARCH_SORTS.includes(sortBy)) {
+    return errorResponse('search', `category must be one of ${SEARCH_CATEGORIES.join(', ')} and sortBy one of ${SEARCH_SORTS.join(', ')}`);
+  }
+  
+  const page = Math.max(Math.floor(payload.page ?? 1), 1);
+  const pageSize = Math.min(
+    typeof payload.pageSize === 'number' && payload.pageSize > 0 ? Math.floor(payload.pageSize) : DEFAULT_SEARCH_PAGE_SIZE,
+    MAX_SEARCH_PAGE_SIZE
+  );
+  const options = { limit: pageSize, offset: (page - 1) * pageSize, sort_by: sortBy };
+  const includes = (wanted: SearchCategory) => category === 'all' || category === wanted;
+  
+  try {
+    const db = await getDatabase();
+    
+    // Only post beacons are searchable; other types carry private content
+    const [users, spaces, beacons] = await Promise.all([
+      includes('people') ? db.searchUsers(query, options) : { results: [], total: 0 },
+      includes('spaces') ? db.searchSpaces(query, options) : { results: [], total: 0 },
+      includes('posts') ? db.searchBeacons(query, 'post', options) : { results: [], total: 0 }
+    ]);
+    
+    const usernames = await resolveUsernames(db, beacons.results.map(b => b.author_id));
+    const memberCounts = await db.getSpaceMemberCounts(spaces.results.map(space => space.space_id));
+    const totals = { people: users.total, spaces: spaces.total, posts: beacons.total };
+    const totalResults = totals.people + totals.spaces + totals.posts;
+    
+    return {
+      kind: 'searchResponse',
+      payload: {
+        users: users.results.map(toUserSummary),
+        spaces: spaces.results.map(space => toClientSpace(space, memberCounts.get(space.space_id) ?? 0)),
+        beacons: beacons.results.map(b => toClientBeacon(b, userId, usernames.get(b.author_id))),
+        query,
+        category,
+        sortBy,
+        totals,
+        totalResults,
+        page,
+        hasMore: Math.max(totals.people, totals.spaces, totals.posts) > page * pageSize
+      }
+    };
+  } catch (error) {
+    console.error('[API] Error searching:', error);
+    return errorResponse('search', 'Search failed', error);
+  }
 }
 
-async function handleGetPublicSpaces(): Promise<CommunicationResponse> {
+async function handleGetPublicSpaces(): Promise<ResponseFor<'getPublicSpaces'>> {
   try {
     const db = await getDatabase();
     
     // Get all public spaces from database
     const spaces = await db.getPublicSpaces(100); // Limit to 100 for now
+    const memberCounts = await db.getSpaceMemberCounts(spaces.map(space => space.space_id));
     
-    const publicSpaces = spaces.map(space => ({
-      space_id: space.space_id,
-      name: space.name,
-      description: space.description,
-      is_public: space.is_public ? 1 : 0,
-      member_count: 1, // TODO: Calculate from member beacons
-      created_at: space.created_at,
-      owner: space.owner_id
-    }));
+    const publicSpaces = spaces.map(space => toClientSpace(space, memberCounts.get(space.space_id) ?? 0));
     
     console.log(`[API] Returning ${publicSpaces.length} public spaces from database`);
     
@@ -425,9 +713,9 @@ async function handleGetPublicSpaces(): Promise<CommunicationResponse> {
   }
 }
 
-async function handleCreateSpace(payload: Record<string, unknown>): Promise<CommunicationResponse> {
+async function handleCreateSpace(payload: RequestPayload<'createSpace'>, userId: string): Promise<ResponseFor<'createSpace'>> {
   try {
-    const { name, description, isPublic, userId } = payload;
+    const { name, description, isPublic } = payload;
     
     // Generate a unique space ID
     const spaceId = `space_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
@@ -436,21 +724,30 @@ async function handleCreateSpace(payload: Record<string, unknown>): Promise<Comm
     
     const db = await getDatabase();
     
-    // Store space in database
-    const newSpace = await db.createSpace({
-      space_id: spaceId,
-      name: name as string,
-      description: description as string,
-      is_public: isPublic as boolean,
-      owner_id: userId as string,
-      metadata: {}
+    // A session can outlive its account; only existing users may own spaces
+    if (!(await db.getUserById(userId))) {
+      return forbiddenResponse('createSpace', 'Your account cannot create spaces');
+    }
+    
+    // Store the space with its creator as owner
+    const newSpace = await db.transaction(async tx => {
+      const space = await tx.createSpace({
+        space_id: spaceId,
+        name: name,
+        description: description,
+        is_public: isPublic,
+        owner_id: userId,
+        metadata: {}
+      });
+      await tx.addSpaceMember({ space_id: spaceId, user_id: userId, role: 'owner', status: 'active' });
+      return space;
     });
     
     console.log(`[API] Space created in database:`, newSpace);
     
     // Queue the success notification for SSE delivery
     if (userId) {
-      const createSpaceMessage: CommunicationMessage = {
+      const createSpaceMessage: ServerMessage<'createSpaceSuccess'> = {
         kind: 'createSpaceSuccess',
         payload: {
           spaceId: newSpace.space_id,
@@ -465,7 +762,7 @@ async function handleCreateSpace(payload: Record<string, unknown>): Promise<Comm
       };
       
       console.log(`[API] Queueing createSpaceSuccess message for user ${userId}`);
-      queueMessage(userId as string, createSpaceMessage);
+      await queueMessage(userId, createSpaceMessage);
     }
     
     return {
@@ -494,57 +791,1299 @@ async function handleCreateSpace(payload: Record<string, unknown>): Promise<Comm
   }
 }
 
-async function handleSubmitCommentBeacon(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { postBeaconId, userId } = payload;
-  // sessionToken validation will be implemented with production database
-  
-  return {
-    kind: 'submitCommentSuccess',
-    payload: { 
-      commentId: `comment_${Math.random().toString(36).substring(2, 15)}`,
-      postBeaconId: postBeaconId as string,
-      author: userId as string,
-      message: 'Comment beacon submitted (production mode)'
+// Space membership handlers
+// The rules live in lib/spaces/membership; these resolve the caller and tell
+// affected members what changed
+
+async function handleJoinSpace(payload: RequestPayload<'joinSpace'>, userId: string): Promise<ResponseFor<'joinSpace'>> {
+  try {
+    const db = await getDatabase();
+    const member = await joinSpace(db, payload.spaceId, userId);
+    const [clientMember] = await toClientSpaceMembers(db, [member]);
+    const memberCount = await countActiveMembers(db, payload.spaceId);
+    
+    // Requests to join count once approved
+    if (member.status === 'active') {
+      await recordEvent(db, 'join', userId, payload.spaceId);
+    } else {
+      const managers = (await db.getSpaceMembers(payload.spaceId, 'active'))
+        .filter(m => permissionsFor(m.role).includes(Permission.MANAGE_MEMBERS));
+      for (const manager of managers) {
+        await queueMessage(manager.user_id, {
+          kind: 'memberUpdated',
+          payload: { spaceId: payload.spaceId, member: clientMember, memberCount }
+        });
+      }
     }
-  };
+    
+    return {
+      kind: 'spaceJoined',
+      payload: { spaceId: payload.spaceId, member: clientMember, memberCount }
+    };
+  } catch (error) {
+    return spaceErrorResponse('joinSpace', 'Failed to join space', error);
+  }
 }
 
-async function handleLikePost(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { postBeaconId, userId } = payload;
-  // sessionToken validation will be implemented with production database
-  
-  return {
-    kind: 'likePostSuccess',
-    payload: {
-      postBeaconId: postBeaconId as string,
-      liked: true,
-      user: userId as string,
-      message: 'Like action completed (production mode)'
-    }
-  };
+async function handleLeaveSpace(payload: RequestPayload<'leaveSpace'>, userId: string): Promise<ResponseFor<'leaveSpace'>> {
+  try {
+    const db = await getDatabase();
+    await leaveSpace(db, payload.spaceId, userId);
+    
+    return {
+      kind: 'memberRemoved',
+      payload: { spaceId: payload.spaceId, userId, memberCount: await countActiveMembers(db, payload.spaceId) }
+    };
+  } catch (error) {
+    return spaceErrorResponse('leaveSpace', 'Failed to leave space', error);
+  }
 }
 
-async function handleGetQueuedMessages(payload: Record<string, unknown>): Promise<CommunicationResponse> {
-  const { userId } = payload;
+async function handleGetSpaceMembers(payload: RequestPayload<'getSpaceMembers'>, userId: string): Promise<ResponseFor<'getSpaceMembers'>> {
+  const { spaceId } = payload;
   
-  if (!userId) {
+  try {
+    const db = await getDatabase();
+    const access = await resolveSpaceAccess(db, spaceId, userId);
+    if (!access) {
+      return errorResponse('getSpaceMembers', `Space not found: ${spaceId}`);
+    }
+    if (!hasPermission(access, Permission.VIEW_SPACE)) {
+      return forbiddenResponse('getSpaceMembers', 'Only members can see who is in a private space', Permission.VIEW_SPACE);
+    }
+    
+    const rows = await db.getSpaceMembers(spaceId);
+    const canManageMembers = hasPermission(access, Permission.MANAGE_MEMBERS);
+    const visible = rows.filter(m => m.status === 'active' || canManageMembers);
+    const clientMembers = await toClientSpaceMembers(db, visible);
+    const members = clientMembers.filter(m => m.status === 'active');
+    
     return {
-      kind: 'error',
+      kind: 'spaceMembersResponse',
       payload: {
-        message: 'User ID required for polling messages'
+        spaceId,
+        members,
+        pending: clientMembers.filter(m => m.status === 'pending'),
+        count: members.length
       }
     };
+  } catch (error) {
+    console.error('[API] Error getting space members:', error);
+    return errorResponse('getSpaceMembers', 'Failed to retrieve space members', error);
+  }
+}
+
+async function handleUpdateMemberRole(payload: RequestPayload<'updateMemberRole'>, userId: string): Promise<ResponseFor<'updateMemberRole'>> {
+  try {
+    const db = await getDatabase();
+    const member = await updateMemberRole(db, payload.spaceId, userId, payload.userId, payload.role);
+    return notifyMemberUpdated(db, member);
+  } catch (error) {
+    return spaceErrorResponse('updateMemberRole', 'Failed to update member role', error);
+  }
+}
+
+async function handleApproveMember(payload: RequestPayload<'approveMember'>, userId: string): Promise<ResponseFor<'approveMember'>> {
+  try {
+    const db = await getDatabase();
+    const member = await approveMember(db, payload.spaceId, userId, payload.userId);
+    await recordEvent(db, 'join', member.user_id, member.space_id);
+    return notifyMemberUpdated(db, member);
+  } catch (error) {
+    return spaceErrorResponse('approveMember', 'Failed to approve member', error);
   }
+}
+
+async function handleRemoveMember(payload: RequestPayload<'removeMember'>, userId: string): Promise<ResponseFor<'removeMember'>> {
+  const { spaceId } = payload;
   
-  const messages = getQueuedMessages(userId as string);
+  // Removing yourself is leaving, which needs no management rights
+  if (payload.userId === userId) {
+    return handleLeaveSpace({ spaceId }, userId);
+  }
   
-  return {
-    kind: 'queuedMessages',
-    payload: {
-      messages,
-      count: messages.length,
-      timestamp: Date.now()
-    }
+  try {
+    const db = await getDatabase();
+    await removeMember(db, spaceId, userId, payload.userId);
+    
+    const removed: ServerMessage<'memberRemoved'> = {
+      kind: 'memberRemoved',
+      payload: { spaceId, userId: payload.userId, memberCount: await countActiveMembers(db, spaceId) }
+    };
+    await queueMessage(payload.userId, removed);
+    return removed;
+  } catch (error) {
+    return spaceErrorResponse('removeMember', 'Failed to remove member', error);
+  }
+}
+
+async function handleCreateSpaceInvite(payload: RequestPayload<'createSpaceInvite'>, userId: string): Promise<ResponseFor<'createSpaceInvite'>> {
+  const { spaceId, role, expiresInHours, maxUses } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const { token, url, invite } = await createInvite(db, spaceId, userId, {
+      role: role ?? undefined,
+      ttlMs: typeof expiresInHours === 'number' ? expiresInHours * 60 * 60 * 1000 : undefined,
+      maxUses: maxUses ?? undefined
+    });
+    
+    return {
+      kind: 'spaceInviteCreated',
+      payload: { spaceId, token, url, role: invite.role, expiresAt: invite.expires_at, maxUses: invite.max_uses }
+    };
+  } catch (error) {
+    return spaceErrorResponse('createSpaceInvite', 'Failed to create invite', error);
+  }
+}
+
+async function handleAcceptSpaceInvite(payload: RequestPayload<'acceptSpaceInvite'>, userId: string): Promise<ResponseFor<'acceptSpaceInvite'>> {
+  try {
+    const db = await getDatabase();
+    const member = await acceptInvite(db, payload.token, userId);
+    const [clientMember] = await toClientSpaceMembers(db, [member]);
+    await recordEvent(db, 'join', userId, member.space_id);
+    
+    return {
+      kind: 'spaceJoined',
+      payload: { spaceId: member.space_id, member: clientMember, memberCount: await countActiveMembers(db, member.space_id) }
+    };
+  } catch (error) {
+    return spaceErrorResponse('acceptSpaceInvite', 'Failed to accept invite', error);
+  }
+}
+
+// Space settings handlers
+
+async function handleGetSpaceSettings(payload: RequestPayload<'getSpaceSettings'>, userId: string): Promise<ResponseFor<'getSpaceSettings'>> {
+  const { spaceId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const access = await resolveSpaceAccess(db, spaceId, userId);
+    if (!access) {
+      return errorResponse('getSpaceSettings', `Space not found: ${spaceId}`);
+    }
+    if (!hasPermission(access, Permission.VIEW_SPACE)) {
+      return forbiddenResponse('getSpaceSettings', 'Only members can see the settings of a private space', Permission.VIEW_SPACE);
+    }
+    
+    return toSpaceSettingsResponse(access.space, hasPermission(access, Permission.ADMIN));
+  } catch (error) {
+    console.error('[API] Error getting space settings:', error);
+    return errorResponse('getSpaceSettings', 'Failed to retrieve space settings', error);
+  }
+}
+
+async function handleUpdateSpaceSettings(payload: RequestPayload<'updateSpaceSettings'>, userId: string): Promise<ResponseFor<'updateSpaceSettings'>> {
+  const { spaceId, name, description, settings } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const space = await updateSpace(db, spaceId, userId, {
+      name: name ?? undefined,
+      description: description ?? undefined,
+      settings: settings ?? undefined
+    });
+    
+    console.log(`[API] Updated settings for space ${spaceId}`);
+    return toSpaceSettingsResponse(space, true);
+  } catch (error) {
+    return spaceErrorResponse('updateSpaceSettings', 'Failed to update space settings', error);
+  }
+}
+
+async function handleDeleteSpace(payload: RequestPayload<'deleteSpace'>, userId: string): Promise<ResponseFor<'deleteSpace'>> {
+  const { spaceId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const members = await deleteSpace(db, spaceId, userId);
+    
+    console.log(`[API] Deleted space ${spaceId} and its content for user ${userId}`);
+    
+    const deleted: ServerMessage<'spaceDeleted'> = { kind: 'spaceDeleted', payload: { spaceId } };
+    for (const member of members.filter(m => m.user_id !== userId)) {
+      await queueMessage(member.user_id, deleted);
+    }
+    return deleted;
+  } catch (error) {
+    return spaceErrorResponse('deleteSpace', 'Failed to delete space', error);
+  }
+}
+
+// Tell a member a manager changed their membership, and answer the manager
+async function notifyMemberUpdated(db: DatabaseAdapter, member: SpaceMember): Promise<ProtocolResponse<'memberUpdated'>> {
+  const [clientMember] = await toClientSpaceMembers(db, [member]);
+  const updated: ServerMessage<'memberUpdated'> = {
+    kind: 'memberUpdated',
+    payload: { spaceId: member.space_id, member: clientMember, memberCount: await countActiveMembers(db, member.space_id) }
+  };
+  await queueMessage(member.user_id, updated);
+  return updated;
+}
+
+async function countActiveMembers(db: DatabaseAdapter, spaceId: string): Promise<number> {
+  return (await db.getSpaceMemberCounts([spaceId])).get(spaceId) ?? 0;
+}
+
+// Engagement handlers
+// Comments and likes hang off a post beacon; its author is notified of both
+
+async function handleSubmitCommentBeacon(payload: RequestPayload<'submitCommentBeacon'>, userId: string): Promise<ResponseFor<'submitCommentBeacon'>> {
+  const { postBeaconId, parentCommentId } = payload;
+  const content = payload.content.trim();
+  
+  if (!content || content.length > MAX_COMMENT_LENGTH) {
+    return errorResponse('submitCommentBeacon', `Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`);
+  }
+  
+  try {
+    const db = await getDatabase();
+    const post = await db.getBeaconById(postBeaconId);
+    if (!post || post.hidden_at) {
+      return errorResponse('submitCommentBeacon', 'Post not found');
+    }
+    
+    const denied = await checkPostPermission(db, 'submitCommentBeacon', post, userId, Permission.CONTRIBUTE_FILES);
+    if (denied) {
+      return denied;
+    }
+    
+    const parent = parentCommentId ? await db.getCommentById(parentCommentId) : null;
+    if (parentCommentId && (!parent || parent.post_beacon_id !== postBeaconId)) {
+      return errorResponse('submitCommentBeacon', 'Parent comment not found on this post');
+    }
+    
+    const stored = await db.createComment({
+      comment_id: `comment_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      post_beacon_id: postBeaconId,
+      author_id: userId,
+      parent_comment_id: parent?.comment_id,
+      content
+    });
+    
+    const [usernames, commentCount] = await Promise.all([
+      resolveUsernames(db, [userId]),
+      db.getCommentCount(postBeaconId)
+    ]);
+    const comment = toClientComment(stored, usernames);
+    
+    // The post author and the author of the comment being answered both hear about it
+    const notification: ServerMessage<'commentNotification'> = {
+      kind: 'commentNotification',
+      payload: { postBeaconId, comment, timestamp: Date.now() }
+    };
+    const recipients = new Set([post.author_id, parent?.author_id].filter((id): id is string => !!id && id !== userId));
+    for (const recipientId of recipients) {
+      await queueMessage(recipientId, notification);
+    }
+    
+    return {
+      kind: 'submitCommentSuccess',
+      payload: {
+        commentId: stored.comment_id,
+        postBeaconId,
+        author: userId,
+        message: 'Comment stored',
+        comment,
+        commentCount
+      }
+    };
+  } catch (error) {
+    console.error('[API] Error storing comment:', error);
+    return errorResponse('submitCommentBeacon', 'Failed to store comment', error);
+  }
+}
+
+async function handleEditComment(payload: RequestPayload<'editComment'>, userId: string): Promise<ResponseFor<'editComment'>> {
+  const { commentId } = payload;
+  const content = payload.content.trim();
+  
+  if (!content || content.length > MAX_COMMENT_LENGTH) {
+    return errorResponse('editComment', `Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`);
+  }
+  
+  try {
+    const db = await getDatabase();
+    // Only the author can edit, and deleted comments stay deleted
+    const updated = await db.updateComment(commentId, userId, content);
+    if (!updated) {
+      return errorResponse('editComment', 'Comment not found or not editable');
+    }
+    
+    return {
+      kind: 'commentUpdated',
+      payload: { comment: toClientComment(updated, await resolveUsernames(db, [userId])) }
+    };
+  } catch (error) {
+    console.error('[API] Error editing comment:', error);
+    return errorResponse('editComment', 'Failed to edit comment', error);
+  }
+}
+
+async function handleDeleteComment(payload: RequestPayload<'deleteComment'>, userId: string): Promise<ResponseFor<'deleteComment'>> {
+  const { commentId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const comment = await db.getCommentById(commentId);
+    if (!comment || !(await db.deleteComment(commentId, userId))) {
+      return errorResponse('deleteComment', 'Comment not found or not deletable');
+    }
+    
+    return {
+      kind: 'commentDeleted',
+      payload: {
+        commentId,
+        postBeaconId: comment.post_beacon_id,
+        commentCount: await db.getCommentCount(comment.post_beacon_id)
+      }
+    };
+  } catch (error) {
+    console.error('[API] Error deleting comment:', error);
+    return errorResponse('deleteComment', 'Failed to delete comment', error);
+  }
+}
+
+async function handleGetComments(payload: RequestPayload<'getComments'>, userId: string): Promise<ResponseFor<'getComments'>> {
+  const { postBeaconId, limit, cursor } = payload;
+  const pageSize = Math.min(
+    typeof limit === 'number' && limit > 0 ? limit : DEFAULT_COMMENT_PAGE_SIZE,
+    MAX_COMMENT_PAGE_SIZE
+  );
+  const offset = typeof cursor === 'string' ? Math.max(parseInt(cursor, 10) || 0, 0) : 0;
+  
+  try {
+    const db = await getDatabase();
+    
+    const post = await db.getBeaconById(postBeaconId);
+    if (post?.hidden_at) {
+      return errorResponse('getComments', 'Post not found');
+    }
+    const denied = post && await checkPostPermission(db, 'getComments', post, userId, Permission.VIEW_SPACE);
+    if (denied) {
+      return denied;
+    }
+    
+    // Over-fetch by one to find out whether another page exists
+    const rows = await db.getComments(postBeaconId, pageSize + 1, offset);
+    const hasMore = rows.length > pageSize;
+    const page = rows.slice(0, pageSize);
+    const usernames = await resolveUsernames(db, page.map(c => c.author_id));
+    const comments = page.map(c => toClientComment(c, usernames));
+    
+    return {
+      kind: 'commentsResponse',
+      payload: {
+        postBeaconId,
+        comments,
+        count: comments.length,
+        hasMore,
+        cursor: hasMore ? String(offset + pageSize) : null
+      }
+    };
+  } catch (error) {
+    console.error('[API] Error getting comments:', error);
+    return errorResponse('getComments', 'Failed to retrieve comments', error);
+  }
+}
+
+async function handleLikePost(payload: RequestPayload<'likePost'>, userId: string): Promise<ResponseFor<'likePost'>> {
+  const { postBeaconId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const post = await db.getBeaconById(postBeaconId);
+    if (!post || post.hidden_at) {
+      return errorResponse('likePost', 'Post not found');
+    }
+    
+    const denied = await checkPostPermission(db, 'likePost', post, userId, Permission.VIEW_SPACE);
+    if (denied) {
+      return denied;
+    }
+    
+    const added = await db.likeBeacon(userId, postBeaconId);
+    const likeCount = await db.getLikeCount(postBeaconId);
+    
+    // Repeated likes are idempotent and don't notify again
+    if (added && post.author_id !== userId) {
+      const usernames = await resolveUsernames(db, [userId]);
+      await queueMessage(post.author_id, {
+        kind: 'likeNotification',
+        payload: {
+          postBeaconId,
+          userId,
+          username: usernames.get(userId) ?? userId,
+          likeCount,
+          timestamp: Date.now()
+        }
+      });
+    }
+    
+    return {
+      kind: 'likePostSuccess',
+      payload: { postBeaconId, liked: true, user: userId, message: 'Post liked', likeCount }
+    };
+  } catch (error) {
+    console.error('[API] Error liking post:', error);
+    return errorResponse('likePost', 'Failed to like post', error);
+  }
+}
+
+async function handleUnlikePost(payload: RequestPayload<'unlikePost'>, userId: string): Promise<ResponseFor<'unlikePost'>> {
+  const { postBeaconId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const post = await db.getBeaconById(postBeaconId);
+    if (!post || post.hidden_at) {
+      return errorResponse('unlikePost', 'Post not found');
+    }
+    
+    const denied = await checkPostPermission(db, 'unlikePost', post, userId, Permission.VIEW_SPACE);
+    if (denied) {
+      return denied;
+    }
+    
+    await db.unlikeBeacon(userId, postBeaconId);
+    
+    return {
+      kind: 'likePostSuccess',
+      payload: {
+        postBeaconId,
+        liked: false,
+        user: userId,
+        message: 'Post unliked',
+        likeCount: await db.getLikeCount(postBeaconId)
+      }
+    };
+  } catch (error) {
+    console.error('[API] Error unliking post:', error);
+    return errorResponse('unlikePost', 'Failed to unlike post', error);
+  }
+}
+
+async function handleGetPostEngagement(payload: RequestPayload<'getPostEngagement'>, userId: string): Promise<ResponseFor<'getPostEngagement'>> {
+  const { postBeaconId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    
+    const post = await db.getBeaconById(postBeaconId);
+    if (post?.hidden_at) {
+      return errorResponse('getPostEngagement', 'Post not found');
+    }
+    const denied = post && await checkPostPermission(db, 'getPostEngagement', post, userId, Permission.VIEW_SPACE);
+    if (denied) {
+      return denied;
+    }
+    
+    const [likeCount, commentCount, liked] = await Promise.all([
+      db.getLikeCount(postBeaconId),
+      db.getCommentCount(postBeaconId),
+      db.hasLiked(userId, postBeaconId)
+    ]);
+    
+    return {
+      kind: 'postEngagement',
+      payload: { postBeaconId, likeCount, commentCount, liked }
+    };
+  } catch (error) {
+    console.error('[API] Error getting post engagement:', error);
+    return errorResponse('getPostEngagement', 'Failed to retrieve post engagement', error);
+  }
+}
+
+async function handleGetQueuedMessages(userId: string): Promise<ResponseFor<'getQueuedMessages'>> {
+  const messages = (await MessageQueueFactory.getOrCreateFromEnvironment().takePending(userId))
+    .map(entry => entry.message);
+  
+  return {
+    kind: 'queuedMessages',
+    payload: {
+      messages,
+      count: messages.length,
+      timestamp: Date.now()
+    }
+  };
+}
+
+// Social graph handlers
+// `userId` is always the caller; `targetUserId` optionally asks about someone else
+
+async function handleGetFollowers(payload: RequestPayload<'getFollowers'>, userId: string): Promise<ResponseFor<'getFollowers'>> {
+  const targetId = payload.targetUserId ?? userId;
+  
+  try {
+    const db = await getDatabase();
+    const followers = (await db.getFollowers(targetId)).map(toUserSummary);
+    
+    return {
+      kind: 'followersResponse',
+      payload: { userId: targetId, followers, count: followers.length }
+    };
+  } catch (error) {
+    console.error('[API] Error getting followers:', error);
+    return errorResponse('getFollowers', 'Failed to retrieve followers', error);
+  }
+}
+
+async function handleGetFollowing(payload: RequestPayload<'getFollowing'>, userId: string): Promise<ResponseFor<'getFollowing'>> {
+  const targetId = payload.targetUserId ?? userId;
+  
+  try {
+    const db = await getDatabase();
+    const following = (await db.getFollowing(targetId)).map(toUserSummary);
+    
+    return {
+      kind: 'followingResponse',
+      payload: { userId: targetId, following, count: following.length }
+    };
+  } catch (error) {
+    console.error('[API] Error getting following:', error);
+    return errorResponse('getFollowing', 'Failed to retrieve following list', error);
+  }
+}
+
+async function handleGetMutualFollows(userId: string): Promise<ResponseFor<'getMutualFollows'>> {
+  try {
+    const db = await getDatabase();
+    const [followers, following] = await Promise.all([
+      db.getFollowers(userId),
+      db.getFollowing(userId)
+    ]);
+    
+    const followerIds = new Set(followers.map(u => u.user_id));
+    const friends = following.filter(u => followerIds.has(u.user_id)).map(toUserSummary);
+    
+    return {
+      kind: 'friendsList',
+      payload: { friends, count: friends.length }
+    };
+  } catch (error) {
+    console.error('[API] Error getting mutual follows:', error);
+    return errorResponse('getMutualFollows', 'Failed to retrieve friends', error);
+  }
+}
+
+// Space file handlers
+
+async function handleGetSpaceFiles(payload: RequestPayload<'getSpaceFiles'>, userId: string): Promise<ResponseFor<'getSpaceFiles'>> {
+  const { spaceId } = payload;
+  if (!spaceId) {
+    return errorResponse('getSpaceFiles', 'spaceId is required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const denied = await checkSpacePermission(db, 'getSpaceFiles', spaceId, userId, Permission.VIEW_VOLUMES);
+    if (denied) {
+      return denied;
+    }
+    
+    const files = await db.getSpaceFiles(spaceId);
+    
+    return {
+      kind: 'spaceFilesResponse',
+      payload: { spaceId: spaceId, files }
+    };
+  } catch (error) {
+    console.error('[API] Error getting space files:', error);
+    return errorResponse('getSpaceFiles', 'Failed to retrieve space files', error);
+  }
+}
+
+async function handleAddFileToSpace(payload: RequestPayload<'addFileToSpace'>, userId: string): Promise<ResponseFor<'addFileToSpace'>> {
+  const { spaceId, fileName, fileType, fingerprint, fileContent } = payload;
+  
+  if (!spaceId || !fileName || !fingerprint || typeof fileContent !== 'string') {
+    return errorResponse('addFileToSpace', 'spaceId, fileName, fingerprint and fileContent are required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const denied = await checkSpacePermission(db, 'addFileToSpace', spaceId, userId, Permission.CONTRIBUTE_FILES);
+    if (denied) {
+      return denied;
+    }
+    
+    const file = await storeSpaceFile(db, BlobStoreFactory.getOrCreateFromEnvironment(), {
+      spaceId,
+      uploaderId: userId,
+      fileName,
+      fileType,
+      fingerprint,
+      content: Buffer.from(fileContent, 'base64')
+    });
+    
+    console.log(`[API] Stored file ${file.file_id} (${file.file_size} bytes) in space ${spaceId}`);
+    await recordEvent(db, 'file_contribution', userId, spaceId);
+    
+    return {
+      kind: 'fileAddedToSpace',
+      payload: { spaceId: spaceId, file }
+    };
+  } catch (error) {
+    if (error instanceof SpaceFileError) {
+      return errorResponse('addFileToSpace', error.message);
+    }
+    console.error('[API] Error adding file to space:', error);
+    return errorResponse('addFileToSpace', 'Failed to store file', error);
+  }
+}
+
+async function handleRemoveFileFromSpace(payload: RequestPayload<'removeFileFromSpace'>, userId: string): Promise<ResponseFor<'removeFileFromSpace'>> {
+  const { spaceId, fileId } = payload;
+  if (!spaceId || !fileId) {
+    return errorResponse('removeFileFromSpace', 'spaceId and fileId are required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const access = await resolveSpaceAccess(db, spaceId, userId);
+    if (!access) {
+      return errorResponse('removeFileFromSpace', `Space not found: ${spaceId}`);
+    }
+    
+    // Contributors may take back their own uploads; anything else needs DELETE_FILES
+    if (!hasPermission(access, Permission.DELETE_FILES)) {
+      const file = (await db.getSpaceFiles(spaceId)).find(f => f.file_id === fileId);
+      if (!file || file.uploader_id !== userId || !hasPermission(access, Permission.CONTRIBUTE_FILES)) {
+        return forbiddenResponse('removeFileFromSpace', 'You do not have permission to delete this file', Permission.DELETE_FILES);
+      }
+    }
+    
+    const removed = await db.deleteSpaceFile(spaceId, fileId);
+    
+    if (!removed) {
+      return errorResponse('removeFileFromSpace', `File not found: ${fileId}`);
+    }
+    
+    return {
+      kind: 'fileRemovedFromSpace',
+      payload: { spaceId: spaceId, fileId: fileId }
+    };
+  } catch (error) {
+    console.error('[API] Error removing file from space:', error);
+    return errorResponse('removeFileFromSpace', 'Failed to remove file', error);
+  }
+}
+
+async function handleDownloadFile(payload: RequestPayload<'downloadFile'>, userId: string): Promise<ResponseFor<'downloadFile'>> {
+  const { spaceId, fingerprint } = payload;
+  
+  // file-download.ts matches responses on fingerprint, so failures are
+  // reported in a downloadFileResponse rather than a generic error
+  if (!spaceId || !fingerprint) {
+    return {
+      kind: 'downloadFileResponse',
+      payload: { fingerprint: fingerprint, success: false, error: 'spaceId and fingerprint are required' }
+    };
+  }
+  
+  try {
+    const db = await getDatabase();
+    const access = await resolveSpaceAccess(db, spaceId, userId);
+    if (!access || !hasPermission(access, Permission.SUMMON_FILES)) {
+      return {
+        kind: 'downloadFileResponse',
+        payload: { fingerprint: fingerprint, success: false, error: 'You do not have permission to download files from this space' }
+      };
+    }
+    
+    const content = await readSpaceFile(db, BlobStoreFactory.getOrCreateFromEnvironment(), spaceId, fingerprint);
+    
+    if (!content) {
+      return {
+        kind: 'downloadFileResponse',
+        payload: { fingerprint: fingerprint, success: false, error: 'File not found' }
+      };
+    }
+    
+    await recordEvent(db, 'summon', userId, spaceId);
+    return {
+      kind: 'downloadFileResponse',
+      payload: { fingerprint: fingerprint, success: true, content: content.toString('base64') }
+    };
+  } catch (error) {
+    console.error('[API] Error downloading file:', error);
+    return {
+      kind: 'downloadFileResponse',
+      payload: { fingerprint: fingerprint, success: false, error: 'Failed to read file content' }
+    };
+  }
+}
+
+// Direct message handlers
+
+async function handleSendPrivateMessage(payload: RequestPayload<'sendPrivateMessage'>, userId: string): Promise<ResponseFor<'sendPrivateMessage'>> {
+  const { recipientId, content, tempId } = payload;
+  
+  if (!recipientId || typeof content !== 'string' || !content.trim()) {
+    return errorResponse('sendPrivateMessage', 'recipientId and content are required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const { result, deliveries } = await sendDirectMessage(db, userId, recipientId, content);
+    await deliverAll(deliveries);
+    await recordEvent(db, 'message', userId);
+    
+    // tempId lets the sender swap out its optimistic copy
+    return { kind: 'privateMessage', payload: { ...result, tempId } };
+  } catch (error) {
+    if (error instanceof DirectMessageError) {
+      return errorResponse('sendPrivateMessage', error.message);
+    }
+    console.error('[API] Error sending private message:', error);
+    return errorResponse('sendPrivateMessage', 'Failed to send message', error);
+  }
+}
+
+async function handleGetConversationHistory(payload: RequestPayload<'getConversationHistory'>, userId: string): Promise<ResponseFor<'getConversationHistory'>> {
+  const { partnerId, limit, before } = payload;
+  if (!partnerId) {
+    return errorResponse('getConversationHistory', 'partnerId is required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const { result, deliveries } = await getConversationPage(db, userId, partnerId, {
+      limit: limit ?? undefined,
+      before: before ?? undefined
+    });
+    await deliverAll(deliveries);
+    
+    return { kind: 'conversationHistory', payload: result };
+  } catch (error) {
+    if (error instanceof DirectMessageError) {
+      return errorResponse('getConversationHistory', error.message);
+    }
+    console.error('[API] Error getting conversation history:', error);
+    return errorResponse('getConversationHistory', 'Failed to retrieve conversation', error);
+  }
+}
+
+async function handleGetRecentConversations(userId: string): Promise<ResponseFor<'getRecentConversations'>> {
+  try {
+    const db = await getDatabase();
+    const { result: conversations, deliveries } = await listConversations(db, userId);
+    await deliverAll(deliveries);
+    
+    return {
+      kind: 'recentConversations',
+      payload: { conversations, count: conversations.length }
+    };
+  } catch (error) {
+    console.error('[API] Error getting recent conversations:', error);
+    return errorResponse('getRecentConversations', 'Failed to retrieve conversations', error);
+  }
+}
+
+async function handleMarkMessageRead(payload: RequestPayload<'markMessageRead'>, userId: string): Promise<ResponseFor<'markMessageRead'>> {
+  const { messageId } = payload;
+  if (!messageId) {
+    return errorResponse('markMessageRead', 'messageId is required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const { result, deliveries } = await markMessageRead(db, userId, messageId);
+    await deliverAll(deliveries);
+    
+    return { kind: 'messageRead', payload: result };
+  } catch (error) {
+    if (error instanceof DirectMessageError) {
+      return errorResponse('markMessageRead', error.message);
+    }
+    console.error('[API] Error marking message read:', error);
+    return errorResponse('markMessageRead', 'Failed to mark message as read', error);
+  }
+}
+
+async function handleMarkMessageDelivered(payload: RequestPayload<'markMessageDelivered'>, userId: string): Promise<ResponseFor<'markMessageDelivered'>> {
+  const { messageId } = payload;
+  if (!messageId) {
+    return errorResponse('markMessageDelivered', 'messageId is required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const { result, deliveries } = await markMessageDelivered(db, userId, messageId);
+    await deliverAll(deliveries);
+    
+    return { kind: 'messageDelivered', payload: result };
+  } catch (error) {
+    if (error instanceof DirectMessageError) {
+      return errorResponse('markMessageDelivered', error.message);
+    }
+    console.error('[API] Error marking message delivered:', error);
+    return errorResponse('markMessageDelivered', 'Failed to mark message as delivered', error);
+  }
+}
+
+async function handleGetUnreadCount(userId: string): Promise<ResponseFor<'getUnreadCount'>> {
+  try {
+    const db = await getDatabase();
+    return { kind: 'unreadCountUpdate', payload: await getUnreadCount(db, userId) };
+  } catch (error) {
+    console.error('[API] Error getting unread count:', error);
+    return errorResponse('getUnreadCount', 'Failed to retrieve unread count', error);
+  }
+}
+
+// Typing and presence handlers
+
+async function handleSetTyping(payload: RequestPayload<'setTyping'>, userId: string): Promise<ResponseFor<'setTyping'>> {
+  const { partnerId, spaceId, typing } = payload;
+  const target = partnerId ? { partnerId } : spaceId ? { spaceId } : null;
+  if (!target || (partnerId && spaceId)) {
+    return errorResponse('setTyping', 'Exactly one of partnerId and spaceId is required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const signal = await typingSignal(db, userId, target, typing);
+    if (signal) {
+      await sendSignal(signal);
+    }
+    
+    return { kind: 'typingSent', payload: { partnerId, spaceId, typing, broadcast: signal !== null } };
+  } catch (error) {
+    if (error instanceof SignalError) {
+      return errorResponse('setTyping', error.message);
+    }
+    console.error('[API] Error sending typing signal:', error);
+    return errorResponse('setTyping', 'Failed to send typing status', error);
+  }
+}
+
+async function handleSetPresence(payload: RequestPayload<'setPresence'>, userId: string): Promise<ResponseFor<'setPresence'>> {
+  const { status } = payload;
+  if (status !== 'online' && status !== 'away') {
+    return errorResponse('setPresence', 'status must be online or away');
+  }
+  if (!allowSignal(userId)) {
+    return errorResponse('setPresence', 'Too many presence updates; try again shortly');
+  }
+  
+  try {
+    // Status only changes while the caller has an event stream open here
+    if (setAway(userId, status === 'away')) {
+      await sendSignal(await presenceSignal(await getDatabase(), getPresence(userId)));
+    }
+    
+    return { kind: 'presenceUpdate', payload: getPresence(userId) };
+  } catch (error) {
+    console.error('[API] Error updating presence:', error);
+    return errorResponse('setPresence', 'Failed to update presence', error);
+  }
+}
+
+async function handleGetPresence(payload: RequestPayload<'getPresence'>, userId: string): Promise<ResponseFor<'getPresence'>> {
+  const { userIds } = payload;
+  if (!userIds.every(id => typeof id === 'string')) {
+    return errorResponse('getPresence', 'userIds must be strings');
+  }
+  
+  try {
+    const presence = await visiblePresence(await getDatabase(), userId, userIds);
+    return { kind: 'presenceResponse', payload: { presence } };
+  } catch (error) {
+    if (error instanceof SignalError) {
+      return errorResponse('getPresence', error.message);
+    }
+    console.error('[API] Error getting presence:', error);
+    return errorResponse('getPresence', 'Failed to retrieve presence', error);
+  }
+}
+
+// Analytics handlers
+
+async function handleRecordSpaceView(payload: RequestPayload<'recordSpaceView'>, userId: string): Promise<ResponseFor<'recordSpaceView'>> {
+  const { spaceId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    const denied = await checkSpacePermission(db, 'recordSpaceView', spaceId, userId, Permission.VIEW_SPACE);
+    if (denied) {
+      return denied;
+    }
+    
+    await recordEvent(db, 'space_view', userId, spaceId);
+    return { kind: 'spaceViewRecorded', payload: { spaceId } };
+  } catch (error) {
+    console.error('[API] Error recording space view:', error);
+    return errorResponse('recordSpaceView', 'Failed to record space view', error);
+  }
+}
+
+async function handleGetAnalytics(payload: RequestPayload<'getAnalytics'>, userId: string): Promise<ResponseFor<'getAnalytics'>> {
+  const range = payload.range ?? undefined;
+  if (range !== undefined && !isAnalyticsRange(range)) {
+    return errorResponse('getAnalytics', `range must be one of ${Object.keys(ANALYTICS_RANGE_DAYS).join(', ')}`);
+  }
+  
+  try {
+    const db = await getDatabase();
+    const report = await buildAnalyticsReport(db, userId, { range, spaceId: payload.spaceId ?? undefined });
+    return { kind: 'analyticsResponse', payload: report };
+  } catch (error) {
+    return spaceErrorResponse('getAnalytics', 'Failed to build analytics', error);
+  }
+}
+
+// Miscellaneous handlers
+
+async function handleRequestTeleport(payload: RequestPayload<'requestTeleport'>, userId: string): Promise<ResponseFor<'requestTeleport'>> {
+  const { targetUserId, memoryId } = payload;
+  if (!targetUserId || !memoryId) {
+    return errorResponse('requestTeleport', 'targetUserId and memoryId are required');
+  }
+  
+  try {
+    const db = await getDatabase();
+    const [requester, target] = await Promise.all([
+      db.getUserById(userId),
+      db.getUserById(targetUserId)
+    ]);
+    
+    if (!requester || !target) {
+      return errorResponse('requestTeleport', 'Requester or target user not found');
+    }
+    
+    await queueMessage(target.user_id, {
+      kind: 'teleportRequest',
+      payload: {
+        fromUserId: requester.user_id,
+        fromUsername: requester.username,
+        memoryId: memoryId,
+        timestamp: Date.now()
+      }
+    });
+    
+    return {
+      kind: 'teleportRequested',
+      payload: { targetUserId: target.user_id, memoryId: memoryId }
+    };
+  } catch (error) {
+    console.error('[API] Error requesting teleport:', error);
+    return errorResponse('requestTeleport', 'Failed to request teleport', error);
+  }
+}
+
+// Moderation handlers
+
+async function handleReportContent(payload: RequestPayload<'reportContent'>, userId: string): Promise<ResponseFor<'reportContent'>> {
+  try {
+    const db = await getDatabase();
+    const report = await submitReport(db, userId, payload);
+    
+    logSystemEvent('INFO', 'moderation', `New ${report.target_type} report for ${report.reason}`);
+    return {
+      kind: 'reportSubmitted',
+      payload: { reportId: report.report_id, targetType: report.target_type, targetId: report.target_id }
+    };
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return errorResponse('reportContent', error.message);
+    }
+    console.error('[API] Error submitting report:', error);
+    return errorResponse('reportContent', 'Failed to submit report', error);
+  }
+}
+
+async function handleGetAnnouncements(userId: string): Promise<ResponseFor<'getAnnouncements'>> {
+  try {
+    const db = await getDatabase();
+    return {
+      kind: 'announcementsResponse',
+      payload: { announcements: await getUserAnnouncements(db, userId) }
+    };
+  } catch (error) {
+    console.error('[API] Error getting announcements:', error);
+    return errorResponse('getAnnouncements', 'Failed to retrieve announcements', error);
+  }
+}
+
+async function handleDismissAnnouncement(payload: RequestPayload<'dismissAnnouncement'>, userId: string): Promise<ResponseFor<'dismissAnnouncement'>> {
+  const { announcementId } = payload;
+  
+  try {
+    const db = await getDatabase();
+    if (!(await db.dismissAnnouncement(announcementId, userId))) {
+      return errorResponse('dismissAnnouncement', 'Announcement not found');
+    }
+    return { kind: 'announcementDismissed', payload: { announcementId } };
+  } catch (error) {
+    console.error('[API] Error dismissing announcement:', error);
+    return errorResponse('dismissAnnouncement', 'Failed to dismiss announcement', error);
+  }
+}
+
+// Encryption key handlers
+
+async function handlePublishEncryptionKey(payload: RequestPayload<'publishEncryptionKey'>, userId: string): Promise<ResponseFor<'publishEncryptionKey'>> {
+  const { publicKey, priFingerprint } = payload;
+  
+  try {
+    const key = await publishEncryptionKey(await getDatabase(), userId, publicKey, priFingerprint);
+    return { kind: 'encryptionKeyPublished', payload: toClientEncryptionKey(key) };
+  } catch (error) {
+    if (error instanceof EncryptionKeyError) {
+      return errorResponse('publishEncryptionKey', error.message);
+    }
+    console.error('[API] Error publishing encryption key:', error);
+    return errorResponse('publishEncryptionKey', 'Failed to publish encryption key', error);
+  }
+}
+
+async function handleGetPublicKeys(payload: RequestPayload<'getPublicKeys'>): Promise<ResponseFor<'getPublicKeys'>> {
+  const { userIds } = payload;
+  if (!userIds.every(id => typeof id === 'string')) {
+    return errorResponse('getPublicKeys', 'userIds must be strings');
+  }
+  
+  try {
+    const keys = await publicKeysFor(await getDatabase(), userIds);
+    return { kind: 'publicKeysResponse', payload: { keys: keys.map(toClientEncryptionKey) } };
+  } catch (error) {
+    if (error instanceof EncryptionKeyError) {
+      return errorResponse('getPublicKeys', error.message);
+    }
+    console.error('[API] Error getting public keys:', error);
+    return errorResponse('getPublicKeys', 'Failed to retrieve public keys', error);
+  }
+}
+
+async function handleGetSpaceKeys(payload: RequestPayload<'getSpaceKeys'>, userId: string): Promise<ResponseFor<'getSpaceKeys'>> {
+  const { spaceId } = payload;
+  
+  try {
+    return { kind: 'spaceKeysResponse', payload: await spaceKeyState(await getDatabase(), spaceId, userId) };
+  } catch (error) {
+    if (error instanceof EncryptionKeyError) {
+      return errorResponse('getSpaceKeys', error.message);
+    }
+    console.error('[API] Error getting space keys:', error);
+    return errorResponse('getSpaceKeys', 'Failed to retrieve space keys', error);
+  }
+}
+
+async function handleShareSpaceKeys(payload: RequestPayload<'shareSpaceKeys'>, userId: string): Promise<ResponseFor<'shareSpaceKeys'>> {
+  const { spaceId, keyVersion, keys } = payload;
+  if (!Number.isInteger(keyVersion) || keyVersion < 1) {
+    return errorResponse('shareSpaceKeys', 'keyVersion must be a positive integer');
+  }
+  if (!keys.every(key => typeof key?.keyId === 'string' && typeof key?.wrappedKey === 'string')) {
+    return errorResponse('shareSpaceKeys', 'keys must each have a keyId and a wrappedKey');
+  }
+  
+  try {
+    const added = await shareSpaceKeys(await getDatabase(), spaceId, userId, keyVersion, keys);
+    return { kind: 'spaceKeysShared', payload: { spaceId, keyVersion, added } };
+  } catch (error) {
+    if (error instanceof EncryptionKeyError) {
+      return errorResponse('shareSpaceKeys', error.message);
+    }
+    console.error('[API] Error sharing space keys:', error);
+    return errorResponse('shareSpaceKeys', 'Failed to share space keys', error);
+  }
+}
+
+async function handleRequestPasswordReset(
+  payload: RequestPayload<'requestPasswordReset'>,
+  address: string | null
+): Promise<ResponseFor<'requestPasswordReset'>> {
+  const { email } = payload;
+  if (typeof email !== 'string' || !email.includes('@')) {
+    return errorResponse('requestPasswordReset', 'A valid email address is required');
+  }
+  if (!allowPasswordResetRequest(email.trim(), address)) {
+    return errorResponse('requestPasswordReset', 'Too many password reset requests; try again later');
+  }
+  
+  try {
+    const db = await getDatabase();
+    await requestPasswordReset(db, MailTransportFactory.getOrCreateFromEnvironment(), email.trim());
+    
+    // Same answer either way so the endpoint cannot be used to probe for accounts
+    return {
+      kind: 'passwordResetSent',
+      payload: { message: 'If an account exists for that email, reset instructions have been sent' }
+    };
+  } catch (error) {
+    console.error('[API] Error requesting password reset:', error);
+    return errorResponse('requestPasswordReset', 'Failed to request password reset', error);
+  }
+}
+
+// Beacon helpers
+
+function toPrimeIndices(index: number[]): QuantumPrimeIndices {
+  return {
+    base_resonance: 0.5,
+    amplification_factor: 0.5,
+    phase_alignment: 0.5,
+    entropy_level: 0.5,
+    prime_sequence: index,
+    resonance_signature: index.join('-')
+  };
+}
+
+// Shape expected by the client beacon cache (see CachedBeacon). The plaintext
+// of a beacon goes back to its author only
+function toClientBeacon(beacon: Beacon, viewerId: string | undefined, username?: string): ClientBeacon {
+  const { originalText, ...metadata } = beacon.metadata ?? {};
+  const isAuthor = beacon.author_id === viewerId;
+  return {
+    beacon_id: beacon.beacon_id,
+    beacon_type: beacon.beacon_type,
+    author_id: beacon.author_id,
+    prime_indices: JSON.stringify(beacon.prime_indices.prime_sequence ?? []),
+    index: beacon.prime_indices.prime_sequence ?? [],
+    epoch: beacon.epoch,
+    fingerprint: Array.from(beacon.fingerprint ?? []),
+    signature: Array.from(beacon.signature ?? []),
+    originalText: isAuthor && typeof originalText === 'string' ? originalText : undefined,
+    metadata: beacon.metadata ? JSON.stringify(isAuthor ? beacon.metadata : metadata) : null,
+    created_at: beacon.created_at,
+    username
+  };
+}
+
+// Resolves an error response when the caller may not act in the space, or
+// null when they may
+async function checkSpacePermission(
+  db: DatabaseAdapter,
+  requestKind: string,
+  spaceId: string,
+  userId: string,
+  permission: Permission
+): Promise<ProtocolResponse<'error'> | null> {
+  const access = await resolveSpaceAccess(db, spaceId, userId);
+  if (!access) {
+    return errorResponse(requestKind, `Space not found: ${spaceId}`);
+  }
+  if (!hasPermission(access, permission)) {
+    return forbiddenResponse(requestKind, 'You do not have permission to do this in this space', permission);
+  }
+  return null;
+}
+
+// Posts outside any space are open to every signed-in user
+async function checkPostPermission(
+  db: DatabaseAdapter,
+  requestKind: string,
+  post: Beacon,
+  userId: string,
+  permission: Permission
+): Promise<ProtocolResponse<'error'> | null> {
+  const spaceId = post.metadata?.space_id;
+  return typeof spaceId === 'string' ? checkSpacePermission(db, requestKind, spaceId, userId, permission) : null;
+}
+
+async function resolveUsernames(db: DatabaseAdapter, userIds: string[]): Promise<Map<string, string>> {
+  const usernames = new Map<string, string>();
+  for (const id of new Set(userIds)) {
+    const user = await db.getUserById(id);
+    if (user) {
+      usernames.set(id, user.username);
+    }
+  }
+  return usernames;
+}
+
+// Response helpers
+
+function errorResponse(requestKind: string, message: string, error?: unknown): ProtocolResponse<'error'> {
+  return {
+    kind: 'error',
+    payload: {
+      requestKind,
+      message,
+      ...(error !== undefined && { details: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  };
+}
+
+function forbiddenResponse(requestKind: string, message: string, permission?: Permission): ProtocolResponse<'error'> {
+  return {
+    kind: 'error',
+    payload: { requestKind, code: 'FORBIDDEN', message, ...(permission && { permission }) }
+  };
+}
+
+// MembershipError, SpaceSettingsError and ForbiddenError messages are meant
+// for the caller; anything else is unexpected
+function spaceErrorResponse(requestKind: string, message: string, error: unknown): ProtocolResponse<'error'> {
+  if (error instanceof ForbiddenError) {
+    return forbiddenResponse(requestKind, error.message, error.permission);
+  }
+  if (error instanceof MembershipError || error instanceof SpaceSettingsError) {
+    return errorResponse(requestKind, error.message);
+  }
+  logSystemEvent('ERROR', 'api', `Error handling ${requestKind}`, { detail: error });
+  return errorResponse(requestKind, message, error);
+}
+
+function toUserSummary(user: User): UserSummary {
+  return { userId: user.user_id, username: user.username };
+}
+
+function toClientSpace(space: Space, memberCount: number): ClientSpace {
+  return {
+    space_id: space.space_id,
+    name: space.name,
+    description: space.description,
+    is_public: space.is_public ? 1 : 0,
+    member_count: memberCount,
+    created_at: space.created_at,
+    owner: space.owner_id
+  };
+}
+
+function toSpaceSettingsResponse(space: Space, canEdit: boolean): ProtocolResponse<'spaceSettingsResponse'> {
+  return {
+    kind: 'spaceSettingsResponse',
+    payload: {
+      spaceId: space.space_id,
+      name: space.name,
+      description: space.description,
+      settings: readSpaceSettings(space),
+      canEdit
+    }
+  };
+}
+
+// Callers always pass members of a single space
+async function toClientSpaceMembers(db: DatabaseAdapter, members: SpaceMember[]): Promise<ClientSpaceMember[]> {
+  const usernames = await resolveUsernames(db, members.map(m => m.user_id));
+  const space = members.length > 0 ? await db.getSpaceById(members[0].space_id) : null;
+  return members.map(member => ({
+    userId: member.user_id,
+    username: usernames.get(member.user_id) ?? member.user_id,
+    spaceId: member.space_id,
+    role: member.role,
+    status: member.status,
+    joinedAt: member.joined_at,
+    permissions: permissionsFor(member.role, space)
+  }));
+}
+
+function toClientComment(comment: Comment, usernames: Map<string, string>): ClientComment {
+  return {
+    commentId: comment.comment_id,
+    postBeaconId: comment.post_beacon_id,
+    authorId: comment.author_id,
+    authorUsername: usernames.get(comment.author_id) ?? comment.author_id,
+    parentCommentId: comment.parent_comment_id ?? null,
+    content: comment.content,
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at ?? null,
+    deleted: Boolean(comment.deleted_at)
   };
 }
 
@@ -4,33 +4,15 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface PollRequest {
-  userId?: string;
-  lastMessageTime?: number;
-}
-
-interface CommunicationMessage {
-  kind: string;
-  payload: Record<string, unknown>;
-}
-
-interface QueuedMessage {
-  id: string;
-  userId: string;
-  message: CommunicationMessage;
-  timestamp: number;
-}
-
-// In production, this would be Redis or a database
-// For now, using in-memory storage (resets on each deployment)
-const messageQueue: Map<string, QueuedMessage[]> = new Map();
+import { DatabaseFactory } from '../lib/database/database-factory';
+import { authenticateRequest } from '../lib/auth/session';
+import { MessageQueueFactory } from '../lib/queue/queue-factory';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     res.status(200).end();
@@ -43,21 +25,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { userId, lastMessageTime = 0 } = req.body as PollRequest;
-    
-    // Get messages for this user since last poll
-    const userMessages = userId ? (messageQueue.get(userId) || []) : [];
-    const newMessages = userMessages.filter(msg => msg.timestamp > lastMessageTime);
-    
-    // Clean up old messages (older than 5 minutes)
-    const fiveMinutesAgo = Date.now() - (5 * 60 * 1000);
-    if (userId && userMessages.length > 0) {
-      const cleanedMessages = userMessages.filter(msg => msg.timestamp > fiveMinutesAgo);
-      if (cleanedMessages.length !== userMessages.length) {
-        messageQueue.set(userId, cleanedMessages);
-      }
+    const caller = await authenticateRequest(await DatabaseFactory.getOrCreateFromEnvironment(), req);
+    if (!caller) {
+      res.status(401).json({ error: 'Invalid or expired session' });
+      return;
     }
     
+    // Claimed messages won't be handed to any other poll or SSE connection
+    const newMessages = await MessageQueueFactory.getOrCreateFromEnvironment().takePending(caller.userId);
+    
     // Return new messages
     res.status(200).json({
       messages: newMessages.map(m => m.message),
@@ -70,16 +46,3 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     res.status(500).json({ error: 'Internal server error' });
   }
 }
-
-// Helper function to queue a message for a user
-// This would be called by other API endpoints when they need to send real-time updates
-export function queueMessageForUser(userId: string, message: CommunicationMessage) {
-  const userMessages = messageQueue.get(userId) || [];
-  userMessages.push({
-    id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    userId,
-    message,
-    timestamp: Date.now()
-  });
-  messageQueue.set(userId, userMessages);
-}
\ No newline at end of file
@@ -0,0 +1,42 @@
+/**
+ * Analytics Events
+ * Records the activity behind the analytics board. Recording is best effort:
+ * a failure is logged and never fails the request that caused it.
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { AnalyticsEventType } from '../../src/protocol/index.js';
+import { BEACON_TYPES } from '../../src/constants/beaconTypes.js';
+
+export const ANALYTICS_EVENT_TYPES: AnalyticsEventType[] = [
+  'space_view', 'post', 'file_contribution', 'summon', 'join', 'message'
+];
+
+// Only beacons people write count; member lists, file indexes and the like
+// are bookkeeping
+const BEACON_EVENTS: Record<string, AnalyticsEventType> = {
+  [BEACON_TYPES.POST]: 'post',
+  [BEACON_TYPES.SPACE_MESSAGE]: 'message'
+};
+
+export function eventForBeacon(beaconType: string): AnalyticsEventType | null {
+  return BEACON_EVENTS[beaconType] ?? null;
+}
+
+export async function recordEvent(
+  db: DatabaseAdapter,
+  eventType: AnalyticsEventType,
+  userId: string,
+  spaceId?: string
+): Promise<void> {
+  try {
+    await db.recordAnalyticsEvent({
+      event_id: `event_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      event_type: eventType,
+      user_id: userId,
+      space_id: spaceId
+    });
+  } catch (error) {
+    console.error(`[Analytics] Failed to record ${eventType} event:`, error);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Analytics Report Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers } from '../database/test-fixtures';
+import { ForbiddenError } from '../spaces/permissions';
+import { recordEvent } from './events';
+import { buildAnalyticsReport } from './report';
+
+describe('analytics report', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['alice', 'bob']);
+    for (const [spaceId, ownerId] of [['space_a', 'alice'], ['space_b', 'bob']]) {
+      await db.createSpace({ space_id: spaceId, name: spaceId, is_public: true, owner_id: ownerId, metadata: {} });
+      await db.addSpaceMember({ space_id: spaceId, user_id: ownerId, role: 'owner', status: 'active' });
+    }
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('rolls events up per space and per user for the viewer\'s spaces', async () => {
+    await db.addSpaceMember({ space_id: 'space_a', user_id: 'bob', role: 'contributor', status: 'active' });
+    await recordEvent(db, 'post', 'alice', 'space_a');
+    await recordEvent(db, 'post', 'bob', 'space_a');
+    await recordEvent(db, 'summon', 'bob', 'space_a');
+    await recordEvent(db, 'post', 'bob', 'space_b');
+    await recordEvent(db, 'message', 'alice');
+
+    const report = await buildAnalyticsReport(db, 'alice');
+
+    expect(report.range).toBe('7d');
+    expect(report.daily).toHaveLength(7);
+    expect(report.daily[6].counts).toMatchObject({ post: 2, summon: 1 });
+    expect(report.totals).toMatchObject({ post: 2, summon: 1, message: 0 });
+    expect(report.previousTotals.post).toBe(0);
+    expect(report.activeUsers).toBe(2);
+    expect(report.spaces.map(space => space.spaceId)).toEqual(['space_a']);
+    expect(report.spaces[0]).toMatchObject({ memberCount: 2, totals: { post: 2 } });
+    expect(report.personal).toMatchObject({ post: 1, message: 1, summon: 0 });
+    expect(report.recentActivity.map(a => a.eventType).sort()).toEqual(['post', 'post', 'summon']);
+    expect(report.recentActivity.find(a => a.eventType === 'summon'))
+      .toMatchObject({ username: 'name_bob', spaceName: 'space_a' });
+  });
+
+  it('filters to one space and refuses spaces the viewer is not in', async () => {
+    await db.addSpaceMember({ space_id: 'space_b', user_id: 'alice', role: 'contributor', status: 'pending' });
+    await recordEvent(db, 'join', 'alice', 'space_a');
+    await recordEvent(db, 'post', 'bob', 'space_b');
+
+    const report = await buildAnalyticsReport(db, 'bob', { range: '30d', spaceId: 'space_b' });
+    expect(report.daily).toHaveLength(30);
+    expect(report.spaceId).toBe('space_b');
+    expect(report.totals).toMatchObject({ post: 1, join: 0 });
+
+    await expect(buildAnalyticsReport(db, 'alice', { spaceId: 'space_b' })).rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Analytics Report
+ * Builds the analytics board's figures from the daily rollups, limited to the
+ * spaces the viewer is an active member of
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { AnalyticsRollup, Space } from '../database/types.js';
+import type {
+  AnalyticsActivity, AnalyticsCounts, AnalyticsDay, AnalyticsRange, AnalyticsReport
+} from '../../src/protocol/index.js';
+import { Permission } from '../../src/services/space-manager/types.js';
+import { ForbiddenError } from '../spaces/permissions.js';
+import { ANALYTICS_EVENT_TYPES } from './events.js';
+
+export const ANALYTICS_RANGE_DAYS: Record<AnalyticsRange, number> = { '7d': 7, '30d': 30, '90d': 90 };
+export const DEFAULT_ANALYTICS_RANGE: AnalyticsRange = '7d';
+export const RECENT_ACTIVITY_LIMIT = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AnalyticsQuery {
+  range?: AnalyticsRange;
+  spaceId?: string;
+}
+
+export function isAnalyticsRange(value: unknown): value is AnalyticsRange {
+  return typeof value === 'string' && value in ANALYTICS_RANGE_DAYS;
+}
+
+export function emptyCounts(): AnalyticsCounts {
+  return Object.fromEntries(ANALYTICS_EVENT_TYPES.map(type => [type, 0])) as AnalyticsCounts;
+}
+
+// UTC date as YYYY-MM-DD, the rollup day format
+function toDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function sumRollups(rollups: AnalyticsRollup[], firstDay: string, lastDay: string): AnalyticsCounts {
+  const counts = emptyCounts();
+  for (const rollup of rollups) {
+    if (rollup.day >= firstDay && rollup.day <= lastDay && rollup.event_type in counts) {
+      counts[rollup.event_type] += rollup.count;
+    }
+  }
+  return counts;
+}
+
+/**
+ * The viewer's report for the range ending today (UTC), across one space or
+ * every space they belong to. Asking for a space they are not an active
+ * member of is forbidden.
+ */
+export async function buildAnalyticsReport(
+  db: DatabaseAdapter,
+  userId: string,
+  query: AnalyticsQuery = {},
+  now = Date.now()
+): Promise<AnalyticsReport> {
+  const range = query.range ?? DEFAULT_ANALYTICS_RANGE;
+  const days = ANALYTICS_RANGE_DAYS[range];
+
+  const memberships = (await db.getUserMemberships(userId)).filter(m => m.status === 'active');
+  let spaceIds = memberships.map(m => m.space_id);
+  if (query.spaceId !== undefined) {
+    if (!spaceIds.includes(query.spaceId)) {
+      throw new ForbiddenError('Analytics are only available for spaces you belong to', Permission.VIEW_SPACE);
+    }
+    spaceIds = [query.spaceId];
+  }
+
+  const spaces = (await Promise.all(spaceIds.map(id => db.getSpaceById(id))))
+    .filter((space): space is Space => space !== null);
+  spaceIds = spaces.map(space => space.space_id);
+
+  const to = toDay(now);
+  const from = toDay(now - (days - 1) * DAY_MS);
+  const previousFrom = toDay(now - (2 * days - 1) * DAY_MS);
+  const previousTo = toDay(now - days * DAY_MS);
+
+  const [spaceRollups, personalRollups, memberCounts, activeUsers, recentEvents] = await Promise.all([
+    db.getAnalyticsRollups('space', spaceIds, previousFrom, to),
+    db.getAnalyticsRollups('user', [userId], from, to),
+    db.getSpaceMemberCounts(spaceIds),
+    db.countAnalyticsUsers(spaceIds, `${from}T00:00:00.000Z`),
+    db.getRecentAnalyticsEvents(spaceIds, RECENT_ACTIVITY_LIMIT)
+  ]);
+
+  const daily: AnalyticsDay[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = toDay(now - offset * DAY_MS);
+    daily.push({ date, counts: sumRollups(spaceRollups, date, date) });
+  }
+
+  const summaries = await Promise.all(spaces.map(async space => {
+    const rollups = spaceRollups.filter(r => r.scope_id === space.space_id);
+    const files = await db.getSpaceFiles(space.space_id);
+    return {
+      spaceId: space.space_id,
+      name: space.name,
+      memberCount: memberCounts.get(space.space_id) ?? 0,
+      fileCount: files.length,
+      storageBytes: files.reduce((total, file) => total + file.file_size, 0),
+      totals: sumRollups(rollups, from, to),
+      previousTotals: sumRollups(rollups, previousFrom, previousTo)
+    };
+  }));
+
+  const spaceNames = new Map(spaces.map(space => [space.space_id, space.name]));
+  const usernames = new Map<string, string>();
+  for (const id of new Set(recentEvents.map(event => event.user_id))) {
+    const user = await db.getUserById(id);
+    usernames.set(id, user?.username ?? 'Unknown');
+  }
+  const recentActivity: AnalyticsActivity[] = recentEvents.map(event => ({
+    eventType: event.event_type,
+    spaceId: event.space_id ?? '',
+    spaceName: spaceNames.get(event.space_id ?? '') ?? '',
+    userId: event.user_id,
+    username: usernames.get(event.user_id) ?? 'Unknown',
+    createdAt: event.created_at
+  }));
+
+  return {
+    range,
+    ...(query.spaceId !== undefined && { spaceId: query.spaceId }),
+    from,
+    to,
+    totals: sumRollups(spaceRollups, from, to),
+    previousTotals: sumRollups(spaceRollups, previousFrom, previousTo),
+    activeUsers,
+    daily,
+    spaces: summaries,
+    personal: sumRollups(personalRollups, from, to),
+    recentActivity
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Admin Access
+ * Resolves the caller of an admin endpoint and checks their platform role,
+ * which is read from the database on every request so a revoked admin or
+ * moderator loses access immediately
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { PlatformRole, User } from '../database/types.js';
+import { authenticateRequest, type SessionRequest } from './session.js';
+
+export type AdminAccess =
+  | { ok: true; user: User }
+  | { ok: false; statusCode: 401 | 403; error: string };
+
+// Roles allowed into the content console; the system console is admins only
+export const MODERATION_ROLES: PlatformRole[] = ['moderator', 'admin'];
+
+export async function authorizeRoles(
+  db: DatabaseAdapter,
+  req: SessionRequest,
+  roles: PlatformRole[]
+): Promise<AdminAccess> {
+  const caller = await authenticateRequest(db, req);
+  if (!caller) {
+    return { ok: false, statusCode: 401, error: 'Unauthorized' };
+  }
+
+  const user = await db.getUserById(caller.userId);
+  if (!user) {
+    return { ok: false, statusCode: 401, error: 'Unauthorized' };
+  }
+  if (!roles.includes(user.role)) {
+    return { ok: false, statusCode: 403, error: `${roles.includes('moderator') ? 'Moderator' : 'Admin'} role required` };
+  }
+
+  return { ok: true, user };
+}
+
+export function authorizeAdmin(db: DatabaseAdapter, req: SessionRequest): Promise<AdminAccess> {
+  return authorizeRoles(db, req, ['admin']);
+}
+
+export function authorizeModerator(db: DatabaseAdapter, req: SessionRequest): Promise<AdminAccess> {
+  return authorizeRoles(db, req, MODERATION_ROLES);
+}
@@ -0,0 +1,100 @@
+/**
+ * Password Reset Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, testUserData } from '../database/test-fixtures';
+import { MailTransport } from '../mail/mail-transport';
+import type { MailMessage } from '../mail/mail-transport';
+import {
+  PASSWORD_RESET_RATE_LIMIT, PASSWORD_RESET_RATE_WINDOW_MS, PASSWORD_RESET_TTL_MS, allowPasswordResetRequest,
+  confirmPasswordReset, requestPasswordReset
+} from './password-reset';
+import { hashPassword } from './password';
+import { issueSession, resolveSession } from './session';
+
+class InboxTransport extends MailTransport {
+  sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  lastToken(): string {
+    const match = this.sent[this.sent.length - 1]?.text.match(/token=([0-9a-f]+)/);
+    if (!match) {
+      throw new Error('No reset link was sent');
+    }
+    return match[1];
+  }
+}
+
+describe('password reset', () => {
+  let db: SqliteAdapter;
+  let inbox: InboxTransport;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    inbox = new InboxTransport();
+    await db.createUser(testUserData('user_a', {
+      username: 'alice', email: 'alice@example.com', pri_fingerprint: 'fp_a'
+    }));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.disconnect();
+  });
+
+  it('mails nothing for unknown addresses', async () => {
+    await requestPasswordReset(db, inbox, 'nobody@example.com');
+    expect(inbox.sent).toEqual([]);
+  });
+
+  it('sets the new password and signs out every session', async () => {
+    const { sessionToken } = await issueSession(db, 'user_a');
+    await requestPasswordReset(db, inbox, 'alice@example.com');
+    expect(inbox.sent[0].to).toBe('alice@example.com');
+
+    expect(await confirmPasswordReset(db, inbox.lastToken(), 'new-password')).toBe('user_a');
+
+    const user = await db.getUserById('user_a');
+    expect(user?.password_hash).toBe(await hashPassword('new-password', user!.salt));
+    expect(await resolveSession(db, sessionToken)).toBeNull();
+  });
+
+  it('accepts each token once and voids older ones with it', async () => {
+    await requestPasswordReset(db, inbox, 'alice@example.com');
+    const older = inbox.lastToken();
+    await requestPasswordReset(db, inbox, 'alice@example.com');
+    const newer = inbox.lastToken();
+
+    expect(await confirmPasswordReset(db, newer, 'new-password')).toBe('user_a');
+    expect(await confirmPasswordReset(db, newer, 'another-password')).toBeNull();
+    expect(await confirmPasswordReset(db, older, 'another-password')).toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    await requestPasswordReset(db, inbox, 'alice@example.com');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + PASSWORD_RESET_TTL_MS + 1);
+    expect(await confirmPasswordReset(db, inbox.lastToken(), 'new-password')).toBeNull();
+  });
+
+  it('limits requests per email address and per client address', () => {
+    const now = Date.now();
+    for (let i = 0; i < PASSWORD_RESET_RATE_LIMIT; i++) {
+      expect(allowPasswordResetRequest('limited@example.com', `10.0.0.${i}`, now)).toBe(true);
+    }
+    expect(allowPasswordResetRequest('Limited@example.com', '10.0.1.1', now)).toBe(false);
+
+    for (let i = 0; i < PASSWORD_RESET_RATE_LIMIT; i++) {
+      expect(allowPasswordResetRequest(`user${i}@example.com`, '10.0.2.1', now)).toBe(true);
+    }
+    expect(allowPasswordResetRequest('fresh@example.com', '10.0.2.1', now)).toBe(false);
+
+    expect(allowPasswordResetRequest('limited@example.com', '10.0.2.1', now + PASSWORD_RESET_RATE_WINDOW_MS)).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Password Reset
+ * Issues single-use, time-limited reset tokens by mail and exchanges them for
+ * a new password
+ */
+
+import { randomBytes } from 'crypto';
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { MailTransport } from '../mail/mail-transport.js';
+import { generateSalt, hashPassword } from './password.js';
+import { hashSessionToken } from './session.js';
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+// Reset requests allowed per email address, and per client address, in each window
+export const PASSWORD_RESET_RATE_LIMIT = 5;
+export const PASSWORD_RESET_RATE_WINDOW_MS = 15 * 60 * 1000;
+// Past this many entries, the request log drops whatever has lapsed
+const SWEEP_THRESHOLD = 1000;
+
+// Request times per email address and per client address inside the current window
+const recentRequests = new Map<string, number[]>();
+
+function resetLink(resetToken: string): string {
+  const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+  return `${appUrl}/reset-password?token=${encodeURIComponent(resetToken)}`;
+}
+
+/**
+ * Counts a reset request towards the limits for its email address and, when
+ * known, the client address it came from; false once either is over its limit
+ */
+export function allowPasswordResetRequest(email: string, clientAddress: string | null, now = Date.now()): boolean {
+  if (recentRequests.size > SWEEP_THRESHOLD) {
+    for (const [key, times] of recentRequests) {
+      if (times.every(time => now - time >= PASSWORD_RESET_RATE_WINDOW_MS)) {
+        recentRequests.delete(key);
+      }
+    }
+  }
+
+  const keys = [`email:${email.toLowerCase()}`, ...(clientAddress ? [`address:${clientAddress}`] : [])];
+  const windows = keys.map(key =>
+    (recentRequests.get(key) ?? []).filter(time => now - time < PASSWORD_RESET_RATE_WINDOW_MS)
+  );
+  const allowed = windows.every(times => times.length < PASSWORD_RESET_RATE_LIMIT);
+  keys.forEach((key, i) => recentRequests.set(key, allowed ? [...windows[i], now] : windows[i]));
+  return allowed;
+}
+
+/**
+ * Mail a reset link if the email belongs to an account. Resolves either way,
+ * so callers cannot tell from the result whether the account exists, and
+ * without waiting for the mail, so they cannot tell from how long it took.
+ */
+export async function requestPasswordReset(
+  db: DatabaseAdapter,
+  mail: MailTransport,
+  email: string
+): Promise<void> {
+  const user = await db.getUserByEmail(email);
+  if (!user) {
+    return;
+  }
+
+  const resetToken = randomBytes(32).toString('hex');
+  await db.createPasswordResetToken({
+    token_id: hashSessionToken(resetToken),
+    user_id: user.user_id,
+    expires_at: new Date(Date.now() + PASSWORD_RESET_TTL_MS).toISOString()
+  });
+  await db.deleteExpiredPasswordResetTokens();
+
+  // A delivery failure must look like success too, or it would reveal the account
+  void mail.send({
+    to: user.email,
+    subject: 'Reset your Summoned Spaces password',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Someone asked to reset the password for your account. Open this link to choose a new one:',
+      resetLink(resetToken),
+      '',
+      `The link works once and expires in ${PASSWORD_RESET_TTL_MS / 60000} minutes.`,
+      "If you didn't ask for this, you can ignore this email."
+    ].join('\n')
+  }).catch(error => console.error(`[AUTH] Failed to send password reset mail to user ${user.user_id}:`, error));
+}
+
+/**
+ * Set a new password with a reset token. Every existing session for the user
+ * is revoked, so anyone holding the old password is signed out. Resolves with
+ * the user id, or null if the token is unknown, expired or already used.
+ */
+export async function confirmPasswordReset(
+  db: DatabaseAdapter,
+  resetToken: string,
+  newPassword: string
+): Promise<string | null> {
+  const salt = generateSalt();
+  const passwordHash = await hashPassword(newPassword, salt);
+
+  // The token is only spent if the password change and revocation land too
+  return db.transaction(async tx => {
+    const token = await tx.consumePasswordResetToken(hashSessionToken(resetToken));
+    if (!token) {
+      return null;
+    }
+
+    await tx.updateUser(token.user_id, { password_hash: passwordHash, salt });
+    await tx.revokeUserSessions(token.user_id);
+    return token.user_id;
+  });
+}
@@ -0,0 +1,29 @@
+/**
+ * Password Hashing
+ * PBKDF2 with a per-user salt, shared by login, registration and password reset
+ */
+
+import { pbkdf2, randomBytes } from 'crypto';
+import { promisify } from 'util';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+// Matches the register form's client-side rule
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function generateSalt(): Buffer {
+  return randomBytes(32);
+}
+
+export async function hashPassword(password: string, salt: Buffer): Promise<string> {
+  const iterations = 100000;
+  const keylen = 64;
+  const digest = 'sha512';
+  const derivedKey = await pbkdf2Async(password, salt, iterations, keylen, digest);
+  return derivedKey.toString('hex');
+}
+
+export async function verifyPassword(password: string, salt: Buffer, hash: string): Promise<boolean> {
+  const passwordHash = await hashPassword(password, salt);
+  return passwordHash === hash;
+}
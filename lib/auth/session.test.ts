@@ -0,0 +1,97 @@
+/**
+ * Session Token Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, testUserData } from '../database/test-fixtures';
+import {
+  REFRESH_GRACE_MS, SESSION_TTL_MS, getSessionToken, hashSessionToken, issueSession,
+  refreshSession, resolveSession, revokeSession
+} from './session';
+
+describe('session tokens', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await db.createUser(testUserData('user_a', {
+      username: 'alice', email: 'alice@example.com', pri_fingerprint: 'fp_a'
+    }));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.disconnect();
+  });
+
+  it('stores only a hash of the token and resolves the caller from it', async () => {
+    const { sessionToken } = await issueSession(db, 'user_a');
+
+    expect(await db.getSession(sessionToken)).toBeNull();
+    expect((await db.getSession(hashSessionToken(sessionToken)))?.user_id).toBe('user_a');
+    expect((await resolveSession(db, sessionToken))?.userId).toBe('user_a');
+    expect(await resolveSession(db, 'not-a-token')).toBeNull();
+  });
+
+  it('rejects expired and revoked tokens', async () => {
+    const first = await issueSession(db, 'user_a');
+    const second = await issueSession(db, 'user_a');
+
+    expect(await revokeSession(db, first.sessionToken)).toBe(true);
+    expect(await resolveSession(db, first.sessionToken)).toBeNull();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + SESSION_TTL_MS + 1);
+    expect(await resolveSession(db, second.sessionToken)).toBeNull();
+  });
+
+  it('rotates the token on refresh and retires the old one after a grace period', async () => {
+    const original = await issueSession(db, 'user_a');
+    const refreshed = await refreshSession(db, original.sessionToken);
+
+    expect(refreshed?.userId).toBe('user_a');
+    expect(refreshed?.sessionToken).not.toBe(original.sessionToken);
+    expect((await resolveSession(db, original.sessionToken))?.userId).toBe('user_a');
+    expect((await resolveSession(db, refreshed?.sessionToken))?.userId).toBe('user_a');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + REFRESH_GRACE_MS + 1);
+    expect(await resolveSession(db, original.sessionToken)).toBeNull();
+    expect(await refreshSession(db, original.sessionToken)).toBeNull();
+    expect((await resolveSession(db, refreshed?.sessionToken))?.userId).toBe('user_a');
+  });
+
+  it('refreshes the same token twice, as two tabs loading at once do', async () => {
+    const original = await issueSession(db, 'user_a');
+    const [first, second] = await Promise.all([
+      refreshSession(db, original.sessionToken),
+      refreshSession(db, original.sessionToken)
+    ]);
+
+    expect(first?.userId).toBe('user_a');
+    expect(second?.userId).toBe('user_a');
+    expect((await resolveSession(db, first?.sessionToken))?.userId).toBe('user_a');
+    expect((await resolveSession(db, second?.sessionToken))?.userId).toBe('user_a');
+    // A second refresh never pushes the old token's expiry back out
+    const session = await db.getSession(hashSessionToken(original.sessionToken));
+    expect(Date.parse(session!.expires_at)).toBeLessThanOrEqual(Date.now() + REFRESH_GRACE_MS);
+  });
+
+  it('revokes every session for a user', async () => {
+    const sessions = await Promise.all([issueSession(db, 'user_a'), issueSession(db, 'user_a')]);
+
+    expect(await db.revokeUserSessions('user_a')).toBe(2);
+    for (const { sessionToken } of sessions) {
+      expect(await resolveSession(db, sessionToken)).toBeNull();
+    }
+  });
+
+  it('reads the token from the header, query or body', () => {
+    expect(getSessionToken({ headers: { authorization: 'Bearer abc' } })).toBe('abc');
+    expect(getSessionToken({ headers: {}, query: { token: 'def' } })).toBe('def');
+    expect(getSessionToken({ headers: {}, body: { kind: 'ping', payload: { sessionToken: 'ghi' } } })).toBe('ghi');
+    expect(getSessionToken({ headers: {}, body: { sessionToken: 'jkl' } })).toBe('jkl');
+    expect(getSessionToken({ headers: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Session Tokens
+ * Issues, resolves, refreshes and revokes the bearer tokens handed out at login
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// How long a token stays usable once refreshed, so other tabs sharing it can
+// pick up its replacement first
+export const REFRESH_GRACE_MS = 2 * 60 * 1000;
+
+export interface IssuedSession {
+  sessionToken: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export interface AuthenticatedCaller {
+  userId: string;
+  sessionId: string;
+  expiresAt: string;
+}
+
+// Only the parts of a Vercel or Node request the token lookup needs
+export interface SessionRequest {
+  headers: IncomingHttpHeaders;
+  query?: Record<string, string | string[]>;
+  body?: unknown;
+}
+
+// Only the hash is stored, so a leaked sessions table cannot be replayed
+export function hashSessionToken(sessionToken: string): string {
+  return createHash('sha256').update(sessionToken).digest('hex');
+}
+
+export async function issueSession(db: DatabaseAdapter, userId: string): Promise<IssuedSession> {
+  const sessionToken = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+
+  await db.createSession({
+    session_id: hashSessionToken(sessionToken),
+    user_id: userId,
+    expires_at: expiresAt
+  });
+
+  // There is no scheduled job, so dead sessions are swept whenever one is issued
+  await db.deleteExpiredSessions();
+
+  return { sessionToken, userId, expiresAt };
+}
+
+export async function resolveSession(
+  db: DatabaseAdapter,
+  sessionToken: string | null | undefined
+): Promise<AuthenticatedCaller | null> {
+  if (!sessionToken) {
+    return null;
+  }
+
+  const session = await db.getSession(hashSessionToken(sessionToken));
+  if (!session || session.revoked_at || Date.parse(session.expires_at) <= Date.now()) {
+    return null;
+  }
+
+  return { userId: session.user_id, sessionId: session.session_id, expiresAt: session.expires_at };
+}
+
+/**
+ * Exchange a live token for a new one with a fresh expiry. The old token
+ * expires REFRESH_GRACE_MS later rather than at once, so tabs that share it,
+ * or refresh it at the same time, keep working until they switch over.
+ */
+export async function refreshSession(
+  db: DatabaseAdapter,
+  sessionToken: string | null | undefined
+): Promise<IssuedSession | null> {
+  const caller = await resolveSession(db, sessionToken);
+  if (!caller) {
+    return null;
+  }
+  await db.shortenSession(caller.sessionId, new Date(Date.now() + REFRESH_GRACE_MS).toISOString());
+  return issueSession(db, caller.userId);
+}
+
+export async function revokeSession(db: DatabaseAdapter, sessionToken: string): Promise<boolean> {
+  return db.revokeSession(hashSessionToken(sessionToken));
+}
+
+/**
+ * Find the caller's token: the Authorization header first, then the `token`
+ * query parameter (EventSource cannot set headers), then the request body.
+ */
+export function getSessionToken(req: SessionRequest): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const queryToken = req.query?.token;
+  if (typeof queryToken === 'string' && queryToken) {
+    return queryToken;
+  }
+
+  if (typeof req.body === 'object' && req.body !== null) {
+    const body = req.body as { sessionToken?: unknown; payload?: { sessionToken?: unknown } };
+    const bodyToken = body.payload?.sessionToken ?? body.sessionToken;
+    if (typeof bodyToken === 'string' && bodyToken) {
+      return bodyToken;
+    }
+  }
+
+  return null;
+}
+
+export async function authenticateRequest(
+  db: DatabaseAdapter,
+  req: SessionRequest
+): Promise<AuthenticatedCaller | null> {
+  return resolveSession(db, getSessionToken(req));
+}
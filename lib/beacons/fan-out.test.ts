@@ -0,0 +1,61 @@
+/**
+ * Beacon Fan-out Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers } from '../database/test-fixtures';
+import { BeaconRoutingError, beaconRecipients } from './fan-out';
+
+describe('beacon fan-out', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['alice', 'bob', 'carol', 'dave']);
+    await db.createSpace({ space_id: 'space_1', name: 'Space', is_public: true, owner_id: 'alice', metadata: {} });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'alice', role: 'owner', status: 'active' });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'bob', role: 'contributor', status: 'active' });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'dave', role: 'contributor', status: 'pending' });
+    await db.createFollow('carol', 'alice');
+    await db.createFollow('bob', 'alice');
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('sends direct messages to their recipient only', async () => {
+    expect(await beaconRecipients(db, { beaconType: 'direct_message', senderId: 'alice', recipientId: 'dave' }))
+      .toEqual(['dave']);
+    expect(await beaconRecipients(db, { beaconType: 'quantum_message', senderId: 'alice', recipientId: 'alice' }))
+      .toEqual([]);
+    await expect(beaconRecipients(db, { beaconType: 'direct_message', senderId: 'alice' }))
+      .rejects.toBeInstanceOf(BeaconRoutingError);
+    await expect(beaconRecipients(db, { beaconType: 'direct_message', senderId: 'alice', recipientId: 'nobody' }))
+      .rejects.toThrow('Recipient not found');
+  });
+
+  it('sends space messages to the other active members', async () => {
+    expect(await beaconRecipients(db, { beaconType: 'space_message', senderId: 'alice', spaceId: 'space_1' }))
+      .toEqual(['bob']);
+    await expect(beaconRecipients(db, { beaconType: 'space_message', senderId: 'alice' }))
+      .rejects.toThrow('name their space');
+  });
+
+  it('sends posts to followers and space members once each', async () => {
+    expect((await beaconRecipients(db, { beaconType: 'post', senderId: 'alice' })).sort()).toEqual(['bob', 'carol']);
+    expect((await beaconRecipients(db, { beaconType: 'post', senderId: 'bob', spaceId: 'space_1' })).sort())
+      .toEqual(['alice']);
+    expect(await beaconRecipients(db, { beaconType: 'user_spaces_list', senderId: 'alice' })).toEqual([]);
+  });
+
+  it('sends posts in a private space to its members only', async () => {
+    await db.createSpace({ space_id: 'space_2', name: 'Private', is_public: false, owner_id: 'alice', metadata: {} });
+    await db.addSpaceMember({ space_id: 'space_2', user_id: 'alice', role: 'owner', status: 'active' });
+    await db.addSpaceMember({ space_id: 'space_2', user_id: 'bob', role: 'contributor', status: 'active' });
+
+    // carol follows alice but is not a member
+    expect(await beaconRecipients(db, { beaconType: 'post', senderId: 'alice', spaceId: 'space_2' })).toEqual(['bob']);
+  });
+});
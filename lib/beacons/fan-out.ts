@@ -0,0 +1,72 @@
+/**
+ * Beacon Fan-out
+ * Works out who a submitted beacon is delivered to. Direct messages go to
+ * their recipient, space messages to the space's members and posts to the
+ * author's followers and, for posts in a space, its members; posts in a
+ * private space reach its members only. The sender never receives their own
+ * beacon; other beacon types are stored without delivery.
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+
+export const DIRECT_BEACON_TYPES: ReadonlySet<string> = new Set(['direct_message', 'quantum_message']);
+export const SPACE_MESSAGE_BEACON_TYPE = 'space_message';
+export const POST_BEACON_TYPE = 'post';
+
+// A beacon that cannot be delivered as addressed; the message is safe to show the sender
+export class BeaconRoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BeaconRoutingError';
+  }
+}
+
+export interface BeaconRoute {
+  beaconType: string;
+  senderId: string;
+  spaceId?: string;
+  recipientId?: string;
+}
+
+/**
+ * Resolve the users to deliver a beacon to. Rejects before anything is stored
+ * when a direct message has no valid recipient or a space message no space.
+ */
+export async function beaconRecipients(db: DatabaseAdapter, route: BeaconRoute): Promise<string[]> {
+  const { beaconType, senderId, spaceId, recipientId } = route;
+  const recipients = new Set<string>();
+
+  if (DIRECT_BEACON_TYPES.has(beaconType)) {
+    if (!recipientId) {
+      throw new BeaconRoutingError('Direct messages need a recipientId');
+    }
+    const recipient = await db.getUserById(recipientId);
+    if (!recipient) {
+      throw new BeaconRoutingError(`Recipient not found: ${recipientId}`);
+    }
+    recipients.add(recipient.user_id);
+  } else if (beaconType === SPACE_MESSAGE_BEACON_TYPE) {
+    if (!spaceId) {
+      throw new BeaconRoutingError('Space messages must name their space');
+    }
+    for (const member of await db.getSpaceMembers(spaceId, 'active')) {
+      recipients.add(member.user_id);
+    }
+  } else if (beaconType === POST_BEACON_TYPE) {
+    // Followers outside a private space never see what is posted in it
+    const space = spaceId ? await db.getSpaceById(spaceId) : null;
+    if (!space || space.is_public) {
+      for (const follower of await db.getFollowers(senderId)) {
+        recipients.add(follower.user_id);
+      }
+    }
+    if (spaceId) {
+      for (const member of await db.getSpaceMembers(spaceId, 'active')) {
+        recipients.add(member.user_id);
+      }
+    }
+  }
+
+  recipients.delete(senderId);
+  return [...recipients];
+}
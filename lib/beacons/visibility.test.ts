@@ -0,0 +1,59 @@
+/**
+ * Beacon Visibility Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers, testPrimeIndices } from '../database/test-fixtures';
+import { visibleBeacons } from './visibility';
+
+describe('beacon visibility', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['alice', 'bob', 'carol']);
+    await db.createSpace({ space_id: 'private_1', name: 'Private', is_public: false, owner_id: 'alice', metadata: {} });
+    await db.addSpaceMember({ space_id: 'private_1', user_id: 'alice', role: 'owner', status: 'active' });
+    await db.addSpaceMember({ space_id: 'private_1', user_id: 'bob', role: 'contributor', status: 'active' });
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  function beacon(beaconId: string, beaconType: string, metadata: Record<string, unknown> = {}) {
+    return db.createBeacon({
+      beacon_id: beaconId,
+      beacon_type: beaconType,
+      author_id: 'alice',
+      prime_indices: testPrimeIndices,
+      epoch: 1,
+      fingerprint: Buffer.from('fp'),
+      signature: Buffer.from('sig'),
+      metadata
+    });
+  }
+
+  async function visibleIds(userId: string) {
+    const beacons = await db.queryBeacons({ author_id: 'alice', order_by: 'created_at', order_direction: 'asc' });
+    return (await visibleBeacons(db, beacons, userId)).map(b => b.beacon_id).sort();
+  }
+
+  it('hides beacons in a private space from non-members', async () => {
+    await beacon('public_post', 'post');
+    await beacon('space_post', 'post', { space_id: 'private_1' });
+
+    expect(await visibleIds('bob')).toEqual(['public_post', 'space_post']);
+    expect(await visibleIds('carol')).toEqual(['public_post']);
+  });
+
+  it('shows direct beacons to their recipient and private types to their author only', async () => {
+    await beacon('message', 'direct_message', { recipient_id: 'bob' });
+    await beacon('following', 'user_following_list');
+
+    expect(await visibleIds('alice')).toEqual(['following', 'message']);
+    expect(await visibleIds('bob')).toEqual(['message']);
+    expect(await visibleIds('carol')).toEqual([]);
+  });
+});
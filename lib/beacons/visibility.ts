@@ -0,0 +1,42 @@
+/**
+ * Beacon Visibility
+ * Decides which stored beacons a caller may read back. Authors see their own,
+ * anyone else only public beacon types and direct beacons addressed to them.
+ * A beacon posted in a space is further limited to callers who can view it.
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { Beacon } from '../database/types.js';
+import { Permission } from '../../src/services/space-manager/types.js';
+import { hasPermission, resolveSpaceAccess } from '../spaces/permissions.js';
+import { DIRECT_BEACON_TYPES, POST_BEACON_TYPE } from './fan-out.js';
+
+export const PUBLIC_BEACON_TYPES: ReadonlySet<string> = new Set([POST_BEACON_TYPE, 'comment']);
+
+export function isBeaconAddressedTo(beacon: Beacon, userId: string): boolean {
+  if (beacon.author_id === userId || PUBLIC_BEACON_TYPES.has(beacon.beacon_type)) {
+    return true;
+  }
+  return DIRECT_BEACON_TYPES.has(beacon.beacon_type) && beacon.metadata?.recipient_id === userId;
+}
+
+// Keeps the order of beacons; each space is resolved once per call
+export async function visibleBeacons(db: DatabaseAdapter, beacons: Beacon[], userId: string): Promise<Beacon[]> {
+  const viewableSpaces = new Map<string, boolean>();
+  const canViewSpace = async (spaceId: string) => {
+    if (!viewableSpaces.has(spaceId)) {
+      const access = await resolveSpaceAccess(db, spaceId, userId);
+      viewableSpaces.set(spaceId, access !== null && hasPermission(access, Permission.VIEW_SPACE));
+    }
+    return viewableSpaces.get(spaceId);
+  };
+
+  const visible: Beacon[] = [];
+  for (const beacon of beacons) {
+    if (!isBeaconAddressedTo(beacon, userId)) continue;
+    const spaceId = beacon.metadata?.space_id;
+    if (typeof spaceId === 'string' && !(await canViewSpace(spaceId))) continue;
+    visible.push(beacon);
+  }
+  return visible;
+}
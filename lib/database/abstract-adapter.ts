@@ -7,9 +7,33 @@ import {
   User, CreateUserData,
   Beacon, CreateBeaconData, BeaconFilter,
   Space, CreateSpaceData,
+  Comment, CreateCommentData,
+  SpaceFile, CreateSpaceFileData, SpaceFileContent,
+  DirectMessage, CreateDirectMessageData, ConversationSummary, ConversationParticipant, ConversationMarker,
+  ConversationPageOptions, ConversationUnreadCount,
+  Session, CreateSessionData, PasswordResetToken, CreatePasswordResetTokenData,
+  SpaceMember, CreateSpaceMemberData, SpaceMemberStatus, SpaceInvite, CreateSpaceInviteData,
   QuantumPrimeIndices, QuantumResonanceQuery, BeaconCluster,
+  AnalyticsEvent, CreateAnalyticsEventData, AnalyticsRollup, AnalyticsScope,
+  ContentReport, CreateContentReportData, ReportStatus, CreateModerationActionData,
+  UserActivityStats, SpaceActivityStats, Announcement, CreateAnnouncementData,
+  EncryptionKey, CreateEncryptionKeyData, SpaceKey, CreateSpaceKeyData,
+  SearchOptions, SearchPage,
   DatabaseStats
 } from './types.js';
+import type { AnnouncementStatus, ReportTargetType } from '../../src/protocol/index.js';
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+// The 'trending' search sort only counts activity this recent
+export const SEARCH_TRENDING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Direct conversations are keyed by their participants in code point order,
+// matching the backfill in migration 007
+export function directConversationId(userId: string, partnerId: string): string {
+  const [first, second] = userId < partnerId ? [userId, partnerId] : [partnerId, userId];
+  return `dm:${first}:${second}`;
+}
 
 export abstract class DatabaseAdapter {
   
@@ -64,6 +88,8 @@ export abstract class DatabaseAdapter {
     updates: Partial<Beacon>
   ): Promise<Beacon>;
   abstract deleteBeacon(beaconId: string): Promise<boolean>;
+  // Removes a post together with its likes and comments
+  abstract deletePostBeacon(beaconId: string): Promise<boolean>;
   
   // ============================================
   // Space Operations
@@ -74,8 +100,44 @@ export abstract class DatabaseAdapter {
   abstract getSpaceByName(name: string): Promise<Space | null>;
   abstract getPublicSpaces(limit?: number, offset?: number): Promise<Space[]>;
   abstract getSpacesByOwner(ownerId: string): Promise<Space[]>;
+  // Every space, private and hidden ones included, newest first
+  abstract listSpaces(limit?: number, offset?: number): Promise<Space[]>;
   abstract updateSpace(spaceId: string, updates: Partial<Space>): Promise<Space>;
+  // Files, memberships and invites go with the space; its posts do not, see deleteSpaceBeacons
   abstract deleteSpace(spaceId: string): Promise<boolean>;
+  // Posts carry their space in metadata, so they and their likes and comments
+  // are removed separately
+  abstract deleteSpaceBeacons(spaceId: string): Promise<number>;
+  // Spaces whose settings turn on autoArchive
+  abstract getAutoArchiveSpaces(): Promise<Space[]>;
+  
+  // ============================================
+  // Space Membership Operations
+  // ============================================
+  
+  // Resolves null if the user already has a membership row in the space
+  abstract addSpaceMember(member: CreateSpaceMemberData): Promise<SpaceMember | null>;
+  abstract getSpaceMember(spaceId: string, userId: string): Promise<SpaceMember | null>;
+  abstract getSpaceMembers(spaceId: string, status?: SpaceMemberStatus): Promise<SpaceMember[]>;
+  abstract getUserMemberships(userId: string): Promise<SpaceMember[]>;
+  abstract updateSpaceMember(
+    spaceId: string,
+    userId: string,
+    updates: Partial<Pick<SpaceMember, 'role' | 'status'>>
+  ): Promise<SpaceMember | null>;
+  abstract removeSpaceMember(spaceId: string, userId: string): Promise<boolean>;
+  
+  // Active members per space; spaces without members are omitted
+  abstract getSpaceMemberCounts(spaceIds: string[]): Promise<Map<string, number>>;
+  
+  abstract createSpaceInvite(invite: CreateSpaceInviteData): Promise<SpaceInvite>;
+  abstract getSpaceInvite(inviteId: string): Promise<SpaceInvite | null>;
+  
+  /**
+   * Count one use of a live invite and return it, or null if it is unknown,
+   * expired or used up
+   */
+  abstract redeemSpaceInvite(inviteId: string): Promise<SpaceInvite | null>;
   
   // ============================================
   // Quantum Resonance Operations
@@ -120,18 +182,173 @@ export abstract class DatabaseAdapter {
   abstract unlikeBeacon(userId: string, beaconId: string): Promise<boolean>;
   abstract getBeaconLikes(beaconId: string): Promise<User[]>;
   abstract getUserLikes(userId: string): Promise<Beacon[]>;
+  abstract getLikeCount(beaconId: string): Promise<number>;
+  abstract hasLiked(userId: string, beaconId: string): Promise<boolean>;
+  
+  abstract createComment(comment: CreateCommentData): Promise<Comment>;
+  abstract getCommentById(commentId: string): Promise<Comment | null>;
+  abstract getComments(postBeaconId: string, limit?: number, offset?: number): Promise<Comment[]>;
+  abstract updateComment(commentId: string, authorId: string, content: string): Promise<Comment | null>;
+  abstract deleteComment(commentId: string, authorId: string): Promise<boolean>;
+  abstract getCommentCount(postBeaconId: string): Promise<number>;
   
+  // ============================================
+  // Space File Operations
+  // ============================================
+  
+  abstract createSpaceFile(file: CreateSpaceFileData): Promise<SpaceFile>;
+  // Archived files are left out of listings but can still be downloaded
+  abstract getSpaceFiles(spaceId: string): Promise<SpaceFile[]>;
+  abstract getSpaceFileContent(spaceId: string, fingerprint: string): Promise<SpaceFileContent | null>;
+  abstract deleteSpaceFile(spaceId: string, fileId: string): Promise<boolean>;
+  // The given content hashes that some file, in any space, still refers to
+  abstract getReferencedContentHashes(contentHashes: string[]): Promise<string[]>;
+  // Archives files uploaded before olderThan; resolves with how many were archived
+  abstract archiveSpaceFiles(spaceId: string, olderThan: string): Promise<number>;
+  
+  // ============================================
+  // Direct Message Operations
+  // ============================================
+  
+  // One conversation per pair of users; ensure creates it and both participants
+  abstract ensureDirectConversation(userId: string, partnerId: string): Promise<string>;
+  abstract findDirectConversation(userId: string, partnerId: string): Promise<string | null>;
+  abstract getConversationParticipants(conversationId: string): Promise<ConversationParticipant[]>;
+  // Also moves the conversation's last_message_at
+  abstract createDirectMessage(message: CreateDirectMessageData): Promise<DirectMessage>;
+  abstract getDirectMessage(messageId: string): Promise<DirectMessage | null>;
+  // The newest page older than options.before, returned oldest first
+  abstract getConversation(conversationId: string, options?: ConversationPageOptions): Promise<DirectMessage[]>;
+  abstract getRecentConversations(userId: string, limit?: number): Promise<ConversationSummary[]>;
+  // Moves the user's marker up to the message; resolves false if it was already there or past it
+  abstract advanceConversationMarker(
+    conversationId: string,
+    userId: string,
+    marker: ConversationMarker,
+    messageId: string
+  ): Promise<boolean>;
+  // Conversations with unread messages only
+  abstract getUnreadCounts(userId: string): Promise<ConversationUnreadCount[]>;
+  // Everyone the user shares a conversation or an active space membership with
+  abstract getContactUserIds(userId: string): Promise<string[]>;
+
+  // ============================================
+  // Session Operations
+  // ============================================
+
+  abstract createSession(session: CreateSessionData): Promise<Session>;
+  abstract getSession(sessionId: string): Promise<Session | null>;
+  abstract revokeSession(sessionId: string): Promise<boolean>;
+  // Brings expires_at forward to expiresAt, never back; false when the
+  // session is revoked, already expires by then or does not exist
+  abstract shortenSession(sessionId: string, expiresAt: string): Promise<boolean>;
+  abstract revokeUserSessions(userId: string): Promise<number>;
+  abstract deleteExpiredSessions(): Promise<number>;
+
+  // ============================================
+  // Password Reset Operations
+  // ============================================
+
+  abstract createPasswordResetToken(token: CreatePasswordResetTokenData): Promise<PasswordResetToken>;
+
+  /**
+   * Mark a live token used and return it, or null if it is unknown, expired
+   * or already used. Every other outstanding token for the user is used up
+   * with it, so only one reset can ever succeed per request.
+   */
+  abstract consumePasswordResetToken(tokenId: string): Promise<PasswordResetToken | null>;
+
+  abstract deleteExpiredPasswordResetTokens(): Promise<number>;
+  
+  // ============================================
+  // Analytics Operations
+  // ============================================
+
+  // Stores the event and bumps the day's rollups for its user and, if it has
+  // one, its space
+  abstract recordAnalyticsEvent(event: CreateAnalyticsEventData): Promise<AnalyticsEvent>;
+  // Rollups for the given spaces or users with fromDay <= day <= toDay
+  abstract getAnalyticsRollups(
+    scope: AnalyticsScope,
+    scopeIds: string[],
+    fromDay: string,
+    toDay: string
+  ): Promise<AnalyticsRollup[]>;
+  // Newest first
+  abstract getRecentAnalyticsEvents(spaceIds: string[], limit: number): Promise<AnalyticsEvent[]>;
+  // Distinct users with any event in the spaces since the given time
+  abstract countAnalyticsUsers(spaceIds: string[], since: string): Promise<number>;
+
+  // ============================================
+  // Moderation Operations
+  // ============================================
+
+  // Resolves null if the reporter already has an open report on the target
+  abstract createContentReport(report: CreateContentReportData): Promise<ContentReport | null>;
+  abstract getContentReport(reportId: string): Promise<ContentReport | null>;
+  // Oldest first
+  abstract getPendingReports(limit?: number): Promise<ContentReport[]>;
+  // Closes every pending report on the target; resolves with how many were closed
+  abstract resolveReports(
+    targetType: ReportTargetType,
+    targetId: string,
+    status: Exclude<ReportStatus, 'pending'>,
+    resolution: string,
+    resolvedBy: string
+  ): Promise<number>;
+  abstract recordModerationAction(action: CreateModerationActionData): Promise<void>;
+  // Users and spaces without any activity get zeroed stats
+  abstract getUserActivityStats(userIds: string[]): Promise<Map<string, UserActivityStats>>;
+  abstract getSpaceActivityStats(spaceIds: string[]): Promise<Map<string, SpaceActivityStats>>;
+
+  // ============================================
+  // Announcement Operations
+  // ============================================
+
+  abstract createAnnouncement(announcement: CreateAnnouncementData): Promise<Announcement>;
+  abstract getAnnouncement(announcementId: string): Promise<Announcement | null>;
+  // Newest first, optionally only those with the given status
+  abstract listAnnouncements(status?: AnnouncementStatus): Promise<Announcement[]>;
+  // Stamps published_at the first time an announcement goes active
+  abstract updateAnnouncementStatus(
+    announcementId: string,
+    status: AnnouncementStatus
+  ): Promise<Announcement | null>;
+  // Active announcements the user has not dismissed, newest first
+  abstract getUndismissedAnnouncements(userId: string): Promise<Announcement[]>;
+  // Viewing again keeps the first view time
+  abstract recordAnnouncementViews(userId: string, announcementIds: string[]): Promise<void>;
+  abstract dismissAnnouncement(announcementId: string, userId: string): Promise<boolean>;
+  abstract getAnnouncementViewCounts(announcementIds: string[]): Promise<Map<string, number>>;
+
+  // ============================================
+  // Encryption Key Operations
+  // ============================================
+
+  // Keeps the stored row when key_id is already taken and resolves with it
+  abstract addEncryptionKey(key: CreateEncryptionKeyData): Promise<EncryptionKey>;
+  // Only keys bound to each user's current PRI fingerprint, oldest first
+  abstract getEncryptionKeys(userIds: string[]): Promise<EncryptionKey[]>;
+  // 0 while the space has no key
+  abstract getLatestSpaceKeyVersion(spaceId: string): Promise<number>;
+  // Newest version first
+  abstract getSpaceKeys(spaceId: string, filter?: { userId?: string; keyVersion?: number }): Promise<SpaceKey[]>;
+  // Skips devices that already hold the version; resolves with how many were added
+  abstract addSpaceKeys(keys: CreateSpaceKeyData[]): Promise<number>;
+
   // ============================================
   // Search and Discovery
   // ============================================
   
-  abstract searchUsers(query: string, limit?: number): Promise<User[]>;
-  abstract searchSpaces(query: string, limit?: number): Promise<Space[]>;
+  // Only publicly visible records match: public spaces, and beacons that
+  // aren't posted inside a private space
+  abstract searchUsers(query: string, options?: SearchOptions): Promise<SearchPage<User>>;
+  abstract searchSpaces(query: string, options?: SearchOptions): Promise<SearchPage<Space>>;
   abstract searchBeacons(
     query: string, 
     type?: string, 
-    limit?: number
-  ): Promise<Beacon[]>;
+    options?: SearchOptions
+  ): Promise<SearchPage<Beacon>>;
   
   // ============================================
   // Utility Methods
@@ -8,18 +8,19 @@ import { DatabaseConfig, DatabaseError } from './types.js';
 
 // Import adapters
 import { NeonAdapter } from './neon-adapter.js';
-// import { SqliteAdapter } from './sqlite-adapter.js'; // TODO: Implement later
+import { SqliteAdapter } from './sqlite-adapter.js';
 
 export class DatabaseFactory {
   private static instance: DatabaseAdapter | null = null;
+  private static pending: Promise<DatabaseAdapter> | null = null;
   
   static async create(config: DatabaseConfig): Promise<DatabaseAdapter> {
     let adapter: DatabaseAdapter;
     
     switch (config.type) {
       case 'sqlite':
-        // TODO: Implement SqliteAdapter for development
-        throw new DatabaseError('SQLite adapter not yet implemented - use Neon for now');
+        adapter = new SqliteAdapter(config);
+        break;
         
       case 'postgresql':
         adapter = new NeonAdapter(config);
@@ -48,7 +49,18 @@ export class DatabaseFactory {
     return this.create(config);
   }
   
-  private static getConfigFromEnvironment(): DatabaseConfig {
+  // Shared instance for API handlers - concurrent cold-start callers share one connect
+  static async getOrCreateFromEnvironment(): Promise<DatabaseAdapter> {
+    if (this.instance) return this.instance;
+    if (!this.pending) {
+      this.pending = this.createFromEnvironment().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+  
+  static getConfigFromEnvironment(): DatabaseConfig {
     const isProduction = process.env.NODE_ENV === 'production';
     const isVercel = process.env.VERCEL === '1';
     const hasNeonUrl = !!(process.env.DATABASE_URL || process.env.NEON_DATABASE_URL);
@@ -67,21 +79,14 @@ export class DatabaseFactory {
         maxConnections: parseInt(process.env.DB_MAX_CONNECTIONS || '20'),
         queryTimeout: parseInt(process.env.DB_QUERY_TIMEOUT || '30000')
       };
-    } else {
-      // For now, force Neon even in development since SQLite adapter isn't implemented yet
-      if (hasNeonUrl) {
-        return {
-          type: 'postgresql',
-          connectionString: process.env.DATABASE_URL || process.env.NEON_DATABASE_URL!,
-          pooling: true,
-          ssl: true,
-          maxConnections: parseInt(process.env.DB_MAX_CONNECTIONS || '20'),
-          queryTimeout: parseInt(process.env.DB_QUERY_TIMEOUT || '30000')
-        };
-      }
-      
-      throw new DatabaseError('Please provide DATABASE_URL or NEON_DATABASE_URL. SQLite adapter not yet implemented.');
     }
+    
+    // Development without a Neon URL: use a local SQLite file (or ':memory:')
+    return {
+      type: 'sqlite',
+      connectionString: process.env.SQLITE_PATH || './summoned-spaces.db',
+      pooling: false
+    };
   }
   
   static async shutdown(): Promise<void> {
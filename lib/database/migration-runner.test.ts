@@ -0,0 +1,88 @@
+/**
+ * Migration Runner Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqliteAdapter } from './sqlite-adapter';
+import { MigrationRunner } from './migration-runner';
+import type { Migration } from './migration-runner';
+import { baseline } from './migrations/001_baseline';
+
+const addWidgets: Migration = {
+  version: 2,
+  name: 'add_widgets',
+  up: {
+    postgresql: ['CREATE TABLE widgets (id TEXT PRIMARY KEY)'],
+    sqlite: ['CREATE TABLE widgets (id TEXT PRIMARY KEY)']
+  },
+  down: {
+    postgresql: ['DROP TABLE widgets'],
+    sqlite: ['DROP TABLE widgets']
+  }
+};
+
+describe('MigrationRunner', () => {
+  let db: SqliteAdapter;
+
+  const tableExists = async (name: string) =>
+    (await db.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = $1", [name])).length > 0;
+
+  beforeEach(async () => {
+    db = new SqliteAdapter({ type: 'sqlite', connectionString: ':memory:', autoMigrate: false });
+    await db.connect();
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('applies pending migrations once and records them', async () => {
+    const runner = new MigrationRunner(db, 'sqlite', [baseline, addWidgets]);
+
+    expect((await runner.migrate(1)).map(m => m.version)).toEqual([1]);
+    expect(await tableExists('users')).toBe(true);
+    expect(await tableExists('widgets')).toBe(false);
+
+    expect((await runner.migrate()).map(m => m.version)).toEqual([2]);
+    expect(await runner.migrate()).toEqual([]);
+
+    const status = await runner.status();
+    expect(status.map(m => [m.version, m.name])).toEqual([[1, 'baseline'], [2, 'add_widgets']]);
+    expect(status.every(m => m.appliedAt)).toBe(true);
+  });
+
+  it('rolls back the newest migrations first', async () => {
+    const runner = new MigrationRunner(db, 'sqlite', [baseline, addWidgets]);
+    await runner.migrate();
+
+    expect((await runner.rollback()).map(m => m.version)).toEqual([2]);
+    expect(await tableExists('widgets')).toBe(false);
+    expect(await tableExists('users')).toBe(true);
+
+    expect((await runner.rollback(5)).map(m => m.version)).toEqual([1]);
+    expect(await tableExists('users')).toBe(false);
+    expect((await runner.status()).every(m => !m.appliedAt)).toBe(true);
+  });
+
+  it('leaves nothing behind when a migration fails', async () => {
+    const broken: Migration = {
+      ...addWidgets,
+      version: 3,
+      up: { postgresql: [], sqlite: ['CREATE TABLE gadgets (id TEXT)', 'NOT VALID SQL'] }
+    };
+    const runner = new MigrationRunner(db, 'sqlite', [baseline, broken]);
+
+    await expect(runner.migrate()).rejects.toThrow();
+    expect(await tableExists('gadgets')).toBe(false);
+    expect(await tableExists('users')).toBe(false);
+  });
+
+  it('adopts databases created before migrations existed', async () => {
+    await db.query('CREATE TABLE spaces (space_id TEXT PRIMARY KEY, name TEXT NOT NULL, is_public INTEGER NOT NULL, created_at TEXT NOT NULL)');
+
+    await new MigrationRunner(db, 'sqlite').migrate();
+
+    const columns = await db.query<{ name: string }>('PRAGMA table_info(spaces)');
+    expect(columns.map(c => c.name)).toEqual(expect.arrayContaining(['owner_id', 'metadata', 'updated_at']));
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Schema Migration Runner
+ * Applies numbered up/down migrations and records them in schema_migrations,
+ * for both the PostgreSQL and SQLite adapters
+ */
+
+import type { DatabaseAdapter } from './abstract-adapter.js';
+import type { DatabaseConfig } from './types.js';
+import { MIGRATIONS } from './migrations/index.js';
+
+export type MigrationDialect = DatabaseConfig['type'];
+
+// A SQL statement (one per entry - SQLite runs only the first of several), or
+// a function for changes plain SQL can't express in a dialect
+export type MigrationStep = string | ((db: DatabaseAdapter) => Promise<void>);
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: Record<MigrationDialect, MigrationStep[]>;
+  down: Record<MigrationDialect, MigrationStep[]>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: string;
+}
+
+// Arbitrary key shared by every instance; pg_advisory_xact_lock takes a bigint
+const MIGRATION_LOCK_KEY = 5_312_480_117;
+
+const createMigrationsTableSql: Record<MigrationDialect, string> = {
+  postgresql: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `,
+  sqlite: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `
+};
+
+export class MigrationRunner {
+  private migrations: Migration[];
+
+  constructor(
+    private db: DatabaseAdapter,
+    private dialect: MigrationDialect,
+    migrations: Migration[] = MIGRATIONS
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  // Every known migration, plus any applied ones this build no longer knows about
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.db.transaction(tx => this.lockAndReadApplied(tx));
+    const known = this.migrations.map(m => ({ version: m.version, name: m.name, appliedAt: applied.get(m.version)?.appliedAt }));
+    const unknown = [...applied.values()].filter(a => !this.migrations.some(m => m.version === a.version));
+    return [...known, ...unknown].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations up to and including targetVersion (default: all)
+   * in one transaction. Resolves with the migrations that were applied.
+   */
+  async migrate(targetVersion = Infinity): Promise<Migration[]> {
+    return this.db.transaction(async tx => {
+      const applied = await this.lockAndReadApplied(tx);
+      const pending = this.migrations.filter(m => !applied.has(m.version) && m.version <= targetVersion);
+
+      for (const migration of pending) {
+        await this.runSteps(tx, migration.up[this.dialect]);
+        await tx.query(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+        console.log(`  ✅ Applied migration ${formatVersion(migration.version)} ${migration.name}`);
+      }
+      return pending;
+    });
+  }
+
+  // Revert the most recently applied migrations, newest first
+  async rollback(steps = 1): Promise<Migration[]> {
+    return this.db.transaction(async tx => {
+      const applied = await this.lockAndReadApplied(tx);
+      const reverting = [...applied.keys()].sort((a, b) => b - a).slice(0, steps).map(version => {
+        const migration = this.migrations.find(m => m.version === version);
+        if (!migration) {
+          throw new Error(`Migration ${formatVersion(version)} is applied but unknown to this build`);
+        }
+        return migration;
+      });
+
+      for (const migration of reverting) {
+        await this.runSteps(tx, migration.down[this.dialect]);
+        await tx.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        console.log(`  ↩️ Rolled back migration ${formatVersion(migration.version)} ${migration.name}`);
+      }
+      return reverting;
+    });
+  }
+
+  /**
+   * Serverless cold starts may all migrate at once. On PostgreSQL the
+   * transaction-scoped advisory lock makes them take turns and is released at
+   * commit; SQLite transactions already exclude other writers.
+   */
+  private async lockAndReadApplied(tx: DatabaseAdapter): Promise<Map<number, MigrationStatus>> {
+    if (this.dialect === 'postgresql') {
+      await tx.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+    }
+    await tx.query(createMigrationsTableSql[this.dialect]);
+
+    const rows = await tx.query<{ version: number; name: string; applied_at: string | Date }>(
+      'SELECT version, name, applied_at FROM schema_migrations'
+    );
+    return new Map(rows.map(row => [Number(row.version), {
+      version: Number(row.version),
+      name: row.name,
+      appliedAt: row.applied_at instanceof Date ? row.applied_at.toISOString() : row.applied_at
+    }]));
+  }
+
+  private async runSteps(tx: DatabaseAdapter, steps: MigrationStep[]): Promise<void> {
+    for (const step of steps) {
+      if (typeof step === 'string') {
+        await tx.query(step);
+      } else {
+        await step(tx);
+      }
+    }
+  }
+}
+
+export function formatVersion(version: number): string {
+  return String(version).padStart(3, '0');
+}
@@ -0,0 +1,377 @@
+/**
+ * 001 Baseline
+ * The schema the adapters used to create on every connect. Every statement is
+ * idempotent so databases created before migrations existed adopt it as-is.
+ */
+
+import type { DatabaseAdapter } from '../abstract-adapter.js';
+import type { Migration } from '../migration-runner.js';
+
+// Children before parents, for the down migration
+const TABLES = [
+  'password_reset_tokens', 'sessions', 'direct_messages', 'space_files', 'quaternionic_messages',
+  'notifications', 'follows', 'comments', 'likes', 'spaces', 'beacons', 'users'
+];
+
+// SQLite has no ADD COLUMN IF NOT EXISTS; databases created by the old server predate these
+async function addLegacySqliteColumns(db: DatabaseAdapter): Promise<void> {
+  const missing: Record<string, Record<string, string>> = {
+    users: { updated_at: 'TEXT' },
+    beacons: { updated_at: 'TEXT' },
+    spaces: { owner_id: 'TEXT', metadata: 'TEXT', updated_at: 'TEXT' }
+  };
+
+  for (const [table, columns] of Object.entries(missing)) {
+    const existing = await db.query<{ name: string }>(`PRAGMA table_info(${table})`);
+    const names = new Set(existing.map(column => column.name));
+    for (const [name, type] of Object.entries(columns)) {
+      if (!names.has(name)) {
+        await db.query(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+      }
+    }
+  }
+}
+
+export const baseline: Migration = {
+  version: 1,
+  name: 'baseline',
+  up: {
+    postgresql: [
+      `
+        CREATE TABLE IF NOT EXISTS users (
+          user_id TEXT PRIMARY KEY,
+          username TEXT UNIQUE NOT NULL,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          salt BYTEA NOT NULL,
+          node_public_key BYTEA NOT NULL,
+          node_private_key_encrypted BYTEA NOT NULL,
+          master_phase_key_encrypted BYTEA NOT NULL,
+          pri_public_resonance JSONB NOT NULL,
+          pri_private_resonance JSONB NOT NULL,
+          pri_fingerprint TEXT NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS beacons (
+          beacon_id TEXT PRIMARY KEY,
+          beacon_type TEXT NOT NULL,
+          author_id TEXT NOT NULL,
+          prime_indices JSONB NOT NULL,
+          epoch BIGINT NOT NULL,
+          fingerprint BYTEA NOT NULL,
+          signature BYTEA NOT NULL,
+          metadata JSONB,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          FOREIGN KEY (author_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS spaces (
+          space_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          is_public BOOLEAN NOT NULL,
+          owner_id TEXT,
+          metadata JSONB,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          FOREIGN KEY (owner_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS likes (
+          id SERIAL PRIMARY KEY,
+          post_beacon_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE(post_beacon_id, user_id),
+          FOREIGN KEY (user_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS comments (
+          comment_id TEXT PRIMARY KEY,
+          post_beacon_id TEXT NOT NULL,
+          author_id TEXT NOT NULL,
+          parent_comment_id TEXT REFERENCES comments (comment_id),
+          content TEXT NOT NULL DEFAULT '',
+          comment_beacon_id TEXT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE,
+          deleted_at TIMESTAMP WITH TIME ZONE,
+          FOREIGN KEY (author_id) REFERENCES users (user_id)
+        )
+      `,
+      // Comments tables created before threading only linked a comment beacon
+      `
+        ALTER TABLE comments
+          ADD COLUMN IF NOT EXISTS parent_comment_id TEXT REFERENCES comments (comment_id),
+          ADD COLUMN IF NOT EXISTS content TEXT NOT NULL DEFAULT '',
+          ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE,
+          ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+          ALTER COLUMN comment_beacon_id DROP NOT NULL
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS follows (
+          follower_id TEXT NOT NULL,
+          following_id TEXT NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          PRIMARY KEY (follower_id, following_id),
+          FOREIGN KEY (follower_id) REFERENCES users (user_id),
+          FOREIGN KEY (following_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS notifications (
+          id SERIAL PRIMARY KEY,
+          recipient_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          title TEXT NOT NULL,
+          message TEXT NOT NULL,
+          sender_id TEXT,
+          sender_username TEXT,
+          read BOOLEAN DEFAULT FALSE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          FOREIGN KEY (recipient_id) REFERENCES users (user_id),
+          FOREIGN KEY (sender_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS quaternionic_messages (
+          message_id TEXT PRIMARY KEY,
+          sender_id TEXT NOT NULL,
+          receiver_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          room_id TEXT,
+          phase_alignment REAL NOT NULL,
+          entropy_level REAL NOT NULL,
+          twist_angle REAL NOT NULL,
+          is_quantum_delivered BOOLEAN NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          FOREIGN KEY (sender_id) REFERENCES users (user_id) ON DELETE CASCADE,
+          FOREIGN KEY (receiver_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS space_files (
+          file_id TEXT PRIMARY KEY,
+          space_id TEXT NOT NULL,
+          uploader_id TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          file_type TEXT NOT NULL,
+          file_size BIGINT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          content BYTEA NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          FOREIGN KEY (space_id) REFERENCES spaces (space_id) ON DELETE CASCADE,
+          FOREIGN KEY (uploader_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS direct_messages (
+          message_id TEXT PRIMARY KEY,
+          sender_id TEXT NOT NULL,
+          recipient_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          read_at TIMESTAMPTZ,
+          FOREIGN KEY (sender_id) REFERENCES users (user_id) ON DELETE CASCADE,
+          FOREIGN KEY (recipient_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS sessions (
+          session_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          expires_at TIMESTAMPTZ NOT NULL,
+          revoked_at TIMESTAMPTZ,
+          FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS password_reset_tokens (
+          token_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          expires_at TIMESTAMPTZ NOT NULL,
+          used_at TIMESTAMPTZ,
+          FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      // Full-text indexes for search; the expressions must match the queries
+      "CREATE INDEX IF NOT EXISTS idx_users_search ON users USING GIN (to_tsvector('simple', username))",
+      "CREATE INDEX IF NOT EXISTS idx_spaces_search ON spaces USING GIN (to_tsvector('english', name || ' ' || COALESCE(description, '')))",
+      "CREATE INDEX IF NOT EXISTS idx_beacons_search ON beacons USING GIN (to_tsvector('english', COALESCE(metadata->>'originalText', '')))"
+    ],
+    sqlite: [
+      `
+        CREATE TABLE IF NOT EXISTS users (
+          user_id TEXT PRIMARY KEY,
+          username TEXT UNIQUE NOT NULL,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          salt BLOB NOT NULL,
+          node_public_key BLOB NOT NULL,
+          node_private_key_encrypted BLOB NOT NULL,
+          master_phase_key_encrypted BLOB NOT NULL,
+          pri_public_resonance TEXT NOT NULL,
+          pri_private_resonance TEXT NOT NULL,
+          pri_fingerprint TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS beacons (
+          beacon_id TEXT PRIMARY KEY,
+          beacon_type TEXT NOT NULL,
+          author_id TEXT NOT NULL,
+          prime_indices TEXT NOT NULL,
+          epoch INTEGER NOT NULL,
+          fingerprint BLOB NOT NULL,
+          signature BLOB NOT NULL,
+          metadata TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          FOREIGN KEY (author_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS spaces (
+          space_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          is_public INTEGER NOT NULL,
+          owner_id TEXT,
+          metadata TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          FOREIGN KEY (owner_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS likes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_beacon_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          UNIQUE(post_beacon_id, user_id),
+          FOREIGN KEY (user_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS comments (
+          comment_id TEXT PRIMARY KEY,
+          post_beacon_id TEXT NOT NULL,
+          author_id TEXT NOT NULL,
+          parent_comment_id TEXT,
+          content TEXT NOT NULL DEFAULT '',
+          comment_beacon_id TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          deleted_at TEXT,
+          FOREIGN KEY (author_id) REFERENCES users (user_id),
+          FOREIGN KEY (parent_comment_id) REFERENCES comments (comment_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS follows (
+          follower_id TEXT NOT NULL,
+          following_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (follower_id, following_id),
+          FOREIGN KEY (follower_id) REFERENCES users (user_id),
+          FOREIGN KEY (following_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS notifications (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          recipient_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          title TEXT NOT NULL,
+          message TEXT NOT NULL,
+          sender_id TEXT,
+          sender_username TEXT,
+          read INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (recipient_id) REFERENCES users (user_id),
+          FOREIGN KEY (sender_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS quaternionic_messages (
+          message_id TEXT PRIMARY KEY,
+          sender_id TEXT NOT NULL,
+          receiver_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          room_id TEXT,
+          phase_alignment REAL NOT NULL,
+          entropy_level REAL NOT NULL,
+          twist_angle REAL NOT NULL,
+          is_quantum_delivered INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (sender_id) REFERENCES users (user_id) ON DELETE CASCADE,
+          FOREIGN KEY (receiver_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS space_files (
+          file_id TEXT PRIMARY KEY,
+          space_id TEXT NOT NULL,
+          uploader_id TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          file_type TEXT NOT NULL,
+          file_size INTEGER NOT NULL,
+          fingerprint TEXT NOT NULL,
+          content BLOB NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (space_id) REFERENCES spaces (space_id) ON DELETE CASCADE,
+          FOREIGN KEY (uploader_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS direct_messages (
+          message_id TEXT PRIMARY KEY,
+          sender_id TEXT NOT NULL,
+          recipient_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          read_at TEXT,
+          FOREIGN KEY (sender_id) REFERENCES users (user_id) ON DELETE CASCADE,
+          FOREIGN KEY (recipient_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS sessions (
+          session_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS password_reset_tokens (
+          token_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          used_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      addLegacySqliteColumns
+    ]
+  },
+  down: {
+    postgresql: TABLES.map(table => `DROP TABLE IF EXISTS ${table} CASCADE`),
+    sqlite: TABLES.map(table => `DROP TABLE IF EXISTS ${table}`)
+  }
+};
@@ -0,0 +1,88 @@
+/**
+ * 002 Space Members
+ * Server-side space membership and invite links. Existing spaces get their
+ * owner as the first member.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const spaceMembers: Migration = {
+  version: 2,
+  name: 'space_members',
+  up: {
+    postgresql: [
+      `
+        CREATE TABLE space_members (
+          space_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'active',
+          joined_at TIMESTAMPTZ DEFAULT NOW(),
+          updated_at TIMESTAMPTZ,
+          PRIMARY KEY (space_id, user_id),
+          FOREIGN KEY (space_id) REFERENCES spaces (space_id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      'CREATE INDEX idx_space_members_user ON space_members (user_id)',
+      `
+        CREATE TABLE space_invites (
+          invite_id TEXT PRIMARY KEY,
+          space_id TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          role TEXT NOT NULL,
+          max_uses INTEGER,
+          uses INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          expires_at TIMESTAMPTZ NOT NULL,
+          FOREIGN KEY (space_id) REFERENCES spaces (space_id) ON DELETE CASCADE,
+          FOREIGN KEY (created_by) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        INSERT INTO space_members (space_id, user_id, role, status, joined_at)
+        SELECT space_id, owner_id, 'owner', 'active', created_at FROM spaces
+        WHERE owner_id IS NOT NULL
+      `
+    ],
+    sqlite: [
+      `
+        CREATE TABLE space_members (
+          space_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'active',
+          joined_at TEXT NOT NULL,
+          updated_at TEXT,
+          PRIMARY KEY (space_id, user_id),
+          FOREIGN KEY (space_id) REFERENCES spaces (space_id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      'CREATE INDEX idx_space_members_user ON space_members (user_id)',
+      `
+        CREATE TABLE space_invites (
+          invite_id TEXT PRIMARY KEY,
+          space_id TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          role TEXT NOT NULL,
+          max_uses INTEGER,
+          uses INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          FOREIGN KEY (space_id) REFERENCES spaces (space_id) ON DELETE CASCADE,
+          FOREIGN KEY (created_by) REFERENCES users (user_id) ON DELETE CASCADE
+        )
+      `,
+      `
+        INSERT INTO space_members (space_id, user_id, role, status, joined_at)
+        SELECT space_id, owner_id, 'owner', 'active', created_at FROM spaces
+        WHERE owner_id IS NOT NULL
+      `
+    ]
+  },
+  down: {
+    postgresql: ['DROP TABLE IF EXISTS space_invites', 'DROP TABLE IF EXISTS space_members'],
+    sqlite: ['DROP TABLE IF EXISTS space_invites', 'DROP TABLE IF EXISTS space_members']
+  }
+};
@@ -0,0 +1,20 @@
+/**
+ * 003 Space File Archive
+ * Spaces with autoArchive set hide old files from their listings; archived_at
+ * records when that happened.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const spaceFileArchive: Migration = {
+  version: 3,
+  name: 'space_file_archive',
+  up: {
+    postgresql: ['ALTER TABLE space_files ADD COLUMN archived_at TIMESTAMPTZ'],
+    sqlite: ['ALTER TABLE space_files ADD COLUMN archived_at TEXT']
+  },
+  down: {
+    postgresql: ['ALTER TABLE space_files DROP COLUMN IF EXISTS archived_at'],
+    sqlite: ['ALTER TABLE space_files DROP COLUMN archived_at']
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * 004 Analytics
+ * Raw activity events plus daily counts per space and per user. Rollups are
+ * bumped as each event is recorded; day is the UTC date as YYYY-MM-DD.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const analytics: Migration = {
+  version: 4,
+  name: 'analytics',
+  up: {
+    postgresql: [
+      `
+        CREATE TABLE analytics_events (
+          event_id TEXT PRIMARY KEY,
+          event_type TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          space_id TEXT,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        )
+      `,
+      'CREATE INDEX idx_analytics_events_space ON analytics_events (space_id, created_at)',
+      `
+        CREATE TABLE analytics_daily (
+          day TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          scope_id TEXT NOT NULL,
+          event_type TEXT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (scope, scope_id, day, event_type)
+        )
+      `
+    ],
+    sqlite: [
+      `
+        CREATE TABLE analytics_events (
+          event_id TEXT PRIMARY KEY,
+          event_type TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          space_id TEXT,
+          created_at TEXT NOT NULL
+        )
+      `,
+      'CREATE INDEX idx_analytics_events_space ON analytics_events (space_id, created_at)',
+      `
+        CREATE TABLE analytics_daily (
+          day TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          scope_id TEXT NOT NULL,
+          event_type TEXT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (scope, scope_id, day, event_type)
+        )
+      `
+    ]
+  },
+  down: {
+    postgresql: ['DROP TABLE IF EXISTS analytics_daily', 'DROP TABLE IF EXISTS analytics_events'],
+    sqlite: ['DROP TABLE IF EXISTS analytics_daily', 'DROP TABLE IF EXISTS analytics_events']
+  }
+};
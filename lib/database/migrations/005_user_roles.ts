@@ -0,0 +1,20 @@
+/**
+ * 005 User Roles
+ * Platform-wide role on each user, separate from their roles inside spaces.
+ * Everyone starts as a plain user; admins are granted with scripts/set-role.ts.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const userRoles: Migration = {
+  version: 5,
+  name: 'user_roles',
+  up: {
+    postgresql: ["ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user'"],
+    sqlite: ["ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user'"]
+  },
+  down: {
+    postgresql: ['ALTER TABLE users DROP COLUMN IF EXISTS role'],
+    sqlite: ['ALTER TABLE users DROP COLUMN role']
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * 006 Moderation
+ * User reports and the moderation queue they feed, a log of every action
+ * moderators take, account standing on users, hidden flags on posts and
+ * spaces, and platform announcements with per-user views.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const moderation: Migration = {
+  version: 6,
+  name: 'moderation',
+  up: {
+    postgresql: [
+      "ALTER TABLE users ADD COLUMN moderation_status TEXT NOT NULL DEFAULT 'active'",
+      'ALTER TABLE users ADD COLUMN suspended_until TIMESTAMPTZ',
+      'ALTER TABLE beacons ADD COLUMN hidden_at TIMESTAMPTZ',
+      'ALTER TABLE spaces ADD COLUMN hidden_at TIMESTAMPTZ',
+      `
+        CREATE TABLE content_reports (
+          report_id TEXT PRIMARY KEY,
+          target_type TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          reporter_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          reason TEXT NOT NULL,
+          details TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          resolution TEXT,
+          resolved_by TEXT,
+          resolved_at TIMESTAMPTZ,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        )
+      `,
+      'CREATE INDEX idx_content_reports_target ON content_reports (target_type, target_id, status)',
+      // One open report per reporter and target; reporting again after a
+      // decision is allowed
+      `CREATE UNIQUE INDEX idx_content_reports_open ON content_reports (target_type, target_id, reporter_id)
+        WHERE status = 'pending'`,
+      `
+        CREATE TABLE moderation_actions (
+          action_id TEXT PRIMARY KEY,
+          target_type TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          moderator_id TEXT NOT NULL,
+          report_id TEXT,
+          note TEXT,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        )
+      `,
+      'CREATE INDEX idx_moderation_actions_target ON moderation_actions (target_type, target_id)',
+      `
+        CREATE TABLE announcements (
+          announcement_id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'draft',
+          created_by TEXT NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          published_at TIMESTAMPTZ
+        )
+      `,
+      `
+        CREATE TABLE announcement_views (
+          announcement_id TEXT NOT NULL REFERENCES announcements (announcement_id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          viewed_at TIMESTAMPTZ DEFAULT NOW(),
+          dismissed_at TIMESTAMPTZ,
+          PRIMARY KEY (announcement_id, user_id)
+        )
+      `
+    ],
+    sqlite: [
+      "ALTER TABLE users ADD COLUMN moderation_status TEXT NOT NULL DEFAULT 'active'",
+      'ALTER TABLE users ADD COLUMN suspended_until TEXT',
+      'ALTER TABLE beacons ADD COLUMN hidden_at TEXT',
+      'ALTER TABLE spaces ADD COLUMN hidden_at TEXT',
+      `
+        CREATE TABLE content_reports (
+          report_id TEXT PRIMARY KEY,
+          target_type TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          reporter_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          reason TEXT NOT NULL,
+          details TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          resolution TEXT,
+          resolved_by TEXT,
+          resolved_at TEXT,
+          created_at TEXT NOT NULL
+        )
+      `,
+      'CREATE INDEX idx_content_reports_target ON content_reports (target_type, target_id, status)',
+      `CREATE UNIQUE INDEX idx_content_reports_open ON content_reports (target_type, target_id, reporter_id)
+        WHERE status = 'pending'`,
+      `
+        CREATE TABLE moderation_actions (
+          action_id TEXT PRIMARY KEY,
+          target_type TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          moderator_id TEXT NOT NULL,
+          report_id TEXT,
+          note TEXT,
+          created_at TEXT NOT NULL
+        )
+      `,
+      'CREATE INDEX idx_moderation_actions_target ON moderation_actions (target_type, target_id)',
+      `
+        CREATE TABLE announcements (
+          announcement_id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'draft',
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          published_at TEXT
+        )
+      `,
+      `
+        CREATE TABLE announcement_views (
+          announcement_id TEXT NOT NULL REFERENCES announcements (announcement_id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          viewed_at TEXT NOT NULL,
+          dismissed_at TEXT,
+          PRIMARY KEY (announcement_id, user_id)
+        )
+      `
+    ]
+  },
+  down: {
+    postgresql: [
+      'DROP TABLE IF EXISTS announcement_views',
+      'DROP TABLE IF EXISTS announcements',
+      'DROP TABLE IF EXISTS moderation_actions',
+      'DROP TABLE IF EXISTS content_reports',
+      'ALTER TABLE spaces DROP COLUMN IF EXISTS hidden_at',
+      'ALTER TABLE beacons DROP COLUMN IF EXISTS hidden_at',
+      'ALTER TABLE users DROP COLUMN IF EXISTS suspended_until',
+      'ALTER TABLE users DROP COLUMN IF EXISTS moderation_status'
+    ],
+    sqlite: [
+      'DROP TABLE IF EXISTS announcement_views',
+      'DROP TABLE IF EXISTS announcements',
+      'DROP TABLE IF EXISTS moderation_actions',
+      'DROP TABLE IF EXISTS content_reports',
+      'ALTER TABLE spaces DROP COLUMN hidden_at',
+      'ALTER TABLE beacons DROP COLUMN hidden_at',
+      'ALTER TABLE users DROP COLUMN suspended_until',
+      'ALTER TABLE users DROP COLUMN moderation_status'
+    ]
+  }
+};
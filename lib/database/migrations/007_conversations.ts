@@ -0,0 +1,137 @@
+/**
+ * 007 Conversations
+ * Groups direct messages into two-person conversations with a read and a
+ * delivered marker per participant, replacing the per-message read_at flag.
+ * A marker is the newest message covered and its created_at; messages are
+ * ordered by created_at and then message_id.
+ * Existing messages are backfilled: each side has read up to its own latest
+ * message and any message it had marked read.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+// Each participant's markers from the messages sent before this migration
+const backfillParticipantsSql = `
+  INSERT INTO conversation_participants (conversation_id, user_id, last_read_at, last_delivered_at)
+  SELECT conversation_id, user_id, MAX(read_up_to), MAX(read_up_to)
+  FROM (
+    SELECT conversation_id, sender_id AS user_id, created_at AS read_up_to FROM direct_messages
+    UNION ALL
+    SELECT conversation_id, recipient_id AS user_id, CASE WHEN read_at IS NULL THEN NULL ELSE created_at END
+    FROM direct_messages
+  ) AS markers
+  GROUP BY conversation_id, user_id
+`;
+
+// Markers point at a message; ties on created_at go to the later message_id
+const backfillMarkerMessagesSql = `
+  UPDATE conversation_participants SET
+    last_read_message_id = (
+      SELECT MAX(m.message_id) FROM direct_messages m
+      WHERE m.conversation_id = conversation_participants.conversation_id AND m.created_at = conversation_participants.last_read_at
+    ),
+    last_delivered_message_id = (
+      SELECT MAX(m.message_id) FROM direct_messages m
+      WHERE m.conversation_id = conversation_participants.conversation_id AND m.created_at = conversation_participants.last_delivered_at
+    )
+`;
+
+export const conversations: Migration = {
+  version: 7,
+  name: 'conversations',
+  up: {
+    postgresql: [
+      `
+        CREATE TABLE conversations (
+          conversation_id TEXT PRIMARY KEY,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          last_message_at TIMESTAMPTZ
+        )
+      `,
+      `
+        CREATE TABLE conversation_participants (
+          conversation_id TEXT NOT NULL REFERENCES conversations (conversation_id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          last_read_message_id TEXT,
+          last_read_at TIMESTAMPTZ,
+          last_delivered_message_id TEXT,
+          last_delivered_at TIMESTAMPTZ,
+          PRIMARY KEY (conversation_id, user_id)
+        )
+      `,
+      'CREATE INDEX idx_conversation_participants_user ON conversation_participants (user_id)',
+      'ALTER TABLE direct_messages ADD COLUMN conversation_id TEXT',
+      // Same ids as directConversationId, so byte order rather than the database collation
+      `UPDATE direct_messages SET conversation_id =
+        'dm:' || LEAST(sender_id COLLATE "C", recipient_id COLLATE "C") || ':' || GREATEST(sender_id COLLATE "C", recipient_id COLLATE "C")`,
+      `
+        INSERT INTO conversations (conversation_id, created_at, last_message_at)
+        SELECT conversation_id, MIN(created_at), MAX(created_at) FROM direct_messages GROUP BY conversation_id
+      `,
+      backfillParticipantsSql,
+      backfillMarkerMessagesSql,
+      'ALTER TABLE direct_messages ALTER COLUMN conversation_id SET NOT NULL',
+      'CREATE INDEX idx_direct_messages_conversation ON direct_messages (conversation_id, created_at DESC, message_id DESC)',
+      'ALTER TABLE direct_messages DROP COLUMN read_at'
+    ],
+    sqlite: [
+      `
+        CREATE TABLE conversations (
+          conversation_id TEXT PRIMARY KEY,
+          created_at TEXT NOT NULL,
+          last_message_at TEXT
+        )
+      `,
+      `
+        CREATE TABLE conversation_participants (
+          conversation_id TEXT NOT NULL REFERENCES conversations (conversation_id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          last_read_message_id TEXT,
+          last_read_at TEXT,
+          last_delivered_message_id TEXT,
+          last_delivered_at TEXT,
+          PRIMARY KEY (conversation_id, user_id)
+        )
+      `,
+      'CREATE INDEX idx_conversation_participants_user ON conversation_participants (user_id)',
+      'ALTER TABLE direct_messages ADD COLUMN conversation_id TEXT',
+      "UPDATE direct_messages SET conversation_id = 'dm:' || MIN(sender_id, recipient_id) || ':' || MAX(sender_id, recipient_id)",
+      `
+        INSERT INTO conversations (conversation_id, created_at, last_message_at)
+        SELECT conversation_id, MIN(created_at), MAX(created_at) FROM direct_messages GROUP BY conversation_id
+      `,
+      backfillParticipantsSql,
+      backfillMarkerMessagesSql,
+      'CREATE INDEX idx_direct_messages_conversation ON direct_messages (conversation_id, created_at DESC, message_id DESC)',
+      'ALTER TABLE direct_messages DROP COLUMN read_at'
+    ]
+  },
+  down: {
+    // Read state goes back to per-message flags from each recipient's marker
+    postgresql: [
+      'ALTER TABLE direct_messages ADD COLUMN read_at TIMESTAMPTZ',
+      `
+        UPDATE direct_messages m SET read_at = p.last_read_at
+        FROM conversation_participants p
+        WHERE p.conversation_id = m.conversation_id AND p.user_id = m.recipient_id AND p.last_read_at >= m.created_at
+      `,
+      'DROP INDEX IF EXISTS idx_direct_messages_conversation',
+      'ALTER TABLE direct_messages DROP COLUMN IF EXISTS conversation_id',
+      'DROP TABLE IF EXISTS conversation_participants',
+      'DROP TABLE IF EXISTS conversations'
+    ],
+    sqlite: [
+      'ALTER TABLE direct_messages ADD COLUMN read_at TEXT',
+      `
+        UPDATE direct_messages SET read_at = p.last_read_at
+        FROM conversation_participants p
+        WHERE p.conversation_id = direct_messages.conversation_id AND p.user_id = direct_messages.recipient_id
+          AND p.last_read_at >= direct_messages.created_at
+      `,
+      'DROP INDEX IF EXISTS idx_direct_messages_conversation',
+      'ALTER TABLE direct_messages DROP COLUMN conversation_id',
+      'DROP TABLE IF EXISTS conversation_participants',
+      'DROP TABLE IF EXISTS conversations'
+    ]
+  }
+};
@@ -0,0 +1,75 @@
+/**
+ * 008 Encryption Keys
+ * Device public keys that private beacons are sealed to, and each space's
+ * symmetric key versions, sealed by members to every member device. Both
+ * hold only public or already-sealed material.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const encryptionKeys: Migration = {
+  version: 8,
+  name: 'encryption_keys',
+  up: {
+    postgresql: [
+      `
+        CREATE TABLE encryption_keys (
+          key_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          public_key TEXT NOT NULL,
+          pri_fingerprint TEXT NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        )
+      `,
+      'CREATE INDEX idx_encryption_keys_user ON encryption_keys (user_id)',
+      `
+        CREATE TABLE space_keys (
+          space_id TEXT NOT NULL REFERENCES spaces (space_id) ON DELETE CASCADE,
+          key_version INTEGER NOT NULL,
+          key_id TEXT NOT NULL REFERENCES encryption_keys (key_id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          wrapped_key TEXT NOT NULL,
+          created_by TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          PRIMARY KEY (space_id, key_version, key_id)
+        )
+      `,
+      'CREATE INDEX idx_space_keys_user ON space_keys (space_id, user_id)'
+    ],
+    sqlite: [
+      `
+        CREATE TABLE encryption_keys (
+          key_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          public_key TEXT NOT NULL,
+          pri_fingerprint TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )
+      `,
+      'CREATE INDEX idx_encryption_keys_user ON encryption_keys (user_id)',
+      `
+        CREATE TABLE space_keys (
+          space_id TEXT NOT NULL REFERENCES spaces (space_id) ON DELETE CASCADE,
+          key_version INTEGER NOT NULL,
+          key_id TEXT NOT NULL REFERENCES encryption_keys (key_id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          wrapped_key TEXT NOT NULL,
+          created_by TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (space_id, key_version, key_id)
+        )
+      `,
+      'CREATE INDEX idx_space_keys_user ON space_keys (space_id, user_id)'
+    ]
+  },
+  down: {
+    postgresql: [
+      'DROP TABLE IF EXISTS space_keys',
+      'DROP TABLE IF EXISTS encryption_keys'
+    ],
+    sqlite: [
+      'DROP TABLE IF EXISTS space_keys',
+      'DROP TABLE IF EXISTS encryption_keys'
+    ]
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * 009 Space File Blobs
+ * File content moves out of space_files into the blob store, keyed by its
+ * SHA-256 in content_hash. Files uploaded before keep their content in the
+ * row, so content becomes nullable; SQLite can only do that by rebuilding the
+ * table.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const spaceFileBlobs: Migration = {
+  version: 9,
+  name: 'space_file_blobs',
+  up: {
+    postgresql: [
+      'ALTER TABLE space_files ADD COLUMN content_hash TEXT',
+      'ALTER TABLE space_files ALTER COLUMN content DROP NOT NULL',
+      'CREATE INDEX idx_space_files_content_hash ON space_files (content_hash)',
+      'CREATE INDEX idx_space_files_fingerprint ON space_files (space_id, fingerprint)'
+    ],
+    sqlite: [
+      `
+        CREATE TABLE space_files_rebuilt (
+          file_id TEXT PRIMARY KEY,
+          space_id TEXT NOT NULL,
+          uploader_id TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          file_type TEXT NOT NULL,
+          file_size INTEGER NOT NULL,
+          fingerprint TEXT NOT NULL,
+          content BLOB,
+          content_hash TEXT,
+          created_at TEXT NOT NULL,
+          archived_at TEXT,
+          FOREIGN KEY (space_id) REFERENCES spaces (space_id) ON DELETE CASCADE,
+          FOREIGN KEY (uploader_id) REFERENCES users (user_id)
+        )
+      `,
+      `
+        INSERT INTO space_files_rebuilt (
+          file_id, space_id, uploader_id, file_name, file_type, file_size,
+          fingerprint, content, created_at, archived_at
+        )
+        SELECT
+          file_id, space_id, uploader_id, file_name, file_type, file_size,
+          fingerprint, content, created_at, archived_at
+        FROM space_files
+      `,
+      'DROP TABLE space_files',
+      'ALTER TABLE space_files_rebuilt RENAME TO space_files',
+      'CREATE INDEX idx_space_files_content_hash ON space_files (content_hash)',
+      'CREATE INDEX idx_space_files_fingerprint ON space_files (space_id, fingerprint)'
+    ]
+  },
+  // content stays nullable: files uploaded since have none in the row
+  down: {
+    postgresql: [
+      'DROP INDEX IF EXISTS idx_space_files_fingerprint',
+      'DROP INDEX IF EXISTS idx_space_files_content_hash',
+      'ALTER TABLE space_files DROP COLUMN IF EXISTS content_hash'
+    ],
+    sqlite: [
+      'DROP INDEX IF EXISTS idx_space_files_fingerprint',
+      'DROP INDEX IF EXISTS idx_space_files_content_hash',
+      'ALTER TABLE space_files DROP COLUMN content_hash'
+    ]
+  }
+};
@@ -0,0 +1,33 @@
+/**
+ * 010 Message Queue
+ * The table behind the PostgreSQL message queue. Earlier builds created it on
+ * first use, some without delivered_at, so every step tolerates what they left.
+ * SQLite deployments use the in-memory queue and need nothing.
+ */
+
+import type { Migration } from '../migration-runner.js';
+
+export const messageQueue: Migration = {
+  version: 10,
+  name: 'message_queue',
+  up: {
+    postgresql: [
+      `
+        CREATE TABLE IF NOT EXISTS message_queue (
+          id BIGSERIAL PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          message JSONB NOT NULL,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          delivered_at TIMESTAMPTZ
+        )
+      `,
+      'ALTER TABLE message_queue ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ',
+      'CREATE INDEX IF NOT EXISTS idx_message_queue_user ON message_queue (user_id, id)'
+    ],
+    sqlite: []
+  },
+  down: {
+    postgresql: ['DROP TABLE IF EXISTS message_queue'],
+    sqlite: []
+  }
+};
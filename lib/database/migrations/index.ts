@@ -0,0 +1,30 @@
+/**
+ * Schema Migrations
+ * Append new migrations here with the next version number; never edit one
+ * that has shipped
+ */
+
+import type { Migration } from '../migration-runner.js';
+import { baseline } from './001_baseline.js';
+import { spaceMembers } from './002_space_members.js';
+import { spaceFileArchive } from './003_space_file_archive.js';
+import { analytics } from './004_analytics.js';
+import { userRoles } from './005_user_roles.js';
+import { moderation } from './006_moderation.js';
+import { conversations } from './007_conversations.js';
+import { encryptionKeys } from './008_encryption_keys.js';
+import { spaceFileBlobs } from './009_space_file_blobs.js';
+import { messageQueue } from './010_message_queue.js';
+
+export const MIGRATIONS: Migration[] = [
+  baseline,
+  spaceMembers,
+  spaceFileArchive,
+  analytics,
+  userRoles,
+  moderation,
+  conversations,
+  encryptionKeys,
+  spaceFileBlobs,
+  messageQueue
+];
@@ -6,22 +6,58 @@
  */
 
 import { Pool, PoolClient, QueryResult as PgQueryResult } from 'pg';
-import { DatabaseAdapter } from './abstract-adapter.js';
+import { DatabaseAdapter, DEFAULT_SEARCH_LIMIT, SEARCH_TRENDING_WINDOW_MS, directConversationId } from './abstract-adapter.js';
+import { MigrationRunner } from './migration-runner.js';
 import { 
-  DatabaseConfig, DatabaseError, TransactionError,
+  DatabaseConfig, DatabaseError, TransactionError, PlatformRole,
   User, CreateUserData, Beacon, CreateBeaconData, BeaconFilter,
   Space, CreateSpaceData, QuantumPrimeIndices, QuantumResonanceQuery,
-  BeaconCluster, DatabaseStats
+  BeaconCluster, DatabaseStats, SpaceFile, CreateSpaceFileData, SpaceFileContent,
+  DirectMessage, CreateDirectMessageData, ConversationSummary, ConversationParticipant, ConversationMarker,
+  ConversationPageOptions, ConversationUnreadCount,
+  Session, CreateSessionData, PasswordResetToken, CreatePasswordResetTokenData,
+  SpaceMember, CreateSpaceMemberData, SpaceMemberStatus, SpaceInvite, CreateSpaceInviteData,
+  Comment, CreateCommentData,
+  AnalyticsEvent, CreateAnalyticsEventData, AnalyticsRollup, AnalyticsScope,
+  ContentReport, CreateContentReportData, ReportStatus, CreateModerationActionData,
+  UserActivityStats, SpaceActivityStats, Announcement, CreateAnnouncementData,
+  EncryptionKey, CreateEncryptionKeyData, SpaceKey, CreateSpaceKeyData,
+  SearchOptions, SearchPage
 } from './types.js';
+import type { AccountStanding, AnnouncementStatus, ReportTargetType } from '../../src/protocol/index.js';
+
+// File listings never load the stored content
+const SPACE_FILE_COLUMNS =
+  'file_id, space_id, uploader_id, file_name, file_type, file_size, fingerprint, created_at';
+
+// Every word must match, each as a prefix, e.g. "quant alg" -> "quant:* & alg:*"
+function toPrefixTsQuery(query: string): string {
+  return (query.match(/[\p{L}\p{N}_]+/gu) ?? []).map(term => `${term}:*`).join(' & ');
+}
+
+function toLikePattern(query: string): string {
+  return `%${query.trim().replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+function trendingSince(): string {
+  return new Date(Date.now() - SEARCH_TRENDING_WINDOW_MS).toISOString();
+}
 
 export class NeonAdapter extends DatabaseAdapter {
   private pool: Pool;
-  private connected = false;
+  // The pool, or a single client while inside a transaction
+  protected executor: Pool | PoolClient;
+  protected connected = false;
 
-  constructor(private config: DatabaseConfig) {
+  constructor(protected config: DatabaseConfig, pool?: Pool) {
     super();
     
-    this.pool = new Pool({
+    if (pool) {
+      this.pool = this.executor = pool;
+      return;
+    }
+    
+    this.pool = this.executor = new Pool({
       connectionString: config.connectionString,
       ssl: config.ssl !== false ? { rejectUnauthorized: false } : false,
       max: config.maxConnections || 20,
@@ -50,7 +86,9 @@ export class NeonAdapter extends DatabaseAdapter {
       console.log('Connected to Neon PostgreSQL');
       
       // Initialize schema
-      await this.initializeSchema();
+      if (this.config.autoMigrate !== false) {
+        await this.initializeSchema();
+      }
       
     } catch (error) {
       throw new DatabaseError(`Failed to connect to Neon: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -76,8 +114,9 @@ export class NeonAdapter extends DatabaseAdapter {
   async getStats(): Promise<DatabaseStats> {
     const queries = [
       'SELECT COUNT(*) as total_users FROM users',
-      'SELECT COUNT(*) as total_beacons FROM beacons', 
+      "SELECT COUNT(*) as total_beacons, COALESCE(AVG((prime_indices->>'base_resonance')::float), 0) as resonance FROM beacons",
       'SELECT COUNT(*) as total_spaces FROM spaces',
+      'SELECT COUNT(*) as total_files, COALESCE(SUM(file_size), 0) as file_bytes FROM space_files',
       'SELECT pg_database_size(current_database()) / 1024 / 1024 as size_mb',
       'SELECT count(*) as connections FROM pg_stat_activity WHERE state = \'active\''
     ];
@@ -90,24 +129,39 @@ export class NeonAdapter extends DatabaseAdapter {
       total_users: parseInt((results[0][0] as Record<string, string>).total_users),
       total_beacons: parseInt((results[1][0] as Record<string, string>).total_beacons),
       total_spaces: parseInt((results[2][0] as Record<string, string>).total_spaces),
-      avg_resonance_strength: 0.75, // TODO: Calculate from actual data
-      database_size_mb: parseFloat((results[3][0] as Record<string, string>).size_mb),
-      connection_count: parseInt((results[4][0] as Record<string, string>).connections)
+      total_files: parseInt((results[3][0] as Record<string, string>).total_files),
+      file_storage_bytes: parseInt((results[3][0] as Record<string, string>).file_bytes),
+      avg_resonance_strength: parseFloat((results[1][0] as Record<string, string>).resonance),
+      database_size_mb: parseFloat((results[4][0] as Record<string, string>).size_mb),
+      connection_count: parseInt((results[5][0] as Record<string, string>).connections)
     };
   }
 
   async transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> {
     const client = await this.pool.connect();
     
+    // Errors from the callback reach the caller unchanged; only BEGIN and
+    // COMMIT failures become a TransactionError
+    const control = async (statement: 'BEGIN' | 'COMMIT') => {
+      try {
+        await client.query(statement);
+      } catch (error) {
+        throw new TransactionError(`${statement} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+    
     try {
-      await client.query('BEGIN');
-      const txAdapter = new NeonTransactionAdapter(client, this);
-      const result = await callback(txAdapter);
-      await client.query('COMMIT');
+      await control('BEGIN');
+      let result: T;
+      try {
+        result = await callback(new NeonTransactionAdapter(this.config, this.pool, client));
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+      // A failed COMMIT ends the transaction in PostgreSQL
+      await control('COMMIT');
       return result;
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw new TransactionError(`Transaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       client.release();
     }
@@ -321,6 +375,10 @@ export class NeonAdapter extends DatabaseAdapter {
       params.push(filter.epoch_max);
     }
 
+    if (!filter.include_hidden) {
+      query += ' AND hidden_at IS NULL';
+    }
+
     // Order by
     const orderBy = filter.order_by || 'created_at';
     const orderDirection = filter.order_direction || 'desc';
@@ -379,6 +437,13 @@ export class NeonAdapter extends DatabaseAdapter {
     return (result as unknown as any).rowCount > 0;
   }
 
+  async deletePostBeacon(beaconId: string): Promise<boolean> {
+    await this.rawQuery('DELETE FROM likes WHERE post_beacon_id = $1', [beaconId]);
+    await this.rawQuery('DELETE FROM comments WHERE post_beacon_id = $1', [beaconId]);
+    const result = await this.rawQuery('DELETE FROM beacons WHERE beacon_id = $1 RETURNING beacon_id', [beaconId]);
+    return result.length > 0;
+  }
+
   // ============================================
   // Space Operations  
   // ============================================
@@ -416,7 +481,7 @@ export class NeonAdapter extends DatabaseAdapter {
   }
 
   async getPublicSpaces(limit?: number, offset?: number): Promise<Space[]> {
-    let query = 'SELECT * FROM spaces WHERE is_public = true ORDER BY created_at DESC';
+    let query = 'SELECT * FROM spaces WHERE is_public = true AND hidden_at IS NULL ORDER BY created_at DESC';
     const params: unknown[] = [];
 
     if (limit) {
@@ -439,6 +504,24 @@ export class NeonAdapter extends DatabaseAdapter {
     return result.map(row => this.mapSpaceRow(row));
   }
 
+  async listSpaces(limit?: number, offset?: number): Promise<Space[]> {
+    let query = 'SELECT * FROM spaces ORDER BY created_at DESC';
+    const params: unknown[] = [];
+
+    if (limit) {
+      query += ` LIMIT $${params.length + 1}`;
+      params.push(limit);
+    }
+
+    if (offset) {
+      query += ` OFFSET $${params.length + 1}`;
+      params.push(offset);
+    }
+
+    const result = await this.rawQuery<Space>(query, params);
+    return result.map(row => this.mapSpaceRow(row));
+  }
+
   async updateSpace(spaceId: string, updates: Partial<Space>): Promise<Space> {
     const filteredUpdates = Object.keys(updates).filter(key => key !== 'space_id');
     
@@ -473,11 +556,137 @@ export class NeonAdapter extends DatabaseAdapter {
   }
 
   async deleteSpace(spaceId: string): Promise<boolean> {
-    const query = 'DELETE FROM spaces WHERE space_id = $1';
+    const query = 'DELETE FROM spaces WHERE space_id = $1 RETURNING space_id';
     const result = await this.rawQuery(query, [spaceId]);
-    return (result as unknown as any).rowCount > 0;
+    return result.length > 0;
+  }
+
+  async deleteSpaceBeacons(spaceId: string): Promise<number> {
+    const inSpace = "SELECT beacon_id FROM beacons WHERE metadata->>'space_id' = $1";
+    await this.rawQuery(`DELETE FROM likes WHERE post_beacon_id IN (${inSpace})`, [spaceId]);
+    await this.rawQuery(`DELETE FROM comments WHERE post_beacon_id IN (${inSpace})`, [spaceId]);
+    const result = await this.rawQuery(
+      "DELETE FROM beacons WHERE metadata->>'space_id' = $1 RETURNING beacon_id",
+      [spaceId]
+    );
+    return result.length;
+  }
+
+  async getAutoArchiveSpaces(): Promise<Space[]> {
+    const query = "SELECT * FROM spaces WHERE (metadata->>'autoArchive')::boolean IS TRUE ORDER BY created_at";
+    const result = await this.rawQuery<Space>(query);
+    return result.map(row => this.mapSpaceRow(row));
+  }
+
+  // ============================================
+  // Space Membership Operations
+  // ============================================
+
+  async addSpaceMember(member: CreateSpaceMemberData): Promise<SpaceMember | null> {
+    const query = `
+      INSERT INTO space_members (space_id, user_id, role, status)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (space_id, user_id) DO NOTHING
+      RETURNING *
+    `;
+    
+    const result = await this.rawQuery(query, [member.space_id, member.user_id, member.role, member.status]);
+    return result.length > 0 ? this.mapSpaceMemberRow(result[0]) : null;
+  }
+
+  async getSpaceMember(spaceId: string, userId: string): Promise<SpaceMember | null> {
+    const result = await this.rawQuery(
+      'SELECT * FROM space_members WHERE space_id = $1 AND user_id = $2',
+      [spaceId, userId]
+    );
+    return result.length > 0 ? this.mapSpaceMemberRow(result[0]) : null;
+  }
+
+  async getSpaceMembers(spaceId: string, status?: SpaceMemberStatus): Promise<SpaceMember[]> {
+    const query = `
+      SELECT * FROM space_members
+      WHERE space_id = $1 AND ($2::text IS NULL OR status = $2)
+      ORDER BY joined_at ASC
+    `;
+    
+    const result = await this.rawQuery(query, [spaceId, status ?? null]);
+    return result.map(row => this.mapSpaceMemberRow(row));
+  }
+
+  async getUserMemberships(userId: string): Promise<SpaceMember[]> {
+    const result = await this.rawQuery(
+      'SELECT * FROM space_members WHERE user_id = $1 ORDER BY joined_at ASC',
+      [userId]
+    );
+    return result.map(row => this.mapSpaceMemberRow(row));
   }
 
+  async updateSpaceMember(
+    spaceId: string,
+    userId: string,
+    updates: Partial<Pick<SpaceMember, 'role' | 'status'>>
+  ): Promise<SpaceMember | null> {
+    const query = `
+      UPDATE space_members SET role = COALESCE($3, role), status = COALESCE($4, status), updated_at = NOW()
+      WHERE space_id = $1 AND user_id = $2
+      RETURNING *
+    `;
+    
+    const result = await this.rawQuery(query, [spaceId, userId, updates.role ?? null, updates.status ?? null]);
+    return result.length > 0 ? this.mapSpaceMemberRow(result[0]) : null;
+  }
+
+  async removeSpaceMember(spaceId: string, userId: string): Promise<boolean> {
+    const result = await this.rawQuery(
+      'DELETE FROM space_members WHERE space_id = $1 AND user_id = $2 RETURNING user_id',
+      [spaceId, userId]
+    );
+    return result.length > 0;
+  }
+
+  async getSpaceMemberCounts(spaceIds: string[]): Promise<Map<string, number>> {
+    if (spaceIds.length === 0) return new Map();
+    
+    const query = `
+      SELECT space_id, COUNT(*) AS count FROM space_members
+      WHERE status = 'active' AND space_id = ANY($1)
+      GROUP BY space_id
+    `;
+    
+    const result = await this.rawQuery<{ space_id: string; count: string }>(query, [spaceIds]);
+    return new Map(result.map(row => [row.space_id, parseInt(row.count)]));
+  }
+
+  async createSpaceInvite(invite: CreateSpaceInviteData): Promise<SpaceInvite> {
+    const query = `
+      INSERT INTO space_invites (invite_id, space_id, created_by, role, max_uses, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+    
+    const result = await this.rawQuery(query, [
+      invite.invite_id, invite.space_id, invite.created_by, invite.role,
+      invite.max_uses ?? null, invite.expires_at
+    ]);
+    return this.mapSpaceInviteRow(result[0]);
+  }
+
+  async getSpaceInvite(inviteId: string): Promise<SpaceInvite | null> {
+    const result = await this.rawQuery('SELECT * FROM space_invites WHERE invite_id = $1', [inviteId]);
+    return result.length > 0 ? this.mapSpaceInviteRow(result[0]) : null;
+  }
+
+  async redeemSpaceInvite(inviteId: string): Promise<SpaceInvite | null> {
+    const query = `
+      UPDATE space_invites SET uses = uses + 1
+      WHERE invite_id = $1 AND expires_at > NOW() AND (max_uses IS NULL OR uses < max_uses)
+      RETURNING *
+    `;
+    
+    const result = await this.rawQuery(query, [inviteId]);
+    return result.length > 0 ? this.mapSpaceInviteRow(result[0]) : null;
+  }
+  
   // ============================================
   // Quantum Resonance Operations
   // ============================================
@@ -638,16 +847,17 @@ export class NeonAdapter extends DatabaseAdapter {
       INSERT INTO likes (post_beacon_id, user_id, created_at)
       VALUES ($1, $2, NOW())
       ON CONFLICT (post_beacon_id, user_id) DO NOTHING
+      RETURNING id
     `;
     
     const result = await this.rawQuery(query, [beaconId, userId]);
-    return (result as unknown as any).rowCount > 0;
+    return result.length > 0;
   }
 
   async unlikeBeacon(userId: string, beaconId: string): Promise<boolean> {
-    const query = 'DELETE FROM likes WHERE post_beacon_id = $1 AND user_id = $2';
+    const query = 'DELETE FROM likes WHERE post_beacon_id = $1 AND user_id = $2 RETURNING id';
     const result = await this.rawQuery(query, [beaconId, userId]);
-    return (result as unknown as any).rowCount > 0;
+    return result.length > 0;
   }
 
   async getBeaconLikes(beaconId: string): Promise<User[]> {
@@ -672,528 +882,1242 @@ export class NeonAdapter extends DatabaseAdapter {
     return result.map(row => this.mapBeaconRow(row));
   }
 
-  // ============================================
-  // Search Operations (Basic Implementation)
-  // ============================================
+  async getLikeCount(beaconId: string): Promise<number> {
+    const query = 'SELECT COUNT(*) AS count FROM likes WHERE post_beacon_id = $1';
+    const result = await this.rawQuery<{ count: string }>(query, [beaconId]);
+    return Number(result[0].count);
+  }
 
-  async searchUsers(query: string, limit = 10): Promise<User[]> {
-    const searchQuery = `
-      SELECT * FROM users 
-      WHERE username ILIKE $1 OR email ILIKE $1
-      ORDER BY username
-      LIMIT $2
+  async hasLiked(userId: string, beaconId: string): Promise<boolean> {
+    const query = 'SELECT 1 FROM likes WHERE post_beacon_id = $1 AND user_id = $2';
+    const result = await this.rawQuery(query, [beaconId, userId]);
+    return result.length > 0;
+  }
+
+  async createComment(comment: CreateCommentData): Promise<Comment> {
+    const query = `
+      INSERT INTO comments (comment_id, post_beacon_id, author_id, parent_comment_id, content, created_at)
+      VALUES ($1, $2, $3, $4, $5, NOW())
+      RETURNING *
     `;
     
-    const result = await this.rawQuery<User>(searchQuery, [`%${query}%`, limit]);
-    return result.map(row => this.mapUserRow(row));
+    const result = await this.rawQuery(query, [
+      comment.comment_id,
+      comment.post_beacon_id,
+      comment.author_id,
+      comment.parent_comment_id ?? null,
+      comment.content
+    ]);
+    return this.mapCommentRow(result[0]);
   }
 
-  async searchSpaces(query: string, limit = 10): Promise<Space[]> {
-    const searchQuery = `
-      SELECT * FROM spaces 
-      WHERE name ILIKE $1 OR description ILIKE $1
-      ORDER BY name
-      LIMIT $2
+  async getCommentById(commentId: string): Promise<Comment | null> {
+    const query = 'SELECT * FROM comments WHERE comment_id = $1';
+    const result = await this.rawQuery(query, [commentId]);
+    return result.length > 0 ? this.mapCommentRow(result[0]) : null;
+  }
+
+  async getComments(postBeaconId: string, limit = 50, offset = 0): Promise<Comment[]> {
+    // Oldest first, so a parent always comes before its replies
+    const query = `
+      SELECT * FROM comments
+      WHERE post_beacon_id = $1
+      ORDER BY created_at ASC, comment_id ASC
+      LIMIT $2 OFFSET $3
     `;
     
-    const result = await this.rawQuery<Space>(searchQuery, [`%${query}%`, limit]);
-    return result.map(row => this.mapSpaceRow(row));
+    const result = await this.rawQuery(query, [postBeaconId, limit, offset]);
+    return result.map(row => this.mapCommentRow(row));
   }
 
-  async searchBeacons(query: string, type?: string, limit = 10): Promise<Beacon[]> {
-    let searchQuery = `
-      SELECT * FROM beacons
-      WHERE metadata::text ILIKE $1
+  async updateComment(commentId: string, authorId: string, content: string): Promise<Comment | null> {
+    const query = `
+      UPDATE comments SET content = $1, updated_at = NOW()
+      WHERE comment_id = $2 AND author_id = $3 AND deleted_at IS NULL
+      RETURNING *
     `;
-    const params: unknown[] = [`%${query}%`];
-
-    if (type) {
-      searchQuery += ` AND beacon_type = $${params.length + 1}`;
-      params.push(type);
-    }
+    
+    const result = await this.rawQuery(query, [content, commentId, authorId]);
+    return result.length > 0 ? this.mapCommentRow(result[0]) : null;
+  }
 
-    searchQuery += ` ORDER BY created_at DESC LIMIT $${params.length + 1}`;
-    params.push(limit);
+  async deleteComment(commentId: string, authorId: string): Promise<boolean> {
+    const query = `
+      UPDATE comments SET content = '', deleted_at = NOW()
+      WHERE comment_id = $1 AND author_id = $2 AND deleted_at IS NULL
+      RETURNING comment_id
+    `;
     
-    const result = await this.rawQuery<Beacon>(searchQuery, params);
-    return result.map(row => this.mapBeaconRow(row));
+    const result = await this.rawQuery(query, [commentId, authorId]);
+    return result.length > 0;
+  }
+
+  async getCommentCount(postBeaconId: string): Promise<number> {
+    const query = 'SELECT COUNT(*) AS count FROM comments WHERE post_beacon_id = $1 AND deleted_at IS NULL';
+    const result = await this.rawQuery<{ count: string }>(query, [postBeaconId]);
+    return Number(result[0].count);
   }
 
   // ============================================
-  // Database Management Methods
+  // Space File Operations
   // ============================================
 
-  async query<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
-    return this.rawQuery<T>(sql, params);
-  }
-
-  async clearAllData(): Promise<void> {
-    console.log('🧹 Clearing all data from Neon database...');
+  async createSpaceFile(file: CreateSpaceFileData): Promise<SpaceFile> {
+    const query = `
+      INSERT INTO space_files (
+        file_id, space_id, uploader_id, file_name, file_type,
+        file_size, fingerprint, content_hash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${SPACE_FILE_COLUMNS}
+    `;
     
-    const tables = [
-      'notifications',
-      'quaternionic_messages',
-      'comments',
-      'likes',
-      'follows',
-      'beacons',
-      'spaces',
-      'users'
+    const values = [
+      file.file_id,
+      file.space_id,
+      file.uploader_id,
+      file.file_name,
+      file.file_type,
+      file.file_size,
+      file.fingerprint,
+      file.content_hash
     ];
-    
-    try {
-      // Use TRUNCATE CASCADE for efficient clearing
-      for (const table of tables) {
-        try {
-          await this.rawQuery(`TRUNCATE TABLE ${table} CASCADE`);
-          console.log(`  ✅ Truncated ${table}`);
-        } catch (error) {
-          // If TRUNCATE fails, try DELETE
-          try {
-            await this.rawQuery(`DELETE FROM ${table}`);
-            console.log(`  ✅ Deleted from ${table}`);
-          } catch (deleteError) {
-            console.warn(`  ⚠️ Could not clear ${table}:`, deleteError);
-          }
-        }
-      }
-      console.log('✅ All data cleared successfully');
-    } catch (error) {
-      console.error('❌ Error clearing database:', error);
-      throw error;
-    }
+
+    const result = await this.rawQuery(query, values);
+    return this.mapSpaceFileRow(result[0]);
   }
 
-  // ============================================
-  // Utility Methods
-  // ============================================
+  async getSpaceFiles(spaceId: string): Promise<SpaceFile[]> {
+    const query = `
+      SELECT ${SPACE_FILE_COLUMNS} FROM space_files
+      WHERE space_id = $1 AND archived_at IS NULL
+      ORDER BY created_at DESC, file_id
+    `;
+    const result = await this.rawQuery(query, [spaceId]);
+    return result.map(row => this.mapSpaceFileRow(row));
+  }
 
-  protected async rawQuery<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
-    try {
-      const result = await this.pool.query(sql, params);
-      return result.rows as T[];
-    } catch (error) {
-      console.error('Database query error:', error);
-      throw new DatabaseError(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  async getSpaceFileContent(spaceId: string, fingerprint: string): Promise<SpaceFileContent | null> {
+    const query = 'SELECT content_hash, content FROM space_files WHERE space_id = $1 AND fingerprint = $2 LIMIT 1';
+    const result = await this.rawQuery<SpaceFileContent>(query, [spaceId, fingerprint]);
+    return result.length > 0
+      ? { content_hash: result[0].content_hash ?? null, content: result[0].content ?? null }
+      : null;
   }
 
-  protected mapUserRow(row: unknown): User {
-    const r = row as Record<string, unknown>;
-    return {
-      user_id: r.user_id as string,
-      username: r.username as string,
-      email: r.email as string,
-      password_hash: r.password_hash as string,
-      salt: r.salt as Buffer,
-      node_public_key: r.node_public_key as Buffer,
-      node_private_key_encrypted: r.node_private_key_encrypted as Buffer,
-      master_phase_key_encrypted: r.master_phase_key_encrypted as Buffer,
-      pri_public_resonance: typeof r.pri_public_resonance === 'string' 
-        ? JSON.parse(r.pri_public_resonance) 
-        : r.pri_public_resonance as QuantumPrimeIndices,
-      pri_private_resonance: typeof r.pri_private_resonance === 'string'
-        ? JSON.parse(r.pri_private_resonance)
-        : r.pri_private_resonance as QuantumPrimeIndices,
-      pri_fingerprint: r.pri_fingerprint as string,
-      created_at: (r.created_at as Date).toISOString(),
-      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined
-    };
+  async deleteSpaceFile(spaceId: string, fileId: string): Promise<boolean> {
+    const query = 'DELETE FROM space_files WHERE space_id = $1 AND file_id = $2 RETURNING file_id';
+    const result = await this.rawQuery(query, [spaceId, fileId]);
+    return result.length > 0;
   }
 
-  protected mapBeaconRow(row: unknown): Beacon {
-    const r = row as Record<string, unknown>;
-    return {
-      beacon_id: r.beacon_id as string,
-      beacon_type: r.beacon_type as string,
-      author_id: r.author_id as string,
-      prime_indices: typeof r.prime_indices === 'string'
-        ? JSON.parse(r.prime_indices)
-        : r.prime_indices as QuantumPrimeIndices,
-      epoch: parseInt(r.epoch as string),
-      fingerprint: r.fingerprint as Buffer,
-      signature: r.signature as Buffer,
-      metadata: r.metadata ? (typeof r.metadata === 'string' ? JSON.parse(r.metadata) : r.metadata) : undefined,
-      created_at: (r.created_at as Date).toISOString(),
-      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined
-    };
+  async getReferencedContentHashes(contentHashes: string[]): Promise<string[]> {
+    if (contentHashes.length === 0) return [];
+
+    const query = 'SELECT DISTINCT content_hash FROM space_files WHERE content_hash = ANY($1)';
+    const result = await this.rawQuery<{ content_hash: string }>(query, [contentHashes]);
+    return result.map(row => row.content_hash);
   }
 
-  protected mapSpaceRow(row: unknown): Space {
-    const r = row as Record<string, unknown>;
-    return {
-      space_id: r.space_id as string,
-      name: r.name as string,
-      description: r.description as string | undefined,
-      is_public: r.is_public as boolean,
-      owner_id: r.owner_id as string | undefined,
-      metadata: r.metadata ? (typeof r.metadata === 'string' ? JSON.parse(r.metadata) : r.metadata) : undefined,
-      created_at: (r.created_at as Date).toISOString(),
-      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined
-    };
+  async archiveSpaceFiles(spaceId: string, olderThan: string): Promise<number> {
+    const query = `
+      UPDATE space_files SET archived_at = NOW()
+      WHERE space_id = $1 AND archived_at IS NULL AND created_at < $2
+      RETURNING file_id
+    `;
+    const result = await this.rawQuery(query, [spaceId, olderThan]);
+    return result.length;
   }
 
   // ============================================
-  // Schema Initialization
+  // Direct Message Operations
   // ============================================
 
-  private async initializeSchema(): Promise<void> {
-    console.log('🏗️ Initializing Neon PostgreSQL schema...');
-    
-    const createUserTableSql = `
-      CREATE TABLE IF NOT EXISTS users (
-        user_id TEXT PRIMARY KEY,
-        username TEXT UNIQUE NOT NULL,
-        email TEXT UNIQUE NOT NULL,
-        password_hash TEXT NOT NULL,
-        salt BYTEA NOT NULL,
-        node_public_key BYTEA NOT NULL,
-        node_private_key_encrypted BYTEA NOT NULL,
-        master_phase_key_encrypted BYTEA NOT NULL,
-        pri_public_resonance JSONB NOT NULL,
-        pri_private_resonance JSONB NOT NULL,
-        pri_fingerprint TEXT NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-      );
-    `;
+  async ensureDirectConversation(userId: string, partnerId: string): Promise<string> {
+    const conversationId = directConversationId(userId, partnerId);
+    await this.rawQuery('INSERT INTO conversations (conversation_id) VALUES ($1) ON CONFLICT DO NOTHING', [conversationId]);
+    await this.rawQuery(
+      `INSERT INTO conversation_participants (conversation_id, user_id) VALUES ($1, $2), ($1, $3)
+       ON CONFLICT DO NOTHING`,
+      [conversationId, userId, partnerId]
+    );
+    return conversationId;
+  }
 
-    const createBeaconsTableSql = `
-      CREATE TABLE IF NOT EXISTS beacons (
-        beacon_id TEXT PRIMARY KEY,
-        beacon_type TEXT NOT NULL,
-        author_id TEXT NOT NULL,
-        prime_indices JSONB NOT NULL,
-        epoch BIGINT NOT NULL,
-        fingerprint BYTEA NOT NULL,
-        signature BYTEA NOT NULL,
-        metadata JSONB,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        FOREIGN KEY (author_id) REFERENCES users (user_id)
-      );
-    `;
+  async findDirectConversation(userId: string, partnerId: string): Promise<string | null> {
+    const query = 'SELECT conversation_id FROM conversations WHERE conversation_id = $1';
+    const result = await this.rawQuery<{ conversation_id: string }>(query, [directConversationId(userId, partnerId)]);
+    return result[0]?.conversation_id ?? null;
+  }
 
-    const createSpacesTableSql = `
-      CREATE TABLE IF NOT EXISTS spaces (
-        space_id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        description TEXT,
-        is_public BOOLEAN NOT NULL,
-        owner_id TEXT,
-        metadata JSONB,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        FOREIGN KEY (owner_id) REFERENCES users (user_id)
-      );
-    `;
+  async getConversationParticipants(conversationId: string): Promise<ConversationParticipant[]> {
+    const query = 'SELECT * FROM conversation_participants WHERE conversation_id = $1';
+    const result = await this.rawQuery(query, [conversationId]);
+    return result.map(row => this.mapConversationParticipantRow(row));
+  }
 
-    const createLikesTableSql = `
-      CREATE TABLE IF NOT EXISTS likes (
-        id SERIAL PRIMARY KEY,
-        post_beacon_id TEXT NOT NULL,
-        user_id TEXT NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        UNIQUE(post_beacon_id, user_id),
-        FOREIGN KEY (user_id) REFERENCES users (user_id)
-      );
-    `;
+  async createDirectMessage(message: CreateDirectMessageData): Promise<DirectMessage> {
+    const query = `
+      WITH stored AS (
+        INSERT INTO direct_messages (message_id, conversation_id, sender_id, recipient_id, content)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      ), touched AS (
+        UPDATE conversations SET last_message_at = stored.created_at
+        FROM stored
+        WHERE conversations.conversation_id = stored.conversation_id
+      )
+      SELECT * FROM stored
+    `;
+    
+    const values = [message.message_id, message.conversation_id, message.sender_id, message.recipient_id, message.content];
+    const result = await this.rawQuery(query, values);
+    return this.mapDirectMessageRow(result[0]);
+  }
 
-    const createCommentsTableSql = `
-      CREATE TABLE IF NOT EXISTS comments (
-        comment_id TEXT PRIMARY KEY,
-        post_beacon_id TEXT NOT NULL,
-        author_id TEXT NOT NULL,
-        comment_beacon_id TEXT NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        FOREIGN KEY (author_id) REFERENCES users (user_id)
-      );
+  async getDirectMessage(messageId: string): Promise<DirectMessage | null> {
+    const result = await this.rawQuery('SELECT * FROM direct_messages WHERE message_id = $1', [messageId]);
+    return result.length > 0 ? this.mapDirectMessageRow(result[0]) : null;
+  }
+
+  async getConversation(conversationId: string, options: ConversationPageOptions = {}): Promise<DirectMessage[]> {
+    const values: unknown[] = [conversationId, options.limit ?? 50];
+    let cursorClause = '';
+    if (options.before) {
+      values.push(options.before);
+      cursorClause = 'AND (created_at, message_id) < (SELECT created_at, message_id FROM direct_messages WHERE message_id = $3)';
+    }
+
+    // Take the newest page, then return it oldest first for display
+    const query = `
+      SELECT * FROM direct_messages
+      WHERE conversation_id = $1 ${cursorClause}
+      ORDER BY created_at DESC, message_id DESC
+      LIMIT $2
     `;
+    
+    const result = await this.rawQuery(query, values);
+    return result.map(row => this.mapDirectMessageRow(row)).reverse();
+  }
 
-    const createFollowsTableSql = `
-      CREATE TABLE IF NOT EXISTS follows (
-        follower_id TEXT NOT NULL,
-        following_id TEXT NOT NULL,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        PRIMARY KEY (follower_id, following_id),
-        FOREIGN KEY (follower_id) REFERENCES users (user_id),
-        FOREIGN KEY (following_id) REFERENCES users (user_id)
-      );
+  async getRecentConversations(userId: string, limit = 20): Promise<ConversationSummary[]> {
+    const query = `
+      SELECT m.*,
+        partner.user_id AS partner_id,
+        partner.last_read_message_id AS partner_last_read_message_id,
+        partner.last_read_at AS partner_last_read_at,
+        partner.last_delivered_message_id AS partner_last_delivered_message_id,
+        partner.last_delivered_at AS partner_last_delivered_at,
+        (SELECT COUNT(*) FROM direct_messages u
+         WHERE u.conversation_id = me.conversation_id AND u.sender_id <> $1
+           AND (me.last_read_at IS NULL OR (u.created_at, u.message_id) > (me.last_read_at, me.last_read_message_id))) AS unread_count
+      FROM conversation_participants me
+      JOIN conversations c ON c.conversation_id = me.conversation_id
+      JOIN conversation_participants partner
+        ON partner.conversation_id = me.conversation_id AND partner.user_id <> me.user_id
+      JOIN LATERAL (
+        SELECT * FROM direct_messages
+        WHERE conversation_id = me.conversation_id
+        ORDER BY created_at DESC, message_id DESC
+        LIMIT 1
+      ) m ON true
+      WHERE me.user_id = $1
+      ORDER BY c.last_message_at DESC
+      LIMIT $2
     `;
+    
+    const result = await this.rawQuery(query, [userId, limit]);
+    return result.map(row => {
+      const r = row as Record<string, unknown>;
+      return {
+        conversation_id: r.conversation_id as string,
+        partner: this.mapConversationParticipantRow({
+          conversation_id: r.conversation_id,
+          user_id: r.partner_id,
+          last_read_message_id: r.partner_last_read_message_id,
+          last_read_at: r.partner_last_read_at,
+          last_delivered_message_id: r.partner_last_delivered_message_id,
+          last_delivered_at: r.partner_last_delivered_at
+        }),
+        last_message: this.mapDirectMessageRow(row),
+        unread_count: parseInt(r.unread_count as string)
+      };
+    });
+  }
 
-    const createNotificationsTableSql = `
-      CREATE TABLE IF NOT EXISTS notifications (
-        id SERIAL PRIMARY KEY,
-        recipient_id TEXT NOT NULL,
-        type TEXT NOT NULL,
-        title TEXT NOT NULL,
-        message TEXT NOT NULL,
-        sender_id TEXT,
-        sender_username TEXT,
-        read BOOLEAN DEFAULT FALSE,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-        FOREIGN KEY (recipient_id) REFERENCES users (user_id),
-        FOREIGN KEY (sender_id) REFERENCES users (user_id)
-      );
+  async advanceConversationMarker(
+    conversationId: string,
+    userId: string,
+    marker: ConversationMarker,
+    messageId: string
+  ): Promise<boolean> {
+    const column = marker === 'read' ? 'last_read' : 'last_delivered';
+    const query = `
+      UPDATE conversation_participants p SET ${column}_at = m.created_at, ${column}_message_id = m.message_id
+      FROM direct_messages m
+      WHERE m.message_id = $3 AND m.conversation_id = p.conversation_id
+        AND p.conversation_id = $1 AND p.user_id = $2
+        AND (p.${column}_at IS NULL OR (p.${column}_at, p.${column}_message_id) < (m.created_at, m.message_id))
+      RETURNING p.user_id
     `;
+    
+    const result = await this.rawQuery(query, [conversationId, userId, messageId]);
+    return result.length > 0;
+  }
 
-    const createQuaternionicMessagesTableSql = `
-      CREATE TABLE IF NOT EXISTS quaternionic_messages (
-        message_id TEXT PRIMARY KEY,
-        sender_id TEXT NOT NULL,
-        receiver_id TEXT NOT NULL,
-        content TEXT NOT NULL,
-        room_id TEXT,
-        phase_alignment REAL NOT NULL,
-        entropy_level REAL NOT NULL,
-        twist_angle REAL NOT NULL,
-        is_quantum_delivered BOOLEAN NOT NULL,
-        created_at TIMESTAMPTZ DEFAULT NOW(),
-        FOREIGN KEY (sender_id) REFERENCES users (user_id) ON DELETE CASCADE,
-        FOREIGN KEY (receiver_id) REFERENCES users (user_id) ON DELETE CASCADE
-      );
+  async getUnreadCounts(userId: string): Promise<ConversationUnreadCount[]> {
+    const query = `
+      SELECT me.conversation_id, partner.user_id AS partner_id, COUNT(*) AS unread_count
+      FROM conversation_participants me
+      JOIN conversation_participants partner
+        ON partner.conversation_id = me.conversation_id AND partner.user_id <> me.user_id
+      JOIN direct_messages m
+        ON m.conversation_id = me.conversation_id AND m.sender_id <> me.user_id
+        AND (me.last_read_at IS NULL OR (m.created_at, m.message_id) > (me.last_read_at, me.last_read_message_id))
+      WHERE me.user_id = $1
+      GROUP BY me.conversation_id, partner.user_id
     `;
+    const result = await this.rawQuery<{ conversation_id: string; partner_id: string; unread_count: string }>(query, [userId]);
+    return result.map(r => ({ ...r, unread_count: parseInt(r.unread_count) }));
+  }
 
-    try {
-      await this.rawQuery(createUserTableSql);
-      console.log('  ✅ Users table ready');
-      
-      await this.rawQuery(createBeaconsTableSql);
-      console.log('  ✅ Beacons table ready');
-      
-      await this.rawQuery(createSpacesTableSql);
-      console.log('  ✅ Spaces table ready');
-      
-      await this.rawQuery(createLikesTableSql);
-      console.log('  ✅ Likes table ready');
-      
-      await this.rawQuery(createCommentsTableSql);
-      console.log('  ✅ Comments table ready');
-      
-      await this.rawQuery(createFollowsTableSql);
-      console.log('  ✅ Follows table ready');
-      
-      await this.rawQuery(createNotificationsTableSql);
-      console.log('  ✅ Notifications table ready');
-      
-      await this.rawQuery(createQuaternionicMessagesTableSql);
-      console.log('  ✅ Quaternionic messages table ready');
-      
-      console.log('🎉 Schema initialization complete!');
-    } catch (error) {
-      console.error('❌ Schema initialization failed:', error);
-      throw error;
+  async getContactUserIds(userId: string): Promise<string[]> {
+    const query = `
+      SELECT partner.user_id
+      FROM conversation_participants me
+      JOIN conversation_participants partner
+        ON partner.conversation_id = me.conversation_id AND partner.user_id <> me.user_id
+      WHERE me.user_id = $1
+      UNION
+      SELECT other.user_id
+      FROM space_members me
+      JOIN space_members other
+        ON other.space_id = me.space_id AND other.user_id <> me.user_id AND other.status = 'active'
+      WHERE me.user_id = $1 AND me.status = 'active'
+    `;
+    const result = await this.rawQuery<{ user_id: string }>(query, [userId]);
+    return result.map(r => r.user_id);
+  }
+
+  // ============================================
+  // Session Operations
+  // ============================================
+
+  async createSession(session: CreateSessionData): Promise<Session> {
+    const query = `
+      INSERT INTO sessions (session_id, user_id, expires_at)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `;
+    
+    const result = await this.rawQuery(query, [session.session_id, session.user_id, session.expires_at]);
+    return this.mapSessionRow(result[0]);
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const result = await this.rawQuery('SELECT * FROM sessions WHERE session_id = $1', [sessionId]);
+    return result.length > 0 ? this.mapSessionRow(result[0]) : null;
+  }
+
+  async revokeSession(sessionId: string): Promise<boolean> {
+    const query = `
+      UPDATE sessions SET revoked_at = NOW()
+      WHERE session_id = $1 AND revoked_at IS NULL
+      RETURNING session_id
+    `;
+    
+    const result = await this.rawQuery(query, [sessionId]);
+    return result.length > 0;
+  }
+
+  async shortenSession(sessionId: string, expiresAt: string): Promise<boolean> {
+    const query = `
+      UPDATE sessions SET expires_at = $2
+      WHERE session_id = $1 AND revoked_at IS NULL AND expires_at > $2
+      RETURNING session_id
+    `;
+    
+    const result = await this.rawQuery(query, [sessionId, expiresAt]);
+    return result.length > 0;
+  }
+  
+  async revokeUserSessions(userId: string): Promise<number> {
+    const query = `
+      UPDATE sessions SET revoked_at = NOW()
+      WHERE user_id = $1 AND revoked_at IS NULL
+      RETURNING session_id
+    `;
+    
+    const result = await this.rawQuery(query, [userId]);
+    return result.length;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const query = `
+      DELETE FROM sessions WHERE expires_at <= NOW() OR revoked_at IS NOT NULL
+      RETURNING session_id
+    `;
+    
+    const result = await this.rawQuery(query);
+    return result.length;
+  }
+
+  // ============================================
+  // Password Reset Operations
+  // ============================================
+
+  async createPasswordResetToken(token: CreatePasswordResetTokenData): Promise<PasswordResetToken> {
+    const query = `
+      INSERT INTO password_reset_tokens (token_id, user_id, expires_at)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `;
+    
+    const result = await this.rawQuery(query, [token.token_id, token.user_id, token.expires_at]);
+    return this.mapPasswordResetTokenRow(result[0]);
+  }
+
+  async consumePasswordResetToken(tokenId: string): Promise<PasswordResetToken | null> {
+    // The CTE claims the token first, so two concurrent confirms cannot both succeed
+    const query = `
+      WITH claimed AS (
+        UPDATE password_reset_tokens SET used_at = NOW()
+        WHERE token_id = $1 AND used_at IS NULL AND expires_at > NOW()
+        RETURNING *
+      ), siblings AS (
+        UPDATE password_reset_tokens SET used_at = NOW()
+        WHERE user_id IN (SELECT user_id FROM claimed) AND token_id <> $1 AND used_at IS NULL
+      )
+      SELECT * FROM claimed
+    `;
+    
+    const result = await this.rawQuery(query, [tokenId]);
+    return result.length > 0 ? this.mapPasswordResetTokenRow(result[0]) : null;
+  }
+
+  async deleteExpiredPasswordResetTokens(): Promise<number> {
+    const query = `
+      DELETE FROM password_reset_tokens WHERE expires_at <= NOW() OR used_at IS NOT NULL
+      RETURNING token_id
+    `;
+    
+    const result = await this.rawQuery(query);
+    return result.length;
+  }
+
+  // ============================================
+  // Analytics Operations
+  // ============================================
+
+  async recordAnalyticsEvent(event: CreateAnalyticsEventData): Promise<AnalyticsEvent> {
+    const query = `
+      INSERT INTO analytics_events (event_id, event_type, user_id, space_id)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+    const result = await this.rawQuery(query, [event.event_id, event.event_type, event.user_id, event.space_id ?? null]);
+    const stored = this.mapAnalyticsEventRow(result[0]);
+
+    const scopes: [AnalyticsScope, string][] = [['user', event.user_id]];
+    if (event.space_id) {
+      scopes.push(['space', event.space_id]);
     }
+    for (const [scope, scopeId] of scopes) {
+      await this.rawQuery(
+        `INSERT INTO analytics_daily (day, scope, scope_id, event_type, count)
+         VALUES ($1, $2, $3, $4, 1)
+         ON CONFLICT (scope, scope_id, day, event_type) DO UPDATE SET count = analytics_daily.count + 1`,
+        [stored.created_at.slice(0, 10), scope, scopeId, event.event_type]
+      );
+    }
+    return stored;
   }
-}
 
-// Transaction adapter for Neon
-class NeonTransactionAdapter extends DatabaseAdapter {
-  constructor(
-    private client: PoolClient,
-    private parentAdapter: NeonAdapter
-  ) {
-    super();
+  async getAnalyticsRollups(
+    scope: AnalyticsScope,
+    scopeIds: string[],
+    fromDay: string,
+    toDay: string
+  ): Promise<AnalyticsRollup[]> {
+    if (scopeIds.length === 0) return [];
+
+    const query = `
+      SELECT day, scope, scope_id, event_type, count FROM analytics_daily
+      WHERE scope = $1 AND scope_id = ANY($2) AND day >= $3 AND day <= $4
+      ORDER BY day, scope_id, event_type
+    `;
+    const result = await this.rawQuery<AnalyticsRollup>(query, [scope, scopeIds, fromDay, toDay]);
+    return result.map(row => ({ ...row, count: Number(row.count) }));
   }
 
-  async connect(): Promise<void> {
-    // Already connected via parent client
+  async getRecentAnalyticsEvents(spaceIds: string[], limit: number): Promise<AnalyticsEvent[]> {
+    if (spaceIds.length === 0) return [];
+
+    const query = `
+      SELECT * FROM analytics_events
+      WHERE space_id = ANY($1)
+      ORDER BY created_at DESC, event_id DESC
+      LIMIT $2
+    `;
+    const result = await this.rawQuery(query, [spaceIds, limit]);
+    return result.map(row => this.mapAnalyticsEventRow(row));
   }
 
-  async disconnect(): Promise<void> {
-    // Don't disconnect transaction client
+  async countAnalyticsUsers(spaceIds: string[], since: string): Promise<number> {
+    if (spaceIds.length === 0) return 0;
+
+    const query = `
+      SELECT COUNT(DISTINCT user_id) AS count FROM analytics_events
+      WHERE space_id = ANY($1) AND created_at >= $2
+    `;
+    const result = await this.rawQuery<{ count: string }>(query, [spaceIds, since]);
+    return parseInt(result[0].count);
   }
 
-  isConnected(): boolean {
-    return true;
+  // ============================================
+  // Moderation Operations
+  // ============================================
+
+  async createContentReport(report: CreateContentReportData): Promise<ContentReport | null> {
+    const query = `
+      INSERT INTO content_reports (report_id, target_type, target_id, reporter_id, reason, details)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT DO NOTHING
+      RETURNING *
+    `;
+    const result = await this.rawQuery(query, [
+      report.report_id, report.target_type, report.target_id, report.reporter_id,
+      report.reason, report.details ?? null
+    ]);
+    return result.length > 0 ? this.mapContentReportRow(result[0]) : null;
   }
 
-  async getStats(): Promise<DatabaseStats> {
-    return this.parentAdapter.getStats();
+  async getContentReport(reportId: string): Promise<ContentReport | null> {
+    const result = await this.rawQuery('SELECT * FROM content_reports WHERE report_id = $1', [reportId]);
+    return result.length > 0 ? this.mapContentReportRow(result[0]) : null;
   }
 
-  async transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> {
-    // Nested transactions not supported, just execute callback
-    return callback(this);
+  async getPendingReports(limit?: number): Promise<ContentReport[]> {
+    let query = "SELECT * FROM content_reports WHERE status = 'pending' ORDER BY created_at, report_id";
+    const params: unknown[] = [];
+
+    if (limit) {
+      query += ' LIMIT $1';
+      params.push(limit);
+    }
+
+    const result = await this.rawQuery(query, params);
+    return result.map(row => this.mapContentReportRow(row));
   }
 
-  async query<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
-    // For transactions, delegate to parent
-    return this.parentAdapter.query<T>(sql, params);
+  async resolveReports(
+    targetType: ReportTargetType,
+    targetId: string,
+    status: Exclude<ReportStatus, 'pending'>,
+    resolution: string,
+    resolvedBy: string
+  ): Promise<number> {
+    const query = `
+      UPDATE content_reports SET status = $1, resolution = $2, resolved_by = $3, resolved_at = NOW()
+      WHERE target_type = $4 AND target_id = $5 AND status = 'pending'
+      RETURNING report_id
+    `;
+    const result = await this.rawQuery(query, [status, resolution, resolvedBy, targetType, targetId]);
+    return result.length;
   }
 
-  async clearAllData(): Promise<void> {
-    // For transactions, delegate to parent
-    return this.parentAdapter.clearAllData();
+  async recordModerationAction(action: CreateModerationActionData): Promise<void> {
+    const query = `
+      INSERT INTO moderation_actions (action_id, target_type, target_id, action, moderator_id, report_id, note)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `;
+    await this.rawQuery(query, [
+      action.action_id, action.target_type, action.target_id, action.action,
+      action.moderator_id, action.report_id ?? null, action.note ?? null
+    ]);
   }
 
-  // Delegate all operations to use the transaction client
-  async createUser(userData: CreateUserData): Promise<User> {
-    // Implementation similar to parent but using this.client instead of this.pool
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getUserActivityStats(userIds: string[]): Promise<Map<string, UserActivityStats>> {
+    const stats = new Map<string, UserActivityStats>(
+      userIds.map(userId => [userId, { post_count: 0, follower_count: 0, pending_reports: 0 }])
+    );
+    if (userIds.length === 0) return stats;
+
+    const query = `
+      SELECT u.user_id,
+        (SELECT COUNT(*) FROM beacons b WHERE b.author_id = u.user_id AND b.beacon_type = 'post') AS post_count,
+        (SELECT COUNT(*) FROM follows f WHERE f.following_id = u.user_id) AS follower_count,
+        (SELECT COUNT(*) FROM content_reports r WHERE r.status = 'pending' AND (
+          (r.target_type = 'user' AND r.target_id = u.user_id)
+          OR (r.target_type = 'post' AND r.target_id IN (SELECT b.beacon_id FROM beacons b WHERE b.author_id = u.user_id))
+        )) AS pending_reports,
+        (SELECT MAX(e.created_at) FROM analytics_events e WHERE e.user_id = u.user_id) AS last_active_at
+      FROM users u
+      WHERE u.user_id = ANY($1)
+    `;
+    const result = await this.rawQuery<Record<string, unknown>>(query, [userIds]);
+    for (const row of result) {
+      stats.set(row.user_id as string, {
+        post_count: Number(row.post_count),
+        follower_count: Number(row.follower_count),
+        pending_reports: Number(row.pending_reports),
+        last_active_at: row.last_active_at ? (row.last_active_at as Date).toISOString() : undefined
+      });
+    }
+    return stats;
   }
 
-  async getUserById(_userId: string): Promise<User | null> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getSpaceActivityStats(spaceIds: string[]): Promise<Map<string, SpaceActivityStats>> {
+    const stats = new Map<string, SpaceActivityStats>(
+      spaceIds.map(spaceId => [spaceId, { post_count: 0, pending_reports: 0 }])
+    );
+    if (spaceIds.length === 0) return stats;
+
+    const posts = await this.rawQuery<{ space_id: string; count: string }>(
+      `SELECT metadata->>'space_id' AS space_id, COUNT(*) AS count FROM beacons
+       WHERE beacon_type = 'post' AND metadata->>'space_id' = ANY($1)
+       GROUP BY metadata->>'space_id'`,
+      [spaceIds]
+    );
+    for (const row of posts) {
+      stats.get(row.space_id)!.post_count = parseInt(row.count);
+    }
+
+    const reports = await this.rawQuery<{ target_id: string; count: string }>(
+      `SELECT target_id, COUNT(*) AS count FROM content_reports
+       WHERE target_type = 'space' AND status = 'pending' AND target_id = ANY($1)
+       GROUP BY target_id`,
+      [spaceIds]
+    );
+    for (const row of reports) {
+      stats.get(row.target_id)!.pending_reports = parseInt(row.count);
+    }
+    return stats;
   }
 
-  async getUserByUsername(_username: string): Promise<User | null> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  // ============================================
+  // Announcement Operations
+  // ============================================
+
+  async createAnnouncement(announcement: CreateAnnouncementData): Promise<Announcement> {
+    const query = `
+      INSERT INTO announcements (announcement_id, title, content, created_by)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+    const result = await this.rawQuery(query, [
+      announcement.announcement_id, announcement.title, announcement.content, announcement.created_by
+    ]);
+    return this.mapAnnouncementRow(result[0]);
   }
 
-  async getUserByEmail(_email: string): Promise<User | null> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getAnnouncement(announcementId: string): Promise<Announcement | null> {
+    const result = await this.rawQuery('SELECT * FROM announcements WHERE announcement_id = $1', [announcementId]);
+    return result.length > 0 ? this.mapAnnouncementRow(result[0]) : null;
   }
 
-  async updateUser(_userId: string, _updates: Partial<User>): Promise<User> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async listAnnouncements(status?: AnnouncementStatus): Promise<Announcement[]> {
+    const result = status
+      ? await this.rawQuery(
+        'SELECT * FROM announcements WHERE status = $1 ORDER BY created_at DESC, announcement_id DESC',
+        [status]
+      )
+      : await this.rawQuery('SELECT * FROM announcements ORDER BY created_at DESC, announcement_id DESC');
+    return result.map(row => this.mapAnnouncementRow(row));
   }
 
-  async deleteUser(_userId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async updateAnnouncementStatus(
+    announcementId: string,
+    status: AnnouncementStatus
+  ): Promise<Announcement | null> {
+    const query = `
+      UPDATE announcements
+      SET status = $1, published_at = CASE WHEN $1 = 'active' THEN COALESCE(published_at, NOW()) ELSE published_at END
+      WHERE announcement_id = $2
+      RETURNING *
+    `;
+    const result = await this.rawQuery(query, [status, announcementId]);
+    return result.length > 0 ? this.mapAnnouncementRow(result[0]) : null;
   }
 
-  async listUsers(_limit?: number, _offset?: number): Promise<User[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getUndismissedAnnouncements(userId: string): Promise<Announcement[]> {
+    const query = `
+      SELECT a.* FROM announcements a
+      WHERE a.status = 'active' AND NOT EXISTS (
+        SELECT 1 FROM announcement_views v
+        WHERE v.announcement_id = a.announcement_id AND v.user_id = $1 AND v.dismissed_at IS NOT NULL
+      )
+      ORDER BY a.published_at DESC, a.announcement_id DESC
+    `;
+    const result = await this.rawQuery(query, [userId]);
+    return result.map(row => this.mapAnnouncementRow(row));
   }
 
-  async createBeacon(_beacon: CreateBeaconData): Promise<Beacon> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async recordAnnouncementViews(userId: string, announcementIds: string[]): Promise<void> {
+    if (announcementIds.length === 0) return;
+
+    const query = `
+      INSERT INTO announcement_views (announcement_id, user_id)
+      SELECT UNNEST($1::text[]), $2
+      ON CONFLICT (announcement_id, user_id) DO NOTHING
+    `;
+    await this.rawQuery(query, [announcementIds, userId]);
   }
 
-  async getBeaconById(_beaconId: string): Promise<Beacon | null> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async dismissAnnouncement(announcementId: string, userId: string): Promise<boolean> {
+    const query = `
+      INSERT INTO announcement_views (announcement_id, user_id, dismissed_at)
+      SELECT announcement_id, $2, NOW() FROM announcements WHERE announcement_id = $1
+      ON CONFLICT (announcement_id, user_id) DO UPDATE SET dismissed_at = EXCLUDED.dismissed_at
+      RETURNING announcement_id
+    `;
+    const result = await this.rawQuery(query, [announcementId, userId]);
+    return result.length > 0;
   }
 
-  async getBeaconsByUser(_userId: string, _type?: string, _limit?: number): Promise<Beacon[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getAnnouncementViewCounts(announcementIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map(announcementIds.map(id => [id, 0]));
+    if (announcementIds.length === 0) return counts;
+
+    const query = `
+      SELECT announcement_id, COUNT(*) AS count FROM announcement_views
+      WHERE announcement_id = ANY($1)
+      GROUP BY announcement_id
+    `;
+    const result = await this.rawQuery<{ announcement_id: string; count: string }>(query, [announcementIds]);
+    for (const row of result) {
+      counts.set(row.announcement_id, parseInt(row.count));
+    }
+    return counts;
   }
 
-  async getBeaconsByType(_type: string, _limit?: number, _offset?: number): Promise<Beacon[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  // ============================================
+  // Encryption Key Operations
+  // ============================================
+
+  async addEncryptionKey(key: CreateEncryptionKeyData): Promise<EncryptionKey> {
+    const query = `
+      INSERT INTO encryption_keys (key_id, user_id, public_key, pri_fingerprint)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (key_id) DO NOTHING
+    `;
+    await this.rawQuery(query, [key.key_id, key.user_id, key.public_key, key.pri_fingerprint]);
+    const result = await this.rawQuery('SELECT * FROM encryption_keys WHERE key_id = $1', [key.key_id]);
+    return this.mapEncryptionKeyRow(result[0]);
   }
 
-  async queryBeacons(_filter: BeaconFilter): Promise<Beacon[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getEncryptionKeys(userIds: string[]): Promise<EncryptionKey[]> {
+    if (userIds.length === 0) return [];
+
+    const query = `
+      SELECT k.* FROM encryption_keys k
+      JOIN users u ON u.user_id = k.user_id AND u.pri_fingerprint = k.pri_fingerprint
+      WHERE k.user_id = ANY($1)
+      ORDER BY k.created_at, k.key_id
+    `;
+    const result = await this.rawQuery(query, [userIds]);
+    return result.map(row => this.mapEncryptionKeyRow(row));
   }
 
-  async updateBeacon(_beaconId: string, _updates: Partial<Beacon>): Promise<Beacon> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getLatestSpaceKeyVersion(spaceId: string): Promise<number> {
+    const result = await this.rawQuery<{ version: number | null }>(
+      'SELECT MAX(key_version) AS version FROM space_keys WHERE space_id = $1',
+      [spaceId]
+    );
+    return Number(result[0]?.version ?? 0);
   }
 
-  async deleteBeacon(_beaconId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async getSpaceKeys(spaceId: string, filter: { userId?: string; keyVersion?: number } = {}): Promise<SpaceKey[]> {
+    const query = `
+      SELECT * FROM space_keys
+      WHERE space_id = $1 AND ($2::text IS NULL OR user_id = $2) AND ($3::integer IS NULL OR key_version = $3)
+      ORDER BY key_version DESC, key_id
+    `;
+    const result = await this.rawQuery(query, [spaceId, filter.userId ?? null, filter.keyVersion ?? null]);
+    return result.map(row => this.mapSpaceKeyRow(row));
   }
 
-  async createSpace(_space: CreateSpaceData): Promise<Space> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async addSpaceKeys(keys: CreateSpaceKeyData[]): Promise<number> {
+    if (keys.length === 0) return 0;
+
+    const query = `
+      INSERT INTO space_keys (space_id, key_version, key_id, user_id, wrapped_key, created_by)
+      SELECT * FROM UNNEST($1::text[], $2::integer[], $3::text[], $4::text[], $5::text[], $6::text[])
+      ON CONFLICT (space_id, key_version, key_id) DO NOTHING
+      RETURNING key_id
+    `;
+    const result = await this.rawQuery(query, [
+      keys.map(k => k.space_id),
+      keys.map(k => k.key_version),
+      keys.map(k => k.key_id),
+      keys.map(k => k.user_id),
+      keys.map(k => k.wrapped_key),
+      keys.map(k => k.created_by)
+    ]);
+    return result.length;
   }
 
-  async getSpaceById(_spaceId: string): Promise<Space | null> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  // ============================================
+  // Search Operations (Basic Implementation)
+  // ============================================
+
+  async searchUsers(query: string, options: SearchOptions = {}): Promise<SearchPage<User>> {
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery) return { results: [], total: 0 };
+
+    const params: unknown[] = [];
+    const param = (value: unknown) => `$${params.push(value)}`;
+    const vector = "to_tsvector('simple', u.username)";
+    const matches = `to_tsquery('simple', ${param(tsQuery)})`;
+
+    const orderBy = {
+      relevance: () => `LOWER(u.username) = LOWER(${param(query.trim())}) DESC, ts_rank(${vector}, ${matches}) DESC, u.username`,
+      recent: () => 'u.created_at DESC',
+      popular: () => 'follower_count DESC, u.username',
+      trending: () => `(SELECT COUNT(*) FROM follows f WHERE f.following_id = u.user_id AND f.created_at >= ${param(trendingSince())}) DESC, u.username`
+    }[options.sort_by ?? 'relevance']();
+
+    const searchQuery = `
+      SELECT u.*, COUNT(*) OVER() AS total_count,
+        (SELECT COUNT(*) FROM follows f WHERE f.following_id = u.user_id) AS follower_count
+      FROM users u
+      WHERE (${vector} @@ ${matches} OR u.username ILIKE ${param(toLikePattern(query))})
+        ${options.include_banned ? '' : "AND u.moderation_status <> 'banned'"}
+      ORDER BY ${orderBy}
+      LIMIT ${param(options.limit ?? DEFAULT_SEARCH_LIMIT)} OFFSET ${param(options.offset ?? 0)}
+    `;
+    
+    const result = await this.rawQuery<Record<string, unknown>>(searchQuery, params);
+    return {
+      results: result.map(row => this.mapUserRow(row)),
+      total: result.length > 0 ? Number(result[0].total_count) : 0
+    };
   }
 
-  async getSpaceByName(_name: string): Promise<Space | null> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async searchSpaces(query: string, options: SearchOptions = {}): Promise<SearchPage<Space>> {
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery) return { results: [], total: 0 };
+
+    const params: unknown[] = [];
+    const param = (value: unknown) => `$${params.push(value)}`;
+    const vector = "to_tsvector('english', s.name || ' ' || COALESCE(s.description, ''))";
+    const matches = `to_tsquery('english', ${param(tsQuery)})`;
+    const spacePosts = "SELECT COUNT(*) FROM beacons b WHERE b.metadata->>'space_id' = s.space_id";
+
+    const orderBy = {
+      relevance: () => `ts_rank(${vector}, ${matches}) DESC, s.name`,
+      recent: () => 's.created_at DESC',
+      popular: () => `(${spacePosts}) DESC, s.name`,
+      trending: () => `(${spacePosts} AND b.created_at >= ${param(trendingSince())}) DESC, s.name`
+    }[options.sort_by ?? 'relevance']();
+
+    const searchQuery = `
+      SELECT s.*, COUNT(*) OVER() AS total_count
+      FROM spaces s
+      WHERE s.is_public AND s.hidden_at IS NULL AND (${vector} @@ ${matches} OR s.name ILIKE ${param(toLikePattern(query))})
+      ORDER BY ${orderBy}
+      LIMIT ${param(options.limit ?? DEFAULT_SEARCH_LIMIT)} OFFSET ${param(options.offset ?? 0)}
+    `;
+    
+    const result = await this.rawQuery<Record<string, unknown>>(searchQuery, params);
+    return {
+      results: result.map(row => this.mapSpaceRow(row)),
+      total: result.length > 0 ? Number(result[0].total_count) : 0
+    };
   }
 
-  async getPublicSpaces(_limit?: number, _offset?: number): Promise<Space[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async searchBeacons(query: string, type?: string, options: SearchOptions = {}): Promise<SearchPage<Beacon>> {
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery) return { results: [], total: 0 };
+
+    const params: unknown[] = [];
+    const param = (value: unknown) => `$${params.push(value)}`;
+    const vector = "to_tsvector('english', COALESCE(b.metadata->>'originalText', ''))";
+    const matches = `to_tsquery('english', ${param(tsQuery)})`;
+    const beaconLikes = 'SELECT COUNT(*) FROM likes l WHERE l.post_beacon_id = b.beacon_id';
+
+    const orderBy = {
+      relevance: () => `ts_rank(${vector}, ${matches}) DESC, b.created_at DESC`,
+      recent: () => 'b.created_at DESC',
+      popular: () => `(${beaconLikes}) DESC, b.created_at DESC`,
+      trending: () => `(${beaconLikes} AND l.created_at >= ${param(trendingSince())}) DESC, b.created_at DESC`
+    }[options.sort_by ?? 'relevance']();
+
+    let searchQuery = `
+      SELECT b.*, COUNT(*) OVER() AS total_count
+      FROM beacons b
+      WHERE ${vector} @@ ${matches}
+        AND b.hidden_at IS NULL
+        AND (
+          b.metadata->>'space_id' IS NULL
+          OR EXISTS (
+            SELECT 1 FROM spaces s
+            WHERE s.space_id = b.metadata->>'space_id' AND s.is_public AND s.hidden_at IS NULL
+          )
+        )
+    `;
+
+    if (type) {
+      searchQuery += ` AND b.beacon_type = ${param(type)}`;
+    }
+
+    searchQuery += `
+      ORDER BY ${orderBy}
+      LIMIT ${param(options.limit ?? DEFAULT_SEARCH_LIMIT)} OFFSET ${param(options.offset ?? 0)}
+    `;
+    
+    const result = await this.rawQuery<Record<string, unknown>>(searchQuery, params);
+    return {
+      results: result.map(row => this.mapBeaconRow(row)),
+      total: result.length > 0 ? Number(result[0].total_count) : 0
+    };
   }
 
-  async getSpacesByOwner(_ownerId: string): Promise<Space[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  // ============================================
+  // Database Management Methods
+  // ============================================
+
+  async query<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.rawQuery<T>(sql, params);
   }
 
-  async updateSpace(_spaceId: string, _updates: Partial<Space>): Promise<Space> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async clearAllData(): Promise<void> {
+    console.log('🧹 Clearing all data from Neon database...');
+    
+    const tables = [
+      'announcement_views',
+      'announcements',
+      'moderation_actions',
+      'content_reports',
+      'notifications',
+      'analytics_daily',
+      'analytics_events',
+      'password_reset_tokens',
+      'sessions',
+      'direct_messages',
+      'conversation_participants',
+      'conversations',
+      'space_invites',
+      'space_members',
+      'space_files',
+      'quaternionic_messages',
+      'comments',
+      'likes',
+      'follows',
+      'beacons',
+      'spaces',
+      'users'
+    ];
+    
+    try {
+      // Use TRUNCATE CASCADE for efficient clearing
+      for (const table of tables) {
+        try {
+          await this.rawQuery(`TRUNCATE TABLE ${table} CASCADE`);
+          console.log(`  ✅ Truncated ${table}`);
+        } catch (error) {
+          // If TRUNCATE fails, try DELETE
+          try {
+            await this.rawQuery(`DELETE FROM ${table}`);
+            console.log(`  ✅ Deleted from ${table}`);
+          } catch (deleteError) {
+            console.warn(`  ⚠️ Could not clear ${table}:`, deleteError);
+          }
+        }
+      }
+      console.log('✅ All data cleared successfully');
+    } catch (error) {
+      console.error('❌ Error clearing database:', error);
+      throw error;
+    }
   }
 
-  async deleteSpace(_spaceId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  // ============================================
+  // Utility Methods
+  // ============================================
+
+  protected async rawQuery<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
+    try {
+      const result = await this.executor.query(sql, params);
+      return result.rows as T[];
+    } catch (error) {
+      console.error('Database query error:', error);
+      throw new DatabaseError(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  async calculateQuantumResonance(_primeIndices: QuantumPrimeIndices, _referencePoint: QuantumPrimeIndices): Promise<number> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  protected mapUserRow(row: unknown): User {
+    const r = row as Record<string, unknown>;
+    return {
+      user_id: r.user_id as string,
+      username: r.username as string,
+      email: r.email as string,
+      password_hash: r.password_hash as string,
+      salt: r.salt as Buffer,
+      node_public_key: r.node_public_key as Buffer,
+      node_private_key_encrypted: r.node_private_key_encrypted as Buffer,
+      master_phase_key_encrypted: r.master_phase_key_encrypted as Buffer,
+      pri_public_resonance: typeof r.pri_public_resonance === 'string' 
+        ? JSON.parse(r.pri_public_resonance) 
+        : r.pri_public_resonance as QuantumPrimeIndices,
+      pri_private_resonance: typeof r.pri_private_resonance === 'string'
+        ? JSON.parse(r.pri_private_resonance)
+        : r.pri_private_resonance as QuantumPrimeIndices,
+      pri_fingerprint: r.pri_fingerprint as string,
+      role: (r.role as PlatformRole | null) ?? 'user',
+      moderation_status: (r.moderation_status as AccountStanding | null) ?? 'active',
+      suspended_until: r.suspended_until ? (r.suspended_until as Date).toISOString() : undefined,
+      created_at: (r.created_at as Date).toISOString(),
+      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined
+    };
   }
 
-  async findResonantBeacons(_query: QuantumResonanceQuery): Promise<Beacon[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  protected mapBeaconRow(row: unknown): Beacon {
+    const r = row as Record<string, unknown>;
+    return {
+      beacon_id: r.beacon_id as string,
+      beacon_type: r.beacon_type as string,
+      author_id: r.author_id as string,
+      prime_indices: typeof r.prime_indices === 'string'
+        ? JSON.parse(r.prime_indices)
+        : r.prime_indices as QuantumPrimeIndices,
+      epoch: parseInt(r.epoch as string),
+      fingerprint: r.fingerprint as Buffer,
+      signature: r.signature as Buffer,
+      metadata: r.metadata ? (typeof r.metadata === 'string' ? JSON.parse(r.metadata) : r.metadata) : undefined,
+      hidden_at: r.hidden_at ? (r.hidden_at as Date).toISOString() : undefined,
+      created_at: (r.created_at as Date).toISOString(),
+      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined
+    };
   }
 
-  async findQuantumClusters(_spaceId: string, _clusterThreshold?: number): Promise<BeaconCluster[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  protected mapSpaceRow(row: unknown): Space {
+    const r = row as Record<string, unknown>;
+    return {
+      space_id: r.space_id as string,
+      name: r.name as string,
+      description: r.description as string | undefined,
+      is_public: r.is_public as boolean,
+      owner_id: r.owner_id as string | undefined,
+      metadata: r.metadata ? (typeof r.metadata === 'string' ? JSON.parse(r.metadata) : r.metadata) : undefined,
+      hidden_at: r.hidden_at ? (r.hidden_at as Date).toISOString() : undefined,
+      created_at: (r.created_at as Date).toISOString(),
+      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined
+    };
   }
 
-  async getResonanceMatrix(_beaconIds: string[]): Promise<Map<string, Map<string, number>>> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapSpaceMemberRow(row: unknown): SpaceMember {
+    const r = row as Record<string, unknown>;
+    return {
+      space_id: r.space_id as string,
+      user_id: r.user_id as string,
+      role: r.role as SpaceMember['role'],
+      status: r.status as SpaceMemberStatus,
+      joined_at: (r.joined_at as Date).toISOString(),
+      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined
+    };
   }
 
-  async updateResonanceCache(_userId: string, _resonanceData: Record<string, number>): Promise<void> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapSpaceInviteRow(row: unknown): SpaceInvite {
+    const r = row as Record<string, unknown>;
+    return {
+      invite_id: r.invite_id as string,
+      space_id: r.space_id as string,
+      created_by: r.created_by as string,
+      role: r.role as SpaceInvite['role'],
+      max_uses: r.max_uses === null ? undefined : Number(r.max_uses),
+      uses: Number(r.uses),
+      created_at: (r.created_at as Date).toISOString(),
+      expires_at: (r.expires_at as Date).toISOString()
+    };
   }
 
-  async createFollow(_followerId: string, _followingId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapSpaceFileRow(row: unknown): SpaceFile {
+    const r = row as Record<string, unknown>;
+    return {
+      file_id: r.file_id as string,
+      space_id: r.space_id as string,
+      uploader_id: r.uploader_id as string,
+      file_name: r.file_name as string,
+      file_type: r.file_type as string,
+      file_size: parseInt(r.file_size as string),
+      fingerprint: r.fingerprint as string,
+      created_at: (r.created_at as Date).toISOString()
+    };
   }
 
-  async removeFollow(_followerId: string, _followingId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapDirectMessageRow(row: unknown): DirectMessage {
+    const r = row as Record<string, unknown>;
+    return {
+      message_id: r.message_id as string,
+      conversation_id: r.conversation_id as string,
+      sender_id: r.sender_id as string,
+      recipient_id: r.recipient_id as string,
+      content: r.content as string,
+      created_at: (r.created_at as Date).toISOString()
+    };
   }
 
-  async getFollowers(_userId: string): Promise<User[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapConversationParticipantRow(row: unknown): ConversationParticipant {
+    const r = row as Record<string, unknown>;
+    return {
+      conversation_id: r.conversation_id as string,
+      user_id: r.user_id as string,
+      last_read_message_id: (r.last_read_message_id as string | null) ?? undefined,
+      last_read_at: r.last_read_at ? (r.last_read_at as Date).toISOString() : undefined,
+      last_delivered_message_id: (r.last_delivered_message_id as string | null) ?? undefined,
+      last_delivered_at: r.last_delivered_at ? (r.last_delivered_at as Date).toISOString() : undefined
+    };
   }
 
-  async getFollowing(_userId: string): Promise<User[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapCommentRow(row: unknown): Comment {
+    const r = row as Record<string, unknown>;
+    return {
+      comment_id: r.comment_id as string,
+      post_beacon_id: r.post_beacon_id as string,
+      author_id: r.author_id as string,
+      parent_comment_id: (r.parent_comment_id as string | null) ?? undefined,
+      content: r.content as string,
+      comment_beacon_id: (r.comment_beacon_id as string | null) ?? undefined,
+      created_at: (r.created_at as Date).toISOString(),
+      updated_at: r.updated_at ? (r.updated_at as Date).toISOString() : undefined,
+      deleted_at: r.deleted_at ? (r.deleted_at as Date).toISOString() : undefined
+    };
   }
 
-  async isFollowing(_followerId: string, _followingId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapSessionRow(row: unknown): Session {
+    const r = row as Record<string, unknown>;
+    return {
+      session_id: r.session_id as string,
+      user_id: r.user_id as string,
+      created_at: (r.created_at as Date).toISOString(),
+      expires_at: (r.expires_at as Date).toISOString(),
+      revoked_at: r.revoked_at ? (r.revoked_at as Date).toISOString() : undefined
+    };
   }
 
-  async likeBeacon(_userId: string, _beaconId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapPasswordResetTokenRow(row: unknown): PasswordResetToken {
+    const r = row as Record<string, unknown>;
+    return {
+      token_id: r.token_id as string,
+      user_id: r.user_id as string,
+      created_at: (r.created_at as Date).toISOString(),
+      expires_at: (r.expires_at as Date).toISOString(),
+      used_at: r.used_at ? (r.used_at as Date).toISOString() : undefined
+    };
   }
 
-  async unlikeBeacon(_userId: string, _beaconId: string): Promise<boolean> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapAnalyticsEventRow(row: unknown): AnalyticsEvent {
+    const r = row as Record<string, unknown>;
+    return {
+      event_id: r.event_id as string,
+      event_type: r.event_type as AnalyticsEvent['event_type'],
+      user_id: r.user_id as string,
+      space_id: (r.space_id as string | null) ?? undefined,
+      created_at: (r.created_at as Date).toISOString()
+    };
   }
 
-  async getBeaconLikes(_beaconId: string): Promise<User[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapContentReportRow(row: unknown): ContentReport {
+    const r = row as Record<string, unknown>;
+    return {
+      report_id: r.report_id as string,
+      target_type: r.target_type as ReportTargetType,
+      target_id: r.target_id as string,
+      reporter_id: r.reporter_id as string,
+      reason: r.reason as ContentReport['reason'],
+      details: (r.details as string | null) ?? undefined,
+      status: r.status as ReportStatus,
+      resolution: (r.resolution as string | null) ?? undefined,
+      resolved_by: (r.resolved_by as string | null) ?? undefined,
+      resolved_at: r.resolved_at ? (r.resolved_at as Date).toISOString() : undefined,
+      created_at: (r.created_at as Date).toISOString()
+    };
   }
 
-  async getUserLikes(_userId: string): Promise<Beacon[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapAnnouncementRow(row: unknown): Announcement {
+    const r = row as Record<string, unknown>;
+    return {
+      announcement_id: r.announcement_id as string,
+      title: r.title as string,
+      content: r.content as string,
+      status: r.status as AnnouncementStatus,
+      created_by: r.created_by as string,
+      created_at: (r.created_at as Date).toISOString(),
+      published_at: r.published_at ? (r.published_at as Date).toISOString() : undefined
+    };
   }
 
-  async searchUsers(_query: string, _limit?: number): Promise<User[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapEncryptionKeyRow(row: unknown): EncryptionKey {
+    const r = row as Record<string, unknown>;
+    return {
+      key_id: r.key_id as string,
+      user_id: r.user_id as string,
+      public_key: r.public_key as string,
+      pri_fingerprint: r.pri_fingerprint as string,
+      created_at: (r.created_at as Date).toISOString()
+    };
   }
 
-  async searchSpaces(_query: string, _limit?: number): Promise<Space[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  private mapSpaceKeyRow(row: unknown): SpaceKey {
+    const r = row as Record<string, unknown>;
+    return {
+      space_id: r.space_id as string,
+      key_version: Number(r.key_version),
+      key_id: r.key_id as string,
+      user_id: r.user_id as string,
+      wrapped_key: r.wrapped_key as string,
+      created_by: r.created_by as string,
+      created_at: (r.created_at as Date).toISOString()
+    };
   }
 
-  async searchBeacons(_query: string, _type?: string, _limit?: number): Promise<Beacon[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  // ============================================
+  // Schema Initialization
+  // ============================================
+
+  private async initializeSchema(): Promise<void> {
+    console.log('🏗️ Migrating Neon PostgreSQL schema...');
+    
+    try {
+      await new MigrationRunner(this, 'postgresql').migrate();
+      console.log('🎉 Schema is up to date!');
+    } catch (error) {
+      console.error('❌ Schema migration failed:', error);
+      throw error;
+    }
   }
+}
+
+// Transaction adapter for Neon - runs every query on the checked-out client
+class NeonTransactionAdapter extends NeonAdapter {
+  private savepointCounter = 0;
 
-  protected async rawQuery<T = unknown>(_sql: string, _params?: unknown[]): Promise<T[]> {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  constructor(config: DatabaseConfig, pool: Pool, client: PoolClient) {
+    super(config, pool);
+    this.executor = client;
+    this.connected = true;
   }
 
-  protected mapUserRow(_row: unknown): User {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async connect(): Promise<void> {
+    // Already connected via the parent pool
   }
 
-  protected mapBeaconRow(_row: unknown): Beacon {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  async disconnect(): Promise<void> {
+    // The parent releases the client and owns the pool
   }
 
-  protected mapSpaceRow(_row: unknown): Space {
-    throw new DatabaseError('Transaction operations not yet implemented');
+  // Nested transactions map onto savepoints
+  async transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> {
+    const savepoint = `sp_${++this.savepointCounter}`;
+    await this.rawQuery(`SAVEPOINT ${savepoint}`);
+    try {
+      const result = await callback(this);
+      await this.rawQuery(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await this.rawQuery(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      await this.rawQuery(`RELEASE SAVEPOINT ${savepoint}`);
+      throw error;
+    }
   }
-}
\ No newline at end of file
+}
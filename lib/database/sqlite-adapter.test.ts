@@ -0,0 +1,210 @@
+/**
+ * SQLite Adapter Tests
+ * Runs the DatabaseAdapter contract against an in-memory database
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { SqliteAdapter } from './sqlite-adapter';
+import { TransactionError } from './types';
+import { createTestDatabase, testPrimeIndices, testUserData } from './test-fixtures';
+
+describe('SqliteAdapter', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('round-trips users including buffers and JSON columns', async () => {
+    await db.createUser(testUserData('user_a'));
+
+    const user = await db.getUserByUsername('name_user_a');
+    expect(user?.user_id).toBe('user_a');
+    expect(Buffer.isBuffer(user?.salt)).toBe(true);
+    expect(user?.pri_public_resonance.prime_sequence).toEqual([2, 3, 5]);
+
+    const updated = await db.updateUser('user_a', { email: 'new@example.com' });
+    expect(updated.email).toBe('new@example.com');
+    expect(updated.updated_at).toBeDefined();
+  });
+
+  it('pages beacons and filters by space metadata', async () => {
+    await db.createUser(testUserData('user_a'));
+    for (let i = 0; i < 3; i++) {
+      await db.createBeacon({
+        beacon_id: `beacon_${i}`,
+        beacon_type: 'post',
+        author_id: 'user_a',
+        prime_indices: testPrimeIndices,
+        epoch: i,
+        fingerprint: Buffer.from([i]),
+        signature: Buffer.from([i]),
+        metadata: { space_id: i === 0 ? 'space_1' : 'space_2' }
+      });
+    }
+
+    const page = await db.queryBeacons({ author_id: 'user_a', order_by: 'epoch', limit: 2, offset: 1 });
+    expect(page.map(b => b.beacon_id)).toEqual(['beacon_1', 'beacon_0']);
+
+    const inSpace = await db.queryBeacons({ space_id: 'space_1' });
+    expect(inSpace).toHaveLength(1);
+    expect(inSpace[0].metadata).toEqual({ space_id: 'space_1' });
+
+    const stats = await db.getStats();
+    expect(stats.total_beacons).toBe(3);
+    expect(stats.avg_resonance_strength).toBeCloseTo(testPrimeIndices.base_resonance);
+  });
+
+  it('tracks follows and likes with accurate change results', async () => {
+    await db.createUser(testUserData('user_a'));
+    await db.createUser(testUserData('user_b'));
+
+    expect(await db.createFollow('user_a', 'user_b')).toBe(true);
+    expect(await db.createFollow('user_a', 'user_b')).toBe(false);
+    expect((await db.getFollowers('user_b')).map(u => u.user_id)).toEqual(['user_a']);
+    expect(await db.removeFollow('user_a', 'user_b')).toBe(true);
+
+    expect(await db.likeBeacon('user_b', 'beacon_x')).toBe(true);
+    expect((await db.getBeaconLikes('beacon_x')).map(u => u.user_id)).toEqual(['user_b']);
+    expect(await db.getLikeCount('beacon_x')).toBe(1);
+    expect(await db.hasLiked('user_a', 'beacon_x')).toBe(false);
+  });
+
+  it('threads comments and keeps deleted ones as placeholders', async () => {
+    await db.createUser(testUserData('user_a'));
+    await db.createUser(testUserData('user_b'));
+
+    await db.createComment({ comment_id: 'c_1', post_beacon_id: 'beacon_x', author_id: 'user_a', content: 'first' });
+    await db.createComment({
+      comment_id: 'c_2', post_beacon_id: 'beacon_x', author_id: 'user_b',
+      parent_comment_id: 'c_1', content: 'reply'
+    });
+
+    expect(await db.updateComment('c_1', 'user_b', 'hijack')).toBeNull();
+    expect((await db.updateComment('c_1', 'user_a', 'edited'))?.updated_at).toBeDefined();
+
+    expect(await db.deleteComment('c_1', 'user_b')).toBe(false);
+    expect(await db.deleteComment('c_1', 'user_a')).toBe(true);
+    expect(await db.getCommentCount('beacon_x')).toBe(1);
+
+    const comments = await db.getComments('beacon_x');
+    expect(comments.map(c => [c.comment_id, c.content])).toEqual([['c_1', ''], ['c_2', 'reply']]);
+    expect(comments[0].deleted_at).toBeDefined();
+    expect(comments[1].parent_comment_id).toBe('c_1');
+    expect((await db.getComments('beacon_x', 1, 1)).map(c => c.comment_id)).toEqual(['c_2']);
+  });
+
+  it('stores spaces and accepts PostgreSQL-style placeholders in query()', async () => {
+    await db.createUser(testUserData('user_a'));
+    await db.createSpace({ space_id: 'space_1', name: 'Lab', is_public: true, owner_id: 'user_a' });
+
+    const spaces = await db.getPublicSpaces(10);
+    expect(spaces[0].is_public).toBe(true);
+
+    const rows = await db.query<{ name: string }>('SELECT name FROM spaces WHERE owner_id = $1', ['user_a']);
+    expect(rows).toEqual([{ name: 'Lab' }]);
+  });
+
+  it('stores space files and tracks direct message read state', async () => {
+    await db.createUser(testUserData('user_a'));
+    await db.createUser(testUserData('user_b'));
+    await db.createSpace({ space_id: 'space_1', name: 'Lab', is_public: true, owner_id: 'user_a' });
+
+    const file = await db.createSpaceFile({
+      file_id: 'file_1', space_id: 'space_1', uploader_id: 'user_a',
+      file_name: 'notes.txt', file_type: 'text/plain', file_size: 5,
+      fingerprint: 'fp_1', content_hash: 'hash_1'
+    });
+    expect(file).not.toHaveProperty('content_hash');
+    expect(await db.getSpaceFileContent('space_1', 'fp_1')).toEqual({ content_hash: 'hash_1', content: null });
+    expect(await db.getReferencedContentHashes(['hash_1', 'hash_2'])).toEqual(['hash_1']);
+    expect(await db.deleteSpaceFile('space_1', 'file_1')).toBe(true);
+    expect(await db.getReferencedContentHashes(['hash_1'])).toEqual([]);
+    expect(await db.getSpaceFiles('space_1')).toEqual([]);
+
+    const conversationId = await db.ensureDirectConversation('user_b', 'user_a');
+    expect(await db.ensureDirectConversation('user_a', 'user_b')).toBe(conversationId);
+    expect(await db.findDirectConversation('user_a', 'user_b')).toBe(conversationId);
+    const message = (id: string, content: string) => db.createDirectMessage({
+      message_id: id, conversation_id: conversationId, sender_id: 'user_a', recipient_id: 'user_b', content
+    });
+    await message('msg_1', 'hi');
+    await message('msg_2', 'again');
+    expect(await db.getUnreadCounts('user_b')).toEqual([
+      { conversation_id: conversationId, partner_id: 'user_a', unread_count: 2 }
+    ]);
+
+    const [summary] = await db.getRecentConversations('user_b');
+    expect(summary.partner.user_id).toBe('user_a');
+    expect(summary.last_message.message_id).toBe('msg_2');
+    expect(summary.unread_count).toBe(2);
+
+    expect(await db.advanceConversationMarker(conversationId, 'user_b', 'read', 'msg_1')).toBe(true);
+    expect(await db.advanceConversationMarker(conversationId, 'user_b', 'read', 'msg_1')).toBe(false);
+    expect((await db.getConversation(conversationId)).map(m => m.message_id)).toEqual(['msg_1', 'msg_2']);
+    expect((await db.getConversation(conversationId, { before: 'msg_2' })).map(m => m.message_id)).toEqual(['msg_1']);
+    expect((await db.getUnreadCounts('user_b'))[0].unread_count).toBe(1);
+  });
+
+  it('searches public records with ranking, sorting and paging', async () => {
+    await db.createUser(testUserData('quant'));
+    await db.createUser(testUserData('quantum_fan'));
+    await db.createUser(testUserData('other'));
+    await db.createFollow('other', 'quantum_fan');
+
+    const relevant = await db.searchUsers('name_quant', { limit: 1 });
+    expect(relevant.total).toBe(2);
+    expect(relevant.results.map(u => u.user_id)).toEqual(['quant']);
+    const popular = await db.searchUsers('quant', { sort_by: 'popular' });
+    expect(popular.results[0].user_id).toBe('quantum_fan');
+
+    await db.createSpace({ space_id: 'open', name: 'Quantum Lab', is_public: true, owner_id: 'quant' });
+    await db.createSpace({ space_id: 'hidden', name: 'Quantum Secrets', is_public: false, owner_id: 'quant' });
+    expect((await db.searchSpaces('quantum')).results.map(s => s.space_id)).toEqual(['open']);
+
+    const beacon = (id: string, metadata: Record<string, unknown>) => db.createBeacon({
+      beacon_id: id, beacon_type: 'post', author_id: 'quant', prime_indices: testPrimeIndices,
+      epoch: 1, fingerprint: Buffer.from('f'), signature: Buffer.from('s'), metadata
+    });
+    await beacon('b_public', { originalText: 'quantum algorithms rock' });
+    await beacon('b_private', { originalText: 'quantum algorithms secret', space_id: 'hidden' });
+    const posts = await db.searchBeacons('algorithms quantum', 'post');
+    expect(posts.results.map(b => b.beacon_id)).toEqual(['b_public']);
+    expect((await db.searchBeacons('100%', 'post')).total).toBe(0);
+  });
+
+  it('rolls back transactions and nested savepoints', async () => {
+    const boom = new Error('boom');
+    await expect(db.transaction(async tx => {
+      await tx.createUser(testUserData('user_a'));
+      throw boom;
+    })).rejects.toBe(boom);
+    expect(await db.getUserById('user_a')).toBeNull();
+
+    await db.transaction(async tx => {
+      await tx.createUser(testUserData('user_b'));
+      await tx.transaction(async inner => {
+        await inner.createUser(testUserData('user_c'));
+        throw new Error('inner');
+      }).catch(() => undefined);
+    });
+    expect(await db.getUserById('user_b')).not.toBeNull();
+    expect(await db.getUserById('user_c')).toBeNull();
+  });
+
+  it('reports a failed commit as a TransactionError and rolls back', async () => {
+    // Deferred foreign keys are only checked on COMMIT
+    await expect(db.transaction(async tx => {
+      await tx.query('PRAGMA defer_foreign_keys = ON');
+      await tx.createSpace({ space_id: 'orphan', name: 'Orphan', is_public: true, owner_id: 'nobody' });
+    })).rejects.toBeInstanceOf(TransactionError);
+    expect(await db.getSpaceById('orphan')).toBeNull();
+
+    await db.transaction(async tx => tx.createUser(testUserData('user_a')));
+    expect(await db.getUserById('user_a')).not.toBeNull();
+  });
+});
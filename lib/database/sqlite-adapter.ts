@@ -0,0 +1,2003 @@
+/**
+ * SQLite Database Adapter
+ * Local development and test backend - supports file paths and ':memory:'
+ */
+
+import sqlite3 from 'sqlite3';
+import { DatabaseAdapter, DEFAULT_SEARCH_LIMIT, SEARCH_TRENDING_WINDOW_MS, directConversationId } from './abstract-adapter.js';
+import { MigrationRunner } from './migration-runner.js';
+import { QuantumQueryEngine } from './quantum-queries.js';
+import {
+  DatabaseConfig, DatabaseError, TransactionError, PlatformRole,
+  User, CreateUserData, Beacon, CreateBeaconData, BeaconFilter,
+  Space, CreateSpaceData, QuantumPrimeIndices, QuantumResonanceQuery,
+  BeaconCluster, DatabaseStats, SpaceFile, CreateSpaceFileData, SpaceFileContent,
+  DirectMessage, CreateDirectMessageData, ConversationSummary, ConversationParticipant, ConversationMarker,
+  ConversationPageOptions, ConversationUnreadCount,
+  Session, CreateSessionData, PasswordResetToken, CreatePasswordResetTokenData,
+  SpaceMember, CreateSpaceMemberData, SpaceMemberStatus, SpaceInvite, CreateSpaceInviteData,
+  Comment, CreateCommentData,
+  AnalyticsEvent, CreateAnalyticsEventData, AnalyticsRollup, AnalyticsScope,
+  ContentReport, CreateContentReportData, ReportStatus, CreateModerationActionData,
+  UserActivityStats, SpaceActivityStats, Announcement, CreateAnnouncementData,
+  EncryptionKey, CreateEncryptionKeyData, SpaceKey, CreateSpaceKeyData,
+  SearchOptions, SearchPage
+} from './types.js';
+import type { AccountStanding, AnnouncementStatus, ReportTargetType } from '../../src/protocol/index.js';
+
+interface ExecuteResult {
+  changes: number;
+  lastID: number;
+}
+
+// Columns that may be written through the update* methods
+const USER_COLUMNS = [
+  'username', 'email', 'password_hash', 'salt',
+  'node_public_key', 'node_private_key_encrypted', 'master_phase_key_encrypted',
+  'pri_public_resonance', 'pri_private_resonance', 'pri_fingerprint', 'role',
+  'moderation_status', 'suspended_until'
+];
+const BEACON_COLUMNS = [
+  'beacon_type', 'author_id', 'prime_indices', 'epoch', 'fingerprint', 'signature', 'metadata', 'hidden_at'
+];
+const SPACE_COLUMNS = ['name', 'description', 'is_public', 'owner_id', 'metadata', 'hidden_at'];
+
+// File listings never load the stored content
+const SPACE_FILE_COLUMNS =
+  'file_id, space_id, uploader_id, file_name, file_type, file_size, fingerprint, created_at';
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+// Words of the query, escaped for use inside a LIKE pattern
+function toSearchTerms(query: string): string[] {
+  return (query.match(/[\p{L}\p{N}_]+/gu) ?? []).map(escapeLike);
+}
+
+function totalCount(rows: unknown[]): number {
+  return rows.length > 0 ? Number((rows[0] as Record<string, unknown>).total_count) : 0;
+}
+
+function trendingSince(): string {
+  return new Date(Date.now() - SEARCH_TRENDING_WINDOW_MS).toISOString();
+}
+
+export class SqliteAdapter extends DatabaseAdapter {
+  protected db: sqlite3.Database | null = null;
+  protected connected = false;
+  private transactionLock: Promise<void> = Promise.resolve();
+
+  constructor(protected config: DatabaseConfig) {
+    super();
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    const filename = this.config.connectionString || ':memory:';
+
+    try {
+      this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+        const db = new sqlite3.Database(filename, (err) => (err ? reject(err) : resolve(db)));
+      });
+
+      if (this.config.queryTimeout) {
+        this.db.configure('busyTimeout', this.config.queryTimeout);
+      }
+
+      await this.execute('PRAGMA foreign_keys = ON');
+      this.connected = true;
+      console.log(`Connected to SQLite (${filename})`);
+
+      if (this.config.autoMigrate !== false) {
+        await this.initializeSchema();
+      }
+    } catch (error) {
+      throw new DatabaseError(`Failed to connect to SQLite: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected || !this.db) return;
+
+    const db = this.db;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        db.close((err) => (err ? reject(err) : resolve()));
+      });
+      this.db = null;
+      this.connected = false;
+      console.log('Disconnected from SQLite');
+    } catch (error) {
+      console.error('Error disconnecting from SQLite:', error);
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async getStats(): Promise<DatabaseStats> {
+    const [users, beacons, spaces, files, pageCount, pageSize] = await Promise.all([
+      this.rawQuery<{ count: number }>('SELECT COUNT(*) AS count FROM users'),
+      this.rawQuery<{ count: number; resonance: number | null }>(
+        "SELECT COUNT(*) AS count, AVG(json_extract(prime_indices, '$.base_resonance')) AS resonance FROM beacons"
+      ),
+      this.rawQuery<{ count: number }>('SELECT COUNT(*) AS count FROM spaces'),
+      this.rawQuery<{ count: number; bytes: number | null }>(
+        'SELECT COUNT(*) AS count, SUM(file_size) AS bytes FROM space_files'
+      ),
+      this.rawQuery<{ page_count: number }>('PRAGMA page_count'),
+      this.rawQuery<{ page_size: number }>('PRAGMA page_size')
+    ]);
+
+    return {
+      total_users: users[0].count,
+      total_beacons: beacons[0].count,
+      total_spaces: spaces[0].count,
+      total_files: files[0].count,
+      file_storage_bytes: files[0].bytes ?? 0,
+      avg_resonance_strength: beacons[0].resonance ?? 0,
+      database_size_mb: (pageCount[0].page_count * pageSize[0].page_size) / 1024 / 1024,
+      connection_count: this.connected ? 1 : 0
+    };
+  }
+
+  /**
+   * SQLite has a single connection, so top-level transactions are serialized
+   * through a lock. Callers must use the `tx` adapter they are given; queries
+   * issued on the parent adapter while a transaction is open run inside it.
+   */
+  async transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> {
+    const previous = this.transactionLock;
+    let release!: () => void;
+    this.transactionLock = new Promise<void>(resolve => { release = resolve; });
+    await previous;
+
+    // Errors from the callback reach the caller unchanged; only BEGIN and
+    // COMMIT failures become a TransactionError
+    const control = async (statement: 'BEGIN IMMEDIATE' | 'COMMIT') => {
+      try {
+        await this.execute(statement);
+      } catch (error) {
+        throw new TransactionError(`${statement} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+
+    try {
+      await control('BEGIN IMMEDIATE');
+      let result: T;
+      try {
+        result = await callback(new SqliteTransactionAdapter(this.config, this.requireDb()));
+        await control('COMMIT');
+      } catch (error) {
+        // SQLite keeps the transaction open when COMMIT fails
+        await this.execute('ROLLBACK');
+        throw error;
+      }
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  // ============================================
+  // User Operations
+  // ============================================
+
+  async createUser(userData: CreateUserData): Promise<User> {
+    const query = `
+      INSERT INTO users (
+        user_id, username, email, password_hash, salt,
+        node_public_key, node_private_key_encrypted, master_phase_key_encrypted,
+        pri_public_resonance, pri_private_resonance, pri_fingerprint, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `;
+
+    const values = [
+      userData.user_id,
+      userData.username,
+      userData.email,
+      userData.password_hash,
+      userData.salt,
+      userData.node_public_key,
+      userData.node_private_key_encrypted,
+      userData.master_phase_key_encrypted,
+      JSON.stringify(userData.pri_public_resonance),
+      JSON.stringify(userData.pri_private_resonance),
+      userData.pri_fingerprint,
+      this.now()
+    ];
+
+    const result = await this.rawQuery(query, values);
+    return this.mapUserRow(result[0]);
+  }
+
+  async getUserById(userId: string): Promise<User | null> {
+    const result = await this.rawQuery('SELECT * FROM users WHERE user_id = ?', [userId]);
+    return result.length > 0 ? this.mapUserRow(result[0]) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const result = await this.rawQuery('SELECT * FROM users WHERE username = ?', [username]);
+    return result.length > 0 ? this.mapUserRow(result[0]) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const result = await this.rawQuery('SELECT * FROM users WHERE email = ?', [email]);
+    return result.length > 0 ? this.mapUserRow(result[0]) : null;
+  }
+
+  async updateUser(userId: string, updates: Partial<User>): Promise<User> {
+    const result = await this.updateRow('users', 'user_id', userId, USER_COLUMNS, updates);
+    if (!result) {
+      throw new DatabaseError(`User not found: ${userId}`);
+    }
+    return this.mapUserRow(result);
+  }
+
+  async deleteUser(userId: string): Promise<boolean> {
+    const result = await this.execute('DELETE FROM users WHERE user_id = ?', [userId]);
+    return result.changes > 0;
+  }
+
+  async listUsers(limit?: number, offset?: number): Promise<User[]> {
+    const { clause, params } = this.pagination(limit, offset);
+    const result = await this.rawQuery(`SELECT * FROM users ORDER BY created_at DESC${clause}`, params);
+    return result.map(row => this.mapUserRow(row));
+  }
+
+  // ============================================
+  // Beacon Operations
+  // ============================================
+
+  async createBeacon(beacon: CreateBeaconData): Promise<Beacon> {
+    const query = `
+      INSERT INTO beacons (
+        beacon_id, beacon_type, author_id, prime_indices,
+        epoch, fingerprint, signature, metadata, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `;
+
+    const values = [
+      beacon.beacon_id,
+      beacon.beacon_type,
+      beacon.author_id,
+      JSON.stringify(beacon.prime_indices),
+      beacon.epoch,
+      beacon.fingerprint,
+      beacon.signature,
+      beacon.metadata ? JSON.stringify(beacon.metadata) : null,
+      this.now()
+    ];
+
+    const result = await this.rawQuery(query, values);
+    return this.mapBeaconRow(result[0]);
+  }
+
+  async getBeaconById(beaconId: string): Promise<Beacon | null> {
+    const result = await this.rawQuery('SELECT * FROM beacons WHERE beacon_id = ?', [beaconId]);
+    return result.length > 0 ? this.mapBeaconRow(result[0]) : null;
+  }
+
+  async getBeaconsByUser(userId: string, type?: string, limit?: number): Promise<Beacon[]> {
+    return this.queryBeacons({ author_id: userId, beacon_type: type, limit });
+  }
+
+  async getBeaconsByType(type: string, limit?: number, offset?: number): Promise<Beacon[]> {
+    return this.queryBeacons({ beacon_type: type, limit, offset });
+  }
+
+  async queryBeacons(filter: BeaconFilter): Promise<Beacon[]> {
+    let query = 'SELECT * FROM beacons WHERE 1=1';
+    const params: unknown[] = [];
+
+    if (filter.beacon_type) {
+      query += ' AND beacon_type = ?';
+      params.push(filter.beacon_type);
+    }
+
+    if (filter.author_id) {
+      query += ' AND author_id = ?';
+      params.push(filter.author_id);
+    }
+
+    if (filter.space_id) {
+      query += " AND json_extract(metadata, '$.space_id') = ?";
+      params.push(filter.space_id);
+    }
+
+    if (filter.epoch_min) {
+      query += ' AND epoch >= ?';
+      params.push(filter.epoch_min);
+    }
+
+    if (filter.epoch_max) {
+      query += ' AND epoch <= ?';
+      params.push(filter.epoch_max);
+    }
+
+    if (!filter.include_hidden) {
+      query += ' AND hidden_at IS NULL';
+    }
+
+    // resonance_strength is not a stored column; fall back to recency
+    const orderBy = filter.order_by === 'epoch' ? 'epoch' : 'created_at';
+    const orderDirection = filter.order_direction === 'asc' ? 'ASC' : 'DESC';
+    query += ` ORDER BY ${orderBy} ${orderDirection}, beacon_id ${orderDirection}`;
+
+    const { clause, params: pageParams } = this.pagination(filter.limit, filter.offset);
+    query += clause;
+    params.push(...pageParams);
+
+    const result = await this.rawQuery(query, params);
+    return result.map(row => this.mapBeaconRow(row));
+  }
+
+  async updateBeacon(beaconId: string, updates: Partial<Beacon>): Promise<Beacon> {
+    const result = await this.updateRow('beacons', 'beacon_id', beaconId, BEACON_COLUMNS, updates);
+    if (!result) {
+      throw new DatabaseError(`Beacon not found: ${beaconId}`);
+    }
+    return this.mapBeaconRow(result);
+  }
+
+  async deleteBeacon(beaconId: string): Promise<boolean> {
+    const result = await this.execute('DELETE FROM beacons WHERE beacon_id = ?', [beaconId]);
+    return result.changes > 0;
+  }
+
+  async deletePostBeacon(beaconId: string): Promise<boolean> {
+    await this.execute('DELETE FROM likes WHERE post_beacon_id = ?', [beaconId]);
+    await this.execute('DELETE FROM comments WHERE post_beacon_id = ?', [beaconId]);
+    return this.deleteBeacon(beaconId);
+  }
+
+  // ============================================
+  // Space Operations
+  // ============================================
+
+  async createSpace(space: CreateSpaceData): Promise<Space> {
+    const query = `
+      INSERT INTO spaces (space_id, name, description, is_public, owner_id, metadata, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `;
+
+    const values = [
+      space.space_id,
+      space.name,
+      space.description ?? null,
+      space.is_public ? 1 : 0,
+      space.owner_id ?? null,
+      space.metadata ? JSON.stringify(space.metadata) : null,
+      this.now()
+    ];
+
+    const result = await this.rawQuery(query, values);
+    return this.mapSpaceRow(result[0]);
+  }
+
+  async getSpaceById(spaceId: string): Promise<Space | null> {
+    const result = await this.rawQuery('SELECT * FROM spaces WHERE space_id = ?', [spaceId]);
+    return result.length > 0 ? this.mapSpaceRow(result[0]) : null;
+  }
+
+  async getSpaceByName(name: string): Promise<Space | null> {
+    const result = await this.rawQuery('SELECT * FROM spaces WHERE name = ?', [name]);
+    return result.length > 0 ? this.mapSpaceRow(result[0]) : null;
+  }
+
+  async getPublicSpaces(limit?: number, offset?: number): Promise<Space[]> {
+    const { clause, params } = this.pagination(limit, offset);
+    const result = await this.rawQuery(
+      `SELECT * FROM spaces WHERE is_public = 1 AND hidden_at IS NULL ORDER BY created_at DESC${clause}`,
+      params
+    );
+    return result.map(row => this.mapSpaceRow(row));
+  }
+
+  async getSpacesByOwner(ownerId: string): Promise<Space[]> {
+    const result = await this.rawQuery(
+      'SELECT * FROM spaces WHERE owner_id = ? ORDER BY created_at DESC',
+      [ownerId]
+    );
+    return result.map(row => this.mapSpaceRow(row));
+  }
+
+  async listSpaces(limit?: number, offset?: number): Promise<Space[]> {
+    const { clause, params } = this.pagination(limit, offset);
+    const result = await this.rawQuery(`SELECT * FROM spaces ORDER BY created_at DESC${clause}`, params);
+    return result.map(row => this.mapSpaceRow(row));
+  }
+
+  async updateSpace(spaceId: string, updates: Partial<Space>): Promise<Space> {
+    const result = await this.updateRow('spaces', 'space_id', spaceId, SPACE_COLUMNS, updates);
+    if (!result) {
+      throw new DatabaseError(`Space not found: ${spaceId}`);
+    }
+    return this.mapSpaceRow(result);
+  }
+
+  async deleteSpace(spaceId: string): Promise<boolean> {
+    const result = await this.execute('DELETE FROM spaces WHERE space_id = ?', [spaceId]);
+    return result.changes > 0;
+  }
+
+  async deleteSpaceBeacons(spaceId: string): Promise<number> {
+    const inSpace = "SELECT beacon_id FROM beacons WHERE json_extract(metadata, '$.space_id') = ?";
+    await this.execute(`DELETE FROM likes WHERE post_beacon_id IN (${inSpace})`, [spaceId]);
+    await this.execute(`DELETE FROM comments WHERE post_beacon_id IN (${inSpace})`, [spaceId]);
+    const result = await this.execute("DELETE FROM beacons WHERE json_extract(metadata, '$.space_id') = ?", [spaceId]);
+    return result.changes;
+  }
+
+  async getAutoArchiveSpaces(): Promise<Space[]> {
+    const result = await this.rawQuery(
+      "SELECT * FROM spaces WHERE json_extract(metadata, '$.autoArchive') = 1 ORDER BY created_at"
+    );
+    return result.map(row => this.mapSpaceRow(row));
+  }
+
+  // ============================================
+  // Space Membership Operations
+  // ============================================
+
+  async addSpaceMember(member: CreateSpaceMemberData): Promise<SpaceMember | null> {
+    const result = await this.rawQuery(
+      `INSERT INTO space_members (space_id, user_id, role, status, joined_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (space_id, user_id) DO NOTHING
+       RETURNING *`,
+      [member.space_id, member.user_id, member.role, member.status, this.now()]
+    );
+    return result.length > 0 ? this.mapSpaceMemberRow(result[0]) : null;
+  }
+
+  async getSpaceMember(spaceId: string, userId: string): Promise<SpaceMember | null> {
+    const result = await this.rawQuery(
+      'SELECT * FROM space_members WHERE space_id = ? AND user_id = ?',
+      [spaceId, userId]
+    );
+    return result.length > 0 ? this.mapSpaceMemberRow(result[0]) : null;
+  }
+
+  async getSpaceMembers(spaceId: string, status?: SpaceMemberStatus): Promise<SpaceMember[]> {
+    const result = await this.rawQuery(
+      `SELECT * FROM space_members WHERE space_id = ?${status ? ' AND status = ?' : ''}
+       ORDER BY joined_at ASC`,
+      status ? [spaceId, status] : [spaceId]
+    );
+    return result.map(row => this.mapSpaceMemberRow(row));
+  }
+
+  async getUserMemberships(userId: string): Promise<SpaceMember[]> {
+    const result = await this.rawQuery(
+      'SELECT * FROM space_members WHERE user_id = ? ORDER BY joined_at ASC',
+      [userId]
+    );
+    return result.map(row => this.mapSpaceMemberRow(row));
+  }
+
+  async updateSpaceMember(
+    spaceId: string,
+    userId: string,
+    updates: Partial<Pick<SpaceMember, 'role' | 'status'>>
+  ): Promise<SpaceMember | null> {
+    const result = await this.rawQuery(
+      `UPDATE space_members SET role = COALESCE(?, role), status = COALESCE(?, status), updated_at = ?
+       WHERE space_id = ? AND user_id = ?
+       RETURNING *`,
+      [updates.role ?? null, updates.status ?? null, this.now(), spaceId, userId]
+    );
+    return result.length > 0 ? this.mapSpaceMemberRow(result[0]) : null;
+  }
+
+  async removeSpaceMember(spaceId: string, userId: string): Promise<boolean> {
+    const result = await this.execute(
+      'DELETE FROM space_members WHERE space_id = ? AND user_id = ?',
+      [spaceId, userId]
+    );
+    return result.changes > 0;
+  }
+
+  async getSpaceMemberCounts(spaceIds: string[]): Promise<Map<string, number>> {
+    if (spaceIds.length === 0) return new Map();
+
+    const result = await this.rawQuery<{ space_id: string; count: number }>(
+      `SELECT space_id, COUNT(*) AS count FROM space_members
+       WHERE status = 'active' AND space_id IN (${spaceIds.map(() => '?').join(', ')})
+       GROUP BY space_id`,
+      spaceIds
+    );
+    return new Map(result.map(row => [row.space_id, Number(row.count)]));
+  }
+
+  async createSpaceInvite(invite: CreateSpaceInviteData): Promise<SpaceInvite> {
+    const result = await this.rawQuery(
+      `INSERT INTO space_invites (invite_id, space_id, created_by, role, max_uses, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [
+        invite.invite_id, invite.space_id, invite.created_by, invite.role,
+        invite.max_uses ?? null, this.now(), invite.expires_at
+      ]
+    );
+    return this.mapSpaceInviteRow(result[0]);
+  }
+
+  async getSpaceInvite(inviteId: string): Promise<SpaceInvite | null> {
+    const result = await this.rawQuery('SELECT * FROM space_invites WHERE invite_id = ?', [inviteId]);
+    return result.length > 0 ? this.mapSpaceInviteRow(result[0]) : null;
+  }
+
+  async redeemSpaceInvite(inviteId: string): Promise<SpaceInvite | null> {
+    const result = await this.rawQuery(
+      `UPDATE space_invites SET uses = uses + 1
+       WHERE invite_id = ? AND expires_at > ? AND (max_uses IS NULL OR uses < max_uses)
+       RETURNING *`,
+      [inviteId, this.now()]
+    );
+    return result.length > 0 ? this.mapSpaceInviteRow(result[0]) : null;
+  }
+
+  // ============================================
+  // Quantum Resonance Operations
+  // ============================================
+
+  async calculateQuantumResonance(
+    primeIndices: QuantumPrimeIndices,
+    referencePoint: QuantumPrimeIndices
+  ): Promise<number> {
+    // No stored procedures in SQLite - same formula as the Neon client-side fallback
+    const baseResonance = (primeIndices.base_resonance + referencePoint.base_resonance) / 2;
+    const amplificationSync = Math.abs(primeIndices.amplification_factor - referencePoint.amplification_factor);
+    const phaseAlignment = 1 - Math.abs(primeIndices.phase_alignment - referencePoint.phase_alignment);
+    const entropyBalance = 1 - Math.abs(primeIndices.entropy_level - referencePoint.entropy_level);
+
+    const resonanceStrength = (
+      baseResonance * 0.4 +
+      (1 - amplificationSync) * 0.25 +
+      phaseAlignment * 0.2 +
+      entropyBalance * 0.15
+    );
+
+    return Math.max(0, Math.min(1, resonanceStrength));
+  }
+
+  async findResonantBeacons(query: QuantumResonanceQuery): Promise<Beacon[]> {
+    return new QuantumQueryEngine(this).findResonantBeacons(query);
+  }
+
+  async findQuantumClusters(spaceId: string, clusterThreshold?: number): Promise<BeaconCluster[]> {
+    return new QuantumQueryEngine(this).findQuantumClusters(spaceId, clusterThreshold);
+  }
+
+  async getResonanceMatrix(beaconIds: string[]): Promise<Map<string, Map<string, number>>> {
+    const matrix = new Map<string, Map<string, number>>();
+    if (beaconIds.length === 0) return matrix;
+
+    const placeholders = beaconIds.map(() => '?').join(', ');
+    const rows = await this.rawQuery(`SELECT * FROM beacons WHERE beacon_id IN (${placeholders})`, beaconIds);
+    const beacons = rows.map(row => this.mapBeaconRow(row));
+
+    for (const beacon of beacons) {
+      matrix.set(beacon.beacon_id, new Map());
+    }
+
+    // Calculate pairwise resonance
+    for (let i = 0; i < beacons.length; i++) {
+      for (let j = i + 1; j < beacons.length; j++) {
+        const resonance = await this.calculateQuantumResonance(
+          beacons[i].prime_indices,
+          beacons[j].prime_indices
+        );
+        matrix.get(beacons[i].beacon_id)!.set(beacons[j].beacon_id, resonance);
+        matrix.get(beacons[j].beacon_id)!.set(beacons[i].beacon_id, resonance);
+      }
+    }
+
+    return matrix;
+  }
+
+  async updateResonanceCache(userId: string, resonanceData: Record<string, number>): Promise<void> {
+    // Store in user metadata for now
+    await this.execute(
+      `UPDATE users
+       SET pri_private_resonance = json_set(pri_private_resonance, '$.resonance_cache', json(?))
+       WHERE user_id = ?`,
+      [JSON.stringify(resonanceData), userId]
+    );
+  }
+
+  // ============================================
+  // Social Operations
+  // ============================================
+
+  async createFollow(followerId: string, followingId: string): Promise<boolean> {
+    const result = await this.execute(
+      'INSERT OR IGNORE INTO follows (follower_id, following_id, created_at) VALUES (?, ?, ?)',
+      [followerId, followingId, this.now()]
+    );
+    return result.changes > 0;
+  }
+
+  async removeFollow(followerId: string, followingId: string): Promise<boolean> {
+    const result = await this.execute(
+      'DELETE FROM follows WHERE follower_id = ? AND following_id = ?',
+      [followerId, followingId]
+    );
+    return result.changes > 0;
+  }
+
+  async getFollowers(userId: string): Promise<User[]> {
+    const result = await this.rawQuery(
+      `SELECT u.* FROM users u
+       JOIN follows f ON u.user_id = f.follower_id
+       WHERE f.following_id = ?`,
+      [userId]
+    );
+    return result.map(row => this.mapUserRow(row));
+  }
+
+  async getFollowing(userId: string): Promise<User[]> {
+    const result = await this.rawQuery(
+      `SELECT u.* FROM users u
+       JOIN follows f ON u.user_id = f.following_id
+       WHERE f.follower_id = ?`,
+      [userId]
+    );
+    return result.map(row => this.mapUserRow(row));
+  }
+
+  async isFollowing(followerId: string, followingId: string): Promise<boolean> {
+    const result = await this.rawQuery(
+      'SELECT 1 FROM follows WHERE follower_id = ? AND following_id = ?',
+      [followerId, followingId]
+    );
+    return result.length > 0;
+  }
+
+  // ============================================
+  // Engagement Operations
+  // ============================================
+
+  async likeBeacon(userId: string, beaconId: string): Promise<boolean> {
+    const result = await this.execute(
+      'INSERT OR IGNORE INTO likes (post_beacon_id, user_id, created_at) VALUES (?, ?, ?)',
+      [beaconId, userId, this.now()]
+    );
+    return result.changes > 0;
+  }
+
+  async unlikeBeacon(userId: string, beaconId: string): Promise<boolean> {
+    const result = await this.execute(
+      'DELETE FROM likes WHERE post_beacon_id = ? AND user_id = ?',
+      [beaconId, userId]
+    );
+    return result.changes > 0;
+  }
+
+  async getBeaconLikes(beaconId: string): Promise<User[]> {
+    const result = await this.rawQuery(
+      `SELECT u.* FROM users u
+       JOIN likes l ON u.user_id = l.user_id
+       WHERE l.post_beacon_id = ?`,
+      [beaconId]
+    );
+    return result.map(row => this.mapUserRow(row));
+  }
+
+  async getUserLikes(userId: string): Promise<Beacon[]> {
+    const result = await this.rawQuery(
+      `SELECT b.* FROM beacons b
+       JOIN likes l ON b.beacon_id = l.post_beacon_id
+       WHERE l.user_id = ?`,
+      [userId]
+    );
+    return result.map(row => this.mapBeaconRow(row));
+  }
+
+  async getLikeCount(beaconId: string): Promise<number> {
+    const result = await this.rawQuery(
+      'SELECT COUNT(*) AS count FROM likes WHERE post_beacon_id = ?',
+      [beaconId]
+    );
+    return Number((result[0] as Record<string, unknown>).count);
+  }
+
+  async hasLiked(userId: string, beaconId: string): Promise<boolean> {
+    const result = await this.rawQuery(
+      'SELECT 1 FROM likes WHERE post_beacon_id = ? AND user_id = ?',
+      [beaconId, userId]
+    );
+    return result.length > 0;
+  }
+
+  async createComment(comment: CreateCommentData): Promise<Comment> {
+    const result = await this.rawQuery(
+      `INSERT INTO comments (comment_id, post_beacon_id, author_id, parent_comment_id, content, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [
+        comment.comment_id,
+        comment.post_beacon_id,
+        comment.author_id,
+        comment.parent_comment_id ?? null,
+        comment.content,
+        this.now()
+      ]
+    );
+    return this.mapCommentRow(result[0]);
+  }
+
+  async getCommentById(commentId: string): Promise<Comment | null> {
+    const result = await this.rawQuery('SELECT * FROM comments WHERE comment_id = ?', [commentId]);
+    return result.length > 0 ? this.mapCommentRow(result[0]) : null;
+  }
+
+  async getComments(postBeaconId: string, limit = 50, offset = 0): Promise<Comment[]> {
+    // Oldest first, so a parent always comes before its replies
+    const result = await this.rawQuery(
+      `SELECT * FROM comments
+       WHERE post_beacon_id = ?
+       ORDER BY created_at ASC, comment_id ASC
+       LIMIT ? OFFSET ?`,
+      [postBeaconId, limit, offset]
+    );
+    return result.map(row => this.mapCommentRow(row));
+  }
+
+  async updateComment(commentId: string, authorId: string, content: string): Promise<Comment | null> {
+    const result = await this.rawQuery(
+      `UPDATE comments SET content = ?, updated_at = ?
+       WHERE comment_id = ? AND author_id = ? AND deleted_at IS NULL
+       RETURNING *`,
+      [content, this.now(), commentId, authorId]
+    );
+    return result.length > 0 ? this.mapCommentRow(result[0]) : null;
+  }
+
+  async deleteComment(commentId: string, authorId: string): Promise<boolean> {
+    const result = await this.execute(
+      `UPDATE comments SET content = '', deleted_at = ?
+       WHERE comment_id = ? AND author_id = ? AND deleted_at IS NULL`,
+      [this.now(), commentId, authorId]
+    );
+    return result.changes > 0;
+  }
+
+  async getCommentCount(postBeaconId: string): Promise<number> {
+    const result = await this.rawQuery(
+      'SELECT COUNT(*) AS count FROM comments WHERE post_beacon_id = ? AND deleted_at IS NULL',
+      [postBeaconId]
+    );
+    return Number((result[0] as Record<string, unknown>).count);
+  }
+
+  // ============================================
+  // Space File Operations
+  // ============================================
+
+  async createSpaceFile(file: CreateSpaceFileData): Promise<SpaceFile> {
+    const result = await this.rawQuery(
+      `INSERT INTO space_files (
+        file_id, space_id, uploader_id, file_name, file_type,
+        file_size, fingerprint, content_hash, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING ${SPACE_FILE_COLUMNS}`,
+      [
+        file.file_id,
+        file.space_id,
+        file.uploader_id,
+        file.file_name,
+        file.file_type,
+        file.file_size,
+        file.fingerprint,
+        file.content_hash,
+        this.now()
+      ]
+    );
+    return this.mapSpaceFileRow(result[0]);
+  }
+
+  async getSpaceFiles(spaceId: string): Promise<SpaceFile[]> {
+    const result = await this.rawQuery(
+      `SELECT ${SPACE_FILE_COLUMNS} FROM space_files
+       WHERE space_id = ? AND archived_at IS NULL
+       ORDER BY created_at DESC, file_id`,
+      [spaceId]
+    );
+    return result.map(row => this.mapSpaceFileRow(row));
+  }
+
+  async getSpaceFileContent(spaceId: string, fingerprint: string): Promise<SpaceFileContent | null> {
+    const result = await this.rawQuery<SpaceFileContent>(
+      'SELECT content_hash, content FROM space_files WHERE space_id = ? AND fingerprint = ? LIMIT 1',
+      [spaceId, fingerprint]
+    );
+    return result.length > 0
+      ? { content_hash: result[0].content_hash ?? null, content: result[0].content ?? null }
+      : null;
+  }
+
+  async deleteSpaceFile(spaceId: string, fileId: string): Promise<boolean> {
+    const result = await this.execute(
+      'DELETE FROM space_files WHERE space_id = ? AND file_id = ?',
+      [spaceId, fileId]
+    );
+    return result.changes > 0;
+  }
+
+  async getReferencedContentHashes(contentHashes: string[]): Promise<string[]> {
+    if (contentHashes.length === 0) return [];
+
+    const result = await this.rawQuery<{ content_hash: string }>(
+      `SELECT DISTINCT content_hash FROM space_files
+       WHERE content_hash IN (${contentHashes.map(() => '?').join(', ')})`,
+      contentHashes
+    );
+    return result.map(row => row.content_hash);
+  }
+
+  async archiveSpaceFiles(spaceId: string, olderThan: string): Promise<number> {
+    const result = await this.execute(
+      'UPDATE space_files SET archived_at = ? WHERE space_id = ? AND archived_at IS NULL AND created_at < ?',
+      [this.now(), spaceId, olderThan]
+    );
+    return result.changes;
+  }
+
+  // ============================================
+  // Direct Message Operations
+  // ============================================
+
+  async ensureDirectConversation(userId: string, partnerId: string): Promise<string> {
+    const conversationId = directConversationId(userId, partnerId);
+    await this.execute(
+      'INSERT INTO conversations (conversation_id, created_at) VALUES (?, ?) ON CONFLICT DO NOTHING',
+      [conversationId, this.now()]
+    );
+    await this.execute(
+      `INSERT INTO conversation_participants (conversation_id, user_id) VALUES (?1, ?2), (?1, ?3)
+       ON CONFLICT DO NOTHING`,
+      [conversationId, userId, partnerId]
+    );
+    return conversationId;
+  }
+
+  async findDirectConversation(userId: string, partnerId: string): Promise<string | null> {
+    const result = await this.rawQuery<{ conversation_id: string }>(
+      'SELECT conversation_id FROM conversations WHERE conversation_id = ?',
+      [directConversationId(userId, partnerId)]
+    );
+    return result[0]?.conversation_id ?? null;
+  }
+
+  async getConversationParticipants(conversationId: string): Promise<ConversationParticipant[]> {
+    const result = await this.rawQuery(
+      'SELECT * FROM conversation_participants WHERE conversation_id = ?',
+      [conversationId]
+    );
+    return result.map(row => this.mapConversationParticipantRow(row));
+  }
+
+  async createDirectMessage(message: CreateDirectMessageData): Promise<DirectMessage> {
+    const result = await this.rawQuery(
+      `INSERT INTO direct_messages (message_id, conversation_id, sender_id, recipient_id, content, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [message.message_id, message.conversation_id, message.sender_id, message.recipient_id, message.content, this.now()]
+    );
+    const stored = this.mapDirectMessageRow(result[0]);
+    await this.execute(
+      'UPDATE conversations SET last_message_at = ? WHERE conversation_id = ?',
+      [stored.created_at, stored.conversation_id]
+    );
+    return stored;
+  }
+
+  async getDirectMessage(messageId: string): Promise<DirectMessage | null> {
+    const result = await this.rawQuery('SELECT * FROM direct_messages WHERE message_id = ?', [messageId]);
+    return result.length > 0 ? this.mapDirectMessageRow(result[0]) : null;
+  }
+
+  async getConversation(conversationId: string, options: ConversationPageOptions = {}): Promise<DirectMessage[]> {
+    const params: unknown[] = [conversationId];
+    let cursorClause = '';
+    if (options.before) {
+      cursorClause = 'AND (created_at, message_id) < (SELECT created_at, message_id FROM direct_messages WHERE message_id = ?)';
+      params.push(options.before);
+    }
+    params.push(options.limit ?? 50);
+
+    // Take the newest page, then return it oldest first for display
+    const result = await this.rawQuery(
+      `SELECT * FROM direct_messages
+       WHERE conversation_id = ? ${cursorClause}
+       ORDER BY created_at DESC, message_id DESC
+       LIMIT ?`,
+      params
+    );
+    return result.map(row => this.mapDirectMessageRow(row)).reverse();
+  }
+
+  async getRecentConversations(userId: string, limit = 20): Promise<ConversationSummary[]> {
+    const result = await this.rawQuery(
+      `SELECT m.*,
+         partner.user_id AS partner_id,
+         partner.last_read_message_id AS partner_last_read_message_id,
+         partner.last_read_at AS partner_last_read_at,
+         partner.last_delivered_message_id AS partner_last_delivered_message_id,
+         partner.last_delivered_at AS partner_last_delivered_at,
+         (SELECT COUNT(*) FROM direct_messages u
+          WHERE u.conversation_id = me.conversation_id AND u.sender_id <> ?1
+            AND (me.last_read_at IS NULL OR (u.created_at, u.message_id) > (me.last_read_at, me.last_read_message_id))) AS unread_count
+       FROM conversation_participants me
+       JOIN conversations c ON c.conversation_id = me.conversation_id
+       JOIN conversation_participants partner
+         ON partner.conversation_id = me.conversation_id AND partner.user_id <> me.user_id
+       JOIN direct_messages m ON m.message_id = (
+         SELECT message_id FROM direct_messages
+         WHERE conversation_id = me.conversation_id
+         ORDER BY created_at DESC, message_id DESC
+         LIMIT 1
+       )
+       WHERE me.user_id = ?1
+       ORDER BY c.last_message_at DESC
+       LIMIT ?2`,
+      [userId, limit]
+    );
+    return result.map(row => {
+      const r = row as Record<string, unknown>;
+      return {
+        conversation_id: r.conversation_id as string,
+        partner: this.mapConversationParticipantRow({
+          conversation_id: r.conversation_id,
+          user_id: r.partner_id,
+          last_read_message_id: r.partner_last_read_message_id,
+          last_read_at: r.partner_last_read_at,
+          last_delivered_message_id: r.partner_last_delivered_message_id,
+          last_delivered_at: r.partner_last_delivered_at
+        }),
+        last_message: this.mapDirectMessageRow(row),
+        unread_count: Number(r.unread_count)
+      };
+    });
+  }
+
+  async advanceConversationMarker(
+    conversationId: string,
+    userId: string,
+    marker: ConversationMarker,
+    messageId: string
+  ): Promise<boolean> {
+    const column = marker === 'read' ? 'last_read' : 'last_delivered';
+    const result = await this.execute(
+      `UPDATE conversation_participants SET ${column}_at = m.created_at, ${column}_message_id = m.message_id
+       FROM direct_messages m
+       WHERE m.message_id = ?3 AND m.conversation_id = conversation_participants.conversation_id
+         AND conversation_participants.conversation_id = ?1 AND conversation_participants.user_id = ?2
+         AND (conversation_participants.${column}_at IS NULL
+           OR (conversation_participants.${column}_at, conversation_participants.${column}_message_id)
+             < (m.created_at, m.message_id))`,
+      [conversationId, userId, messageId]
+    );
+    return result.changes > 0;
+  }
+
+  async getUnreadCounts(userId: string): Promise<ConversationUnreadCount[]> {
+    const result = await this.rawQuery<{ conversation_id: string; partner_id: string; unread_count: number }>(
+      `SELECT me.conversation_id, partner.user_id AS partner_id, COUNT(*) AS unread_count
+       FROM conversation_participants me
+       JOIN conversation_participants partner
+         ON partner.conversation_id = me.conversation_id AND partner.user_id <> me.user_id
+       JOIN direct_messages m
+         ON m.conversation_id = me.conversation_id AND m.sender_id <> me.user_id
+         AND (me.last_read_at IS NULL OR (m.created_at, m.message_id) > (me.last_read_at, me.last_read_message_id))
+       WHERE me.user_id = ?
+       GROUP BY me.conversation_id, partner.user_id`,
+      [userId]
+    );
+    return result.map(r => ({ ...r, unread_count: Number(r.unread_count) }));
+  }
+
+  async getContactUserIds(userId: string): Promise<string[]> {
+    const result = await this.rawQuery<{ user_id: string }>(
+      `SELECT partner.user_id
+       FROM conversation_participants me
+       JOIN conversation_participants partner
+         ON partner.conversation_id = me.conversation_id AND partner.user_id <> me.user_id
+       WHERE me.user_id = ?1
+       UNION
+       SELECT other.user_id
+       FROM space_members me
+       JOIN space_members other
+         ON other.space_id = me.space_id AND other.user_id <> me.user_id AND other.status = 'active'
+       WHERE me.user_id = ?1 AND me.status = 'active'`,
+      [userId]
+    );
+    return result.map(r => r.user_id);
+  }
+
+  // ============================================
+  // Session Operations
+  // ============================================
+
+  async createSession(session: CreateSessionData): Promise<Session> {
+    const result = await this.rawQuery(
+      `INSERT INTO sessions (session_id, user_id, created_at, expires_at)
+       VALUES (?, ?, ?, ?)
+       RETURNING *`,
+      [session.session_id, session.user_id, this.now(), session.expires_at]
+    );
+    return this.mapSessionRow(result[0]);
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const result = await this.rawQuery('SELECT * FROM sessions WHERE session_id = ?', [sessionId]);
+    return result.length > 0 ? this.mapSessionRow(result[0]) : null;
+  }
+
+  async revokeSession(sessionId: string): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE sessions SET revoked_at = ? WHERE session_id = ? AND revoked_at IS NULL',
+      [this.now(), sessionId]
+    );
+    return result.changes > 0;
+  }
+
+  async shortenSession(sessionId: string, expiresAt: string): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE sessions SET expires_at = ? WHERE session_id = ? AND revoked_at IS NULL AND expires_at > ?',
+      [expiresAt, sessionId, expiresAt]
+    );
+    return result.changes > 0;
+  }
+
+  async revokeUserSessions(userId: string): Promise<number> {
+    const result = await this.execute(
+      'UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+      [this.now(), userId]
+    );
+    return result.changes;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const result = await this.execute(
+      'DELETE FROM sessions WHERE expires_at <= ? OR revoked_at IS NOT NULL',
+      [this.now()]
+    );
+    return result.changes;
+  }
+
+  // ============================================
+  // Password Reset Operations
+  // ============================================
+
+  async createPasswordResetToken(token: CreatePasswordResetTokenData): Promise<PasswordResetToken> {
+    const result = await this.rawQuery(
+      `INSERT INTO password_reset_tokens (token_id, user_id, created_at, expires_at)
+       VALUES (?, ?, ?, ?)
+       RETURNING *`,
+      [token.token_id, token.user_id, this.now(), token.expires_at]
+    );
+    return this.mapPasswordResetTokenRow(result[0]);
+  }
+
+  async consumePasswordResetToken(tokenId: string): Promise<PasswordResetToken | null> {
+    const now = this.now();
+    const result = await this.rawQuery(
+      `UPDATE password_reset_tokens SET used_at = ?
+       WHERE token_id = ? AND used_at IS NULL AND expires_at > ?
+       RETURNING *`,
+      [now, tokenId, now]
+    );
+    if (result.length === 0) {
+      return null;
+    }
+
+    const token = this.mapPasswordResetTokenRow(result[0]);
+    await this.execute(
+      'UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL',
+      [now, token.user_id]
+    );
+    return token;
+  }
+
+  async deleteExpiredPasswordResetTokens(): Promise<number> {
+    const result = await this.execute(
+      'DELETE FROM password_reset_tokens WHERE expires_at <= ? OR used_at IS NOT NULL',
+      [this.now()]
+    );
+    return result.changes;
+  }
+
+  // ============================================
+  // Analytics Operations
+  // ============================================
+
+  async recordAnalyticsEvent(event: CreateAnalyticsEventData): Promise<AnalyticsEvent> {
+    const now = this.now();
+    const result = await this.rawQuery(
+      `INSERT INTO analytics_events (event_id, event_type, user_id, space_id, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       RETURNING *`,
+      [event.event_id, event.event_type, event.user_id, event.space_id ?? null, now]
+    );
+
+    const scopes: [AnalyticsScope, string][] = [['user', event.user_id]];
+    if (event.space_id) {
+      scopes.push(['space', event.space_id]);
+    }
+    for (const [scope, scopeId] of scopes) {
+      await this.execute(
+        `INSERT INTO analytics_daily (day, scope, scope_id, event_type, count)
+         VALUES (?, ?, ?, ?, 1)
+         ON CONFLICT (scope, scope_id, day, event_type) DO UPDATE SET count = count + 1`,
+        [now.slice(0, 10), scope, scopeId, event.event_type]
+      );
+    }
+    return this.mapAnalyticsEventRow(result[0]);
+  }
+
+  async getAnalyticsRollups(
+    scope: AnalyticsScope,
+    scopeIds: string[],
+    fromDay: string,
+    toDay: string
+  ): Promise<AnalyticsRollup[]> {
+    if (scopeIds.length === 0) return [];
+
+    const result = await this.rawQuery<AnalyticsRollup>(
+      `SELECT day, scope, scope_id, event_type, count FROM analytics_daily
+       WHERE scope = ? AND scope_id IN (${scopeIds.map(() => '?').join(', ')}) AND day >= ? AND day <= ?
+       ORDER BY day, scope_id, event_type`,
+      [scope, ...scopeIds, fromDay, toDay]
+    );
+    return result.map(row => ({ ...row, count: Number(row.count) }));
+  }
+
+  async getRecentAnalyticsEvents(spaceIds: string[], limit: number): Promise<AnalyticsEvent[]> {
+    if (spaceIds.length === 0) return [];
+
+    const result = await this.rawQuery(
+      `SELECT * FROM analytics_events
+       WHERE space_id IN (${spaceIds.map(() => '?').join(', ')})
+       ORDER BY created_at DESC, event_id DESC
+       LIMIT ?`,
+      [...spaceIds, limit]
+    );
+    return result.map(row => this.mapAnalyticsEventRow(row));
+  }
+
+  async countAnalyticsUsers(spaceIds: string[], since: string): Promise<number> {
+    if (spaceIds.length === 0) return 0;
+
+    const result = await this.rawQuery<{ count: number }>(
+      `SELECT COUNT(DISTINCT user_id) AS count FROM analytics_events
+       WHERE space_id IN (${spaceIds.map(() => '?').join(', ')}) AND created_at >= ?`,
+      [...spaceIds, since]
+    );
+    return Number(result[0].count);
+  }
+
+  // ============================================
+  // Moderation Operations
+  // ============================================
+
+  async createContentReport(report: CreateContentReportData): Promise<ContentReport | null> {
+    const result = await this.rawQuery(
+      `INSERT INTO content_reports (report_id, target_type, target_id, reporter_id, reason, details, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [
+        report.report_id, report.target_type, report.target_id, report.reporter_id,
+        report.reason, report.details ?? null, this.now()
+      ]
+    );
+    return result.length > 0 ? this.mapContentReportRow(result[0]) : null;
+  }
+
+  async getContentReport(reportId: string): Promise<ContentReport | null> {
+    const result = await this.rawQuery('SELECT * FROM content_reports WHERE report_id = ?', [reportId]);
+    return result.length > 0 ? this.mapContentReportRow(result[0]) : null;
+  }
+
+  async getPendingReports(limit?: number): Promise<ContentReport[]> {
+    const { clause, params } = this.pagination(limit);
+    const result = await this.rawQuery(
+      `SELECT * FROM content_reports WHERE status = 'pending' ORDER BY created_at, report_id${clause}`,
+      params
+    );
+    return result.map(row => this.mapContentReportRow(row));
+  }
+
+  async resolveReports(
+    targetType: ReportTargetType,
+    targetId: string,
+    status: Exclude<ReportStatus, 'pending'>,
+    resolution: string,
+    resolvedBy: string
+  ): Promise<number> {
+    const result = await this.execute(
+      `UPDATE content_reports SET status = ?, resolution = ?, resolved_by = ?, resolved_at = ?
+       WHERE target_type = ? AND target_id = ? AND status = 'pending'`,
+      [status, resolution, resolvedBy, this.now(), targetType, targetId]
+    );
+    return result.changes;
+  }
+
+  async recordModerationAction(action: CreateModerationActionData): Promise<void> {
+    await this.execute(
+      `INSERT INTO moderation_actions (action_id, target_type, target_id, action, moderator_id, report_id, note, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        action.action_id, action.target_type, action.target_id, action.action,
+        action.moderator_id, action.report_id ?? null, action.note ?? null, this.now()
+      ]
+    );
+  }
+
+  async getUserActivityStats(userIds: string[]): Promise<Map<string, UserActivityStats>> {
+    const stats = new Map<string, UserActivityStats>(
+      userIds.map(userId => [userId, { post_count: 0, follower_count: 0, pending_reports: 0 }])
+    );
+    if (userIds.length === 0) return stats;
+
+    const result = await this.rawQuery<Record<string, unknown>>(
+      `SELECT u.user_id,
+         (SELECT COUNT(*) FROM beacons b WHERE b.author_id = u.user_id AND b.beacon_type = 'post') AS post_count,
+         (SELECT COUNT(*) FROM follows f WHERE f.following_id = u.user_id) AS follower_count,
+         (SELECT COUNT(*) FROM content_reports r WHERE r.status = 'pending' AND (
+           (r.target_type = 'user' AND r.target_id = u.user_id)
+           OR (r.target_type = 'post' AND r.target_id IN (SELECT b.beacon_id FROM beacons b WHERE b.author_id = u.user_id))
+         )) AS pending_reports,
+         (SELECT MAX(e.created_at) FROM analytics_events e WHERE e.user_id = u.user_id) AS last_active_at
+       FROM users u
+       WHERE u.user_id IN (${userIds.map(() => '?').join(', ')})`,
+      userIds
+    );
+    for (const row of result) {
+      stats.set(row.user_id as string, {
+        post_count: Number(row.post_count),
+        follower_count: Number(row.follower_count),
+        pending_reports: Number(row.pending_reports),
+        last_active_at: (row.last_active_at as string | null) ?? undefined
+      });
+    }
+    return stats;
+  }
+
+  async getSpaceActivityStats(spaceIds: string[]): Promise<Map<string, SpaceActivityStats>> {
+    const stats = new Map<string, SpaceActivityStats>(
+      spaceIds.map(spaceId => [spaceId, { post_count: 0, pending_reports: 0 }])
+    );
+    if (spaceIds.length === 0) return stats;
+
+    const placeholders = spaceIds.map(() => '?').join(', ');
+    const posts = await this.rawQuery<{ space_id: string; count: number }>(
+      `SELECT json_extract(metadata, '$.space_id') AS space_id, COUNT(*) AS count FROM beacons
+       WHERE beacon_type = 'post' AND json_extract(metadata, '$.space_id') IN (${placeholders})
+       GROUP BY json_extract(metadata, '$.space_id')`,
+      spaceIds
+    );
+    for (const row of posts) {
+      stats.get(row.space_id)!.post_count = Number(row.count);
+    }
+
+    const reports = await this.rawQuery<{ target_id: string; count: number }>(
+      `SELECT target_id, COUNT(*) AS count FROM content_reports
+       WHERE target_type = 'space' AND status = 'pending' AND target_id IN (${placeholders})
+       GROUP BY target_id`,
+      spaceIds
+    );
+    for (const row of reports) {
+      stats.get(row.target_id)!.pending_reports = Number(row.count);
+    }
+    return stats;
+  }
+
+  // ============================================
+  // Announcement Operations
+  // ============================================
+
+  async createAnnouncement(announcement: CreateAnnouncementData): Promise<Announcement> {
+    const result = await this.rawQuery(
+      `INSERT INTO announcements (announcement_id, title, content, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       RETURNING *`,
+      [announcement.announcement_id, announcement.title, announcement.content, announcement.created_by, this.now()]
+    );
+    return this.mapAnnouncementRow(result[0]);
+  }
+
+  async getAnnouncement(announcementId: string): Promise<Announcement | null> {
+    const result = await this.rawQuery('SELECT * FROM announcements WHERE announcement_id = ?', [announcementId]);
+    return result.length > 0 ? this.mapAnnouncementRow(result[0]) : null;
+  }
+
+  async listAnnouncements(status?: AnnouncementStatus): Promise<Announcement[]> {
+    const result = status
+      ? await this.rawQuery(
+        'SELECT * FROM announcements WHERE status = ? ORDER BY created_at DESC, announcement_id DESC',
+        [status]
+      )
+      : await this.rawQuery('SELECT * FROM announcements ORDER BY created_at DESC, announcement_id DESC');
+    return result.map(row => this.mapAnnouncementRow(row));
+  }
+
+  async updateAnnouncementStatus(
+    announcementId: string,
+    status: AnnouncementStatus
+  ): Promise<Announcement | null> {
+    const now = this.now();
+    const result = await this.rawQuery(
+      `UPDATE announcements
+       SET status = ?, published_at = CASE WHEN ? = 'active' THEN COALESCE(published_at, ?) ELSE published_at END
+       WHERE announcement_id = ?
+       RETURNING *`,
+      [status, status, now, announcementId]
+    );
+    return result.length > 0 ? this.mapAnnouncementRow(result[0]) : null;
+  }
+
+  async getUndismissedAnnouncements(userId: string): Promise<Announcement[]> {
+    const result = await this.rawQuery(
+      `SELECT a.* FROM announcements a
+       WHERE a.status = 'active' AND NOT EXISTS (
+         SELECT 1 FROM announcement_views v
+         WHERE v.announcement_id = a.announcement_id AND v.user_id = ? AND v.dismissed_at IS NOT NULL
+       )
+       ORDER BY a.published_at DESC, a.announcement_id DESC`,
+      [userId]
+    );
+    return result.map(row => this.mapAnnouncementRow(row));
+  }
+
+  async recordAnnouncementViews(userId: string, announcementIds: string[]): Promise<void> {
+    const now = this.now();
+    for (const announcementId of announcementIds) {
+      await this.execute(
+        `INSERT INTO announcement_views (announcement_id, user_id, viewed_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (announcement_id, user_id) DO NOTHING`,
+        [announcementId, userId, now]
+      );
+    }
+  }
+
+  async dismissAnnouncement(announcementId: string, userId: string): Promise<boolean> {
+    const now = this.now();
+    const result = await this.execute(
+      `INSERT INTO announcement_views (announcement_id, user_id, viewed_at, dismissed_at)
+       SELECT announcement_id, ?, ?, ? FROM announcements WHERE announcement_id = ?
+       ON CONFLICT (announcement_id, user_id) DO UPDATE SET dismissed_at = excluded.dismissed_at`,
+      [userId, now, now, announcementId]
+    );
+    return result.changes > 0;
+  }
+
+  async getAnnouncementViewCounts(announcementIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map(announcementIds.map(id => [id, 0]));
+    if (announcementIds.length === 0) return counts;
+
+    const result = await this.rawQuery<{ announcement_id: string; count: number }>(
+      `SELECT announcement_id, COUNT(*) AS count FROM announcement_views
+       WHERE announcement_id IN (${announcementIds.map(() => '?').join(', ')})
+       GROUP BY announcement_id`,
+      announcementIds
+    );
+    for (const row of result) {
+      counts.set(row.announcement_id, Number(row.count));
+    }
+    return counts;
+  }
+
+  // ============================================
+  // Encryption Key Operations
+  // ============================================
+
+  async addEncryptionKey(key: CreateEncryptionKeyData): Promise<EncryptionKey> {
+    await this.execute(
+      `INSERT INTO encryption_keys (key_id, user_id, public_key, pri_fingerprint, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (key_id) DO NOTHING`,
+      [key.key_id, key.user_id, key.public_key, key.pri_fingerprint, this.now()]
+    );
+    const result = await this.rawQuery('SELECT * FROM encryption_keys WHERE key_id = ?', [key.key_id]);
+    return this.mapEncryptionKeyRow(result[0]);
+  }
+
+  async getEncryptionKeys(userIds: string[]): Promise<EncryptionKey[]> {
+    if (userIds.length === 0) return [];
+
+    const result = await this.rawQuery(
+      `SELECT k.* FROM encryption_keys k
+       JOIN users u ON u.user_id = k.user_id AND u.pri_fingerprint = k.pri_fingerprint
+       WHERE k.user_id IN (${userIds.map(() => '?').join(', ')})
+       ORDER BY k.created_at, k.key_id`,
+      userIds
+    );
+    return result.map(row => this.mapEncryptionKeyRow(row));
+  }
+
+  async getLatestSpaceKeyVersion(spaceId: string): Promise<number> {
+    const result = await this.rawQuery<{ version: number | null }>(
+      'SELECT MAX(key_version) AS version FROM space_keys WHERE space_id = ?',
+      [spaceId]
+    );
+    return Number(result[0]?.version ?? 0);
+  }
+
+  async getSpaceKeys(spaceId: string, filter: { userId?: string; keyVersion?: number } = {}): Promise<SpaceKey[]> {
+    const conditions = ['space_id = ?'];
+    const params: unknown[] = [spaceId];
+    if (filter.userId !== undefined) {
+      conditions.push('user_id = ?');
+      params.push(filter.userId);
+    }
+    if (filter.keyVersion !== undefined) {
+      conditions.push('key_version = ?');
+      params.push(filter.keyVersion);
+    }
+    const result = await this.rawQuery(
+      `SELECT * FROM space_keys WHERE ${conditions.join(' AND ')} ORDER BY key_version DESC, key_id`,
+      params
+    );
+    return result.map(row => this.mapSpaceKeyRow(row));
+  }
+
+  async addSpaceKeys(keys: CreateSpaceKeyData[]): Promise<number> {
+    const now = this.now();
+    let added = 0;
+    for (const key of keys) {
+      const result = await this.execute(
+        `INSERT INTO space_keys (space_id, key_version, key_id, user_id, wrapped_key, created_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (space_id, key_version, key_id) DO NOTHING`,
+        [key.space_id, key.key_version, key.key_id, key.user_id, key.wrapped_key, key.created_by, now]
+      );
+      added += result.changes;
+    }
+    return added;
+  }
+
+  // ============================================
+  // Search Operations
+  // ============================================
+
+  // SQLite LIKE is case-insensitive for ASCII, matching Neon's ILIKE
+  // SQLite has no tsvector, so every word must appear somewhere in the text and
+  // relevance prefers exact, then prefix, then substring matches
+
+  async searchUsers(query: string, options: SearchOptions = {}): Promise<SearchPage<User>> {
+    const terms = toSearchTerms(query);
+    if (terms.length === 0) return { results: [], total: 0 };
+
+    const params: unknown[] = [];
+    let where = terms.map(term => {
+      params.push(`%${term}%`);
+      return "u.username LIKE ? ESCAPE '\\'";
+    }).join(' AND ');
+    if (!options.include_banned) {
+      where += " AND u.moderation_status <> 'banned'";
+    }
+
+    const orderBy = {
+      relevance: () => {
+        params.push(query.trim(), `${escapeLike(query.trim())}%`);
+        return "CASE WHEN LOWER(u.username) = LOWER(?) THEN 0 WHEN u.username LIKE ? ESCAPE '\\' THEN 1 ELSE 2 END, u.username";
+      },
+      recent: () => 'u.created_at DESC',
+      popular: () => '(SELECT COUNT(*) FROM follows f WHERE f.following_id = u.user_id) DESC, u.username',
+      trending: () => {
+        params.push(trendingSince());
+        return '(SELECT COUNT(*) FROM follows f WHERE f.following_id = u.user_id AND f.created_at >= ?) DESC, u.username';
+      }
+    }[options.sort_by ?? 'relevance']();
+
+    params.push(options.limit ?? DEFAULT_SEARCH_LIMIT, options.offset ?? 0);
+    const result = await this.rawQuery(
+      `SELECT u.*, COUNT(*) OVER() AS total_count FROM users u
+       WHERE ${where}
+       ORDER BY ${orderBy}
+       LIMIT ? OFFSET ?`,
+      params
+    );
+    return { results: result.map(row => this.mapUserRow(row)), total: totalCount(result) };
+  }
+
+  async searchSpaces(query: string, options: SearchOptions = {}): Promise<SearchPage<Space>> {
+    const terms = toSearchTerms(query);
+    if (terms.length === 0) return { results: [], total: 0 };
+
+    const params: unknown[] = [];
+    const where = terms.map(term => {
+      params.push(`%${term}%`);
+      return "(s.name || ' ' || COALESCE(s.description, '')) LIKE ? ESCAPE '\\'";
+    }).join(' AND ');
+    const spacePosts = "SELECT COUNT(*) FROM beacons b WHERE json_extract(b.metadata, '$.space_id') = s.space_id";
+
+    const orderBy = {
+      relevance: () => {
+        params.push(query.trim(), `${escapeLike(query.trim())}%`);
+        return "CASE WHEN LOWER(s.name) = LOWER(?) THEN 0 WHEN s.name LIKE ? ESCAPE '\\' THEN 1 ELSE 2 END, s.name";
+      },
+      recent: () => 's.created_at DESC',
+      popular: () => `(${spacePosts}) DESC, s.name`,
+      trending: () => {
+        params.push(trendingSince());
+        return `(${spacePosts} AND b.created_at >= ?) DESC, s.name`;
+      }
+    }[options.sort_by ?? 'relevance']();
+
+    params.push(options.limit ?? DEFAULT_SEARCH_LIMIT, options.offset ?? 0);
+    const result = await this.rawQuery(
+      `SELECT s.*, COUNT(*) OVER() AS total_count FROM spaces s
+       WHERE s.is_public = 1 AND s.hidden_at IS NULL AND ${where}
+       ORDER BY ${orderBy}
+       LIMIT ? OFFSET ?`,
+      params
+    );
+    return { results: result.map(row => this.mapSpaceRow(row)), total: totalCount(result) };
+  }
+
+  async searchBeacons(query: string, type?: string, options: SearchOptions = {}): Promise<SearchPage<Beacon>> {
+    const terms = toSearchTerms(query);
+    if (terms.length === 0) return { results: [], total: 0 };
+
+    const params: unknown[] = [];
+    let where = terms.map(term => {
+      params.push(`%${term}%`);
+      return "COALESCE(json_extract(b.metadata, '$.originalText'), '') LIKE ? ESCAPE '\\'";
+    }).join(' AND ');
+    where += ` AND b.hidden_at IS NULL AND (
+      json_extract(b.metadata, '$.space_id') IS NULL
+      OR EXISTS (
+        SELECT 1 FROM spaces s
+        WHERE s.space_id = json_extract(b.metadata, '$.space_id') AND s.is_public = 1 AND s.hidden_at IS NULL
+      )
+    )`;
+
+    if (type) {
+      where += ' AND b.beacon_type = ?';
+      params.push(type);
+    }
+
+    const beaconLikes = 'SELECT COUNT(*) FROM likes l WHERE l.post_beacon_id = b.beacon_id';
+    const orderBy = {
+      relevance: () => {
+        params.push(`${escapeLike(query.trim())}%`);
+        return "CASE WHEN json_extract(b.metadata, '$.originalText') LIKE ? ESCAPE '\\' THEN 0 ELSE 1 END, b.created_at DESC";
+      },
+      recent: () => 'b.created_at DESC',
+      popular: () => `(${beaconLikes}) DESC, b.created_at DESC`,
+      trending: () => {
+        params.push(trendingSince());
+        return `(${beaconLikes} AND l.created_at >= ?) DESC, b.created_at DESC`;
+      }
+    }[options.sort_by ?? 'relevance']();
+
+    params.push(options.limit ?? DEFAULT_SEARCH_LIMIT, options.offset ?? 0);
+    const result = await this.rawQuery(
+      `SELECT b.*, COUNT(*) OVER() AS total_count FROM beacons b
+       WHERE ${where}
+       ORDER BY ${orderBy}
+       LIMIT ? OFFSET ?`,
+      params
+    );
+    return { results: result.map(row => this.mapBeaconRow(row)), total: totalCount(result) };
+  }
+
+  // ============================================
+  // Database Management Methods
+  // ============================================
+
+  /**
+   * Server-level queries are written for PostgreSQL, so `$1`-style
+   * placeholders are rewritten to SQLite's numbered `?1` form.
+   */
+  async query<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.rawQuery<T>(sql.replace(/\$(\d+)/g, '?$1'), params);
+  }
+
+  async clearAllData(): Promise<void> {
+    console.log('🧹 Clearing all data from SQLite database...');
+
+    const tables = [
+      'announcement_views',
+      'announcements',
+      'moderation_actions',
+      'content_reports',
+      'notifications',
+      'analytics_daily',
+      'analytics_events',
+      'password_reset_tokens',
+      'sessions',
+      'direct_messages',
+      'conversation_participants',
+      'conversations',
+      'space_invites',
+      'space_members',
+      'space_files',
+      'quaternionic_messages',
+      'comments',
+      'likes',
+      'follows',
+      'beacons',
+      'spaces',
+      'users'
+    ];
+
+    for (const table of tables) {
+      await this.execute(`DELETE FROM ${table}`);
+      console.log(`  ✅ Deleted from ${table}`);
+    }
+    console.log('✅ All data cleared successfully');
+  }
+
+  // ============================================
+  // Utility Methods
+  // ============================================
+
+  protected requireDb(): sqlite3.Database {
+    if (!this.db) {
+      throw new DatabaseError('SQLite database is not connected');
+    }
+    return this.db;
+  }
+
+  protected async rawQuery<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const db = this.requireDb();
+    try {
+      return await new Promise<T[]>((resolve, reject) => {
+        db.all(sql, params.map(value => this.toSqlValue(value)), (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows as T[]);
+        });
+      });
+    } catch (error) {
+      console.error('Database query error:', error);
+      throw new DatabaseError(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  protected async execute(sql: string, params: unknown[] = []): Promise<ExecuteResult> {
+    const db = this.requireDb();
+    try {
+      return await new Promise<ExecuteResult>((resolve, reject) => {
+        db.run(sql, params.map(value => this.toSqlValue(value)), function (err) {
+          if (err) reject(err);
+          else resolve({ changes: this.changes, lastID: this.lastID });
+        });
+      });
+    } catch (error) {
+      console.error('Database query error:', error);
+      throw new DatabaseError(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private toSqlValue(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value) && !(value instanceof Uint8Array)) {
+      return JSON.stringify(value);
+    }
+    return value;
+  }
+
+  private async updateRow(
+    table: string,
+    idColumn: string,
+    id: string,
+    allowedColumns: string[],
+    updates: object
+  ): Promise<unknown | null> {
+    const entries = Object.entries(updates).filter(([key]) => allowedColumns.includes(key));
+
+    if (entries.length === 0) {
+      // No fields to update, just return the current row
+      const current = await this.rawQuery(`SELECT * FROM ${table} WHERE ${idColumn} = ?`, [id]);
+      return current[0] ?? null;
+    }
+
+    const setClause = entries.map(([key]) => `${key} = ?`).join(', ');
+    const result = await this.rawQuery(
+      `UPDATE ${table} SET ${setClause}, updated_at = ? WHERE ${idColumn} = ? RETURNING *`,
+      [...entries.map(([, value]) => value), this.now(), id]
+    );
+    return result[0] ?? null;
+  }
+
+  private pagination(limit?: number, offset?: number): { clause: string; params: unknown[] } {
+    if (!limit && !offset) return { clause: '', params: [] };
+    // SQLite requires a LIMIT before OFFSET; -1 means unbounded
+    return offset
+      ? { clause: ' LIMIT ? OFFSET ?', params: [limit || -1, offset] }
+      : { clause: ' LIMIT ?', params: [limit] };
+  }
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  private parseJson<T>(value: unknown): T {
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  }
+
+  protected mapUserRow(row: unknown): User {
+    const r = row as Record<string, unknown>;
+    return {
+      user_id: r.user_id as string,
+      username: r.username as string,
+      email: r.email as string,
+      password_hash: r.password_hash as string,
+      salt: r.salt as Buffer,
+      node_public_key: r.node_public_key as Buffer,
+      node_private_key_encrypted: r.node_private_key_encrypted as Buffer,
+      master_phase_key_encrypted: r.master_phase_key_encrypted as Buffer,
+      pri_public_resonance: this.parseJson<QuantumPrimeIndices>(r.pri_public_resonance),
+      pri_private_resonance: this.parseJson<QuantumPrimeIndices>(r.pri_private_resonance),
+      pri_fingerprint: r.pri_fingerprint as string,
+      role: (r.role as PlatformRole | null) ?? 'user',
+      moderation_status: (r.moderation_status as AccountStanding | null) ?? 'active',
+      suspended_until: (r.suspended_until as string | null) ?? undefined,
+      created_at: r.created_at as string,
+      updated_at: (r.updated_at as string | null) ?? undefined
+    };
+  }
+
+  protected mapBeaconRow(row: unknown): Beacon {
+    const r = row as Record<string, unknown>;
+    return {
+      beacon_id: r.beacon_id as string,
+      beacon_type: r.beacon_type as string,
+      author_id: r.author_id as string,
+      prime_indices: this.parseJson<QuantumPrimeIndices>(r.prime_indices),
+      epoch: Number(r.epoch),
+      fingerprint: r.fingerprint as Buffer,
+      signature: r.signature as Buffer,
+      metadata: r.metadata ? this.parseJson<Record<string, unknown>>(r.metadata) : undefined,
+      hidden_at: (r.hidden_at as string | null) ?? undefined,
+      created_at: r.created_at as string,
+      updated_at: (r.updated_at as string | null) ?? undefined
+    };
+  }
+
+  protected mapSpaceRow(row: unknown): Space {
+    const r = row as Record<string, unknown>;
+    return {
+      space_id: r.space_id as string,
+      name: r.name as string,
+      description: (r.description as string | null) ?? undefined,
+      is_public: Boolean(r.is_public),
+      owner_id: (r.owner_id as string | null) ?? undefined,
+      metadata: r.metadata ? this.parseJson<Record<string, unknown>>(r.metadata) : undefined,
+      hidden_at: (r.hidden_at as string | null) ?? undefined,
+      created_at: r.created_at as string,
+      updated_at: (r.updated_at as string | null) ?? undefined
+    };
+  }
+
+  private mapSpaceMemberRow(row: unknown): SpaceMember {
+    const r = row as Record<string, unknown>;
+    return {
+      space_id: r.space_id as string,
+      user_id: r.user_id as string,
+      role: r.role as SpaceMember['role'],
+      status: r.status as SpaceMemberStatus,
+      joined_at: r.joined_at as string,
+      updated_at: (r.updated_at as string | null) ?? undefined
+    };
+  }
+
+  private mapSpaceInviteRow(row: unknown): SpaceInvite {
+    const r = row as Record<string, unknown>;
+    return {
+      invite_id: r.invite_id as string,
+      space_id: r.space_id as string,
+      created_by: r.created_by as string,
+      role: r.role as SpaceInvite['role'],
+      max_uses: r.max_uses === null ? undefined : Number(r.max_uses),
+      uses: Number(r.uses),
+      created_at: r.created_at as string,
+      expires_at: r.expires_at as string
+    };
+  }
+
+  private mapSpaceFileRow(row: unknown): SpaceFile {
+    const r = row as Record<string, unknown>;
+    return {
+      file_id: r.file_id as string,
+      space_id: r.space_id as string,
+      uploader_id: r.uploader_id as string,
+      file_name: r.file_name as string,
+      file_type: r.file_type as string,
+      file_size: Number(r.file_size),
+      fingerprint: r.fingerprint as string,
+      created_at: r.created_at as string
+    };
+  }
+
+  private mapDirectMessageRow(row: unknown): DirectMessage {
+    const r = row as Record<string, unknown>;
+    return {
+      message_id: r.message_id as string,
+      conversation_id: r.conversation_id as string,
+      sender_id: r.sender_id as string,
+      recipient_id: r.recipient_id as string,
+      content: r.content as string,
+      created_at: r.created_at as string
+    };
+  }
+
+  private mapConversationParticipantRow(row: unknown): ConversationParticipant {
+    const r = row as Record<string, unknown>;
+    return {
+      conversation_id: r.conversation_id as string,
+      user_id: r.user_id as string,
+      last_read_message_id: (r.last_read_message_id as string | null) ?? undefined,
+      last_read_at: (r.last_read_at as string | null) ?? undefined,
+      last_delivered_message_id: (r.last_delivered_message_id as string | null) ?? undefined,
+      last_delivered_at: (r.last_delivered_at as string | null) ?? undefined
+    };
+  }
+
+  private mapCommentRow(row: unknown): Comment {
+    const r = row as Record<string, unknown>;
+    return {
+      comment_id: r.comment_id as string,
+      post_beacon_id: r.post_beacon_id as string,
+      author_id: r.author_id as string,
+      parent_comment_id: (r.parent_comment_id as string | null) ?? undefined,
+      content: r.content as string,
+      comment_beacon_id: (r.comment_beacon_id as string | null) ?? undefined,
+      created_at: r.created_at as string,
+      updated_at: (r.updated_at as string | null) ?? undefined,
+      deleted_at: (r.deleted_at as string | null) ?? undefined
+    };
+  }
+
+  private mapSessionRow(row: unknown): Session {
+    const r = row as Record<string, unknown>;
+    return {
+      session_id: r.session_id as string,
+      user_id: r.user_id as string,
+      created_at: r.created_at as string,
+      expires_at: r.expires_at as string,
+      revoked_at: (r.revoked_at as string | null) ?? undefined
+    };
+  }
+
+  private mapPasswordResetTokenRow(row: unknown): PasswordResetToken {
+    const r = row as Record<string, unknown>;
+    return {
+      token_id: r.token_id as string,
+      user_id: r.user_id as string,
+      created_at: r.created_at as string,
+      expires_at: r.expires_at as string,
+      used_at: (r.used_at as string | null) ?? undefined
+    };
+  }
+
+  private mapAnalyticsEventRow(row: unknown): AnalyticsEvent {
+    const r = row as Record<string, unknown>;
+    return {
+      event_id: r.event_id as string,
+      event_type: r.event_type as AnalyticsEvent['event_type'],
+      user_id: r.user_id as string,
+      space_id: (r.space_id as string | null) ?? undefined,
+      created_at: r.created_at as string
+    };
+  }
+
+  private mapContentReportRow(row: unknown): ContentReport {
+    const r = row as Record<string, unknown>;
+    return {
+      report_id: r.report_id as string,
+      target_type: r.target_type as ReportTargetType,
+      target_id: r.target_id as string,
+      reporter_id: r.reporter_id as string,
+      reason: r.reason as ContentReport['reason'],
+      details: (r.details as string | null) ?? undefined,
+      status: r.status as ReportStatus,
+      resolution: (r.resolution as string | null) ?? undefined,
+      resolved_by: (r.resolved_by as string | null) ?? undefined,
+      resolved_at: (r.resolved_at as string | null) ?? undefined,
+      created_at: r.created_at as string
+    };
+  }
+
+  private mapAnnouncementRow(row: unknown): Announcement {
+    const r = row as Record<string, unknown>;
+    return {
+      announcement_id: r.announcement_id as string,
+      title: r.title as string,
+      content: r.content as string,
+      status: r.status as AnnouncementStatus,
+      created_by: r.created_by as string,
+      created_at: r.created_at as string,
+      published_at: (r.published_at as string | null) ?? undefined
+    };
+  }
+
+  private mapEncryptionKeyRow(row: unknown): EncryptionKey {
+    const r = row as Record<string, unknown>;
+    return {
+      key_id: r.key_id as string,
+      user_id: r.user_id as string,
+      public_key: r.public_key as string,
+      pri_fingerprint: r.pri_fingerprint as string,
+      created_at: r.created_at as string
+    };
+  }
+
+  private mapSpaceKeyRow(row: unknown): SpaceKey {
+    const r = row as Record<string, unknown>;
+    return {
+      space_id: r.space_id as string,
+      key_version: Number(r.key_version),
+      key_id: r.key_id as string,
+      user_id: r.user_id as string,
+      wrapped_key: r.wrapped_key as string,
+      created_by: r.created_by as string,
+      created_at: r.created_at as string
+    };
+  }
+
+  // ============================================
+  // Schema Initialization
+  // ============================================
+
+  private async initializeSchema(): Promise<void> {
+    console.log('🏗️ Migrating SQLite schema...');
+
+    try {
+      await new MigrationRunner(this, 'sqlite').migrate();
+      console.log('🎉 Schema is up to date!');
+    } catch (error) {
+      console.error('❌ Schema migration failed:', error);
+      throw error;
+    }
+  }
+}
+
+// Transaction adapter for SQLite - shares the parent's connection
+class SqliteTransactionAdapter extends SqliteAdapter {
+  private savepointCounter = 0;
+
+  constructor(config: DatabaseConfig, db: sqlite3.Database) {
+    super(config);
+    this.db = db;
+    this.connected = true;
+  }
+
+  async connect(): Promise<void> {
+    // Already connected via parent connection
+  }
+
+  async disconnect(): Promise<void> {
+    // Don't close the shared connection
+  }
+
+  // Nested transactions map onto savepoints
+  async transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> {
+    const savepoint = `sp_${++this.savepointCounter}`;
+    await this.execute(`SAVEPOINT ${savepoint}`);
+    try {
+      const result = await callback(this);
+      await this.execute(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await this.execute(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      await this.execute(`RELEASE SAVEPOINT ${savepoint}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Test Fixtures
+ * Shared setup for tests that run against an in-memory SQLite database
+ */
+
+import { SqliteAdapter } from './sqlite-adapter.js';
+import type { DatabaseAdapter } from './abstract-adapter.js';
+import type { CreateUserData, QuantumPrimeIndices } from './types.js';
+
+export const testPrimeIndices: QuantumPrimeIndices = {
+  base_resonance: 0.8,
+  amplification_factor: 0.7,
+  phase_alignment: 0.9,
+  entropy_level: 0.6,
+  prime_sequence: [2, 3, 5],
+  resonance_signature: '2-3-5'
+};
+
+// Connected and migrated; the caller disconnects it
+export async function createTestDatabase(): Promise<SqliteAdapter> {
+  const db = new SqliteAdapter({ type: 'sqlite', connectionString: ':memory:' });
+  await db.connect();
+  return db;
+}
+
+// User <id> is name_<id> at <id>@example.com with fingerprint fp_<id> unless overridden
+export function testUserData(id: string, overrides: Partial<CreateUserData> = {}): CreateUserData {
+  return {
+    user_id: id,
+    username: `name_${id}`,
+    email: `${id}@example.com`,
+    password_hash: 'hash',
+    salt: Buffer.from('salt'),
+    node_public_key: Buffer.from('pub'),
+    node_private_key_encrypted: Buffer.from('priv'),
+    master_phase_key_encrypted: Buffer.from('phase'),
+    pri_public_resonance: testPrimeIndices,
+    pri_private_resonance: testPrimeIndices,
+    pri_fingerprint: `fp_${id}`,
+    ...overrides
+  };
+}
+
+export async function createTestUsers(db: DatabaseAdapter, userIds: string[]): Promise<void> {
+  for (const userId of userIds) {
+    await db.createUser(testUserData(userId));
+  }
+}
@@ -3,6 +3,11 @@
  * Supports both SQLite and PostgreSQL backends
  */
 
+import type { SpaceRole } from '../../src/services/space-manager/types.js';
+import type {
+  AccountStanding, AnalyticsEventType, AnnouncementStatus, PlatformRole, ReportReason, ReportTargetType
+} from '../../src/protocol/index.js';
+
 // ============================================
 // Core Database Configuration
 // ============================================
@@ -14,6 +19,8 @@ export interface DatabaseConfig {
   ssl?: boolean;
   maxConnections?: number;
   queryTimeout?: number;
+  // Apply pending schema migrations on connect (default true)
+  autoMigrate?: boolean;
 }
 
 // ============================================
@@ -40,6 +47,9 @@ export interface PrimeResonanceIdentity {
 // Core Entity Types
 // ============================================
 
+// Platform-wide role; what someone may do inside a space is their SpaceRole
+export type { PlatformRole };
+
 export interface User {
   user_id: string;
   username: string;
@@ -52,6 +62,10 @@ export interface User {
   pri_public_resonance: QuantumPrimeIndices;
   pri_private_resonance: QuantumPrimeIndices;
   pri_fingerprint: string;
+  role: PlatformRole;
+  // suspended_until is set while suspended; a lapsed suspension reads as active
+  moderation_status: AccountStanding;
+  suspended_until?: string;
   created_at: string;
   updated_at?: string;
 }
@@ -79,6 +93,8 @@ export interface Beacon {
   fingerprint: Buffer;
   signature: Buffer;
   metadata?: Record<string, unknown>;
+  // Set by moderators; hidden posts are left out of feeds and search
+  hidden_at?: string;
   created_at: string;
   updated_at?: string;
 }
@@ -101,6 +117,8 @@ export interface Space {
   is_public: boolean;
   owner_id?: string;
   metadata?: Record<string, unknown>;
+  // Set by moderators; hidden spaces are unlisted and closed to new members
+  hidden_at?: string;
   created_at: string;
   updated_at?: string;
 }
@@ -114,6 +132,302 @@ export interface CreateSpaceData {
   metadata?: Record<string, unknown>;
 }
 
+export interface SpaceFile {
+  file_id: string;
+  space_id: string;
+  uploader_id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  fingerprint: string;
+  created_at: string;
+}
+
+// Content itself is in the blob store under content_hash
+export interface CreateSpaceFileData {
+  file_id: string;
+  space_id: string;
+  uploader_id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  fingerprint: string;
+  content_hash: string;
+}
+
+// Where a file's content is: files uploaded before the blob store have no
+// content_hash and carry their content in the row
+export interface SpaceFileContent {
+  content_hash: string | null;
+  content: Buffer | null;
+}
+
+// Deleted comments keep their row (with empty content) so replies stay threaded
+export interface Comment {
+  comment_id: string;
+  post_beacon_id: string;
+  author_id: string;
+  parent_comment_id?: string;
+  content: string;
+  comment_beacon_id?: string;
+  created_at: string;
+  updated_at?: string;
+  deleted_at?: string;
+}
+
+export interface CreateCommentData {
+  comment_id: string;
+  post_beacon_id: string;
+  author_id: string;
+  parent_comment_id?: string;
+  content: string;
+}
+
+export interface DirectMessage {
+  message_id: string;
+  conversation_id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string;
+  created_at: string;
+}
+
+export interface CreateDirectMessageData {
+  message_id: string;
+  conversation_id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string;
+}
+
+// Markers name the newest message the participant has read or received,
+// with its created_at; everything up to it in conversation order counts
+export interface ConversationParticipant {
+  conversation_id: string;
+  user_id: string;
+  last_read_message_id?: string;
+  last_read_at?: string;
+  last_delivered_message_id?: string;
+  last_delivered_at?: string;
+}
+
+export type ConversationMarker = 'read' | 'delivered';
+
+export interface ConversationPageOptions {
+  limit?: number;
+  // message_id of the oldest message already loaded
+  before?: string;
+}
+
+export interface ConversationSummary {
+  conversation_id: string;
+  partner: ConversationParticipant;
+  last_message: DirectMessage;
+  unread_count: number;
+}
+
+export interface ConversationUnreadCount {
+  conversation_id: string;
+  partner_id: string;
+  unread_count: number;
+}
+
+// session_id is a hash of the bearer token; the token itself is never stored
+export interface Session {
+  session_id: string;
+  user_id: string;
+  created_at: string;
+  expires_at: string;
+  revoked_at?: string;
+}
+
+export interface CreateSessionData {
+  session_id: string;
+  user_id: string;
+  expires_at: string;
+}
+
+// Like sessions, token_id is a hash and the emailed token is never stored
+export interface PasswordResetToken {
+  token_id: string;
+  user_id: string;
+  created_at: string;
+  expires_at: string;
+  used_at?: string;
+}
+
+export interface CreatePasswordResetTokenData {
+  token_id: string;
+  user_id: string;
+  expires_at: string;
+}
+
+// Pending members asked to join a space that requires approval; they count
+// toward nothing until a manager approves them
+export type SpaceMemberStatus = 'active' | 'pending';
+
+export interface SpaceMember {
+  space_id: string;
+  user_id: string;
+  role: SpaceRole;
+  status: SpaceMemberStatus;
+  joined_at: string;
+  updated_at?: string;
+}
+
+export interface CreateSpaceMemberData {
+  space_id: string;
+  user_id: string;
+  role: SpaceRole;
+  status: SpaceMemberStatus;
+}
+
+// invite_id is a hash of the token in the invite link, as with sessions
+export interface SpaceInvite {
+  invite_id: string;
+  space_id: string;
+  created_by: string;
+  role: SpaceRole;
+  max_uses?: number;
+  uses: number;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface CreateSpaceInviteData {
+  invite_id: string;
+  space_id: string;
+  created_by: string;
+  role: SpaceRole;
+  max_uses?: number;
+  expires_at: string;
+}
+
+// Messages and other activity outside a space have no space_id
+export interface AnalyticsEvent {
+  event_id: string;
+  event_type: AnalyticsEventType;
+  user_id: string;
+  space_id?: string;
+  created_at: string;
+}
+
+export interface CreateAnalyticsEventData {
+  event_id: string;
+  event_type: AnalyticsEventType;
+  user_id: string;
+  space_id?: string;
+}
+
+export type AnalyticsScope = 'space' | 'user';
+
+// How many events of one type a space or user had on one UTC day (YYYY-MM-DD)
+export interface AnalyticsRollup {
+  day: string;
+  scope: AnalyticsScope;
+  scope_id: string;
+  event_type: AnalyticsEventType;
+  count: number;
+}
+
+export type ReportStatus = 'pending' | 'dismissed' | 'actioned';
+
+export interface ContentReport {
+  report_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  // The action taken when the report was closed
+  resolution?: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
+export interface CreateContentReportData {
+  report_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+// Audit trail of moderator decisions
+export interface CreateModerationActionData {
+  action_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  action: string;
+  moderator_id: string;
+  report_id?: string;
+  note?: string;
+}
+
+// Pending reports count those against the user and against their posts
+export interface UserActivityStats {
+  post_count: number;
+  follower_count: number;
+  pending_reports: number;
+  last_active_at?: string;
+}
+
+export interface SpaceActivityStats {
+  post_count: number;
+  pending_reports: number;
+}
+
+export interface Announcement {
+  announcement_id: string;
+  title: string;
+  content: string;
+  status: AnnouncementStatus;
+  created_by: string;
+  created_at: string;
+  published_at?: string;
+}
+
+export interface CreateAnnouncementData {
+  announcement_id: string;
+  title: string;
+  content: string;
+  created_by: string;
+}
+
+// A device's public key for sealing beacons, base64 SPKI. key_id is the
+// SHA-256 of the key; it only counts while pri_fingerprint is the user's
+export interface EncryptionKey {
+  key_id: string;
+  user_id: string;
+  public_key: string;
+  pri_fingerprint: string;
+  created_at: string;
+}
+
+export interface CreateEncryptionKeyData {
+  key_id: string;
+  user_id: string;
+  public_key: string;
+  pri_fingerprint: string;
+}
+
+// One version of a space's key, sealed by a member to one device key. The
+// server never sees the key itself
+export interface SpaceKey {
+  space_id: string;
+  key_version: number;
+  key_id: string;
+  user_id: string;
+  wrapped_key: string;
+  created_by: string;
+  created_at: string;
+}
+
+export type CreateSpaceKeyData = Omit<SpaceKey, 'created_at'>;
+
 // ============================================
 // Query Filter Types
 // ============================================
@@ -129,6 +443,26 @@ export interface BeaconFilter {
   offset?: number;
   order_by?: 'created_at' | 'epoch' | 'resonance_strength';
   order_direction?: 'asc' | 'desc';
+  // Posts hidden by moderators are left out unless asked for
+  include_hidden?: boolean;
+}
+
+// popular ranks by follows, posts in the space or likes; trending does the
+// same over the recent window only
+export type SearchSort = 'relevance' | 'recent' | 'popular' | 'trending';
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+  sort_by?: SearchSort;
+  // searchUsers leaves banned accounts out unless asked for
+  include_banned?: boolean;
+}
+
+export interface SearchPage<T> {
+  results: T[];
+  // Matches across all pages
+  total: number;
 }
 
 export interface QuantumResonanceQuery {
@@ -167,6 +501,9 @@ export interface DatabaseStats {
   total_users: number;
   total_beacons: number;
   total_spaces: number;
+  // Archived files included; they still take up space
+  total_files: number;
+  file_storage_bytes: number;
   avg_resonance_strength: number;
   database_size_mb: number;
   connection_count: number;
@@ -0,0 +1,100 @@
+/**
+ * Beacon Encryption Key Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers } from '../database/test-fixtures';
+import {
+  EncryptionKeyError, MAX_DEVICE_KEYS, SEALED_ENVELOPE_PREFIX, isSealedSignature, publicKeysFor, publishEncryptionKey,
+  shareSpaceKeys, spaceKeyState
+} from './keys';
+
+function devicePublicKey(curve = 'P-256'): string {
+  const { publicKey } = generateKeyPairSync('ec', { namedCurve: curve });
+  return publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+}
+
+describe('beacon encryption keys', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['alice', 'bob', 'carol']);
+    await db.createSpace({ space_id: 'space_1', name: 'Space', owner_id: 'alice', is_public: false });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'alice', role: 'owner', status: 'active' });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'carol', role: 'contributor', status: 'active' });
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('publishes device keys bound to the current PRI fingerprint', async () => {
+    const publicKey = devicePublicKey();
+    const key = await publishEncryptionKey(db, 'alice', publicKey, 'fp_alice');
+    expect(key.key_id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect((await publishEncryptionKey(db, 'alice', publicKey, 'fp_alice')).key_id).toBe(key.key_id);
+
+    await expect(publishEncryptionKey(db, 'alice', devicePublicKey(), 'fp_bob')).rejects.toThrow(EncryptionKeyError);
+    await expect(publishEncryptionKey(db, 'alice', devicePublicKey('P-384'), 'fp_alice')).rejects.toThrow(EncryptionKeyError);
+    await expect(publishEncryptionKey(db, 'alice', 'not a key', 'fp_alice')).rejects.toThrow(EncryptionKeyError);
+    await expect(publishEncryptionKey(db, 'bob', publicKey, 'fp_bob')).rejects.toThrow('another user');
+
+    expect((await publicKeysFor(db, ['alice', 'bob'])).map(k => k.user_id)).toEqual(['alice']);
+    await db.updateUser('alice', { pri_fingerprint: 'fp_alice_2' });
+    expect(await publicKeysFor(db, ['alice'])).toEqual([]);
+  });
+
+  it('limits how many devices hold keys', async () => {
+    for (let i = 0; i < MAX_DEVICE_KEYS; i++) {
+      await publishEncryptionKey(db, 'bob', devicePublicKey(), 'fp_bob');
+    }
+    await expect(publishEncryptionKey(db, 'bob', devicePublicKey(), 'fp_bob')).rejects.toThrow(EncryptionKeyError);
+  });
+
+  it('shares space key versions among active member devices', async () => {
+    const alice = await publishEncryptionKey(db, 'alice', devicePublicKey(), 'fp_alice');
+    const carol = await publishEncryptionKey(db, 'carol', devicePublicKey(), 'fp_carol');
+    const bob = await publishEncryptionKey(db, 'bob', devicePublicKey(), 'fp_bob');
+
+    const empty = await spaceKeyState(db, 'space_1', 'alice');
+    expect(empty.latestVersion).toBe(0);
+    expect(empty.devices.map(k => k.userId).sort()).toEqual(['alice', 'carol']);
+    expect(empty.pending.sort()).toEqual([alice.key_id, carol.key_id].sort());
+
+    await expect(shareSpaceKeys(db, 'space_1', 'alice', 2, [])).rejects.toThrow(EncryptionKeyError);
+    await expect(shareSpaceKeys(db, 'space_1', 'alice', 1, [{ keyId: bob.key_id, wrappedKey: 'w' }]))
+      .rejects.toThrow('active member');
+    await expect(shareSpaceKeys(db, 'space_1', 'bob', 1, [])).rejects.toThrow(EncryptionKeyError);
+
+    expect(await shareSpaceKeys(db, 'space_1', 'alice', 1, [{ keyId: alice.key_id, wrappedKey: 'for_alice' }])).toBe(1);
+    const state = await spaceKeyState(db, 'space_1', 'carol');
+    expect(state.latestVersion).toBe(1);
+    expect(state.keys).toEqual([]);
+    expect(state.pending).toEqual([carol.key_id]);
+
+    // Only holders can seal the current version to more devices
+    await expect(shareSpaceKeys(db, 'space_1', 'carol', 1, [{ keyId: carol.key_id, wrappedKey: 'w' }]))
+      .rejects.toThrow(EncryptionKeyError);
+    expect(await shareSpaceKeys(db, 'space_1', 'alice', 1, [{ keyId: carol.key_id, wrappedKey: 'for_carol' }])).toBe(1);
+    expect((await spaceKeyState(db, 'space_1', 'carol')).keys).toEqual([
+      { keyVersion: 1, keyId: carol.key_id, wrappedKey: 'for_carol', createdBy: 'alice' }
+    ]);
+
+    // Once a holder leaves, the space asks for a new version
+    await db.removeSpaceMember('space_1', 'carol');
+    const afterLeave = await spaceKeyState(db, 'space_1', 'alice');
+    expect(afterLeave.rotate).toBe(true);
+    expect(await shareSpaceKeys(db, 'space_1', 'alice', 2, [{ keyId: alice.key_id, wrappedKey: 'v2' }])).toBe(1);
+    expect((await spaceKeyState(db, 'space_1', 'alice')).rotate).toBe(false);
+  });
+
+  it('recognises sealed signatures by their prefix only', () => {
+    const payload = [...new TextEncoder().encode(`${SEALED_ENVELOPE_PREFIX}{}`)];
+    expect(isSealedSignature([payload.length, 0, 0, 0, ...payload])).toBe(true);
+    expect(isSealedSignature([2, 0, 0, 0, 104, 105])).toBe(false);
+    expect(isSealedSignature(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Beacon Encryption Keys
+ * The server's part in end-to-end encrypted beacons. Each device publishes an
+ * ECDH P-256 public key bound to its user's PRI fingerprint, and members of a
+ * space hand each other the space's symmetric key sealed to those device
+ * keys. The server decides who may publish and share what, but only ever
+ * holds public keys and sealed key material.
+ */
+
+import { createHash, createPublicKey } from 'crypto';
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { EncryptionKey, SpaceKey } from '../database/types.js';
+import type { ClientEncryptionKey, ClientSpaceKey, SpaceKeyState } from '../../src/protocol/index.js';
+
+// Beacon types only their sender and recipients may read
+export const SEALED_BEACON_TYPES: ReadonlySet<string> = new Set([
+  'direct_message', 'quantum_message', 'space_message', 'user_following_list', 'user_spaces_list'
+]);
+// Starts the payload of every sealed beacon, see src/services/crypto
+export const SEALED_ENVELOPE_PREFIX = 'HBE1:';
+export const MAX_DEVICE_KEYS = 10;
+export const MAX_KEY_QUERY = 100;
+export const MAX_WRAPPED_KEY_LENGTH = 1024;
+
+// A key that cannot be published or shared; the message is safe to show the caller
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+export interface SharedSpaceKey {
+  keyId: string;
+  wrappedKey: string;
+}
+
+// The same id the client derives with WebCrypto
+export function encryptionKeyId(spki: Buffer): string {
+  return createHash('sha256').update(spki).digest('base64url');
+}
+
+/**
+ * Whether a submitted signature carries a sealed envelope. The encoder packs
+ * the payload after a 4-byte length, and only the prefix is looked at.
+ */
+export function isSealedSignature(signature: number[] | undefined): boolean {
+  if (!Array.isArray(signature) || signature.length < 4 + SEALED_ENVELOPE_PREFIX.length) {
+    return false;
+  }
+  const prefix = signature.slice(4, 4 + SEALED_ENVELOPE_PREFIX.length);
+  return String.fromCharCode(...prefix) === SEALED_ENVELOPE_PREFIX;
+}
+
+export function toClientEncryptionKey(key: EncryptionKey): ClientEncryptionKey {
+  return { keyId: key.key_id, userId: key.user_id, publicKey: key.public_key };
+}
+
+function toClientSpaceKey(key: SpaceKey): ClientSpaceKey {
+  return { keyVersion: key.key_version, keyId: key.key_id, wrappedKey: key.wrapped_key, createdBy: key.created_by };
+}
+
+function parsePublicKey(publicKey: string): Buffer {
+  try {
+    const spki = Buffer.from(publicKey, 'base64');
+    const key = createPublicKey({ key: spki, format: 'der', type: 'spki' });
+    if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+      return spki;
+    }
+  } catch {
+    // Reported below with every other unusable key
+  }
+  throw new EncryptionKeyError('publicKey must be a base64 SPKI P-256 public key');
+}
+
+/**
+ * Store a device's public key for the caller. Publishing the same key again
+ * is harmless; a new one needs a free device slot.
+ */
+export async function publishEncryptionKey(
+  db: DatabaseAdapter,
+  userId: string,
+  publicKey: string,
+  priFingerprint: string
+): Promise<EncryptionKey> {
+  const user = await db.getUserById(userId);
+  if (!user || user.pri_fingerprint !== priFingerprint) {
+    throw new EncryptionKeyError('Keys must be bound to your current identity');
+  }
+
+  const spki = parsePublicKey(publicKey);
+  const keyId = encryptionKeyId(spki);
+  const current = await db.getEncryptionKeys([userId]);
+  if (!current.some(key => key.key_id === keyId) && current.length >= MAX_DEVICE_KEYS) {
+    throw new EncryptionKeyError(`At most ${MAX_DEVICE_KEYS} devices can hold keys`);
+  }
+
+  const stored = await db.addEncryptionKey({
+    key_id: keyId,
+    user_id: userId,
+    public_key: spki.toString('base64'),
+    pri_fingerprint: priFingerprint
+  });
+  if (stored.user_id !== userId) {
+    throw new EncryptionKeyError('This key is already published by another user');
+  }
+  return stored;
+}
+
+export async function publicKeysFor(db: DatabaseAdapter, userIds: string[]): Promise<EncryptionKey[]> {
+  if (userIds.length > MAX_KEY_QUERY) {
+    throw new EncryptionKeyError(`Keys can be requested for at most ${MAX_KEY_QUERY} users at a time`);
+  }
+  return db.getEncryptionKeys([...new Set(userIds)]);
+}
+
+async function activeMemberKeys(db: DatabaseAdapter, spaceId: string, userId: string): Promise<EncryptionKey[]> {
+  const membership = await db.getSpaceMember(spaceId, userId);
+  if (membership?.status !== 'active') {
+    throw new EncryptionKeyError('You are not a member of this space');
+  }
+  const members = await db.getSpaceMembers(spaceId, 'active');
+  return db.getEncryptionKeys(members.map(member => member.user_id));
+}
+
+// The caller's sealed copies of a space's keys and what the space still needs
+export async function spaceKeyState(db: DatabaseAdapter, spaceId: string, userId: string): Promise<SpaceKeyState> {
+  const memberKeys = await activeMemberKeys(db, spaceId, userId);
+  const latestVersion = await db.getLatestSpaceKeyVersion(spaceId);
+  const holders = latestVersion > 0 ? await db.getSpaceKeys(spaceId, { keyVersion: latestVersion }) : [];
+  const holderIds = new Set(holders.map(holder => holder.key_id));
+  const memberKeyIds = new Set(memberKeys.map(key => key.key_id));
+
+  return {
+    spaceId,
+    latestVersion,
+    keys: (await db.getSpaceKeys(spaceId, { userId })).map(toClientSpaceKey),
+    devices: memberKeys.map(toClientEncryptionKey),
+    pending: memberKeys.filter(key => !holderIds.has(key.key_id)).map(key => key.key_id),
+    rotate: holders.some(holder => !memberKeyIds.has(holder.key_id))
+  };
+}
+
+/**
+ * Store a space key version sealed to member devices. Sealing the latest
+ * version to more devices needs the caller to hold it; the version after it
+ * starts a new key, which is how a space stops former members reading on.
+ */
+export async function shareSpaceKeys(
+  db: DatabaseAdapter,
+  spaceId: string,
+  userId: string,
+  keyVersion: number,
+  keys: SharedSpaceKey[]
+): Promise<number> {
+  const memberKeys = await activeMemberKeys(db, spaceId, userId);
+  const latestVersion = await db.getLatestSpaceKeyVersion(spaceId);
+
+  if (keyVersion === latestVersion && latestVersion > 0) {
+    const held = await db.getSpaceKeys(spaceId, { userId, keyVersion });
+    if (held.length === 0) {
+      throw new EncryptionKeyError('You do not hold this version of the space key');
+    }
+  } else if (keyVersion !== latestVersion + 1) {
+    throw new EncryptionKeyError(latestVersion > 0
+      ? `keyVersion must be ${latestVersion} or ${latestVersion + 1}`
+      : 'keyVersion must be 1 for the first space key');
+  }
+
+  const owners = new Map(memberKeys.map(key => [key.key_id, key.user_id]));
+  const rows = keys.map(({ keyId, wrappedKey }) => {
+    const owner = owners.get(keyId);
+    if (!owner) {
+      throw new EncryptionKeyError(`Not a device key of an active member: ${keyId}`);
+    }
+    if (typeof wrappedKey !== 'string' || !wrappedKey || wrappedKey.length > MAX_WRAPPED_KEY_LENGTH) {
+      throw new EncryptionKeyError('Each sealed key must be a non-empty string');
+    }
+    return {
+      space_id: spaceId,
+      key_version: keyVersion,
+      key_id: keyId,
+      user_id: owner,
+      wrapped_key: wrappedKey,
+      created_by: userId
+    };
+  });
+  return db.addSpaceKeys(rows);
+}
@@ -0,0 +1,105 @@
+/**
+ * Space File Storage Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, testUserData } from '../database/test-fixtures';
+import { LocalBlobStore } from '../storage/local-blob-store';
+import {
+  BLOB_GRACE_MS, MAX_SPACE_FILE_BYTES, SpaceFileError, contentHash, readSpaceFile, storeSpaceFile, sweepSpaceFileBlobs
+} from './space-files';
+
+describe('space files', () => {
+  let db: SqliteAdapter;
+  let directory: string;
+  let store: LocalBlobStore;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await db.createUser(testUserData('alice'));
+    for (const spaceId of ['space_1', 'space_2']) {
+      await db.createSpace({ space_id: spaceId, name: spaceId, owner_id: 'alice', is_public: true });
+    }
+    directory = await mkdtemp(join(tmpdir(), 'space-files-'));
+    store = new LocalBlobStore(directory);
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function upload(spaceId: string, fingerprint: string, content: string) {
+    return storeSpaceFile(db, store, {
+      spaceId, uploaderId: 'alice', fileName: 'notes.txt', fileType: 'text/plain', fingerprint,
+      content: Buffer.from(content)
+    });
+  }
+
+  it('stores identical content once and reads it back by fingerprint', async () => {
+    const first = await upload('space_1', 'fp_1', 'hello');
+    await upload('space_2', 'fp_2', 'hello');
+
+    expect(first).toMatchObject({ uploader_id: 'alice', file_type: 'text/plain', file_size: 5, fingerprint: 'fp_1' });
+    const hash = contentHash(Buffer.from('hello'));
+    expect(await readdir(join(directory, hash.slice(0, 2)))).toEqual([hash]);
+    expect((await readSpaceFile(db, store, 'space_2', 'fp_2'))?.toString()).toBe('hello');
+    expect(await readSpaceFile(db, store, 'space_1', 'fp_2')).toBeNull();
+
+    await expect(upload('space_1', 'fp_big', 'x'.repeat(MAX_SPACE_FILE_BYTES + 1))).rejects.toThrow(SpaceFileError);
+  });
+
+  it('reads files stored in their row before the blob store', async () => {
+    await db.query(
+      `INSERT INTO space_files (file_id, space_id, uploader_id, file_name, file_type, file_size, fingerprint, content, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      ['file_old', 'space_1', 'alice', 'old.txt', 'text/plain', 3, 'fp_old', Buffer.from('old'), new Date().toISOString()]
+    );
+    expect((await readSpaceFile(db, store, 'space_1', 'fp_old'))?.toString()).toBe('old');
+  });
+
+  it('sweeps content no file refers to once the grace period has passed', async () => {
+    const kept = await upload('space_1', 'fp_1', 'kept');
+    await upload('space_1', 'fp_2', 'shared');
+    const removed = await upload('space_2', 'fp_3', 'shared');
+    const orphan = await upload('space_2', 'fp_4', 'orphan');
+
+    await db.deleteSpaceFile('space_2', removed.file_id);
+    await db.deleteSpaceFile('space_2', orphan.file_id);
+    const later = Date.now() + BLOB_GRACE_MS + 1000;
+
+    expect(await sweepSpaceFileBlobs(db, store)).toBe(0);
+    expect(await sweepSpaceFileBlobs(db, store, later)).toBe(1);
+    expect(await store.get(contentHash(Buffer.from('orphan')))).toBeNull();
+    expect((await readSpaceFile(db, store, 'space_1', 'fp_2'))?.toString()).toBe('shared');
+
+    // Deleting a space leaves its content for the sweep too
+    await db.deleteSpace('space_1');
+    expect(await sweepSpaceFileBlobs(db, store, later)).toBe(2);
+    expect(await readSpaceFile(db, store, 'space_1', kept.fingerprint)).toBeNull();
+    const left: string[] = [];
+    for await (const blob of store.list()) left.push(blob.key);
+    expect(left).toEqual([]);
+  });
+
+  it('keeps content uploaded again after the sweep checked it', async () => {
+    const removed = await upload('space_1', 'fp_1', 'again');
+    await db.deleteSpaceFile('space_1', removed.file_id);
+    const later = Date.now() + BLOB_GRACE_MS + 1000;
+
+    // The upload lands between the batch check and the delete
+    const check = db.getReferencedContentHashes.bind(db);
+    vi.spyOn(db, 'getReferencedContentHashes').mockImplementationOnce(async hashes => {
+      const referenced = await check(hashes);
+      await upload('space_2', 'fp_2', 'again');
+      return referenced;
+    });
+
+    expect(await sweepSpaceFileBlobs(db, store, later)).toBe(0);
+    expect((await readSpaceFile(db, store, 'space_2', 'fp_2'))?.toString()).toBe('again');
+  });
+});
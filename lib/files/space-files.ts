@@ -0,0 +1,136 @@
+/**
+ * Space Files
+ * Uploaded content goes to the blob store under its SHA-256, so the same file
+ * shared in several spaces, or twice in one, is stored once. space_files keeps
+ * a row per upload with its name, MIME type, size, fingerprint and uploader.
+ */
+
+import { createHash } from 'crypto';
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { SpaceFile } from '../database/types.js';
+import type { BlobStore } from '../storage/blob-store.js';
+
+export const MAX_SPACE_FILE_BYTES = 10 * 1024 * 1024;
+// Unreferenced content is kept this long, so an upload that has stored its
+// content but not yet its row never loses it to a sweep
+export const BLOB_GRACE_MS = 60 * 60 * 1000;
+// Content hashes checked against space_files per query while sweeping
+const SWEEP_BATCH_SIZE = 500;
+
+// Uploads and sweeps take turns on a content hash, so a sweep in this process
+// never deletes content an upload is about to refer to
+const hashLocks = new Map<string, Promise<unknown>>();
+
+// An upload that cannot be stored; the message is safe to show the caller
+export class SpaceFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpaceFileError';
+  }
+}
+
+export interface NewSpaceFile {
+  spaceId: string;
+  uploaderId: string;
+  fileName: string;
+  fileType?: string;
+  fingerprint: string;
+  content: Buffer;
+}
+
+export function contentHash(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+async function withHashLock<T>(hash: string, task: () => Promise<T>): Promise<T> {
+  const previous = hashLocks.get(hash) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  hashLocks.set(hash, current);
+  try {
+    return await current;
+  } finally {
+    if (hashLocks.get(hash) === current) {
+      hashLocks.delete(hash);
+    }
+  }
+}
+
+// Callers check CONTRIBUTE_FILES first
+export async function storeSpaceFile(db: DatabaseAdapter, store: BlobStore, file: NewSpaceFile): Promise<SpaceFile> {
+  if (file.content.length > MAX_SPACE_FILE_BYTES) {
+    throw new SpaceFileError(`Files are limited to ${MAX_SPACE_FILE_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const hash = contentHash(file.content);
+  return withHashLock(hash, async () => {
+    await store.put(hash, file.content);
+    return db.createSpaceFile({
+      file_id: `file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      space_id: file.spaceId,
+      uploader_id: file.uploaderId,
+      file_name: file.fileName,
+      file_type: file.fileType || 'application/octet-stream',
+      file_size: file.content.length,
+      fingerprint: file.fingerprint,
+      content_hash: hash
+    });
+  });
+}
+
+export async function readSpaceFile(
+  db: DatabaseAdapter,
+  store: BlobStore,
+  spaceId: string,
+  fingerprint: string
+): Promise<Buffer | null> {
+  const stored = await db.getSpaceFileContent(spaceId, fingerprint);
+  if (!stored) return null;
+  if (!stored.content_hash) return stored.content;
+
+  const content = await store.get(stored.content_hash);
+  if (!content) {
+    console.error(`[SpaceFiles] Content ${stored.content_hash} is missing from the blob store`);
+  }
+  return content;
+}
+
+/**
+ * Delete stored content no file refers to any more, such as the last copy of
+ * a removed file or the files of a deleted space. Resolves with how many
+ * blobs were deleted.
+ */
+export async function sweepSpaceFileBlobs(db: DatabaseAdapter, store: BlobStore, now = Date.now()): Promise<number> {
+  const cutoff = now - BLOB_GRACE_MS;
+  let batch: string[] = [];
+  let deleted = 0;
+
+  // An upload may have stored the same content since the batch was checked:
+  // look at the blob and its references again right before deleting it
+  const deleteIfUnreferenced = (key: string) => withHashLock(key, async () => {
+    const blob = await store.stat(key);
+    if (!blob || blob.storedAt.getTime() > cutoff) return false;
+    if ((await db.getReferencedContentHashes([key])).length > 0) return false;
+    await store.delete(key);
+    return true;
+  });
+
+  const sweep = async () => {
+    const referenced = new Set(await db.getReferencedContentHashes(batch));
+    for (const key of batch.filter(key => !referenced.has(key))) {
+      if (await deleteIfUnreferenced(key)) {
+        deleted++;
+      }
+    }
+    batch = [];
+  };
+
+  for await (const blob of store.list()) {
+    if (blob.storedAt.getTime() > cutoff) continue;
+    batch.push(blob.key);
+    if (batch.length >= SWEEP_BATCH_SIZE) {
+      await sweep();
+    }
+  }
+  await sweep();
+  return deleted;
+}
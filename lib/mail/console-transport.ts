@@ -0,0 +1,13 @@
+/**
+ * Console Mail Transport
+ * Prints messages to the server log - the development default
+ */
+
+import { MailTransport } from './mail-transport.js';
+import type { MailMessage } from './mail-transport.js';
+
+export class ConsoleMailTransport extends MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[MAIL] To: ${message.to}\n[MAIL] Subject: ${message.subject}\n${message.text}`);
+  }
+}
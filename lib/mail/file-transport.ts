@@ -0,0 +1,23 @@
+/**
+ * File Mail Transport
+ * Writes each message to its own file so local runs and tests can read the
+ * links a real inbox would receive
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailTransport } from './mail-transport.js';
+import type { MailMessage } from './mail-transport.js';
+
+export class FileMailTransport extends MailTransport {
+  constructor(private directory: string) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.eml`;
+    const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await writeFile(join(this.directory, fileName), contents, 'utf8');
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * HTTP Mail Transport
+ * Posts each message as JSON to a mail provider's send endpoint, in the
+ * { from, to, subject, text } shape that Resend and compatible APIs accept
+ */
+
+import { MailTransport } from './mail-transport.js';
+import type { MailMessage } from './mail-transport.js';
+
+export interface HttpMailTransportConfig {
+  url: string;
+  from: string;
+  apiKey?: string;
+}
+
+export class HttpMailTransport extends MailTransport {
+  constructor(private config: HttpMailTransportConfig) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` })
+      },
+      body: JSON.stringify({ from: this.config.from, ...message })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail provider answered ${response.status}: ${await response.text()}`);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Mail Transport Factory
+ * Picks the transport the same way MessageQueueFactory picks a queue
+ */
+
+import { MailTransport } from './mail-transport.js';
+import { ConsoleMailTransport } from './console-transport.js';
+import { FileMailTransport } from './file-transport.js';
+import { HttpMailTransport } from './http-transport.js';
+
+export type MailTransportType = 'console' | 'file' | 'http';
+
+export class MailTransportFactory {
+  private static instance: MailTransport | null = null;
+
+  static create(type: MailTransportType, directory?: string): MailTransport {
+    switch (type) {
+      case 'console':
+        return new ConsoleMailTransport();
+
+      case 'file':
+        return new FileMailTransport(directory ?? '.mail');
+
+      case 'http':
+        if (!process.env.MAIL_HTTP_URL || !process.env.EMAIL_FROM) {
+          throw new Error('MAIL_HTTP_URL and EMAIL_FROM are required for the http mail transport');
+        }
+        return new HttpMailTransport({
+          url: process.env.MAIL_HTTP_URL,
+          from: process.env.EMAIL_FROM,
+          apiKey: process.env.MAIL_HTTP_API_KEY
+        });
+
+      default:
+        throw new Error(`Unsupported mail transport type: ${type}`);
+    }
+  }
+
+  // Shared instance for API handlers. Production must name a transport: the
+  // console default would print live reset links instead of mailing them
+  static getOrCreateFromEnvironment(): MailTransport {
+    if (!this.instance) {
+      const configured = process.env.MAIL_TRANSPORT as MailTransportType | undefined;
+      if (!configured && process.env.NODE_ENV === 'production') {
+        throw new Error('MAIL_TRANSPORT must be set in production, e.g. to http');
+      }
+      const type = configured ?? 'console';
+      this.instance = this.create(type, process.env.MAIL_DIR);
+      console.log(`Mail transport initialized: ${type}`);
+    }
+    return this.instance;
+  }
+
+  // Lets a deployment plug in its own provider, e.g. an SMTP or HTTP API client
+  static use(transport: MailTransport): void {
+    this.instance = transport;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Abstract Mail Transport
+ * Outgoing email (password resets and the like) goes through one of these so
+ * deployments can swap delivery without touching the handlers
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,91 @@
+/**
+ * Direct Message Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers } from '../database/test-fixtures';
+import {
+  DirectMessageError, getConversationPage, getUnreadCount, listConversations, markMessageDelivered, markMessageRead,
+  sendDirectMessage
+} from './direct-messages';
+
+describe('direct messages', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['alice', 'bob', 'carol']);
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('delivers to the recipient and tracks receipts through delivered and read', async () => {
+    const sent = await sendDirectMessage(db, 'alice', 'bob', 'hello');
+    expect(sent.deliveries).toEqual([
+      { userId: 'bob', message: { kind: 'privateMessage', payload: sent.result } }
+    ]);
+    const messageId = sent.result.messageId;
+
+    let mine = await getConversationPage(db, 'alice', 'bob');
+    expect(mine.result.messages[0]).toMatchObject({ id: messageId, read: true, deliveryStatus: 'sent' });
+    expect(mine.deliveries).toEqual([]);
+
+    const theirs = await getConversationPage(db, 'bob', 'alice');
+    expect(theirs.result).toMatchObject({ conversationId: sent.result.conversationId, unreadCount: 1, cursor: null });
+    expect(theirs.result.messages[0]).toMatchObject({ read: false });
+    expect(theirs.result.messages[0]).not.toHaveProperty('deliveryStatus');
+    expect(theirs.deliveries).toEqual([
+      { userId: 'alice', message: { kind: 'messageDelivered', payload: expect.objectContaining({ userId: 'bob', messageId }) } }
+    ]);
+    mine = await getConversationPage(db, 'alice', 'bob');
+    expect(mine.result.messages[0].deliveryStatus).toBe('delivered');
+
+    const read = await markMessageRead(db, 'bob', messageId);
+    expect(read.result.updated).toBe(true);
+    expect(read.deliveries.map(d => [d.userId, d.message.kind])).toEqual([
+      ['alice', 'messageRead'],
+      ['bob', 'unreadCountUpdate']
+    ]);
+    expect((await markMessageRead(db, 'bob', messageId)).deliveries).toEqual([]);
+    expect((await getConversationPage(db, 'alice', 'bob')).result.messages[0].deliveryStatus).toBe('read');
+    expect(await getUnreadCount(db, 'bob')).toEqual({ count: 0, conversations: [] });
+  });
+
+  it('pages history with a cursor and counts unread messages per conversation', async () => {
+    for (const content of ['one', 'two', 'three']) {
+      await sendDirectMessage(db, 'alice', 'bob', content);
+    }
+    await sendDirectMessage(db, 'carol', 'bob', 'hi bob');
+
+    // Messages sent within the same millisecond have no fixed order, so only
+    // check that the pages split the conversation
+    const newest = await getConversationPage(db, 'bob', 'alice', { limit: 2 });
+    expect(newest.result.messages).toHaveLength(2);
+    const older = await getConversationPage(db, 'bob', 'alice', { limit: 2, before: newest.result.cursor! });
+    expect(older.result.messages).toHaveLength(1);
+    expect(older.result.cursor).toBeNull();
+    expect([...older.result.messages, ...newest.result.messages].map(m => m.content).sort()).toEqual(['one', 'three', 'two']);
+
+    const unread = await getUnreadCount(db, 'bob');
+    expect(unread.count).toBe(4);
+    expect(unread.conversations.map(c => [c.userId, c.unreadCount]).sort()).toEqual([['alice', 3], ['carol', 1]]);
+
+    await markMessageRead(db, 'bob', newest.result.messages[0].id);
+    const { result: conversations } = await listConversations(db, 'bob');
+    expect(conversations.map(c => [c.userName, c.unreadCount]).sort()).toEqual([['name_alice', 1], ['name_carol', 1]]);
+  });
+
+  it('rejects messages to yourself and receipts from outside the conversation', async () => {
+    await expect(sendDirectMessage(db, 'alice', 'alice', 'hi')).rejects.toThrow(DirectMessageError);
+    await expect(sendDirectMessage(db, 'alice', 'bob', '   ')).rejects.toThrow(DirectMessageError);
+
+    const { result } = await sendDirectMessage(db, 'alice', 'bob', 'private');
+    await expect(markMessageRead(db, 'carol', result.messageId)).rejects.toThrow('Message not found');
+    expect((await markMessageDelivered(db, 'bob', result.messageId)).deliveries).toEqual([
+      { userId: 'alice', message: { kind: 'messageDelivered', payload: expect.objectContaining({ userId: 'bob' }) } }
+    ]);
+  });
+});
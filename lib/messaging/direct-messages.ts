@@ -0,0 +1,307 @@
+/**
+ * Direct Messages
+ * Two-person conversations where each participant has a read and a delivered
+ * marker. A message counts as delivered once the recipient's client has
+ * loaded or acknowledged it, and as read once they have marked it or anything
+ * after it. Functions resolve with the messages the caller has to push.
+ */
+
+import { directConversationId } from '../database/abstract-adapter.js';
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { ConversationMarker, ConversationParticipant, DirectMessage } from '../database/types.js';
+import type { Delivery } from '../moderation/actions.js';
+import type {
+  ClientConversation, ClientDirectMessage, MessageDeliveryStatus, MessageReceiptPayload, PrivateMessagePayload,
+  UnreadCountPayload
+} from '../../src/protocol/index.js';
+
+export const MAX_DIRECT_MESSAGE_LENGTH = 5000;
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+export const MAX_HISTORY_PAGE_SIZE = 200;
+export const RECENT_CONVERSATIONS_LIMIT = 20;
+
+// A request that cannot be carried out; the message is safe to show the caller
+export class DirectMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectMessageError';
+  }
+}
+
+export interface MessagingOutcome<T> {
+  result: T;
+  deliveries: Delivery[];
+}
+
+export interface HistoryQuery {
+  limit?: number;
+  before?: string;
+}
+
+async function usernamesById(db: DatabaseAdapter, userIds: string[]): Promise<Map<string, string>> {
+  const usernames = new Map<string, string>();
+  for (const id of new Set(userIds)) {
+    const user = await db.getUserById(id);
+    if (user) {
+      usernames.set(user.user_id, user.username);
+    }
+  }
+  return usernames;
+}
+
+// Whether a marker covers the message, in conversation order
+function reached(markerAt: string | undefined, markerMessageId: string | undefined, message: DirectMessage): boolean {
+  if (markerAt === undefined || markerMessageId === undefined) {
+    return false;
+  }
+  const markerTime = Date.parse(markerAt);
+  const messageTime = Date.parse(message.created_at);
+  return markerTime > messageTime || (markerTime === messageTime && markerMessageId >= message.message_id);
+}
+
+function deliveryStatus(message: DirectMessage, partner?: ConversationParticipant): MessageDeliveryStatus {
+  if (reached(partner?.last_read_at, partner?.last_read_message_id, message)) {
+    return 'read';
+  }
+  return reached(partner?.last_delivered_at, partner?.last_delivered_message_id, message) ? 'delivered' : 'sent';
+}
+
+function toClientDirectMessage(
+  message: DirectMessage,
+  viewer: ConversationParticipant | undefined,
+  partner: ConversationParticipant | undefined,
+  usernames: Map<string, string>
+): ClientDirectMessage {
+  const own = message.sender_id === viewer?.user_id;
+  return {
+    id: message.message_id,
+    senderId: message.sender_id,
+    senderName: usernames.get(message.sender_id) ?? message.sender_id,
+    content: message.content,
+    timestamp: Date.parse(message.created_at),
+    read: own || reached(viewer?.last_read_at, viewer?.last_read_message_id, message),
+    ...(own && { deliveryStatus: deliveryStatus(message, partner) })
+  };
+}
+
+function receipt(message: DirectMessage, userId: string, updated: boolean): MessageReceiptPayload {
+  return {
+    conversationId: message.conversation_id,
+    userId,
+    messageId: message.message_id,
+    timestamp: Date.parse(message.created_at),
+    updated
+  };
+}
+
+// Moves the recipient's delivered marker to a message they have just loaded
+async function acknowledgeDelivery(db: DatabaseAdapter, message: DirectMessage): Promise<Delivery[]> {
+  const updated = await db.advanceConversationMarker(
+    message.conversation_id, message.recipient_id, 'delivered', message.message_id
+  );
+  return updated
+    ? [{ userId: message.sender_id, message: { kind: 'messageDelivered', payload: receipt(message, message.recipient_id, true) } }]
+    : [];
+}
+
+export async function sendDirectMessage(
+  db: DatabaseAdapter,
+  senderId: string,
+  recipientId: string,
+  content: string
+): Promise<MessagingOutcome<PrivateMessagePayload>> {
+  if (!content.trim() || content.length > MAX_DIRECT_MESSAGE_LENGTH) {
+    throw new DirectMessageError(`Messages must be between 1 and ${MAX_DIRECT_MESSAGE_LENGTH} characters`);
+  }
+  if (recipientId === senderId) {
+    throw new DirectMessageError('You cannot message yourself');
+  }
+
+  const [sender, recipient] = await Promise.all([db.getUserById(senderId), db.getUserById(recipientId)]);
+  if (!sender || !recipient) {
+    throw new DirectMessageError('Sender or recipient not found');
+  }
+
+  const conversationId = await db.ensureDirectConversation(sender.user_id, recipient.user_id);
+  const stored = await db.createDirectMessage({
+    message_id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    conversation_id: conversationId,
+    sender_id: sender.user_id,
+    recipient_id: recipient.user_id,
+    content
+  });
+  // Sending covers everything the sender has been shown so far
+  await db.advanceConversationMarker(conversationId, sender.user_id, 'read', stored.message_id);
+  await db.advanceConversationMarker(conversationId, sender.user_id, 'delivered', stored.message_id);
+
+  const payload: PrivateMessagePayload = {
+    messageId: stored.message_id,
+    conversationId,
+    senderId: sender.user_id,
+    senderName: sender.username,
+    recipientId: recipient.user_id,
+    recipientName: recipient.username,
+    content: stored.content,
+    timestamp: Date.parse(stored.created_at)
+  };
+  return { result: payload, deliveries: [{ userId: recipient.user_id, message: { kind: 'privateMessage', payload } }] };
+}
+
+/**
+ * A page of the conversation with partnerId, oldest message first. Loading
+ * the newest page delivers everything in it to the viewer.
+ */
+export async function getConversationPage(
+  db: DatabaseAdapter,
+  viewerId: string,
+  partnerId: string,
+  query: HistoryQuery = {}
+): Promise<MessagingOutcome<ClientConversation>> {
+  const partner = await db.getUserById(partnerId);
+  if (!partner) {
+    throw new DirectMessageError(`User not found: ${partnerId}`);
+  }
+
+  const conversationId = await db.findDirectConversation(viewerId, partner.user_id);
+  if (!conversationId) {
+    return {
+      result: {
+        conversationId: directConversationId(viewerId, partner.user_id),
+        userId: partner.user_id,
+        userName: partner.username,
+        messages: [],
+        unreadCount: 0,
+        cursor: null
+      },
+      deliveries: []
+    };
+  }
+
+  const limit = Math.min(query.limit && query.limit > 0 ? query.limit : DEFAULT_HISTORY_PAGE_SIZE, MAX_HISTORY_PAGE_SIZE);
+  // One extra row tells whether an older page exists
+  const page = await db.getConversation(conversationId, { limit: limit + 1, before: query.before });
+  const hasMore = page.length > limit;
+  const messages = hasMore ? page.slice(1) : page;
+
+  const newestReceived = query.before ? undefined : messages.filter(m => m.sender_id === partner.user_id).pop();
+  const deliveries = newestReceived ? await acknowledgeDelivery(db, newestReceived) : [];
+
+  const [participants, unread, usernames] = await Promise.all([
+    db.getConversationParticipants(conversationId),
+    db.getUnreadCounts(viewerId),
+    usernamesById(db, [viewerId, partner.user_id])
+  ]);
+  const viewer = participants.find(p => p.user_id === viewerId);
+  const partnerMarkers = participants.find(p => p.user_id === partner.user_id);
+  const clientMessages = messages.map(m => toClientDirectMessage(m, viewer, partnerMarkers, usernames));
+
+  return {
+    result: {
+      conversationId,
+      userId: partner.user_id,
+      userName: partner.username,
+      messages: clientMessages,
+      lastMessage: query.before ? undefined : clientMessages[clientMessages.length - 1],
+      unreadCount: unread.find(u => u.conversation_id === conversationId)?.unread_count ?? 0,
+      cursor: hasMore ? messages[0].message_id : null
+    },
+    deliveries
+  };
+}
+
+// Most recently active conversations, each with only its latest message
+export async function listConversations(
+  db: DatabaseAdapter,
+  userId: string,
+  limit = RECENT_CONVERSATIONS_LIMIT
+): Promise<MessagingOutcome<ClientConversation[]>> {
+  const summaries = await db.getRecentConversations(userId, limit);
+  const usernames = await usernamesById(db, [userId, ...summaries.map(s => s.partner.user_id)]);
+  const deliveries: Delivery[] = [];
+  const conversations: ClientConversation[] = [];
+
+  for (const summary of summaries) {
+    if (summary.last_message.recipient_id === userId) {
+      deliveries.push(...await acknowledgeDelivery(db, summary.last_message));
+    }
+    // The latest message is read exactly when nothing in the conversation is unread
+    const viewer: ConversationParticipant = {
+      conversation_id: summary.conversation_id,
+      user_id: userId,
+      ...(summary.unread_count === 0 && {
+        last_read_message_id: summary.last_message.message_id,
+        last_read_at: summary.last_message.created_at
+      })
+    };
+    const lastMessage = toClientDirectMessage(summary.last_message, viewer, summary.partner, usernames);
+    conversations.push({
+      conversationId: summary.conversation_id,
+      userId: summary.partner.user_id,
+      userName: usernames.get(summary.partner.user_id) ?? summary.partner.user_id,
+      messages: [lastMessage],
+      lastMessage,
+      unreadCount: summary.unread_count
+    });
+  }
+  return { result: conversations, deliveries };
+}
+
+export async function getUnreadCount(db: DatabaseAdapter, userId: string): Promise<UnreadCountPayload> {
+  const counts = await db.getUnreadCounts(userId);
+  return {
+    count: counts.reduce((total, c) => total + c.unread_count, 0),
+    conversations: counts.map(c => ({ conversationId: c.conversation_id, userId: c.partner_id, unreadCount: c.unread_count }))
+  };
+}
+
+async function markConversation(
+  db: DatabaseAdapter,
+  userId: string,
+  messageId: string,
+  marker: ConversationMarker
+): Promise<MessagingOutcome<MessageReceiptPayload>> {
+  const message = await db.getDirectMessage(messageId);
+  if (!message || (message.sender_id !== userId && message.recipient_id !== userId)) {
+    throw new DirectMessageError(`Message not found: ${messageId}`);
+  }
+
+  const updated = await db.advanceConversationMarker(message.conversation_id, userId, marker, message.message_id);
+  if (marker === 'read') {
+    // Reading implies delivery; the read receipt covers both for the sender
+    await db.advanceConversationMarker(message.conversation_id, userId, 'delivered', message.message_id);
+  }
+
+  const payload = receipt(message, userId, updated);
+  if (!updated) {
+    return { result: payload, deliveries: [] };
+  }
+
+  const partnerId = message.sender_id === userId ? message.recipient_id : message.sender_id;
+  const deliveries: Delivery[] = [{
+    userId: partnerId,
+    message: marker === 'read' ? { kind: 'messageRead', payload } : { kind: 'messageDelivered', payload }
+  }];
+  if (marker === 'read') {
+    // Keeps the reader's other sessions' badges in step
+    deliveries.push({ userId, message: { kind: 'unreadCountUpdate', payload: await getUnreadCount(db, userId) } });
+  }
+  return { result: payload, deliveries };
+}
+
+// Marks every message in the conversation up to messageId as read
+export function markMessageRead(
+  db: DatabaseAdapter,
+  userId: string,
+  messageId: string
+): Promise<MessagingOutcome<MessageReceiptPayload>> {
+  return markConversation(db, userId, messageId, 'read');
+}
+
+// Acknowledges a message that arrived over the event stream
+export function markMessageDelivered(
+  db: DatabaseAdapter,
+  userId: string,
+  messageId: string
+): Promise<MessagingOutcome<MessageReceiptPayload>> {
+  return markConversation(db, userId, messageId, 'delivered');
+}
@@ -0,0 +1,118 @@
+/**
+ * Moderation Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers, testPrimeIndices } from '../database/test-fixtures';
+import type { User } from '../database/types';
+import { MembershipError, joinSpace } from '../spaces/membership';
+import { applyContentAction, applyUserAction } from './actions';
+import { ModerationError, submitReport } from './reports';
+import { currentStanding, standingRestriction } from './standing';
+import { buildReportQueue, buildUserStats } from './stats';
+
+describe('moderation', () => {
+  let db: SqliteAdapter;
+  let admin: User;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['mod', 'alice', 'bob', 'carol']);
+    admin = await db.updateUser('mod', { role: 'admin' });
+    await db.createBeacon({
+      beacon_id: 'post_1',
+      beacon_type: 'post',
+      author_id: 'alice',
+      prime_indices: testPrimeIndices,
+      epoch: 1,
+      fingerprint: Buffer.from('fp'),
+      signature: Buffer.from('sig'),
+      metadata: { originalText: JSON.stringify({ content: 'buy cheap primes' }) }
+    });
+    await db.createSpace({ space_id: 'space_1', name: 'Space', is_public: true, owner_id: 'alice', metadata: {} });
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('groups open reports per target and rejects self and repeat reports', async () => {
+    await submitReport(db, 'bob', { targetType: 'post', targetId: 'post_1', reason: 'spam' });
+    await submitReport(db, 'carol', { targetType: 'post', targetId: 'post_1', reason: 'harassment' });
+
+    await expect(submitReport(db, 'bob', { targetType: 'post', targetId: 'post_1', reason: 'spam' }))
+      .rejects.toThrow('already reported');
+    await expect(submitReport(db, 'alice', { targetType: 'post', targetId: 'post_1', reason: 'spam' }))
+      .rejects.toThrow(ModerationError);
+    await expect(submitReport(db, 'bob', { targetType: 'space', targetId: 'missing', reason: 'spam' }))
+      .rejects.toThrow(ModerationError);
+
+    const queue = await buildReportQueue(db);
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ type: 'post', content: 'buy cheap primes', author: 'name_alice', reportCount: 2 });
+    expect(queue[0].reason.split(', ').sort()).toEqual(['harassment', 'spam']);
+  });
+
+  it('hides a post from feeds and closes every report on it', async () => {
+    const report = await submitReport(db, 'bob', { targetType: 'post', targetId: 'post_1', reason: 'spam' });
+    await submitReport(db, 'carol', { targetType: 'post', targetId: 'post_1', reason: 'spam' });
+
+    const outcome = await applyContentAction(db, report.report_id, 'hide', admin);
+
+    expect(outcome.resolvedReports).toBe(2);
+    expect(outcome.deliveries).toEqual([
+      expect.objectContaining({ userId: 'alice', message: expect.objectContaining({ kind: 'moderationNotice' }) })
+    ]);
+    expect((await db.getBeaconById('post_1'))?.hidden_at).toBeDefined();
+    expect(await db.queryBeacons({ beacon_type: 'post' })).toHaveLength(0);
+    expect(await db.queryBeacons({ beacon_type: 'post', include_hidden: true })).toHaveLength(1);
+    expect(await buildReportQueue(db)).toEqual([]);
+    await expect(applyContentAction(db, report.report_id, 'dismiss', admin)).rejects.toThrow('already resolved');
+  });
+
+  it('closes a hidden space to new members', async () => {
+    const report = await submitReport(db, 'bob', { targetType: 'space', targetId: 'space_1', reason: 'hate' });
+    await applyContentAction(db, report.report_id, 'hide', admin);
+
+    expect(await db.getPublicSpaces()).toEqual([]);
+    await expect(joinSpace(db, 'space_1', 'carol')).rejects.toThrow(MembershipError);
+  });
+
+  it('suspends the author until the suspension lapses and bans end every session', async () => {
+    const report = await submitReport(db, 'bob', { targetType: 'post', targetId: 'post_1', reason: 'spam' });
+    const outcome = await applyContentAction(db, report.report_id, 'suspend', admin, { days: 3 });
+
+    const alice = (await db.getUserById('alice'))!;
+    expect(alice.moderation_status).toBe('suspended');
+    expect(outcome.deliveries[0].message).toMatchObject({
+      kind: 'moderationNotice',
+      payload: { action: 'suspend', until: alice.suspended_until }
+    });
+    expect(standingRestriction(alice, 'submitPostBeacon')?.code).toBe('SUSPENDED');
+    expect(standingRestriction(alice, 'getComments')).toBeNull();
+    expect(currentStanding(alice, Date.parse(alice.suspended_until!) + 1)).toBe('active');
+
+    await db.createSession({ session_id: 'session_bob', user_id: 'bob', expires_at: new Date(Date.now() + 60000).toISOString() });
+    await applyUserAction(db, 'bob', 'ban', admin);
+    expect((await db.getSession('session_bob'))?.revoked_at).toBeDefined();
+    expect((await db.searchUsers('name_bob')).total).toBe(0);
+    expect((await buildUserStats(db, { search: 'name_bob' }))[0].status).toBe('banned');
+
+    await applyUserAction(db, 'alice', 'reinstate', admin);
+    expect(await db.getUserById('alice')).toMatchObject({ moderation_status: 'active', suspended_until: undefined });
+    await expect(applyUserAction(db, 'mod', 'ban', admin)).rejects.toThrow(ModerationError);
+    await expect(applyUserAction(db, 'alice', 'suspend', admin, { days: 0 })).rejects.toThrow('days');
+  });
+
+  it('leaves staff accounts to admins', async () => {
+    const moderator = await db.updateUser('carol', { role: 'moderator' });
+    const otherModerator = await db.updateUser('bob', { role: 'moderator' });
+
+    await applyUserAction(db, 'alice', 'warn', moderator);
+    await expect(applyUserAction(db, 'bob', 'suspend', moderator)).rejects.toThrow('Only admins');
+    await expect(applyUserAction(db, 'mod', 'warn', otherModerator)).rejects.toThrow('Admin accounts');
+    await applyUserAction(db, 'bob', 'suspend', admin);
+    expect((await db.getUserById('bob'))?.moderation_status).toBe('suspended');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Moderation Actions
+ * Carries out a moderator's decision on a report or an account, closes the
+ * reports it settles, logs it and works out who has to be told. Callers
+ * deliver the resulting messages.
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { User } from '../database/types.js';
+import type { MessageQueue } from '../queue/message-queue.js';
+import { purgeSpace } from '../spaces/settings.js';
+import type {
+  ContentModerationAction, ModerationActionOptions, ModerationNoticePayload, ReportTargetType,
+  ServerMessage, UserModerationAction
+} from '../../src/protocol/index.js';
+import { ModerationError, resolveTargetOwner } from './reports.js';
+import { DEFAULT_SUSPENSION_DAYS, MAX_SUSPENSION_DAYS } from './standing.js';
+
+export const CONTENT_ACTIONS: ContentModerationAction[] = ['dismiss', 'hide', 'delete', 'warn', 'suspend', 'ban'];
+export const USER_ACTIONS: UserModerationAction[] = ['warn', 'suspend', 'ban', 'reinstate'];
+export const MAX_MODERATION_NOTE_LENGTH = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Delivery {
+  userId: string;
+  message: ServerMessage;
+}
+
+export interface ModerationOutcome {
+  // Pending reports the action closed
+  resolvedReports: number;
+  deliveries: Delivery[];
+}
+
+type AccountAction = 'warn' | 'suspend' | 'ban' | 'reinstate';
+
+function validateOptions(options: ModerationActionOptions): string | undefined {
+  const note = options.note?.trim() || undefined;
+  if (note && note.length > MAX_MODERATION_NOTE_LENGTH) {
+    throw new ModerationError(`Notes must be at most ${MAX_MODERATION_NOTE_LENGTH} characters`);
+  }
+  return note;
+}
+
+function suspensionEnd(days = DEFAULT_SUSPENSION_DAYS, now = Date.now()): string {
+  if (!(Number.isInteger(days) && days > 0 && days <= MAX_SUSPENSION_DAYS)) {
+    throw new ModerationError(`days must be a whole number from 1 to ${MAX_SUSPENSION_DAYS}`);
+  }
+  return new Date(now + days * DAY_MS).toISOString();
+}
+
+function notice(
+  userId: string,
+  action: ModerationNoticePayload['action'],
+  targetType: ReportTargetType,
+  targetId: string,
+  details: { note?: string; until?: string }
+): Delivery {
+  return {
+    userId,
+    message: {
+      kind: 'moderationNotice',
+      payload: { action, targetType, targetId, ...details, timestamp: Date.now() }
+    }
+  };
+}
+
+function newActionId(): string {
+  return `modaction_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Change an account's standing. A ban also ends every session; warnings only
+ * notify. Resolves with when a suspension ends. Moderator accounts answer to
+ * admins only, and admins can at most be reinstated.
+ */
+async function applyAccountAction(
+  db: DatabaseAdapter,
+  user: User,
+  action: AccountAction,
+  moderator: User,
+  options: ModerationActionOptions
+): Promise<string | undefined> {
+  if (user.user_id === moderator.user_id) {
+    throw new ModerationError('You cannot moderate your own account');
+  }
+  if (user.role === 'admin' && action !== 'reinstate') {
+    throw new ModerationError('Admin accounts cannot be moderated');
+  }
+  if (user.role !== 'user' && moderator.role !== 'admin') {
+    throw new ModerationError('Only admins can moderate staff accounts');
+  }
+
+  switch (action) {
+    case 'warn':
+      return undefined;
+    case 'suspend': {
+      const until = suspensionEnd(options.days);
+      await db.updateUser(user.user_id, { moderation_status: 'suspended', suspended_until: until });
+      return until;
+    }
+    case 'ban':
+      await db.updateUser(user.user_id, { moderation_status: 'banned', suspended_until: undefined });
+      await db.revokeUserSessions(user.user_id);
+      return undefined;
+    case 'reinstate':
+      await db.updateUser(user.user_id, { moderation_status: 'active', suspended_until: undefined });
+      return undefined;
+  }
+}
+
+/**
+ * Act on a pending report. hide and delete apply to the reported post or
+ * space; warn, suspend and ban to the account behind it. Every pending report
+ * on the same target is closed with it, dismissed or actioned.
+ */
+export async function applyContentAction(
+  db: DatabaseAdapter,
+  reportId: string,
+  action: ContentModerationAction,
+  moderator: User,
+  options: ModerationActionOptions = {}
+): Promise<ModerationOutcome> {
+  if (!CONTENT_ACTIONS.includes(action)) {
+    throw new ModerationError(`action must be one of ${CONTENT_ACTIONS.join(', ')}`);
+  }
+  const note = validateOptions(options);
+
+  const report = await db.getContentReport(reportId);
+  if (!report || report.status !== 'pending') {
+    throw new ModerationError('Report not found or already resolved');
+  }
+  const { target_type: targetType, target_id: targetId } = report;
+  const deliveries: Delivery[] = [];
+
+  if (action !== 'dismiss') {
+    const ownerId = await resolveTargetOwner(db, targetType, targetId);
+
+    if (action === 'hide' || action === 'delete') {
+      if (targetType === 'user') {
+        throw new ModerationError('Accounts cannot be hidden or deleted; suspend or ban them instead');
+      }
+      if (action === 'hide') {
+        const hidden = { hidden_at: new Date().toISOString() };
+        await (targetType === 'post' ? db.updateBeacon(targetId, hidden) : db.updateSpace(targetId, hidden));
+      } else if (targetType === 'post') {
+        await db.deletePostBeacon(targetId);
+      } else {
+        const deleted: ServerMessage<'spaceDeleted'> = { kind: 'spaceDeleted', payload: { spaceId: targetId } };
+        const members = await purgeSpace(db, targetId);
+        deliveries.push(...members.map(member => ({ userId: member.user_id, message: deleted })));
+      }
+      if (ownerId) {
+        deliveries.push(notice(ownerId, action, targetType, targetId, { note }));
+      }
+    } else {
+      const owner = ownerId ? await db.getUserById(ownerId) : null;
+      if (!owner) {
+        throw new ModerationError('There is no account behind this content to act on');
+      }
+      const until = await applyAccountAction(db, owner, action, moderator, options);
+      deliveries.push(notice(owner.user_id, action, targetType, targetId, { note, until }));
+    }
+  }
+
+  const resolvedReports = await db.resolveReports(
+    targetType, targetId, action === 'dismiss' ? 'dismissed' : 'actioned', action, moderator.user_id
+  );
+  await db.recordModerationAction({
+    action_id: newActionId(),
+    target_type: targetType,
+    target_id: targetId,
+    action,
+    moderator_id: moderator.user_id,
+    report_id: reportId,
+    note
+  });
+
+  return { resolvedReports, deliveries };
+}
+
+// Act on an account directly, closing the pending reports against it
+export async function applyUserAction(
+  db: DatabaseAdapter,
+  userId: string,
+  action: UserModerationAction,
+  moderator: User,
+  options: ModerationActionOptions = {}
+): Promise<ModerationOutcome> {
+  if (!USER_ACTIONS.includes(action)) {
+    throw new ModerationError(`action must be one of ${USER_ACTIONS.join(', ')}`);
+  }
+  const note = validateOptions(options);
+
+  const user = await db.getUserById(userId);
+  if (!user) {
+    throw new ModerationError('User not found');
+  }
+  const until = await applyAccountAction(db, user, action, moderator, options);
+
+  const resolvedReports = action === 'reinstate'
+    ? 0
+    : await db.resolveReports('user', userId, 'actioned', action, moderator.user_id);
+  await db.recordModerationAction({
+    action_id: newActionId(),
+    target_type: 'user',
+    target_id: userId,
+    action,
+    moderator_id: moderator.user_id,
+    note
+  });
+
+  return { resolvedReports, deliveries: [notice(userId, action, 'user', userId, { note, until })] };
+}
+
+export async function deliverOutcome(queue: MessageQueue, outcome: ModerationOutcome): Promise<void> {
+  for (const { userId, message } of outcome.deliveries) {
+    await queue.enqueue(userId, message);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Announcements
+ * Platform-wide notices written by admins. Publishing pushes the announcement
+ * to every account over the message queue; users see it until they dismiss it.
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { Announcement } from '../database/types.js';
+import type { MessageQueue } from '../queue/message-queue.js';
+import type {
+  Announcement as AdminAnnouncement, AnnouncementAction, ClientAnnouncement, CreateAnnouncementRequest,
+  ServerMessage
+} from '../../src/protocol/index.js';
+import { ModerationError } from './reports.js';
+
+export const MAX_ANNOUNCEMENT_TITLE_LENGTH = 200;
+export const MAX_ANNOUNCEMENT_CONTENT_LENGTH = 5000;
+export const ANNOUNCEMENT_ACTIONS: AnnouncementAction[] = ['publish', 'archive'];
+
+// Recipients are loaded this many accounts at a time
+const BROADCAST_PAGE_SIZE = 500;
+
+export function toClientAnnouncement(announcement: Announcement): ClientAnnouncement {
+  return {
+    announcementId: announcement.announcement_id,
+    title: announcement.title,
+    content: announcement.content,
+    publishedAt: announcement.published_at ?? announcement.created_at
+  };
+}
+
+export async function listAdminAnnouncements(db: DatabaseAdapter): Promise<AdminAnnouncement[]> {
+  const announcements = await db.listAnnouncements();
+  const views = await db.getAnnouncementViewCounts(announcements.map(a => a.announcement_id));
+  return announcements.map(a => ({
+    id: a.announcement_id,
+    title: a.title,
+    content: a.content,
+    status: a.status,
+    created: a.created_at,
+    ...(a.published_at && { publishedAt: a.published_at }),
+    views: views.get(a.announcement_id) ?? 0
+  }));
+}
+
+// Saves a draft; publish it separately, see setAnnouncementStatus
+export async function createAnnouncement(
+  db: DatabaseAdapter,
+  authorId: string,
+  request: CreateAnnouncementRequest
+): Promise<Announcement> {
+  const title = typeof request.title === 'string' ? request.title.trim() : '';
+  const content = typeof request.content === 'string' ? request.content.trim() : '';
+
+  if (!title || title.length > MAX_ANNOUNCEMENT_TITLE_LENGTH) {
+    throw new ModerationError(`Title must be between 1 and ${MAX_ANNOUNCEMENT_TITLE_LENGTH} characters`);
+  }
+  if (!content || content.length > MAX_ANNOUNCEMENT_CONTENT_LENGTH) {
+    throw new ModerationError(`Content must be between 1 and ${MAX_ANNOUNCEMENT_CONTENT_LENGTH} characters`);
+  }
+
+  return db.createAnnouncement({
+    announcement_id: `announcement_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    title,
+    content,
+    created_by: authorId
+  });
+}
+
+/**
+ * Publish or archive an announcement. Resolves with whether it has just gone
+ * live, in which case the caller broadcasts it.
+ */
+export async function setAnnouncementStatus(
+  db: DatabaseAdapter,
+  announcementId: string,
+  action: AnnouncementAction
+): Promise<{ announcement: Announcement; published: boolean }> {
+  if (!ANNOUNCEMENT_ACTIONS.includes(action)) {
+    throw new ModerationError(`action must be one of ${ANNOUNCEMENT_ACTIONS.join(', ')}`);
+  }
+
+  const current = await db.getAnnouncement(announcementId);
+  if (!current) {
+    throw new ModerationError('Announcement not found');
+  }
+
+  const status = action === 'publish' ? 'active' : 'archived';
+  const announcement = await db.updateAnnouncementStatus(announcementId, status) ?? current;
+  return { announcement, published: status === 'active' && current.status !== 'active' };
+}
+
+// Pushes the announcement to every account that is not banned
+export async function broadcastAnnouncement(
+  db: DatabaseAdapter,
+  queue: MessageQueue,
+  announcement: Announcement
+): Promise<number> {
+  const message: ServerMessage<'announcement'> = { kind: 'announcement', payload: toClientAnnouncement(announcement) };
+  let delivered = 0;
+
+  for (let offset = 0; ; offset += BROADCAST_PAGE_SIZE) {
+    const users = await db.listUsers(BROADCAST_PAGE_SIZE, offset);
+    const recipients = users.filter(user => user.moderation_status !== 'banned').map(user => user.user_id);
+    delivered += (await queue.fanOut(recipients, message)).length;
+    if (users.length < BROADCAST_PAGE_SIZE) {
+      return delivered;
+    }
+  }
+}
+
+// Live announcements the user has not dismissed; showing them counts as a view
+export async function getUserAnnouncements(db: DatabaseAdapter, userId: string): Promise<ClientAnnouncement[]> {
+  const announcements = await db.getUndismissedAnnouncements(userId);
+  await db.recordAnnouncementViews(userId, announcements.map(a => a.announcement_id));
+  return announcements.map(toClientAnnouncement);
+}
@@ -0,0 +1,104 @@
+/**
+ * Content Reports
+ * What users may report and the checks a report passes before it reaches the
+ * moderation queue
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { ContentReport } from '../database/types.js';
+import type { ReportReason, ReportTargetType } from '../../src/protocol/index.js';
+
+export const REPORT_TARGET_TYPES: ReportTargetType[] = ['post', 'user', 'space'];
+
+export const REPORT_REASONS: ReportReason[] = [
+  'spam', 'harassment', 'hate', 'violence', 'explicit', 'misinformation', 'other'
+];
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+// A request that cannot be carried out; the message is safe to show the caller
+export class ModerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+export interface ReportSubmission {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+// The user a target belongs to: a post's author, a space's owner or the user
+// themselves. Rejects when the target does not exist.
+export async function resolveTargetOwner(
+  db: DatabaseAdapter,
+  targetType: ReportTargetType,
+  targetId: string
+): Promise<string | null> {
+  switch (targetType) {
+    case 'post': {
+      const post = await db.getBeaconById(targetId);
+      if (!post || post.beacon_type !== 'post') {
+        throw new ModerationError('Post not found');
+      }
+      return post.author_id;
+    }
+    case 'user': {
+      const user = await db.getUserById(targetId);
+      if (!user) {
+        throw new ModerationError('User not found');
+      }
+      return user.user_id;
+    }
+    case 'space': {
+      const space = await db.getSpaceById(targetId);
+      if (!space) {
+        throw new ModerationError(`Space not found: ${targetId}`);
+      }
+      return space.owner_id ?? null;
+    }
+  }
+}
+
+/**
+ * File a report. Users cannot report themselves or their own content, and
+ * each user has at most one open report per target.
+ */
+export async function submitReport(
+  db: DatabaseAdapter,
+  reporterId: string,
+  submission: ReportSubmission
+): Promise<ContentReport> {
+  const { targetType, targetId, reason } = submission;
+  const details = submission.details?.trim() || undefined;
+
+  if (!REPORT_TARGET_TYPES.includes(targetType)) {
+    throw new ModerationError(`targetType must be one of ${REPORT_TARGET_TYPES.join(', ')}`);
+  }
+  if (!REPORT_REASONS.includes(reason)) {
+    throw new ModerationError(`reason must be one of ${REPORT_REASONS.join(', ')}`);
+  }
+  if (details && details.length > MAX_REPORT_DETAILS_LENGTH) {
+    throw new ModerationError(`Details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters`);
+  }
+
+  if (await resolveTargetOwner(db, targetType, targetId) === reporterId) {
+    throw new ModerationError('You cannot report yourself or your own content');
+  }
+
+  const report = await db.createContentReport({
+    report_id: `report_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    target_type: targetType,
+    target_id: targetId,
+    reporter_id: reporterId,
+    reason,
+    details
+  });
+  if (!report) {
+    throw new ModerationError('You have already reported this');
+  }
+  return report;
+}
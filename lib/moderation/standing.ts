@@ -0,0 +1,58 @@
+/**
+ * Account Standing
+ * What a suspended or banned account may still do. Suspensions end on their
+ * own: once suspended_until passes the account reads as active again.
+ */
+
+import type { User } from '../database/types.js';
+import type { AccountStanding, ErrorCode, RequestKind } from '../../src/protocol/index.js';
+
+export const DEFAULT_SUSPENSION_DAYS = 7;
+export const MAX_SUSPENSION_DAYS = 365;
+
+// Everything that posts, reaches out to other users or joins something new.
+// Reading, leaving, deleting one's own content and reporting stay open.
+export const SUSPENDED_BLOCKED_KINDS: ReadonlySet<RequestKind> = new Set<RequestKind>([
+  'submitPostBeacon',
+  'follow',
+  'createSpace',
+  'joinSpace',
+  'createSpaceInvite',
+  'acceptSpaceInvite',
+  'updateSpaceSettings',
+  'submitCommentBeacon',
+  'editComment',
+  'likePost',
+  'addFileToSpace',
+  'sendPrivateMessage',
+  'setTyping',
+  'requestTeleport'
+]);
+
+export function currentStanding(user: User, now = Date.now()): AccountStanding {
+  if (user.moderation_status === 'suspended' && user.suspended_until && Date.parse(user.suspended_until) <= now) {
+    return 'active';
+  }
+  return user.moderation_status;
+}
+
+export interface StandingRestriction {
+  code: Extract<ErrorCode, 'UNAUTHENTICATED' | 'SUSPENDED'>;
+  message: string;
+}
+
+// Why a request must be refused, or null when the account may send it. A
+// banned account's sessions are revoked, so it is treated as signed out.
+export function standingRestriction(user: User, kind: RequestKind, now = Date.now()): StandingRestriction | null {
+  const standing = currentStanding(user, now);
+  if (standing === 'banned') {
+    return { code: 'UNAUTHENTICATED', message: 'This account has been banned' };
+  }
+  if (standing === 'suspended' && SUSPENDED_BLOCKED_KINDS.has(kind)) {
+    return {
+      code: 'SUSPENDED',
+      message: user.suspended_until ? `This account is suspended until ${user.suspended_until}` : 'This account is suspended'
+    };
+  }
+  return null;
+}
@@ -0,0 +1,161 @@
+/**
+ * Moderation Views
+ * The report queue and the per-user and per-space figures shown in the
+ * content admin console
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { Beacon, ContentReport, User, UserActivityStats } from '../database/types.js';
+import type { ReportedContent, SpaceStat, UserStat } from '../../src/protocol/index.js';
+import { currentStanding } from './standing.js';
+
+// Reports are grouped per target after loading, so a busy queue shows fewer
+// entries than this
+export const MAX_QUEUE_REPORTS = 500;
+export const DEFAULT_STATS_PAGE_SIZE = 50;
+export const MAX_STATS_PAGE_SIZE = 200;
+
+export interface StatsQuery {
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+function pageSize(limit?: number): number {
+  return Math.min(limit && limit > 0 ? limit : DEFAULT_STATS_PAGE_SIZE, MAX_STATS_PAGE_SIZE);
+}
+
+async function usernamesById(db: DatabaseAdapter, userIds: (string | undefined)[]): Promise<Map<string, string>> {
+  const usernames = new Map<string, string>();
+  for (const id of new Set(userIds)) {
+    const user = id ? await db.getUserById(id) : null;
+    if (user) {
+      usernames.set(user.user_id, user.username);
+    }
+  }
+  return usernames;
+}
+
+// Posts keep their text in metadata.originalText, either plain or as JSON
+// with a content field
+function postText(post: Beacon): string {
+  const text = post.metadata?.originalText;
+  if (typeof text !== 'string') {
+    return '[No text content]';
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed?.content === 'string' ? parsed.content : text;
+  } catch {
+    return text;
+  }
+}
+
+async function describeTarget(
+  db: DatabaseAdapter,
+  report: ContentReport
+): Promise<{ content: string; authorId?: string }> {
+  switch (report.target_type) {
+    case 'post': {
+      const post = await db.getBeaconById(report.target_id);
+      return post ? { content: postText(post), authorId: post.author_id } : { content: '[Deleted post]' };
+    }
+    case 'user': {
+      const user = await db.getUserById(report.target_id);
+      return user ? { content: `Profile of ${user.username}`, authorId: user.user_id } : { content: '[Deleted user]' };
+    }
+    case 'space': {
+      const space = await db.getSpaceById(report.target_id);
+      return space
+        ? { content: [space.name, space.description].filter(Boolean).join(' — '), authorId: space.owner_id }
+        : { content: '[Deleted space]' };
+    }
+  }
+}
+
+/**
+ * Pending reports grouped by target, oldest first. Each entry carries the
+ * first report's id, reporter and time, and every distinct reason given.
+ */
+export async function buildReportQueue(db: DatabaseAdapter): Promise<ReportedContent[]> {
+  const groups = new Map<string, ContentReport[]>();
+  for (const report of await db.getPendingReports(MAX_QUEUE_REPORTS)) {
+    const key = `${report.target_type}:${report.target_id}`;
+    groups.set(key, [...(groups.get(key) ?? []), report]);
+  }
+
+  const entries: ReportedContent[] = [];
+  for (const reports of groups.values()) {
+    const [first] = reports;
+    const { content, authorId } = await describeTarget(db, first);
+    const usernames = await usernamesById(db, [authorId, first.reporter_id]);
+
+    entries.push({
+      id: first.report_id,
+      type: first.target_type,
+      targetId: first.target_id,
+      content,
+      author: (authorId && usernames.get(authorId)) || 'unknown',
+      reporter: usernames.get(first.reporter_id) ?? 'unknown',
+      reason: [...new Set(reports.map(report => report.reason))].join(', '),
+      timestamp: first.created_at,
+      status: 'pending',
+      reportCount: reports.length
+    });
+  }
+  return entries;
+}
+
+function toUserStat(user: User, stats: Map<string, UserActivityStats>): UserStat {
+  const activity = stats.get(user.user_id);
+  const standing = currentStanding(user);
+  return {
+    id: user.user_id,
+    name: user.username,
+    username: user.username,
+    status: standing,
+    role: user.role,
+    joinDate: user.created_at,
+    posts: activity?.post_count ?? 0,
+    followers: activity?.follower_count ?? 0,
+    reports: activity?.pending_reports ?? 0,
+    lastActive: activity?.last_active_at ?? user.created_at,
+    ...(standing === 'suspended' && user.suspended_until && { suspendedUntil: user.suspended_until })
+  };
+}
+
+// Newest accounts first, or search matches by username; banned accounts are
+// included either way
+export async function buildUserStats(db: DatabaseAdapter, query: StatsQuery = {}): Promise<UserStat[]> {
+  const limit = pageSize(query.limit);
+  const offset = Math.max(query.offset ?? 0, 0);
+  const search = query.search?.trim();
+
+  const users = search
+    ? (await db.searchUsers(search, { limit, offset, include_banned: true })).results
+    : await db.listUsers(limit, offset);
+  const stats = await db.getUserActivityStats(users.map(user => user.user_id));
+  return users.map(user => toUserStat(user, stats));
+}
+
+// Every space, private and hidden ones included, newest first
+export async function buildSpaceStats(db: DatabaseAdapter, query: StatsQuery = {}): Promise<SpaceStat[]> {
+  const spaces = await db.listSpaces(pageSize(query.limit), Math.max(query.offset ?? 0, 0));
+  const spaceIds = spaces.map(space => space.space_id);
+  const [memberCounts, activity, usernames] = await Promise.all([
+    db.getSpaceMemberCounts(spaceIds),
+    db.getSpaceActivityStats(spaceIds),
+    usernamesById(db, spaces.map(space => space.owner_id))
+  ]);
+
+  return spaces.map(space => ({
+    id: space.space_id,
+    name: space.name,
+    creator: (space.owner_id && usernames.get(space.owner_id)) || 'unknown',
+    members: memberCounts.get(space.space_id) ?? 0,
+    posts: activity.get(space.space_id)?.post_count ?? 0,
+    status: space.hidden_at ? 'hidden' : 'active',
+    created: space.created_at,
+    reports: activity.get(space.space_id)?.pending_reports ?? 0
+  }));
+}
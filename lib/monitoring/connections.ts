@@ -0,0 +1,50 @@
+/**
+ * Event Stream Connections
+ * Open /api/events streams in this process and the users behind them
+ */
+
+export interface ConnectionCounts {
+  streams: number;
+  anonymousStreams: number;
+  users: number;
+}
+
+// Streams per signed-in user; a user with several tabs open counts once
+const userStreams = new Map<string, number>();
+let anonymousStreams = 0;
+
+/**
+ * Count a stream as open. Call the returned function when it closes; extra
+ * calls are ignored, so it is safe from both the close and error handlers.
+ */
+export function trackEventStream(userId?: string): () => void {
+  if (userId) {
+    userStreams.set(userId, (userStreams.get(userId) ?? 0) + 1);
+  } else {
+    anonymousStreams++;
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    if (!userId) {
+      anonymousStreams--;
+      return;
+    }
+    const remaining = (userStreams.get(userId) ?? 1) - 1;
+    if (remaining > 0) {
+      userStreams.set(userId, remaining);
+    } else {
+      userStreams.delete(userId);
+    }
+  };
+}
+
+export function getConnectionCounts(): ConnectionCounts {
+  let streams = anonymousStreams;
+  for (const count of userStreams.values()) {
+    streams += count;
+  }
+  return { streams, anonymousStreams, users: userStreams.size };
+}
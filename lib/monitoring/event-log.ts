@@ -0,0 +1,66 @@
+/**
+ * System Event Log
+ * Structured, levelled server events for the admin console. Events are kept in
+ * memory per process (the newest MAX_SYSTEM_EVENTS) and echoed to the console.
+ */
+
+import type { SystemEvent, SystemEventLevel, SystemEventStatus } from '../../src/protocol/index.js';
+
+export const MAX_SYSTEM_EVENTS = 500;
+
+const DEFAULT_STATUS: Record<SystemEventLevel, SystemEventStatus> = {
+  INFO: 'info',
+  WARN: 'warning',
+  ERROR: 'error'
+};
+
+const CONSOLE: Record<SystemEventLevel, (...args: unknown[]) => void> = {
+  INFO: console.log,
+  WARN: console.warn,
+  ERROR: console.error
+};
+
+let events: SystemEvent[] = [];
+
+/**
+ * Record an event. `detail` (usually the caught error) goes to the console
+ * only; the stored message is what admins see.
+ */
+export function logSystemEvent(
+  level: SystemEventLevel,
+  system: string,
+  message: string,
+  options: { status?: SystemEventStatus; detail?: unknown } = {}
+): SystemEvent {
+  const timestamp = Date.now();
+  const event: SystemEvent = {
+    time: new Date(timestamp).toISOString().slice(11, 19),
+    timestamp,
+    level,
+    system,
+    message,
+    status: options.status ?? DEFAULT_STATUS[level]
+  };
+
+  events.push(event);
+  if (events.length > MAX_SYSTEM_EVENTS) {
+    events = events.slice(-MAX_SYSTEM_EVENTS);
+  }
+
+  const prefix = `[${system.toUpperCase()}] ${message}`;
+  if (options.detail === undefined) {
+    CONSOLE[level](prefix);
+  } else {
+    CONSOLE[level](`${prefix}:`, options.detail);
+  }
+  return event;
+}
+
+// Newest first
+export function getSystemEvents(limit = MAX_SYSTEM_EVENTS): SystemEvent[] {
+  return limit > 0 ? events.slice(-limit).reverse() : [];
+}
+
+export function clearSystemEvents(): void {
+  events = [];
+}
@@ -0,0 +1,41 @@
+/**
+ * Request Metrics Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  METRICS_WINDOW_MS, getInFlightRequests, getRequestLatency, recordRequest, resetRequestMetrics, startRequest
+} from './request-metrics';
+
+describe('request metrics', () => {
+  beforeEach(() => {
+    resetRequestMetrics();
+  });
+
+  it('buckets latencies and reports percentiles and errors over the window', () => {
+    const now = Date.now();
+    recordRequest(30, 200, now - METRICS_WINDOW_MS - 1);
+    for (const duration of [3, 8, 40, 40, 90, 120, 300, 700, 2000, 9000]) {
+      recordRequest(duration, duration > 1000 ? 500 : 200, now);
+    }
+
+    const latency = getRequestLatency(now);
+    expect(latency.requests).toBe(10);
+    expect(latency.errors).toBe(2);
+    expect(latency.avgMs).toBeCloseTo(1230.1);
+    expect(latency.p50Ms).toBe(90);
+    expect(latency.p95Ms).toBe(9000);
+    expect(latency.buckets.map(bucket => bucket.count)).toEqual([1, 1, 0, 2, 1, 1, 1, 1, 1, 0, 1]);
+    expect(latency.buckets[latency.buckets.length - 1].le).toBeNull();
+  });
+
+  it('counts a request in flight until it finishes once', () => {
+    const finish = startRequest();
+    expect(getInFlightRequests()).toBe(1);
+
+    finish(200);
+    finish(200);
+    expect(getInFlightRequests()).toBe(0);
+    expect(getRequestLatency().requests).toBe(1);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Request Metrics
+ * Latency, throughput and error rate of API requests handled by this process,
+ * over a sliding window. Event streams stay open for as long as a client is
+ * connected, so they are counted as connections instead (see connections.ts).
+ */
+
+import type { LatencyBucket, RequestLatency } from '../../src/protocol/index.js';
+
+// Upper bounds in milliseconds; anything slower lands in a final open bucket
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+export const METRICS_WINDOW_MS = 5 * 60 * 1000;
+// Bounds memory under heavy load; the window then covers fewer than 5 minutes
+const MAX_SAMPLES = 10000;
+
+interface RequestSample {
+  finishedAt: number;
+  durationMs: number;
+  statusCode: number;
+}
+
+let samples: RequestSample[] = [];
+let inFlight = 0;
+
+function prune(now: number): void {
+  const cutoff = now - METRICS_WINDOW_MS;
+  const firstKept = samples.findIndex(sample => sample.finishedAt > cutoff);
+  samples = firstKept === -1 ? [] : samples.slice(Math.max(firstKept, samples.length - MAX_SAMPLES));
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+export function recordRequest(durationMs: number, statusCode: number, now = Date.now()): void {
+  samples.push({ finishedAt: now, durationMs, statusCode });
+  if (samples.length > MAX_SAMPLES) {
+    prune(now);
+  }
+}
+
+/**
+ * Mark a request as started. Call the returned function with the response
+ * status once it finishes; it returns how long the request took.
+ */
+export function startRequest(): (statusCode: number) => number {
+  const startedAt = performance.now();
+  let finished = false;
+  inFlight++;
+
+  return statusCode => {
+    const durationMs = performance.now() - startedAt;
+    if (!finished) {
+      finished = true;
+      inFlight--;
+      recordRequest(durationMs, statusCode);
+    }
+    return durationMs;
+  };
+}
+
+export function getInFlightRequests(): number {
+  return inFlight;
+}
+
+export function getRequestLatency(now = Date.now()): RequestLatency {
+  prune(now);
+  const durations = samples.map(sample => sample.durationMs).sort((a, b) => a - b);
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+
+  const buckets: LatencyBucket[] = [...LATENCY_BUCKETS_MS, null].map(le => ({ le, count: 0 }));
+  for (const duration of durations) {
+    const index = LATENCY_BUCKETS_MS.findIndex(le => duration <= le);
+    buckets[index === -1 ? buckets.length - 1 : index].count++;
+  }
+
+  return {
+    windowSeconds: METRICS_WINDOW_MS / 1000,
+    requests: durations.length,
+    errors: samples.filter(sample => sample.statusCode >= 500).length,
+    avgMs: durations.length ? total / durations.length : 0,
+    p50Ms: percentile(durations, 0.5),
+    p95Ms: percentile(durations, 0.95),
+    buckets
+  };
+}
+
+export function resetRequestMetrics(): void {
+  samples = [];
+  inFlight = 0;
+}
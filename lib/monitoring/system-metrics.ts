@@ -0,0 +1,93 @@
+/**
+ * System Metrics
+ * Builds the admin console's metrics and node list from the database, the
+ * process and the request and connection counters. Every process reports on
+ * itself; there is no cross-instance aggregation.
+ */
+
+import { cpus, hostname, loadavg } from 'os';
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { NodeHealth, NodeStatus, RequestLatency, SystemMetrics } from '../../src/protocol/index.js';
+import { getConnectionCounts } from './connections.js';
+import { getInFlightRequests, getRequestLatency } from './request-metrics.js';
+
+export function formatUptime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${Math.floor(minutes / 1440)}d ${Math.floor((minutes % 1440) / 60)}h ${minutes % 60}m`;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${parseFloat(value.toFixed(1))} ${units[unit]}`;
+}
+
+function requestsPerSecond(latency: RequestLatency): number {
+  return latency.requests / latency.windowSeconds;
+}
+
+// Share of requests that did not fail on our side; an idle server is healthy
+function successRatio(latency: RequestLatency): number {
+  return latency.requests === 0 ? 1 : (latency.requests - latency.errors) / latency.requests;
+}
+
+export async function buildSystemMetrics(db: DatabaseAdapter): Promise<SystemMetrics> {
+  const stats = await db.getStats();
+  const latency = getRequestLatency();
+  const connections = getConnectionCounts();
+  const memory = process.memoryUsage();
+
+  return {
+    uptime: formatUptime(process.uptime()),
+    totalUsers: stats.total_users,
+    activeUsers: connections.users,
+    totalSpaces: stats.total_spaces,
+    totalFiles: stats.total_files,
+    storageUsed: formatBytes(stats.file_storage_bytes),
+    storageCapacity: formatBytes(stats.database_size_mb * 1024 * 1024),
+    networkThroughput: `${requestsPerSecond(latency).toFixed(2)} req/s`,
+    avgResponseTime: `${Math.round(latency.avgMs)}ms`,
+    resonanceSystemHealth: successRatio(latency),
+    quantumProcessors: cpus().length,
+    primeGenerators: stats.connection_count,
+    activeResonanceLocks: connections.streams,
+    pendingSummons: getInFlightRequests(),
+    memory: {
+      rssBytes: memory.rss,
+      heapUsedBytes: memory.heapUsed,
+      heapTotalBytes: memory.heapTotal
+    },
+    latency
+  };
+}
+
+/**
+ * This instance as a node. Load is the one-minute load average per CPU; the
+ * node is degraded when busy or when requests start failing.
+ */
+export function buildNodeStatus(): NodeStatus[] {
+  const latency = getRequestLatency();
+  const load = loadavg()[0] / Math.max(1, cpus().length);
+  const health = successRatio(latency);
+
+  let status: NodeHealth = 'healthy';
+  if (load > 1 || health < 0.9) {
+    status = 'error';
+  } else if (load > 0.8 || health < 0.99) {
+    status = 'warning';
+  }
+
+  return [{
+    id: `${hostname()}:${process.pid}`,
+    region: process.env.NODE_REGION || process.env.VERCEL_REGION || 'local',
+    status,
+    load,
+    resonanceOps: Math.round(requestsPerSecond(latency) * 100) / 100,
+    uptime: formatUptime(process.uptime())
+  }];
+}
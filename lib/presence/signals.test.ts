@@ -0,0 +1,103 @@
+/**
+ * Presence and Typing Signal Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers } from '../database/test-fixtures';
+import { sendDirectMessage } from '../messaging/direct-messages';
+import {
+  SIGNAL_RATE_LIMIT, SignalError, TYPING_INDICATOR_MS, TYPING_REFRESH_MS, allowSignal, presenceSignal, typingSignal,
+  visiblePresence
+} from './signals';
+import { OFFLINE_GRACE_MS, getPresence, setAway, trackPresence } from './tracker';
+
+describe('presence and typing signals', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['alice', 'bob', 'carol', 'dave']);
+    // alice and bob talk directly; alice and carol share a space dave only asked to join
+    await sendDirectMessage(db, 'alice', 'bob', 'hello');
+    await db.createSpace({ space_id: 'space_1', name: 'Space', owner_id: 'alice', is_public: true });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'alice', role: 'owner', status: 'active' });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'carol', role: 'contributor', status: 'active' });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'dave', role: 'contributor', status: 'pending' });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.disconnect();
+  });
+
+  it('sends presence only to contacts and shows it only to them', async () => {
+    const signal = await presenceSignal(db, { userId: 'alice', status: 'online' });
+    expect(signal.userIds.sort()).toEqual(['bob', 'carol']);
+    expect(signal.message).toEqual({ kind: 'presenceUpdate', payload: { userId: 'alice', status: 'online' } });
+
+    const seen = await visiblePresence(db, 'bob', ['alice', 'carol', 'bob']);
+    expect(seen.map(p => p.userId)).toEqual(['alice', 'bob']);
+    expect(await visiblePresence(db, 'dave', ['alice'])).toEqual([]);
+  });
+
+  it('throttles repeated typing and drops stops that follow nothing', async () => {
+    const now = 1_000_000;
+    const start = await typingSignal(db, 'alice', { partnerId: 'bob' }, true, now);
+    expect(start?.userIds).toEqual(['bob']);
+    expect(start?.message.payload).toMatchObject({
+      userId: 'alice', userName: 'name_alice', typing: true, expiresAt: now + TYPING_INDICATOR_MS
+    });
+
+    expect(await typingSignal(db, 'alice', { partnerId: 'bob' }, true, now + 1)).toBeNull();
+    expect(await typingSignal(db, 'alice', { partnerId: 'bob' }, true, now + TYPING_REFRESH_MS)).not.toBeNull();
+    expect(await typingSignal(db, 'alice', { partnerId: 'bob' }, false, now + TYPING_REFRESH_MS + 1)).not.toBeNull();
+    expect(await typingSignal(db, 'alice', { partnerId: 'bob' }, false, now + TYPING_REFRESH_MS + 2)).toBeNull();
+
+    const space = await typingSignal(db, 'carol', { spaceId: 'space_1' }, true, now);
+    expect(space?.userIds).toEqual(['alice']);
+    expect(space?.message.payload).toMatchObject({ spaceId: 'space_1', typing: true });
+  });
+
+  it('refuses typing outside a conversation or active membership', async () => {
+    await expect(typingSignal(db, 'carol', { partnerId: 'bob' }, true)).rejects.toThrow(SignalError);
+    await expect(typingSignal(db, 'dave', { spaceId: 'space_1' }, true)).rejects.toThrow(SignalError);
+  });
+
+  it('limits how many signals a user sends in a window', () => {
+    const now = 5_000_000;
+    for (let i = 0; i < SIGNAL_RATE_LIMIT; i++) {
+      expect(allowSignal('limited', now)).toBe(true);
+    }
+    expect(allowSignal('limited', now)).toBe(false);
+    expect(allowSignal('limited', now + 60 * 1000)).toBe(true);
+  });
+
+  it('tracks presence from streams with a grace period before going offline', () => {
+    vi.useFakeTimers();
+    const onChange = vi.fn();
+
+    const releaseFirst = trackPresence('erin', onChange);
+    const releaseSecond = trackPresence('erin', onChange);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenLastCalledWith({ userId: 'erin', status: 'online' });
+
+    expect(setAway('erin', true)).toBe(true);
+    expect(setAway('erin', true)).toBe(false);
+    expect(getPresence('erin').status).toBe('away');
+
+    releaseFirst();
+    releaseSecond();
+    vi.advanceTimersByTime(OFFLINE_GRACE_MS - 1);
+    const releaseReload = trackPresence('erin', onChange);
+    vi.advanceTimersByTime(OFFLINE_GRACE_MS);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    releaseReload();
+    releaseReload();
+    vi.advanceTimersByTime(OFFLINE_GRACE_MS);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange.mock.calls[1][0]).toMatchObject({ userId: 'erin', status: 'offline', lastSeen: expect.any(Number) });
+    expect(setAway('erin', false)).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Presence and Typing Signals
+ * Who hears about a user's presence and typing, and how often. Both only go
+ * to contacts, people who share a conversation or an active space membership
+ * with the user, and are sent as queue signals so they are never stored.
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { ServerMessage, UserPresence, UserTypingPayload } from '../../src/protocol/index.js';
+import { getPresence } from './tracker.js';
+
+// How long an indicator shows without a fresh typing: true
+export const TYPING_INDICATOR_MS = 6 * 1000;
+// Repeated typing: true signals for the same target inside this are dropped
+export const TYPING_REFRESH_MS = 3 * 1000;
+// Typing and presence requests allowed per user in each window
+export const SIGNAL_RATE_LIMIT = 30;
+export const SIGNAL_RATE_WINDOW_MS = 10 * 1000;
+export const MAX_PRESENCE_QUERY = 100;
+
+// A signal that cannot be sent; the message is safe to show the caller
+export class SignalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignalError';
+  }
+}
+
+export interface Signal {
+  userIds: string[];
+  message: ServerMessage;
+}
+
+export type TypingTarget = { partnerId: string } | { spaceId: string };
+
+// Past this many entries, the bookkeeping maps drop whatever has lapsed
+const SWEEP_THRESHOLD = 1000;
+
+// Signal times per user inside the current window
+const recentSignals = new Map<string, number[]>();
+// When each user last sent typing: true to each target; absent once they stop
+const typingSince = new Map<string, number>();
+
+function sweep(now: number): void {
+  if (recentSignals.size > SWEEP_THRESHOLD) {
+    for (const [userId, times] of recentSignals) {
+      if (times.every(time => now - time >= SIGNAL_RATE_WINDOW_MS)) {
+        recentSignals.delete(userId);
+      }
+    }
+  }
+  if (typingSince.size > SWEEP_THRESHOLD) {
+    for (const [key, startedAt] of typingSince) {
+      if (now - startedAt >= TYPING_INDICATOR_MS) {
+        typingSince.delete(key);
+      }
+    }
+  }
+}
+
+// Counts the signal towards the user's limit; false once they are over it
+export function allowSignal(userId: string, now = Date.now()): boolean {
+  sweep(now);
+  const times = (recentSignals.get(userId) ?? []).filter(time => now - time < SIGNAL_RATE_WINDOW_MS);
+  if (times.length >= SIGNAL_RATE_LIMIT) {
+    recentSignals.set(userId, times);
+    return false;
+  }
+  times.push(now);
+  recentSignals.set(userId, times);
+  return true;
+}
+
+/**
+ * The user's presence for their contacts. Connection changes are not rate
+ * limited: the tracker's grace period already keeps them infrequent.
+ */
+export async function presenceSignal(db: DatabaseAdapter, presence: UserPresence): Promise<Signal> {
+  return {
+    userIds: await db.getContactUserIds(presence.userId),
+    message: { kind: 'presenceUpdate', payload: presence }
+  };
+}
+
+// Presence of the requested users the viewer may see, the viewer included
+export async function visiblePresence(db: DatabaseAdapter, viewerId: string, userIds: string[]): Promise<UserPresence[]> {
+  if (userIds.length > MAX_PRESENCE_QUERY) {
+    throw new SignalError(`Presence can be requested for at most ${MAX_PRESENCE_QUERY} users at a time`);
+  }
+  const visible = new Set(await db.getContactUserIds(viewerId));
+  visible.add(viewerId);
+  return [...new Set(userIds)].filter(userId => visible.has(userId)).map(getPresence);
+}
+
+/**
+ * The typing signal for a conversation or space, or null when it would tell
+ * the recipients nothing new or the user is over the rate limit.
+ */
+export async function typingSignal(
+  db: DatabaseAdapter,
+  userId: string,
+  target: TypingTarget,
+  typing: boolean,
+  now = Date.now()
+): Promise<Signal | null> {
+  let recipients: string[];
+  let scope: Pick<UserTypingPayload, 'conversationId' | 'spaceId'>;
+
+  if ('partnerId' in target) {
+    const conversationId = await db.findDirectConversation(userId, target.partnerId);
+    if (!conversationId) {
+      throw new SignalError('You have no conversation with this user');
+    }
+    recipients = [target.partnerId];
+    scope = { conversationId };
+  } else {
+    const membership = await db.getSpaceMember(target.spaceId, userId);
+    if (membership?.status !== 'active') {
+      throw new SignalError('You are not a member of this space');
+    }
+    const members = await db.getSpaceMembers(target.spaceId, 'active');
+    recipients = members.map(member => member.user_id).filter(memberId => memberId !== userId);
+    scope = { spaceId: target.spaceId };
+  }
+
+  const key = `${userId}:${scope.conversationId ?? `space:${scope.spaceId}`}`;
+  const startedAt = typingSince.get(key);
+  const showing = startedAt !== undefined && now - startedAt < TYPING_INDICATOR_MS;
+  const fresh = startedAt !== undefined && now - startedAt < TYPING_REFRESH_MS;
+  if (typing ? fresh : !showing) {
+    return null;
+  }
+  if (recipients.length === 0 || !allowSignal(userId, now)) {
+    return null;
+  }
+
+  if (typing) {
+    typingSince.set(key, now);
+  } else {
+    typingSince.delete(key);
+  }
+
+  const user = await db.getUserById(userId);
+  const payload: UserTypingPayload = {
+    userId,
+    userName: user?.username ?? userId,
+    ...scope,
+    typing,
+    timestamp: now,
+    ...(typing && { expiresAt: now + TYPING_INDICATOR_MS })
+  };
+  return { userIds: recipients, message: { kind: 'userTyping', payload } };
+}
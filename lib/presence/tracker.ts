@@ -0,0 +1,82 @@
+/**
+ * Presence Tracker
+ * Status of users with /api/events streams open in this process. A user is
+ * online while any of their streams is open, unless they have said they are
+ * away, and goes offline once the last one has stayed closed for
+ * OFFLINE_GRACE_MS, so reloading a page does not flicker. Like the
+ * connection counts, this only knows about streams held by this process.
+ */
+
+import type { UserPresence } from '../../src/protocol/index.js';
+
+export const OFFLINE_GRACE_MS = 15 * 1000;
+
+interface PresenceEntry {
+  streams: number;
+  away: boolean;
+  lastSeen?: number;
+  // Set while the last stream is closed but the grace period has not run out
+  offlineTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Kept after users go offline so their last seen time can be reported
+const entries = new Map<string, PresenceEntry>();
+
+function isConnected(entry: PresenceEntry): boolean {
+  return entry.streams > 0 || entry.offlineTimer !== undefined;
+}
+
+export function getPresence(userId: string): UserPresence {
+  const entry = entries.get(userId);
+  if (entry && isConnected(entry)) {
+    return { userId, status: entry.away ? 'away' : 'online' };
+  }
+  return { userId, status: 'offline', ...(entry?.lastSeen !== undefined && { lastSeen: entry.lastSeen }) };
+}
+
+/**
+ * Count a stream towards the user's presence. onChange runs when the user
+ * comes online and again when they go offline after the returned function
+ * releases their last stream; like trackEventStream, extra calls are ignored.
+ */
+export function trackPresence(userId: string, onChange: (presence: UserPresence) => void): () => void {
+  const entry = entries.get(userId) ?? { streams: 0, away: false };
+  entries.set(userId, entry);
+
+  const cameOnline = !isConnected(entry);
+  if (entry.offlineTimer) {
+    clearTimeout(entry.offlineTimer);
+    entry.offlineTimer = undefined;
+  }
+  entry.streams++;
+  if (cameOnline) {
+    entry.away = false;
+    onChange(getPresence(userId));
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    entry.streams--;
+    if (entry.streams > 0) return;
+
+    entry.lastSeen = Date.now();
+    entry.offlineTimer = setTimeout(() => {
+      entry.offlineTimer = undefined;
+      onChange(getPresence(userId));
+    }, OFFLINE_GRACE_MS);
+    // A pending offline notice never keeps the process alive
+    entry.offlineTimer.unref?.();
+  };
+}
+
+// Returns false when nothing changed, including for users with no open stream
+export function setAway(userId: string, away: boolean): boolean {
+  const entry = entries.get(userId);
+  if (!entry || !isConnected(entry) || entry.away === away) {
+    return false;
+  }
+  entry.away = away;
+  return true;
+}
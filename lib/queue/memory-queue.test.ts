@@ -0,0 +1,98 @@
+/**
+ * In-Memory Message Queue Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { InMemoryMessageQueue } from './memory-queue';
+import { MAX_RETAINED_PER_USER } from './message-queue';
+
+const heartbeat = (timestamp: number) => ({ kind: 'heartbeat' as const, payload: { timestamp } });
+
+describe('InMemoryMessageQueue', () => {
+  it('hands pending messages out once, oldest first', async () => {
+    const queue = new InMemoryMessageQueue();
+    await queue.enqueue('user_a', heartbeat(1));
+    await queue.enqueue('user_a', heartbeat(2));
+    await queue.enqueue('user_b', heartbeat(3));
+
+    const taken = await queue.takePending('user_a');
+    expect(taken.map(entry => entry.message.payload)).toEqual([{ timestamp: 1 }, { timestamp: 2 }]);
+    expect(taken[0].id).toBeLessThan(taken[1].id);
+    expect(await queue.takePending('user_a')).toEqual([]);
+    expect(await queue.takePending('user_b')).toHaveLength(1);
+  });
+
+  it('numbers messages past those of a queue started earlier', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const earlier = new InMemoryMessageQueue();
+      let last = 0;
+      for (let i = 0; i < 10; i++) {
+        last = (await earlier.enqueue('user_a', heartbeat(i))).id;
+      }
+
+      vi.setSystemTime(Date.now() + 1);
+      const restarted = new InMemoryMessageQueue();
+      expect((await restarted.enqueue('user_a', heartbeat(10))).id).toBeGreaterThan(last);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps delivered messages replayable after an id', async () => {
+    const queue = new InMemoryMessageQueue();
+    const first = await queue.enqueue('user_a', heartbeat(1));
+    await queue.enqueue('user_a', heartbeat(2));
+    await queue.takePending('user_a');
+    await queue.enqueue('user_a', heartbeat(3));
+
+    const replayed = await queue.readSince('user_a', first.id);
+    expect(replayed.map(entry => entry.message.payload)).toEqual([{ timestamp: 2 }, { timestamp: 3 }]);
+    expect(replayed[0].deliveredAt).toBeDefined();
+    expect(replayed[1].deliveredAt).toBeUndefined();
+
+    await queue.markDelivered('user_a', [replayed[1].id]);
+    expect(await queue.takePending('user_a')).toEqual([]);
+  });
+
+  it('keeps only the newest messages per user', async () => {
+    const queue = new InMemoryMessageQueue();
+    for (let i = 0; i < MAX_RETAINED_PER_USER + 5; i++) {
+      await queue.enqueue('user_a', heartbeat(i));
+    }
+
+    const retained = await queue.readSince('user_a', 0);
+    expect(retained).toHaveLength(MAX_RETAINED_PER_USER);
+    expect(retained[0].message.payload).toEqual({ timestamp: 5 });
+  });
+
+  it('wakes subscribers for the recipient only until they unsubscribe', async () => {
+    const queue = new InMemoryMessageQueue();
+    const onAvailable = vi.fn();
+    const unsubscribe = queue.subscribe('user_a', onAvailable);
+
+    await queue.enqueue('user_b', heartbeat(1));
+    await queue.fanOut(['user_a', 'user_b'], heartbeat(2));
+    expect(onAvailable).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    await queue.enqueue('user_a', heartbeat(3));
+    expect(onAvailable).toHaveBeenCalledTimes(1);
+    expect(await queue.takePending('user_b')).toHaveLength(2);
+  });
+
+  it('hands signals to subscribers without queueing them', async () => {
+    const queue = new InMemoryMessageQueue();
+    const onSignal = vi.fn();
+    const unsubscribe = queue.subscribeSignals('user_a', onSignal);
+
+    await queue.signal(['user_a', 'user_b'], heartbeat(1));
+    expect(onSignal).toHaveBeenCalledWith(heartbeat(1));
+    expect(await queue.readSince('user_a', 0)).toEqual([]);
+    expect(await queue.readSince('user_b', 0)).toEqual([]);
+
+    unsubscribe();
+    await queue.signal(['user_a'], heartbeat(2));
+    expect(onSignal).toHaveBeenCalledTimes(1);
+  });
+});
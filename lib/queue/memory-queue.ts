@@ -0,0 +1,96 @@
+/**
+ * In-Memory Message Queue
+ * Single-process queue for local development and tests - nothing survives a restart
+ */
+
+import type { ServerMessage } from '../../src/protocol/index.js';
+import { MessageQueue, MAX_RETAINED_PER_USER, MESSAGE_RETENTION_MS } from './message-queue.js';
+import type { QueuedMessage } from './message-queue.js';
+
+export class InMemoryMessageQueue extends MessageQueue {
+  private queues = new Map<string, QueuedMessage[]>();
+  private listeners = new Map<string, Set<() => void>>();
+  private signalListeners = new Map<string, Set<(message: ServerMessage) => void>>();
+  // Ids start from the boot time in microseconds, so a restarted process
+  // numbers past everything the last one handed out (up to 1000 messages per
+  // millisecond of uptime) and clients resuming from an old Last-Event-ID
+  // still receive its messages
+  private nextId = Date.now() * 1000;
+
+  async enqueue(userId: string, message: ServerMessage): Promise<QueuedMessage> {
+    const entry: QueuedMessage = {
+      id: this.nextId++,
+      userId,
+      message,
+      createdAt: new Date().toISOString()
+    };
+
+    const cutoff = new Date(Date.now() - MESSAGE_RETENTION_MS).toISOString();
+    const queue = (this.queues.get(userId) ?? []).filter(retained => retained.createdAt > cutoff);
+    queue.push(entry);
+    if (queue.length > MAX_RETAINED_PER_USER) {
+      queue.splice(0, queue.length - MAX_RETAINED_PER_USER);
+    }
+    this.queues.set(userId, queue);
+
+    this.listeners.get(userId)?.forEach(onAvailable => onAvailable());
+    return entry;
+  }
+
+  async readSince(userId: string, afterId: number): Promise<QueuedMessage[]> {
+    return (this.queues.get(userId) ?? []).filter(entry => entry.id > afterId).map(entry => ({ ...entry }));
+  }
+
+  async markDelivered(userId: string, ids: number[]): Promise<void> {
+    const deliveredAt = new Date().toISOString();
+    for (const entry of this.queues.get(userId) ?? []) {
+      if (ids.includes(entry.id) && !entry.deliveredAt) {
+        entry.deliveredAt = deliveredAt;
+      }
+    }
+  }
+
+  async takePending(userId: string): Promise<QueuedMessage[]> {
+    const pending = (this.queues.get(userId) ?? []).filter(entry => !entry.deliveredAt);
+    await this.markDelivered(userId, pending.map(entry => entry.id));
+    return pending.map(entry => ({ ...entry }));
+  }
+
+  subscribe(userId: string, onAvailable: () => void): () => void {
+    const listeners = this.listeners.get(userId) ?? new Set();
+    listeners.add(onAvailable);
+    this.listeners.set(userId, listeners);
+
+    return () => {
+      listeners.delete(onAvailable);
+      if (listeners.size === 0 && this.listeners.get(userId) === listeners) {
+        this.listeners.delete(userId);
+      }
+    };
+  }
+
+  async signal(userIds: string[], message: ServerMessage): Promise<void> {
+    for (const userId of new Set(userIds)) {
+      this.signalListeners.get(userId)?.forEach(onSignal => onSignal(message));
+    }
+  }
+
+  subscribeSignals(userId: string, onSignal: (message: ServerMessage) => void): () => void {
+    const listeners = this.signalListeners.get(userId) ?? new Set();
+    listeners.add(onSignal);
+    this.signalListeners.set(userId, listeners);
+
+    return () => {
+      listeners.delete(onSignal);
+      if (listeners.size === 0 && this.signalListeners.get(userId) === listeners) {
+        this.signalListeners.delete(userId);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.queues.clear();
+    this.listeners.clear();
+    this.signalListeners.clear();
+  }
+}
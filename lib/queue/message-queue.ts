@@ -0,0 +1,60 @@
+/**
+ * Abstract Message Queue
+ * Per-user delivery queue behind SSE and polling. A message enqueued on one
+ * instance must reach a connection held by any other. Signals take the same
+ * route to open connections but skip the queue itself.
+ */
+
+import type { ServerMessage } from '../../src/protocol/index.js';
+
+// Messages stay replayable (see readSince) for this long, delivered or not
+export const MESSAGE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Oldest messages are dropped past this many per user
+export const MAX_RETAINED_PER_USER = 200;
+
+export interface QueuedMessage {
+  // Increases with every enqueue, so it doubles as the SSE event id
+  id: number;
+  userId: string;
+  message: ServerMessage;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+export abstract class MessageQueue {
+  abstract enqueue(userId: string, message: ServerMessage): Promise<QueuedMessage>;
+
+  // Retained messages after the given id, oldest first, delivered or not
+  abstract readSince(userId: string, afterId: number): Promise<QueuedMessage[]>;
+
+  abstract markDelivered(userId: string, ids: number[]): Promise<void>;
+
+  /**
+   * Claim every undelivered message for a user, oldest first. Each message is
+   * handed to exactly one caller, whichever instance it runs on.
+   */
+  abstract takePending(userId: string): Promise<QueuedMessage[]>;
+
+  /**
+   * Register a callback that runs whenever messages may be waiting for the
+   * user. Returns a function that removes it.
+   */
+  abstract subscribe(userId: string, onAvailable: () => void): () => void;
+
+  /**
+   * Push a message straight to the users' open connections on every instance.
+   * Signals are never stored, so users with no connection simply miss them.
+   */
+  abstract signal(userIds: string[], message: ServerMessage): Promise<void>;
+
+  // Like subscribe, but the callback receives each signal sent to the user
+  abstract subscribeSignals(userId: string, onSignal: (message: ServerMessage) => void): () => void;
+
+  abstract close(): Promise<void>;
+
+  // Deliver one message to many users, e.g. every follower of an author
+  async fanOut(userIds: string[], message: ServerMessage): Promise<QueuedMessage[]> {
+    return Promise.all(userIds.map(userId => this.enqueue(userId, message)));
+  }
+}
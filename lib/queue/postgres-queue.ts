@@ -0,0 +1,206 @@
+/**
+ * PostgreSQL Message Queue
+ * Messages live in a table so they survive restarts and can be replayed after
+ * a reconnect; LISTEN/NOTIFY wakes subscribers on every instance as soon as a
+ * message is committed. Signals travel in the notification payload alone.
+ * The table comes from migration 010, run when the database adapter connects.
+ */
+
+import { Pool, PoolClient, Notification } from 'pg';
+import type { ServerMessage } from '../../src/protocol/index.js';
+import { MessageQueue, MAX_RETAINED_PER_USER, MESSAGE_RETENTION_MS } from './message-queue.js';
+import type { QueuedMessage } from './message-queue.js';
+
+const NOTIFY_CHANNEL = 'message_queue';
+const SIGNAL_CHANNEL = 'message_signal';
+
+interface SignalNotification {
+  userId: string;
+  message: ServerMessage;
+}
+
+export interface PostgresMessageQueueConfig {
+  connectionString: string;
+  ssl?: boolean;
+  maxConnections?: number;
+}
+
+export class PostgresMessageQueue extends MessageQueue {
+  private pool: Pool;
+  private listening: Promise<PoolClient> | null = null;
+  private listeners = new Map<string, Set<() => void>>();
+  private signalListeners = new Map<string, Set<(message: ServerMessage) => void>>();
+
+  constructor(config: PostgresMessageQueueConfig) {
+    super();
+
+    this.pool = new Pool({
+      connectionString: config.connectionString,
+      ssl: config.ssl !== false ? { rejectUnauthorized: false } : false,
+      // One connection is held for LISTEN, the rest serve queries
+      max: config.maxConnections || 5,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+
+    this.pool.on('error', (err: Error) => {
+      console.error('[Queue] Unexpected error on idle client:', err);
+    });
+  }
+
+  async enqueue(userId: string, message: ServerMessage): Promise<QueuedMessage> {
+    // Insert and notify in one statement; the notification fires on commit
+    const result = await this.pool.query(`
+      WITH inserted AS (
+        INSERT INTO message_queue (user_id, message) VALUES ($1, $2)
+        RETURNING *
+      )
+      SELECT inserted.*, pg_notify($3, inserted.user_id) FROM inserted
+    `, [userId, JSON.stringify(message), NOTIFY_CHANNEL]);
+
+    // Drop anything past the retention window or older than the newest MAX_RETAINED_PER_USER
+    await this.pool.query(`
+      DELETE FROM message_queue
+      WHERE user_id = $1 AND (
+        created_at < NOW() - make_interval(secs => $3)
+        OR id <= (
+          SELECT id FROM message_queue WHERE user_id = $1
+          ORDER BY id DESC OFFSET $2 LIMIT 1
+        )
+      )
+    `, [userId, MAX_RETAINED_PER_USER, MESSAGE_RETENTION_MS / 1000]);
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  async readSince(userId: string, afterId: number): Promise<QueuedMessage[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM message_queue WHERE user_id = $1 AND id > $2 ORDER BY id',
+      [userId, afterId]
+    );
+
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async markDelivered(userId: string, ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.pool.query(`
+      UPDATE message_queue SET delivered_at = NOW()
+      WHERE user_id = $1 AND id = ANY($2::bigint[]) AND delivered_at IS NULL
+    `, [userId, ids]);
+  }
+
+  async takePending(userId: string): Promise<QueuedMessage[]> {
+    // SKIP LOCKED lets concurrent callers split the rows instead of blocking
+    const result = await this.pool.query(`
+      UPDATE message_queue SET delivered_at = NOW()
+      WHERE id IN (
+        SELECT id FROM message_queue WHERE user_id = $1 AND delivered_at IS NULL
+        ORDER BY id
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `, [userId]);
+
+    return result.rows.map(row => this.mapRow(row)).sort((a, b) => a.id - b.id);
+  }
+
+  subscribe(userId: string, onAvailable: () => void): () => void {
+    const listeners = this.listeners.get(userId) ?? new Set();
+    listeners.add(onAvailable);
+    this.listeners.set(userId, listeners);
+
+    this.listen().catch(error => {
+      console.error('[Queue] Failed to LISTEN for queued messages:', error);
+    });
+
+    return () => {
+      listeners.delete(onAvailable);
+      if (listeners.size === 0 && this.listeners.get(userId) === listeners) {
+        this.listeners.delete(userId);
+      }
+    };
+  }
+
+  async signal(userIds: string[], message: ServerMessage): Promise<void> {
+    if (userIds.length === 0) return;
+
+    // One notification per recipient keeps each payload under NOTIFY's 8000 byte limit
+    await this.pool.query(`
+      SELECT pg_notify($1, json_build_object('userId', recipients.user_id, 'message', $3::json)::text)
+      FROM unnest($2::text[]) AS recipients (user_id)
+    `, [SIGNAL_CHANNEL, [...new Set(userIds)], JSON.stringify(message)]);
+  }
+
+  subscribeSignals(userId: string, onSignal: (message: ServerMessage) => void): () => void {
+    const listeners = this.signalListeners.get(userId) ?? new Set();
+    listeners.add(onSignal);
+    this.signalListeners.set(userId, listeners);
+
+    this.listen().catch(error => {
+      console.error('[Queue] Failed to LISTEN for signals:', error);
+    });
+
+    return () => {
+      listeners.delete(onSignal);
+      if (listeners.size === 0 && this.signalListeners.get(userId) === listeners) {
+        this.signalListeners.delete(userId);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    this.signalListeners.clear();
+
+    if (this.listening) {
+      const client = await this.listening.catch(() => null);
+      this.listening = null;
+      client?.release();
+    }
+
+    await this.pool.end();
+  }
+
+  // A single dedicated connection receives notifications for every subscriber
+  private listen(): Promise<PoolClient> {
+    if (!this.listening) {
+      this.listening = (async () => {
+        const client = await this.pool.connect();
+
+        client.on('notification', (notification: Notification) => {
+          if (notification.channel === NOTIFY_CHANNEL && notification.payload) {
+            this.listeners.get(notification.payload)?.forEach(onAvailable => onAvailable());
+          } else if (notification.channel === SIGNAL_CHANNEL && notification.payload) {
+            const { userId, message } = JSON.parse(notification.payload) as SignalNotification;
+            this.signalListeners.get(userId)?.forEach(onSignal => onSignal(message));
+          }
+        });
+
+        client.on('error', (error: Error) => {
+          console.error('[Queue] LISTEN connection lost:', error);
+          this.listening = null;
+          client.release(error);
+        });
+
+        await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+        await client.query(`LISTEN ${SIGNAL_CHANNEL}`);
+        return client;
+      })().catch(error => {
+        this.listening = null;
+        throw error;
+      });
+    }
+    return this.listening;
+  }
+
+  private mapRow(row: Record<string, unknown>): QueuedMessage {
+    return {
+      id: Number(row.id),
+      userId: row.user_id as string,
+      message: row.message as ServerMessage,
+      createdAt: (row.created_at as Date).toISOString(),
+      deliveredAt: row.delivered_at ? (row.delivered_at as Date).toISOString() : undefined
+    };
+  }
+}
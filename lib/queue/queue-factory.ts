@@ -0,0 +1,50 @@
+/**
+ * Message Queue Factory
+ * Picks the queue implementation the same way DatabaseFactory picks an adapter
+ */
+
+import { MessageQueue } from './message-queue.js';
+import { InMemoryMessageQueue } from './memory-queue.js';
+import { PostgresMessageQueue } from './postgres-queue.js';
+
+export type MessageQueueType = 'memory' | 'postgres';
+
+export class MessageQueueFactory {
+  private static instance: MessageQueue | null = null;
+
+  static create(type: MessageQueueType, connectionString?: string): MessageQueue {
+    switch (type) {
+      case 'memory':
+        return new InMemoryMessageQueue();
+
+      case 'postgres':
+        if (!connectionString) {
+          throw new Error('A connection string is required for the postgres message queue');
+        }
+        return new PostgresMessageQueue({ connectionString });
+
+      default:
+        throw new Error(`Unsupported message queue type: ${type}`);
+    }
+  }
+
+  // Shared instance for API handlers
+  static getOrCreateFromEnvironment(): MessageQueue {
+    if (!this.instance) {
+      const connectionString = process.env.DATABASE_URL || process.env.NEON_DATABASE_URL;
+      const type = (process.env.MESSAGE_QUEUE as MessageQueueType | undefined)
+        ?? (connectionString ? 'postgres' : 'memory');
+
+      this.instance = this.create(type, connectionString);
+      console.log(`Message queue initialized: ${type}`);
+    }
+    return this.instance;
+  }
+
+  static async shutdown(): Promise<void> {
+    if (this.instance) {
+      await this.instance.close();
+      this.instance = null;
+    }
+  }
+}
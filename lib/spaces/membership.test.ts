@@ -0,0 +1,87 @@
+/**
+ * Space Membership Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers } from '../database/test-fixtures';
+import {
+  MembershipError, acceptInvite, approveMember, createInvite, joinSpace, leaveSpace, removeMember, updateMemberRole
+} from './membership';
+import { ForbiddenError } from './permissions';
+
+describe('space membership', () => {
+  let db: SqliteAdapter;
+
+  const createSpace = async (spaceId: string, isPublic: boolean, metadata: Record<string, unknown> = {}) => {
+    await db.createSpace({ space_id: spaceId, name: spaceId, is_public: isPublic, owner_id: 'owner', metadata });
+    await db.addSpaceMember({ space_id: spaceId, user_id: 'owner', role: 'owner', status: 'active' });
+  };
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['owner', 'admin', 'alice', 'bob']);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.disconnect();
+  });
+
+  it('joins public spaces as a contributor and counts only active members', async () => {
+    await createSpace('open', true);
+    await createSpace('gated', true, { requireApproval: true });
+    await createSpace('private', false);
+
+    expect(await joinSpace(db, 'open', 'alice')).toMatchObject({ role: 'contributor', status: 'active' });
+    expect((await joinSpace(db, 'open', 'alice')).status).toBe('active');
+    expect((await joinSpace(db, 'gated', 'alice')).status).toBe('pending');
+    await expect(joinSpace(db, 'private', 'alice')).rejects.toBeInstanceOf(MembershipError);
+
+    const counts = await db.getSpaceMemberCounts(['open', 'gated', 'private']);
+    expect(Object.fromEntries(counts)).toEqual({ open: 2, gated: 1, private: 1 });
+
+    await approveMember(db, 'gated', 'owner', 'alice');
+    expect((await db.getSpaceMemberCounts(['gated'])).get('gated')).toBe(2);
+
+    await leaveSpace(db, 'open', 'alice');
+    await expect(leaveSpace(db, 'open', 'owner')).rejects.toThrow('cannot leave');
+    expect((await db.getSpaceMembers('open')).map(m => m.user_id)).toEqual(['owner']);
+  });
+
+  it('lets the owner manage admins and admins manage everyone else', async () => {
+    await createSpace('open', true);
+    for (const id of ['admin', 'alice', 'bob']) {
+      await joinSpace(db, 'open', id);
+    }
+
+    await expect(updateMemberRole(db, 'open', 'alice', 'bob', 'viewer')).rejects.toBeInstanceOf(ForbiddenError);
+    await updateMemberRole(db, 'open', 'owner', 'admin', 'admin');
+    expect((await updateMemberRole(db, 'open', 'admin', 'bob', 'viewer')).role).toBe('viewer');
+
+    await expect(updateMemberRole(db, 'open', 'admin', 'alice', 'admin')).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(updateMemberRole(db, 'open', 'owner', 'alice', 'owner')).rejects.toBeInstanceOf(MembershipError);
+    await expect(removeMember(db, 'open', 'admin', 'owner')).rejects.toBeInstanceOf(ForbiddenError);
+
+    await removeMember(db, 'open', 'admin', 'bob');
+    expect(await db.getSpaceMember('open', 'bob')).toBeNull();
+  });
+
+  it('admits invite holders until the link expires or runs out of uses', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await createSpace('private', false);
+
+    await expect(createInvite(db, 'private', 'alice')).rejects.toBeInstanceOf(ForbiddenError);
+    const { token, url } = await createInvite(db, 'private', 'owner', { role: 'viewer', maxUses: 1 });
+    expect(url).toContain(`/invite/${token}`);
+
+    expect(await acceptInvite(db, token, 'alice')).toMatchObject({ role: 'viewer', status: 'active' });
+    // An existing member does not spend a use
+    await acceptInvite(db, token, 'alice');
+    await expect(acceptInvite(db, token, 'bob')).rejects.toThrow('invalid or has expired');
+
+    const expiring = await createInvite(db, 'private', 'owner', { ttlMs: 60_000 });
+    vi.setSystemTime(Date.now() + 61_000);
+    await expect(acceptInvite(db, expiring.token, 'bob')).rejects.toThrow('invalid or has expired');
+  });
+});
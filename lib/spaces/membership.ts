@@ -0,0 +1,250 @@
+/**
+ * Space Membership
+ * Joining, leaving, role changes and invite links. Every rule about who may
+ * change whose membership lives here; handlers only translate the results.
+ */
+
+import { randomBytes } from 'crypto';
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { Space, SpaceInvite, SpaceMember } from '../database/types.js';
+import { hashSessionToken } from '../auth/session.js';
+import { Permission } from '../../src/services/space-manager/types.js';
+import type { SpaceRole } from '../../src/services/space-manager/types.js';
+import { DEFAULT_MEMBER_ROLE, ForbiddenError, permissionsFor } from './permissions.js';
+import { readSpaceSettings } from './settings.js';
+
+export const DEFAULT_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_INVITE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// The owner role is only ever held by the space's creator
+export const ASSIGNABLE_ROLES: SpaceRole[] = ['admin', 'contributor', 'viewer'];
+
+// A request that cannot be carried out; the message is safe to show the caller
+export class MembershipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MembershipError';
+  }
+}
+
+export interface IssuedInvite {
+  // Only ever returned here; the database keeps a hash
+  token: string;
+  url: string;
+  invite: SpaceInvite;
+}
+
+export interface InviteOptions {
+  role?: SpaceRole;
+  ttlMs?: number;
+  maxUses?: number;
+}
+
+function inviteLink(inviteToken: string): string {
+  const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+  return `${appUrl}/invite/${encodeURIComponent(inviteToken)}`;
+}
+
+// Admins manage contributors and viewers; granting or touching admin is the owner's call
+function canManage(actor: SpaceMember | null, role: SpaceRole): boolean {
+  if (!actor || actor.status !== 'active' || !permissionsFor(actor.role).includes(Permission.MANAGE_MEMBERS)) {
+    return false;
+  }
+  return role !== 'owner' && (role !== 'admin' || actor.role === 'owner');
+}
+
+async function requireSpace(db: DatabaseAdapter, spaceId: string): Promise<Space> {
+  const space = await db.getSpaceById(spaceId);
+  if (!space) {
+    throw new MembershipError(`Space not found: ${spaceId}`);
+  }
+  if (space.hidden_at) {
+    throw new MembershipError('This space has been hidden by moderators and is closed to new members');
+  }
+  return space;
+}
+
+// Pending members do not take a place until approved
+async function requireCapacity(db: DatabaseAdapter, space: Space): Promise<void> {
+  const count = (await db.getSpaceMemberCounts([space.space_id])).get(space.space_id) ?? 0;
+  if (count >= readSpaceSettings(space).maxMembers) {
+    throw new MembershipError('This space is full');
+  }
+}
+
+async function requireMember(db: DatabaseAdapter, spaceId: string, userId: string): Promise<SpaceMember> {
+  const member = await db.getSpaceMember(spaceId, userId);
+  if (!member) {
+    throw new MembershipError('User is not a member of this space');
+  }
+  return member;
+}
+
+/**
+ * Join a public space as a contributor. Spaces whose settings set
+ * requireApproval leave the membership pending until a manager approves it;
+ * private and invite-only spaces can only be joined through an invite, and
+ * full or hidden spaces not at all. Joining again resolves with the existing
+ * membership.
+ */
+export async function joinSpace(db: DatabaseAdapter, spaceId: string, userId: string): Promise<SpaceMember> {
+  const space = await requireSpace(db, spaceId);
+
+  const existing = await db.getSpaceMember(spaceId, userId);
+  if (existing) {
+    return existing;
+  }
+  const settings = readSpaceSettings(space);
+  if (settings.visibility !== 'public') {
+    throw new MembershipError('This space is invite-only');
+  }
+  await requireCapacity(db, space);
+
+  const member = await db.addSpaceMember({
+    space_id: spaceId,
+    user_id: userId,
+    role: DEFAULT_MEMBER_ROLE,
+    status: settings.requireApproval ? 'pending' : 'active'
+  });
+  // A concurrent join won the insert
+  return member ?? requireMember(db, spaceId, userId);
+}
+
+// Leaving also withdraws a pending join request. The owner cannot leave.
+export async function leaveSpace(db: DatabaseAdapter, spaceId: string, userId: string): Promise<void> {
+  const member = await requireMember(db, spaceId, userId);
+  if (member.role === 'owner') {
+    throw new MembershipError('The space owner cannot leave. Delete the space instead.');
+  }
+  await db.removeSpaceMember(spaceId, userId);
+}
+
+export async function updateMemberRole(
+  db: DatabaseAdapter,
+  spaceId: string,
+  actorId: string,
+  userId: string,
+  role: SpaceRole
+): Promise<SpaceMember> {
+  if (!ASSIGNABLE_ROLES.includes(role)) {
+    throw new MembershipError(`role must be one of ${ASSIGNABLE_ROLES.join(', ')}`);
+  }
+
+  const actor = await db.getSpaceMember(spaceId, actorId);
+  const target = await requireMember(db, spaceId, userId);
+  if (!canManage(actor, target.role) || !canManage(actor, role)) {
+    throw new ForbiddenError('You do not have permission to change this member\'s role', Permission.MANAGE_MEMBERS);
+  }
+
+  return (await db.updateSpaceMember(spaceId, userId, { role })) ?? target;
+}
+
+export async function approveMember(
+  db: DatabaseAdapter,
+  spaceId: string,
+  actorId: string,
+  userId: string
+): Promise<SpaceMember> {
+  const actor = await db.getSpaceMember(spaceId, actorId);
+  const target = await requireMember(db, spaceId, userId);
+  if (!canManage(actor, target.role)) {
+    throw new ForbiddenError('You do not have permission to approve members', Permission.MANAGE_MEMBERS);
+  }
+  if (target.status === 'active') {
+    return target;
+  }
+  await requireCapacity(db, await requireSpace(db, spaceId));
+
+  return (await db.updateSpaceMember(spaceId, userId, { status: 'active' })) ?? target;
+}
+
+// Removes an active member or rejects a pending one
+export async function removeMember(
+  db: DatabaseAdapter,
+  spaceId: string,
+  actorId: string,
+  userId: string
+): Promise<void> {
+  const actor = await db.getSpaceMember(spaceId, actorId);
+  const target = await requireMember(db, spaceId, userId);
+  if (!canManage(actor, target.role)) {
+    throw new ForbiddenError('You do not have permission to remove this member', Permission.MANAGE_MEMBERS);
+  }
+  await db.removeSpaceMember(spaceId, userId);
+}
+
+/**
+ * Issue an invite link that joins its holder with the given role, skipping
+ * approval. Links expire after ttlMs and, if maxUses is set, after that many
+ * joins.
+ */
+export async function createInvite(
+  db: DatabaseAdapter,
+  spaceId: string,
+  actorId: string,
+  options: InviteOptions = {}
+): Promise<IssuedInvite> {
+  const role = options.role ?? DEFAULT_MEMBER_ROLE;
+  const ttlMs = options.ttlMs ?? DEFAULT_INVITE_TTL_MS;
+
+  if (!ASSIGNABLE_ROLES.includes(role)) {
+    throw new MembershipError(`role must be one of ${ASSIGNABLE_ROLES.join(', ')}`);
+  }
+  if (!(ttlMs > 0 && ttlMs <= MAX_INVITE_TTL_MS)) {
+    throw new MembershipError(`Invites must expire within ${MAX_INVITE_TTL_MS / (24 * 60 * 60 * 1000)} days`);
+  }
+  if (options.maxUses !== undefined && !(Number.isInteger(options.maxUses) && options.maxUses > 0)) {
+    throw new MembershipError('maxUses must be a positive whole number');
+  }
+
+  await requireSpace(db, spaceId);
+  if (!canManage(await db.getSpaceMember(spaceId, actorId), role)) {
+    throw new ForbiddenError('You do not have permission to invite members with this role', Permission.MANAGE_MEMBERS);
+  }
+
+  const inviteToken = randomBytes(32).toString('hex');
+  const invite = await db.createSpaceInvite({
+    invite_id: hashSessionToken(inviteToken),
+    space_id: spaceId,
+    created_by: actorId,
+    role,
+    max_uses: options.maxUses,
+    expires_at: new Date(Date.now() + ttlMs).toISOString()
+  });
+
+  return { token: inviteToken, url: inviteLink(inviteToken), invite };
+}
+
+/**
+ * Join through an invite link. A pending member is approved with the invite's
+ * role; an existing active member keeps their membership and the invite is
+ * not spent.
+ */
+export async function acceptInvite(db: DatabaseAdapter, inviteToken: string, userId: string): Promise<SpaceMember> {
+  const inviteId = hashSessionToken(inviteToken);
+  const invite = await db.getSpaceInvite(inviteId);
+  if (!invite) {
+    throw new MembershipError('This invite link is invalid or has expired');
+  }
+
+  const existing = await db.getSpaceMember(invite.space_id, userId);
+  if (existing?.status === 'active') {
+    return existing;
+  }
+  await requireCapacity(db, await requireSpace(db, invite.space_id));
+
+  const member = await db.transaction(async tx => {
+    if (!(await tx.redeemSpaceInvite(inviteId))) {
+      return null;
+    }
+    if (existing) {
+      return tx.updateSpaceMember(invite.space_id, userId, { role: invite.role, status: 'active' });
+    }
+    return tx.addSpaceMember({ space_id: invite.space_id, user_id: userId, role: invite.role, status: 'active' });
+  });
+
+  if (!member) {
+    throw new MembershipError('This invite link is invalid or has expired');
+  }
+  return member;
+}
@@ -0,0 +1,50 @@
+/**
+ * Space Permission Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Space, SpaceMember } from '../database/types';
+import { Permission, ROLE_PERMISSIONS } from '../../src/services/space-manager/types';
+import type { SpaceRole } from '../../src/services/space-manager/types';
+import { PUBLIC_PERMISSIONS, resolvePermissions } from './permissions';
+
+const space = (isPublic: boolean, metadata: Record<string, unknown> = {}): Space => ({
+  space_id: 'space_1',
+  name: 'Space',
+  is_public: isPublic,
+  owner_id: 'owner',
+  metadata,
+  created_at: new Date().toISOString()
+});
+
+const member = (role: SpaceRole, status: SpaceMember['status'] = 'active'): SpaceMember => ({
+  space_id: 'space_1',
+  user_id: 'user_1',
+  role,
+  status,
+  joined_at: new Date().toISOString()
+});
+
+describe('space permissions', () => {
+  it('gives active members their role\'s permissions and others only public access', () => {
+    expect(resolvePermissions(space(false), member('viewer'))).toEqual(ROLE_PERMISSIONS.viewer);
+    expect(resolvePermissions(space(true), null)).toEqual(PUBLIC_PERMISSIONS);
+    expect(resolvePermissions(space(true), member('admin', 'pending'))).toEqual(PUBLIC_PERMISSIONS);
+    expect(resolvePermissions(space(false), null)).toEqual([]);
+    expect(resolvePermissions(space(false), member('contributor', 'pending'))).toEqual([]);
+  });
+
+  it('applies defaultPermissions to the default role without granting management', () => {
+    const restricted = space(true, {
+      defaultPermissions: ['view_space', 'view_volumes', 'summon_files', 'manage_members', 'admin', 'bogus']
+    });
+
+    expect(resolvePermissions(restricted, member('contributor'))).toEqual([
+      Permission.VIEW_SPACE, Permission.VIEW_VOLUMES, Permission.SUMMON_FILES
+    ]);
+    expect(resolvePermissions(restricted, member('admin'))).toEqual(ROLE_PERMISSIONS.admin);
+    expect(resolvePermissions(restricted, member('viewer'))).toEqual(ROLE_PERMISSIONS.viewer);
+    expect(resolvePermissions(space(true, { defaultPermissions: 'all' }), member('contributor')))
+      .toEqual(ROLE_PERMISSIONS.contributor);
+  });
+});
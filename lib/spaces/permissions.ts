@@ -0,0 +1,78 @@
+/**
+ * Space Permissions
+ * Resolves what a caller may do in a space from their membership, the role's
+ * permission set and the space's own overrides. Handlers check these before
+ * touching space data.
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { Space, SpaceMember } from '../database/types.js';
+import { Permission, ROLE_PERMISSIONS } from '../../src/services/space-manager/types.js';
+import type { SpaceRole } from '../../src/services/space-manager/types.js';
+
+// Role given to anyone who joins without an invite, per design.md:290-297
+export const DEFAULT_MEMBER_ROLE: SpaceRole = 'contributor';
+
+// What anyone signed in may do in a public space without joining it
+export const PUBLIC_PERMISSIONS: Permission[] = [Permission.VIEW_SPACE, Permission.VIEW_VOLUMES, Permission.SUMMON_FILES];
+
+// A space's defaultPermissions setting may grant these, but never member
+// management or ownership
+export const OVERRIDABLE_PERMISSIONS: Permission[] = [
+  Permission.VIEW_SPACE, Permission.VIEW_VOLUMES, Permission.CONTRIBUTE_FILES, Permission.SUMMON_FILES,
+  Permission.MANAGE_VOLUMES, Permission.DELETE_FILES
+];
+
+// The caller lacks a permission; the message is safe to show them
+export class ForbiddenError extends Error {
+  constructor(message: string, readonly permission?: Permission) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export interface SpaceAccess {
+  space: Space;
+  member: SpaceMember | null;
+  permissions: Permission[];
+}
+
+/**
+ * Permissions for a role in a space. A space's metadata.defaultPermissions
+ * replaces the set given to members who joined with the default role; owner,
+ * admin and viewer keep their fixed sets.
+ */
+export function permissionsFor(role: SpaceRole, space?: Space | null): Permission[] {
+  const overrides = space?.metadata?.defaultPermissions;
+  if (role !== DEFAULT_MEMBER_ROLE || !Array.isArray(overrides)) {
+    return ROLE_PERMISSIONS[role];
+  }
+  return OVERRIDABLE_PERMISSIONS.filter(permission => overrides.includes(permission));
+}
+
+// Pending members have no more access than anyone else until approved, and a
+// space hidden by moderators is open to its members only
+export function resolvePermissions(space: Space, member: SpaceMember | null): Permission[] {
+  if (member?.status === 'active') {
+    return permissionsFor(member.role, space);
+  }
+  return space.is_public && !space.hidden_at ? PUBLIC_PERMISSIONS : [];
+}
+
+// Resolves null when the space does not exist
+export async function resolveSpaceAccess(
+  db: DatabaseAdapter,
+  spaceId: string,
+  userId: string
+): Promise<SpaceAccess | null> {
+  const space = await db.getSpaceById(spaceId);
+  if (!space) {
+    return null;
+  }
+  const member = await db.getSpaceMember(spaceId, userId);
+  return { space, member, permissions: resolvePermissions(space, member) };
+}
+
+export function hasPermission(access: SpaceAccess, permission: Permission): boolean {
+  return access.permissions.includes(permission);
+}
@@ -0,0 +1,110 @@
+/**
+ * Space Settings Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { SqliteAdapter } from '../database/sqlite-adapter';
+import { createTestDatabase, createTestUsers, testPrimeIndices } from '../database/test-fixtures';
+import { DEFAULT_SPACE_SETTINGS, Permission } from '../../src/services/space-manager/types';
+import { joinSpace } from './membership';
+import { ForbiddenError } from './permissions';
+import {
+  SpaceSettingsError, archiveInactiveFiles, deleteSpace, readSpaceSettings, updateSpace, validateSpaceSettings
+} from './settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('space settings', () => {
+  let db: SqliteAdapter;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    await createTestUsers(db, ['owner', 'alice', 'bob']);
+    await db.createSpace({ space_id: 'space_1', name: 'Space', is_public: true, owner_id: 'owner', metadata: {} });
+    await db.addSpaceMember({ space_id: 'space_1', user_id: 'owner', role: 'owner', status: 'active' });
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('validates changes against the current settings', () => {
+    const current = DEFAULT_SPACE_SETTINGS;
+
+    expect(validateSpaceSettings({ maxMembers: 10, resonanceConfig: { primeCount: 64 } }, current))
+      .toMatchObject({ maxMembers: 10, resonanceConfig: { primeCount: 64, quantization: 64 } });
+    expect(() => validateSpaceSettings({ maxMembers: 0 }, current)).toThrow(SpaceSettingsError);
+    expect(() => validateSpaceSettings({ visibility: 'hidden' as never }, current)).toThrow('visibility');
+    expect(() => validateSpaceSettings({ archiveDays: 1.5 }, current)).toThrow('archiveDays');
+    expect(() => validateSpaceSettings({ defaultPermissions: [Permission.ADMIN] }, current)).toThrow('defaultPermissions');
+    expect(() => validateSpaceSettings({ resonanceConfig: { epochDuration: 50 } }, current)).toThrow('epochDuration');
+  });
+
+  it('lets only the owner change settings and enforces them on join', async () => {
+    await joinSpace(db, 'space_1', 'alice');
+    await expect(updateSpace(db, 'space_1', 'alice', { settings: { maxMembers: 5 } }))
+      .rejects.toBeInstanceOf(ForbiddenError);
+    await expect(updateSpace(db, 'space_1', 'owner', { settings: { maxMembers: 1 } }))
+      .rejects.toThrow('cannot be below');
+
+    const space = await updateSpace(db, 'space_1', 'owner', {
+      name: '  Renamed ',
+      settings: { maxMembers: 2, visibility: 'invite-only' }
+    });
+    expect(space.name).toBe('Renamed');
+    expect(space.is_public).toBe(true);
+    expect(readSpaceSettings(space)).toMatchObject({ maxMembers: 2, visibility: 'invite-only' });
+    await expect(joinSpace(db, 'space_1', 'bob')).rejects.toThrow('invite-only');
+
+    await updateSpace(db, 'space_1', 'owner', { settings: { visibility: 'public' } });
+    await expect(joinSpace(db, 'space_1', 'bob')).rejects.toThrow('full');
+  });
+
+  it('deletes a space with its posts, files and memberships', async () => {
+    await joinSpace(db, 'space_1', 'alice');
+    const beacon = {
+      author_id: 'alice',
+      beacon_type: 'post',
+      prime_indices: testPrimeIndices,
+      epoch: 1,
+      fingerprint: Buffer.from('f'),
+      signature: Buffer.from('s')
+    };
+    await db.createBeacon({ ...beacon, beacon_id: 'in_space', metadata: { space_id: 'space_1' } });
+    await db.createBeacon({ ...beacon, beacon_id: 'elsewhere', metadata: {} });
+    await db.createComment({ comment_id: 'c_1', post_beacon_id: 'in_space', author_id: 'bob', content: 'hi' });
+    await db.likeBeacon('bob', 'in_space');
+    await db.createSpaceFile({
+      file_id: 'file_1', space_id: 'space_1', uploader_id: 'alice', file_name: 'a.txt',
+      file_type: 'text/plain', file_size: 2, fingerprint: 'fp', content_hash: 'hash'
+    });
+
+    await expect(deleteSpace(db, 'space_1', 'alice')).rejects.toBeInstanceOf(ForbiddenError);
+    const members = await deleteSpace(db, 'space_1', 'owner');
+
+    expect(members.map(m => m.user_id).sort()).toEqual(['alice', 'owner']);
+    expect(await db.getSpaceById('space_1')).toBeNull();
+    expect(await db.getBeaconById('in_space')).toBeNull();
+    expect(await db.getBeaconById('elsewhere')).not.toBeNull();
+    expect(await db.getCommentCount('in_space')).toBe(0);
+    expect(await db.getLikeCount('in_space')).toBe(0);
+    expect(await db.getSpaceFileContent('space_1', 'fp')).toBeNull();
+    expect(await db.getUserMemberships('alice')).toEqual([]);
+  });
+
+  it('archives files older than archiveDays in spaces with autoArchive on', async () => {
+    await db.createSpaceFile({
+      file_id: 'file_1', space_id: 'space_1', uploader_id: 'owner', file_name: 'a.txt',
+      file_type: 'text/plain', file_size: 2, fingerprint: 'fp', content_hash: 'hash'
+    });
+
+    expect(await archiveInactiveFiles(db, Date.now() + 40 * DAY_MS)).toBe(0);
+
+    await updateSpace(db, 'space_1', 'owner', { settings: { autoArchive: true, archiveDays: 30 } });
+    expect(await archiveInactiveFiles(db, Date.now() + 20 * DAY_MS)).toBe(0);
+    expect(await archiveInactiveFiles(db, Date.now() + 40 * DAY_MS)).toBe(1);
+
+    expect(await db.getSpaceFiles('space_1')).toEqual([]);
+    expect(await db.getSpaceFileContent('space_1', 'fp')).toEqual({ content_hash: 'hash', content: null });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Space Settings
+ * Reads, validates and applies the settings stored in a space's metadata, and
+ * deletes spaces along with everything in them
+ */
+
+import type { DatabaseAdapter } from '../database/abstract-adapter.js';
+import type { Space, SpaceMember } from '../database/types.js';
+import { DEFAULT_SPACE_SETTINGS, Permission } from '../../src/services/space-manager/types.js';
+import type { ResonanceConfig, SpaceSettings, SpaceVisibility } from '../../src/services/space-manager/types.js';
+import { ForbiddenError, OVERRIDABLE_PERMISSIONS, hasPermission, resolveSpaceAccess } from './permissions.js';
+
+export const MAX_SPACE_NAME_LENGTH = 100;
+export const MAX_SPACE_DESCRIPTION_LENGTH = 1000;
+export const MAX_SPACE_MEMBERS = 10000;
+export const MAX_ARCHIVE_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const VISIBILITIES: SpaceVisibility[] = ['public', 'private', 'invite-only'];
+
+// Same ranges as the sliders in SpaceSettings
+const RESONANCE_LIMITS: Record<keyof ResonanceConfig, [number, number]> = {
+  primeCount: [16, 128],
+  quantization: [32, 256],
+  epochDuration: [1000, 10000]
+};
+
+// A settings change that cannot be applied; the message is safe to show the caller
+export class SpaceSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpaceSettingsError';
+  }
+}
+
+// Any subset of settings, down to single resonanceConfig fields
+export type SpaceSettingsChanges = Partial<Omit<SpaceSettings, 'resonanceConfig'>> & {
+  resonanceConfig?: Partial<ResonanceConfig>;
+};
+
+export interface SpaceUpdate {
+  name?: string;
+  description?: string;
+  settings?: SpaceSettingsChanges;
+}
+
+/**
+ * The space's settings with defaults for anything it has not set. Spaces
+ * created before settings were stored take their visibility from is_public.
+ */
+export function readSpaceSettings(space: Space): SpaceSettings {
+  const stored = (space.metadata ?? {}) as Partial<SpaceSettings>;
+  return {
+    ...DEFAULT_SPACE_SETTINGS,
+    ...pickSettings(stored),
+    visibility: stored.visibility ?? (space.is_public ? 'public' : 'private'),
+    resonanceConfig: { ...DEFAULT_SPACE_SETTINGS.resonanceConfig, ...stored.resonanceConfig }
+  };
+}
+
+// Metadata also holds keys that are not settings; keep only the settings
+function pickSettings(source: Partial<SpaceSettings>): Partial<SpaceSettings> {
+  const picked: Partial<SpaceSettings> = {};
+  for (const key of Object.keys(DEFAULT_SPACE_SETTINGS) as (keyof SpaceSettings)[]) {
+    if (source[key] !== undefined && source[key] !== null) {
+      Object.assign(picked, { [key]: source[key] });
+    }
+  }
+  return picked;
+}
+
+function isWholeNumberIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Merge a partial settings change over the current settings, rejecting the
+ * first field that is out of range
+ */
+export function validateSpaceSettings(changes: SpaceSettingsChanges, current: SpaceSettings): SpaceSettings {
+  const next = { ...current, ...pickSettings(changes as Partial<SpaceSettings>) };
+
+  if (!VISIBILITIES.includes(next.visibility)) {
+    throw new SpaceSettingsError(`visibility must be one of ${VISIBILITIES.join(', ')}`);
+  }
+  if (!isWholeNumberIn(next.maxMembers, 1, MAX_SPACE_MEMBERS)) {
+    throw new SpaceSettingsError(`maxMembers must be a whole number from 1 to ${MAX_SPACE_MEMBERS}`);
+  }
+  if (typeof next.autoArchive !== 'boolean' || typeof next.requireApproval !== 'boolean') {
+    throw new SpaceSettingsError('autoArchive and requireApproval must be true or false');
+  }
+  if (!isWholeNumberIn(next.archiveDays, 1, MAX_ARCHIVE_DAYS)) {
+    throw new SpaceSettingsError(`archiveDays must be a whole number from 1 to ${MAX_ARCHIVE_DAYS}`);
+  }
+  if (!Array.isArray(next.defaultPermissions) ||
+      !next.defaultPermissions.every(permission => OVERRIDABLE_PERMISSIONS.includes(permission))) {
+    throw new SpaceSettingsError(`defaultPermissions may only contain ${OVERRIDABLE_PERMISSIONS.join(', ')}`);
+  }
+
+  const resonanceConfig = { ...current.resonanceConfig, ...changes.resonanceConfig };
+  for (const [key, [min, max]] of Object.entries(RESONANCE_LIMITS) as [keyof ResonanceConfig, [number, number]][]) {
+    if (!isWholeNumberIn(resonanceConfig[key], min, max)) {
+      throw new SpaceSettingsError(`resonanceConfig.${key} must be a whole number from ${min} to ${max}`);
+    }
+  }
+
+  return {
+    ...next,
+    defaultPermissions: [...new Set(next.defaultPermissions)],
+    resonanceConfig: {
+      primeCount: resonanceConfig.primeCount,
+      quantization: resonanceConfig.quantization,
+      epochDuration: resonanceConfig.epochDuration
+    }
+  };
+}
+
+/**
+ * Rename, describe or reconfigure a space. Needs the ADMIN permission, which
+ * only the owner holds.
+ */
+export async function updateSpace(
+  db: DatabaseAdapter,
+  spaceId: string,
+  actorId: string,
+  update: SpaceUpdate
+): Promise<Space> {
+  const access = await resolveSpaceAccess(db, spaceId, actorId);
+  if (!access) {
+    throw new SpaceSettingsError(`Space not found: ${spaceId}`);
+  }
+  if (!hasPermission(access, Permission.ADMIN)) {
+    throw new ForbiddenError('Only the space owner can change its settings', Permission.ADMIN);
+  }
+
+  const name = update.name?.trim();
+  if (name !== undefined && (name.length === 0 || name.length > MAX_SPACE_NAME_LENGTH)) {
+    throw new SpaceSettingsError(`name must be between 1 and ${MAX_SPACE_NAME_LENGTH} characters`);
+  }
+  if (update.description !== undefined && update.description.length > MAX_SPACE_DESCRIPTION_LENGTH) {
+    throw new SpaceSettingsError(`description must be at most ${MAX_SPACE_DESCRIPTION_LENGTH} characters`);
+  }
+
+  const settings = validateSpaceSettings(update.settings ?? {}, readSpaceSettings(access.space));
+  const memberCount = (await db.getSpaceMemberCounts([spaceId])).get(spaceId) ?? 0;
+  if (settings.maxMembers < memberCount) {
+    throw new SpaceSettingsError(`maxMembers cannot be below the current ${memberCount} members`);
+  }
+
+  return db.updateSpace(spaceId, {
+    ...(name !== undefined && { name }),
+    ...(update.description !== undefined && { description: update.description }),
+    is_public: settings.visibility !== 'private',
+    metadata: { ...access.space.metadata, ...settings }
+  });
+}
+
+/**
+ * Delete a space with its posts, files, memberships and invites. Only the
+ * owner may. Resolves with the members it had so they can be told.
+ */
+export async function deleteSpace(db: DatabaseAdapter, spaceId: string, actorId: string): Promise<SpaceMember[]> {
+  const space = await db.getSpaceById(spaceId);
+  if (!space) {
+    throw new SpaceSettingsError(`Space not found: ${spaceId}`);
+  }
+  if (space.owner_id !== actorId) {
+    throw new ForbiddenError('Only the space owner can delete it', Permission.ADMIN);
+  }
+  return purgeSpace(db, spaceId);
+}
+
+// Deletes the space and its content without any checks; moderators use this
+// directly
+export async function purgeSpace(db: DatabaseAdapter, spaceId: string): Promise<SpaceMember[]> {
+  return db.transaction(async tx => {
+    const members = await tx.getSpaceMembers(spaceId);
+    await tx.deleteSpaceBeacons(spaceId);
+    await tx.deleteSpace(spaceId);
+    return members;
+  });
+}
+
+/**
+ * Archive files older than archiveDays in every space with autoArchive on.
+ * Age is measured from upload. Resolves with how many files were archived.
+ */
+export async function archiveInactiveFiles(db: DatabaseAdapter, now = Date.now()): Promise<number> {
+  let archived = 0;
+  for (const space of await db.getAutoArchiveSpaces()) {
+    const { archiveDays } = readSpaceSettings(space);
+    archived += await db.archiveSpaceFiles(space.space_id, new Date(now - archiveDays * DAY_MS).toISOString());
+  }
+  return archived;
+}
@@ -0,0 +1,42 @@
+/**
+ * Blob Store Factory
+ * Picks the store the same way MailTransportFactory picks a transport
+ */
+
+import { BlobStore } from './blob-store.js';
+import { LocalBlobStore } from './local-blob-store.js';
+import { MemoryBlobStore } from './memory-blob-store.js';
+
+export type BlobStoreType = 'local' | 'memory';
+
+export class BlobStoreFactory {
+  private static instance: BlobStore | null = null;
+
+  static create(type: BlobStoreType, directory?: string): BlobStore {
+    switch (type) {
+      case 'local':
+        return new LocalBlobStore(directory ?? 'uploads');
+
+      case 'memory':
+        return new MemoryBlobStore();
+
+      default:
+        throw new Error(`Unsupported blob store type: ${type}`);
+    }
+  }
+
+  // Shared instance for API handlers
+  static getOrCreateFromEnvironment(): BlobStore {
+    if (!this.instance) {
+      const type = (process.env.BLOB_STORE as BlobStoreType | undefined) ?? 'local';
+      this.instance = this.create(type, process.env.UPLOAD_DIR);
+      console.log(`Blob store initialized: ${type}`);
+    }
+    return this.instance;
+  }
+
+  // Lets a deployment plug in its own backend, e.g. an S3-compatible client
+  static use(store: BlobStore): void {
+    this.instance = store;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Abstract Blob Store
+ * File content lives in one of these instead of the database so deployments
+ * can keep it on local disk or in an object store without touching handlers
+ */
+
+export interface StoredBlob {
+  key: string;
+  storedAt: Date;
+}
+
+// Keys end up as file names and object keys, so they are kept to these
+const BLOB_KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isBlobKey(key: string): boolean {
+  return BLOB_KEY_PATTERN.test(key);
+}
+
+export function assertBlobKey(key: string): void {
+  if (!isBlobKey(key)) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+export abstract class BlobStore {
+  // Storing a key that already exists keeps the content and refreshes storedAt
+  abstract put(key: string, content: Buffer): Promise<void>;
+  abstract get(key: string): Promise<Buffer | null>;
+  // Resolves null when the key is missing
+  abstract stat(key: string): Promise<StoredBlob | null>;
+  // Deleting a missing key is not an error
+  abstract delete(key: string): Promise<void>;
+  abstract list(): AsyncIterable<StoredBlob>;
+}
@@ -0,0 +1,97 @@
+/**
+ * Local Blob Store
+ * Keeps each blob in its own file, fanned out over subdirectories named after
+ * the first two characters of the key. Writes go through a temporary file so
+ * readers never see a partial blob.
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { BlobStore, assertBlobKey, isBlobKey } from './blob-store.js';
+import type { StoredBlob } from './blob-store.js';
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+export class LocalBlobStore extends BlobStore {
+  constructor(private directory: string) {
+    super();
+  }
+
+  private pathFor(key: string): string {
+    assertBlobKey(key);
+    return join(this.directory, key.slice(0, 2), key);
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    const now = new Date();
+    try {
+      await utimes(path, now, now);
+      return;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+
+    await mkdir(dirname(path), { recursive: true });
+    const temporary = `${path}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await writeFile(temporary, content);
+      await rename(temporary, path);
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StoredBlob | null> {
+    try {
+      return { key, storedAt: (await stat(this.pathFor(key))).mtime };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async *list(): AsyncIterable<StoredBlob> {
+    let shards: string[];
+    try {
+      shards = await readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) return;
+      throw error;
+    }
+
+    for (const shard of shards) {
+      const shardPath = join(this.directory, shard);
+      if (!(await stat(shardPath)).isDirectory()) continue;
+      // Temporary files fail the key check and are skipped
+      for (const key of (await readdir(shardPath)).filter(isBlobKey)) {
+        let storedAt: Date;
+        try {
+          storedAt = (await stat(join(shardPath, key))).mtime;
+        } catch (error) {
+          // Deleted while listing
+          if (isNotFound(error)) continue;
+          throw error;
+        }
+        yield { key, storedAt };
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * In-Memory Blob Store
+ * Single-process store for tests and throwaway runs - nothing survives a restart
+ */
+
+import { BlobStore, assertBlobKey } from './blob-store.js';
+import type { StoredBlob } from './blob-store.js';
+
+export class MemoryBlobStore extends BlobStore {
+  private blobs = new Map<string, { content: Buffer; storedAt: Date }>();
+
+  async put(key: string, content: Buffer): Promise<void> {
+    assertBlobKey(key);
+    const existing = this.blobs.get(key);
+    this.blobs.set(key, { content: existing?.content ?? Buffer.from(content), storedAt: new Date() });
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const blob = this.blobs.get(key);
+    return blob ? Buffer.from(blob.content) : null;
+  }
+
+  async stat(key: string): Promise<StoredBlob | null> {
+    const blob = this.blobs.get(key);
+    return blob ? { key, storedAt: blob.storedAt } : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.blobs.delete(key);
+  }
+
+  async *list(): AsyncIterable<StoredBlob> {
+    for (const [key, blob] of [...this.blobs]) {
+      yield { key, storedAt: blob.storedAt };
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Schema Migration CLI
+ * Applies, rolls back and lists migrations against the database the API would
+ * use (DATABASE_URL / NEON_DATABASE_URL, else SQLITE_PATH).
+ *
+ *   migrate.ts up [version]   apply pending migrations, optionally only up to version
+ *   migrate.ts down [steps]   roll back the newest applied migrations (default 1)
+ *   migrate.ts status         list migrations and when each was applied
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+import { DatabaseFactory } from '../lib/database/database-factory.js';
+import { MigrationRunner, formatVersion } from '../lib/database/migration-runner.js';
+
+function parseCount(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${label} must be a positive integer, got "${value}"`);
+  }
+  return count;
+}
+
+async function runMigrations(args: string[]): Promise<void> {
+  const [command = 'status', argument] = args;
+  const config = { ...DatabaseFactory.getConfigFromEnvironment(), autoMigrate: false };
+  const db = await DatabaseFactory.create(config);
+  const runner = new MigrationRunner(db, config.type);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await runner.migrate(parseCount(argument, 'Version'));
+        console.log(applied.length ? `🎉 Applied ${applied.length} migration(s)` : '✅ Already up to date');
+        break;
+      }
+
+      case 'down': {
+        const reverted = await runner.rollback(parseCount(argument, 'Steps') ?? 1);
+        console.log(reverted.length ? `🎉 Rolled back ${reverted.length} migration(s)` : '✅ Nothing to roll back');
+        break;
+      }
+
+      case 'status': {
+        for (const migration of await runner.status()) {
+          const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+          console.log(`  ${formatVersion(migration.version)} ${migration.name.padEnd(30)} ${state}`);
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown command "${command}" - expected up, down or status`);
+    }
+  } finally {
+    await DatabaseFactory.shutdown();
+  }
+}
+
+runMigrations(process.argv.slice(2)).catch(error => {
+  console.error('❌ Migration command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+/**
+ * Platform Role CLI
+ * Grants or revokes a user's platform role against the database the API would
+ * use (DATABASE_URL / NEON_DATABASE_URL, else SQLITE_PATH).
+ *
+ *   set-role.ts <username> <user|moderator|admin>
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+import { DatabaseFactory } from '../lib/database/database-factory.js';
+import type { PlatformRole } from '../lib/database/types.js';
+
+const PLATFORM_ROLES: PlatformRole[] = ['user', 'moderator', 'admin'];
+
+async function setRole(args: string[]): Promise<void> {
+  const [username, role] = args;
+  if (!username || !PLATFORM_ROLES.includes(role as PlatformRole)) {
+    throw new Error(`Usage: set-role.ts <username> <${PLATFORM_ROLES.join('|')}>`);
+  }
+
+  const db = await DatabaseFactory.getOrCreateFromEnvironment();
+  try {
+    const user = await db.getUserByUsername(username);
+    if (!user) {
+      throw new Error(`No user named "${username}"`);
+    }
+    if (user.role === role) {
+      console.log(`✅ ${username} is already ${role}`);
+      return;
+    }
+    await db.updateUser(user.user_id, { role: role as PlatformRole });
+    console.log(`🎉 ${username} is now ${role} (was ${user.role})`);
+  } finally {
+    await DatabaseFactory.shutdown();
+  }
+}
+
+setRole(process.argv.slice(2)).catch(error => {
+  console.error('❌ Could not set role:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+/**
+ * Standalone Server Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import type { AppServer } from './app';
+
+describe('standalone server', () => {
+  let app: AppServer;
+  let baseUrl: string;
+  let staticDir: string;
+
+  beforeAll(async () => {
+    process.env.SQLITE_PATH = ':memory:';
+    staticDir = await mkdtemp(join(tmpdir(), 'static-'));
+    await mkdir(join(staticDir, 'assets'));
+    await writeFile(join(staticDir, 'index.html'), '<div id="root"></div>');
+    await writeFile(join(staticDir, 'assets', 'app.js'), 'console.log(1)');
+
+    const { createAppServer } = await import('./app');
+    app = createAppServer({ staticDir });
+    await new Promise<void>(resolve => app.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await app.shutdown();
+    await rm(staticDir, { recursive: true, force: true });
+  });
+
+  it('reports liveness and database readiness', async () => {
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+
+    const ready = await fetch(`${baseUrl}/ready`);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toMatchObject({ status: 'ready', database: 'connected' });
+  });
+
+  it('passes parsed JSON bodies to the api handlers', async () => {
+    const response = await fetch(`${baseUrl}/api/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ kind: 'ping', payload: {} })
+    });
+    expect(await response.json()).toMatchObject({ kind: 'pong' });
+
+    const malformed = await fetch(`${baseUrl}/api/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{'
+    });
+    expect(malformed.status).toBe(400);
+    expect((await fetch(`${baseUrl}/api/unknown`)).status).toBe(404);
+  });
+
+  it('serves built assets and falls back to index.html for client routes', async () => {
+    const asset = await fetch(`${baseUrl}/assets/app.js`);
+    expect(asset.headers.get('cache-control')).toContain('immutable');
+    expect(await asset.text()).toBe('console.log(1)');
+
+    expect(await (await fetch(`${baseUrl}/spaces/abc`)).text()).toBe('<div id="root"></div>');
+    expect((await fetch(`${baseUrl}/missing.png`)).status).toBe(404);
+  });
+
+  it('serves system metrics only to admins', async () => {
+    const { DatabaseFactory } = await import('../lib/database/database-factory');
+    const { issueSession } = await import('../lib/auth/session');
+    const { testUserData } = await import('../lib/database/test-fixtures');
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    for (const id of ['admin', 'member']) {
+      await db.createUser(testUserData(id, { username: id }));
+    }
+    await db.updateUser('admin', { role: 'admin' });
+    const asUser = async (userId: string) =>
+      ({ Authorization: `Bearer ${(await issueSession(db, userId)).sessionToken}` });
+
+    expect((await fetch(`${baseUrl}/api/admin/system/metrics`)).status).toBe(401);
+    const forbidden = await fetch(`${baseUrl}/api/admin/system/metrics`, { headers: await asUser('member') });
+    expect(forbidden.status).toBe(403);
+
+    const headers = await asUser('admin');
+    const metrics = await fetch(`${baseUrl}/api/admin/system/metrics`, { headers });
+    expect(metrics.status).toBe(200);
+    const body = await metrics.json();
+    expect(body).toMatchObject({ totalUsers: 2, totalSpaces: 0, totalFiles: 0, storageUsed: '0 B' });
+    // Earlier API requests in this file were timed
+    expect(body.latency.requests).toBeGreaterThan(0);
+
+    const nodes = await (await fetch(`${baseUrl}/api/admin/system/nodes`, { headers })).json();
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0]).toMatchObject({ region: 'local' });
+
+    const { logSystemEvent } = await import('../lib/monitoring/event-log');
+    logSystemEvent('INFO', 'test', 'first');
+    logSystemEvent('WARN', 'test', 'second');
+    const events = await fetch(`${baseUrl}/api/admin/system/events?limit=1`, { headers });
+    expect(await events.json()).toEqual([expect.objectContaining({ level: 'WARN', message: 'second', status: 'warning' })]);
+  });
+
+  it('passes path segments of moderation routes to the handlers as query parameters', async () => {
+    const { DatabaseFactory } = await import('../lib/database/database-factory');
+    const { issueSession } = await import('../lib/auth/session');
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    // Users were created by the previous test
+    const headers = {
+      Authorization: `Bearer ${(await issueSession(db, 'admin')).sessionToken}`,
+      'Content-Type': 'application/json'
+    };
+
+    const suspended = await fetch(`${baseUrl}/api/admin/users/member/suspend`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ days: 2 })
+    });
+    expect(suspended.status).toBe(200);
+    expect((await db.getUserById('member'))?.moderation_status).toBe('suspended');
+
+    const unknown = await fetch(`${baseUrl}/api/admin/users/member/promote`, { method: 'POST', headers, body: '{}' });
+    expect(unknown.status).toBe(400);
+    expect((await fetch(`${baseUrl}/api/admin/users/member`, { headers })).status).toBe(404);
+  });
+
+  it('opens the content console to moderators but keeps system and announcements for admins', async () => {
+    const { DatabaseFactory } = await import('../lib/database/database-factory');
+    const { issueSession } = await import('../lib/auth/session');
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    await db.updateUser('member', { role: 'moderator', moderation_status: 'active', suspended_until: undefined });
+    const headers = { Authorization: `Bearer ${(await issueSession(db, 'member')).sessionToken}` };
+
+    expect((await fetch(`${baseUrl}/api/admin/content/reports`, { headers })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/admin/users/stats`, { headers })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/admin/announcements`, { headers })).status).toBe(403);
+    expect((await fetch(`${baseUrl}/api/admin/system/metrics`, { headers })).status).toBe(403);
+  });
+
+  it('registers, signs in and signs out against the SQLite default', async () => {
+    const auth = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+      fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body)
+      });
+    const credentials = { username: 'newcomer', password: 'correct horse battery' };
+
+    const registered = await auth({ action: 'register', email: 'newcomer@example.com', ...credentials });
+    expect(registered.status).toBe(200);
+    const { userId } = (await registered.json()).payload;
+
+    expect((await auth({ action: 'login', username: 'newcomer', password: 'wrong password' })).status).toBe(500);
+    const login = await auth({ action: 'login', ...credentials });
+    expect(login.status).toBe(200);
+    const { payload } = await login.json();
+    expect(payload).toMatchObject({ userId, role: 'user', pri: { nodeAddress: userId } });
+    const headers = { Authorization: `Bearer ${payload.sessionToken}` };
+
+    const validated = await auth({ action: 'validateSession' }, headers);
+    expect(await validated.json()).toMatchObject({ kind: 'sessionValidated', payload: { userId } });
+    expect(await (await auth({ action: 'logout' }, headers)).json()).toMatchObject({ payload: { revoked: true } });
+    expect((await auth({ action: 'validateSession' }, headers)).status).toBe(401);
+  });
+
+  it('keeps likes on private-space posts from non-members', async () => {
+    const { DatabaseFactory } = await import('../lib/database/database-factory');
+    const { issueSession } = await import('../lib/auth/session');
+    const { createTestUsers, testPrimeIndices } = await import('../lib/database/test-fixtures');
+    const db = await DatabaseFactory.getOrCreateFromEnvironment();
+    await createTestUsers(db, ['alice', 'bob']);
+    await db.createSpace({ space_id: 'private_1', name: 'Private', is_public: false, owner_id: 'alice' });
+    await db.addSpaceMember({ space_id: 'private_1', user_id: 'alice', role: 'owner', status: 'active' });
+    await db.createBeacon({
+      beacon_id: 'private_post', beacon_type: 'post', author_id: 'alice', prime_indices: testPrimeIndices,
+      epoch: 1, fingerprint: Buffer.from('f'), signature: Buffer.from('s'), metadata: { space_id: 'private_1' }
+    });
+    const send = async (userId: string, kind: string) => (await fetch(`${baseUrl}/api/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${(await issueSession(db, userId)).sessionToken}`
+      },
+      body: JSON.stringify({ kind, payload: { postBeaconId: 'private_post' } })
+    })).json();
+
+    for (const kind of ['likePost', 'unlikePost']) {
+      expect(await send('bob', kind)).toMatchObject({ kind: 'error', payload: { code: 'FORBIDDEN', permission: 'view_space' } });
+    }
+    expect(await send('alice', 'unlikePost')).toMatchObject({ kind: 'likePostSuccess', payload: { likeCount: 0 } });
+  });
+});
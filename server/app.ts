@@ -0,0 +1,221 @@
+/**
+ * Standalone HTTP Server
+ * Hosts the api/ handlers outside Vercel, plus the built SPA and health checks
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import messagesHandler from '../api/messages';
+import eventsHandler from '../api/events';
+import pollMessagesHandler from '../api/poll-messages';
+import loginHandler from '../api/auth/login';
+import archiveSpacesHandler from '../api/cron/archive-spaces';
+import systemMetricsHandler from '../api/admin/system/metrics';
+import systemEventsHandler from '../api/admin/system/events';
+import systemNodesHandler from '../api/admin/system/nodes';
+import contentReportsHandler from '../api/admin/content/reports';
+import contentActionHandler from '../api/admin/content/[id]/[action]';
+import userStatsHandler from '../api/admin/users/stats';
+import userActionHandler from '../api/admin/users/[id]/[action]';
+import spaceStatsHandler from '../api/admin/spaces/stats';
+import announcementsHandler from '../api/admin/announcements/index';
+import announcementActionHandler from '../api/admin/announcements/[id]/[action]';
+import { DatabaseFactory } from '../lib/database/database-factory';
+import { MessageQueueFactory } from '../lib/queue/queue-factory';
+import { logSystemEvent } from '../lib/monitoring/event-log';
+import { startRequest } from '../lib/monitoring/request-metrics';
+import { RequestBodyError, toVercelRequest, toVercelResponse } from './vercel-compat';
+import { createStaticHandler } from './static-files';
+
+type ApiHandler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+// The same paths Vercel derives from the api/ file layout; a [name] segment
+// matches any one path segment and reaches the handler as req.query.name
+const API_ROUTES: Record<string, ApiHandler> = {
+  '/api/messages': messagesHandler,
+  '/api/events': eventsHandler,
+  '/api/poll-messages': pollMessagesHandler,
+  '/api/auth/login': loginHandler,
+  '/api/cron/archive-spaces': archiveSpacesHandler,
+  '/api/admin/system/metrics': systemMetricsHandler,
+  '/api/admin/system/events': systemEventsHandler,
+  '/api/admin/system/nodes': systemNodesHandler,
+  '/api/admin/content/reports': contentReportsHandler,
+  '/api/admin/content/[id]/[action]': contentActionHandler,
+  '/api/admin/users/stats': userStatsHandler,
+  '/api/admin/users/[id]/[action]': userActionHandler,
+  '/api/admin/spaces/stats': spaceStatsHandler,
+  '/api/admin/announcements': announcementsHandler,
+  '/api/admin/announcements/[id]/[action]': announcementActionHandler
+};
+
+interface ApiRouteMatch {
+  handler: ApiHandler;
+  params: Record<string, string>;
+}
+
+// Fixed paths win over dynamic ones, as on Vercel
+function matchApiRoute(pathname: string): ApiRouteMatch | null {
+  if (API_ROUTES[pathname]) {
+    return { handler: API_ROUTES[pathname], params: {} };
+  }
+
+  const segments = pathname.split('/');
+  for (const [route, handler] of Object.entries(API_ROUTES)) {
+    const routeSegments = route.split('/');
+    if (routeSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = routeSegments.every((routeSegment, index) => {
+      const param = /^\[(\w+)\]$/.exec(routeSegment);
+      if (!param) return routeSegment === segments[index];
+      params[param[1]] = decodeURIComponent(segments[index]);
+      return params[param[1]] !== '';
+    });
+    if (matches) {
+      return { handler, params };
+    }
+  }
+  return null;
+}
+
+// In-flight requests get this long to finish once shutdown starts
+export const SHUTDOWN_TIMEOUT_MS = 10000;
+
+// API requests slower than this are logged as warnings
+export const SLOW_REQUEST_MS = 2000;
+
+export interface AppServerOptions {
+  staticDir?: string;
+}
+
+export interface AppServer {
+  server: Server;
+  shutdown(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+}
+
+async function isDatabaseConnected(): Promise<boolean> {
+  try {
+    return (await DatabaseFactory.getOrCreateFromEnvironment()).isConnected();
+  } catch (error) {
+    logSystemEvent('ERROR', 'server', 'Database is unavailable', { detail: error });
+    return false;
+  }
+}
+
+export function createAppServer(options: AppServerOptions = {}): AppServer {
+  const serveStatic = createStaticHandler(options.staticDir ?? 'dist');
+  // Open SSE streams never finish on their own, so shutdown ends them
+  const eventStreams = new Set<ServerResponse>();
+  let shuttingDown: Promise<void> | null = null;
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    // Liveness: the process is up and answering
+    if (pathname === '/health') {
+      sendJson(res, 200, {
+        status: shuttingDown ? 'shutting_down' : 'ok',
+        uptime: process.uptime(),
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // Readiness: send traffic here only while the database is reachable
+    if (pathname === '/ready') {
+      const database = !shuttingDown && await isDatabaseConnected();
+      sendJson(res, database ? 200 : 503, {
+        status: database ? 'ready' : 'unavailable',
+        database: database ? 'connected' : 'disconnected',
+        shuttingDown: !!shuttingDown
+      });
+      return;
+    }
+
+    if (shuttingDown) {
+      res.setHeader('Connection', 'close');
+      sendJson(res, 503, { error: 'Server is shutting down' });
+      return;
+    }
+
+    const route = matchApiRoute(pathname);
+    if (route) {
+      if (route.handler === eventsHandler) {
+        eventStreams.add(res);
+        res.on('close', () => eventStreams.delete(res));
+      } else {
+        // Handlers may return before they respond, so timing ends with the response
+        const finishRequest = startRequest();
+        res.on('close', () => {
+          const durationMs = finishRequest(res.statusCode);
+          if (durationMs > SLOW_REQUEST_MS) {
+            logSystemEvent('WARN', 'api', `${req.method} ${pathname} took ${Math.round(durationMs)}ms`);
+          }
+        });
+      }
+      const vercelRequest = await toVercelRequest(req);
+      Object.assign(vercelRequest.query, route.params);
+      await route.handler(vercelRequest, toVercelResponse(res));
+      return;
+    }
+
+    if (pathname.startsWith('/api/')) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    await serveStatic(req, res, pathname);
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      if (error instanceof RequestBodyError) {
+        sendJson(res, error.statusCode, { error: error.message });
+        return;
+      }
+      logSystemEvent('ERROR', 'server', 'Unhandled request error', { detail: error });
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal server error' });
+      } else {
+        res.destroy();
+      }
+    });
+  });
+
+  const shutdown = () => {
+    shuttingDown ??= (async () => {
+      logSystemEvent('INFO', 'server', 'Shutting down...');
+
+      // Clients reconnect elsewhere and resume from their Last-Event-ID
+      for (const stream of eventStreams) {
+        stream.end();
+      }
+
+      await new Promise<void>(resolve => {
+        const forceClose = setTimeout(() => server.closeAllConnections(), SHUTDOWN_TIMEOUT_MS);
+        forceClose.unref();
+        server.close(() => {
+          clearTimeout(forceClose);
+          resolve();
+        });
+        server.closeIdleConnections();
+      });
+
+      await MessageQueueFactory.shutdown();
+      await DatabaseFactory.shutdown();
+      logSystemEvent('INFO', 'server', 'Shutdown complete', { status: 'success' });
+    })();
+    return shuttingDown;
+  };
+
+  return { server, shutdown };
+}
@@ -0,0 +1,60 @@
+/**
+ * Server Entry Point
+ * Runs the standalone server for Docker and local production builds:
+ *   npm run build && npm run build:server && npm start
+ */
+
+import { createAppServer } from './app';
+import { DatabaseFactory } from '../lib/database/database-factory';
+import { archiveInactiveFiles } from '../lib/spaces/settings';
+import { sweepSpaceFileBlobs } from '../lib/files/space-files';
+import { BlobStoreFactory } from '../lib/storage/blob-store-factory';
+import { MailTransportFactory } from '../lib/mail/mail-factory';
+import { logSystemEvent } from '../lib/monitoring/event-log';
+
+const port = parseInt(process.env.PORT || '8080');
+const host = process.env.HOST || '0.0.0.0';
+
+// Vercel runs api/cron/archive-spaces daily; here the server does it itself,
+// along with sweeping file content no space refers to any more
+const ARCHIVE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Throws now, not on the first password reset, when production names no
+// mail transport
+MailTransportFactory.getOrCreateFromEnvironment();
+
+const { server, shutdown } = createAppServer({ staticDir: process.env.STATIC_DIR || 'dist' });
+
+server.listen(port, host, () => {
+  logSystemEvent('INFO', 'server', `Listening on http://${host}:${port}`, { status: 'success' });
+
+  // Connect (and migrate) up front instead of on the first request; /ready
+  // reports 503 and retries until this succeeds
+  DatabaseFactory.getOrCreateFromEnvironment().catch(error => {
+    logSystemEvent('ERROR', 'server', 'Initial database connection failed', { detail: error });
+  });
+});
+
+const archiveTimer = setInterval(() => {
+  DatabaseFactory.getOrCreateFromEnvironment()
+    .then(db => archiveInactiveFiles(db))
+    .then(archived => logSystemEvent('INFO', 'server', `Archived ${archived} space files`, { status: 'success' }))
+    .catch(error => logSystemEvent('ERROR', 'server', 'Space file archiving failed', { detail: error }));
+  DatabaseFactory.getOrCreateFromEnvironment()
+    .then(db => sweepSpaceFileBlobs(db, BlobStoreFactory.getOrCreateFromEnvironment()))
+    .then(deleted => logSystemEvent('INFO', 'server', `Deleted ${deleted} unreferenced file blobs`, { status: 'success' }))
+    .catch(error => logSystemEvent('ERROR', 'server', 'File blob sweep failed', { detail: error }));
+}, ARCHIVE_INTERVAL_MS);
+archiveTimer.unref();
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, () => {
+    clearInterval(archiveTimer);
+    shutdown()
+      .then(() => process.exit(0))
+      .catch(error => {
+        console.error('[SERVER] Shutdown failed:', error);
+        process.exit(1);
+      });
+  });
+}
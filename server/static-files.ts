@@ -0,0 +1,101 @@
+/**
+ * Static File Serving
+ * Serves the built SPA from dist/, falling back to index.html for client routes
+ */
+
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { extname, join, normalize, resolve, sep } from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8'
+};
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function sendFile(req: IncomingMessage, res: ServerResponse, path: string, cacheControl: string): void {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', CONTENT_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream');
+  res.setHeader('Cache-Control', cacheControl);
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+  createReadStream(path)
+    .on('error', error => {
+      console.error('[STATIC] Failed to read', path, error);
+      res.destroy(error);
+    })
+    .pipe(res);
+}
+
+export function createStaticHandler(rootDir: string) {
+  const root = resolve(rootDir);
+  const indexPath = join(root, 'index.html');
+
+  return async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.statusCode = 405;
+      res.setHeader('Allow', 'GET, HEAD');
+      res.end();
+      return;
+    }
+
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(pathname);
+    } catch {
+      res.statusCode = 400;
+      res.end();
+      return;
+    }
+
+    // Never serve anything outside the build directory
+    const filePath = normalize(join(root, decoded));
+    if (filePath !== root && !filePath.startsWith(root + sep)) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    if (await isFile(filePath)) {
+      // Vite fingerprints everything under assets/, so those never change
+      const immutable = filePath.startsWith(join(root, 'assets') + sep);
+      sendFile(req, res, filePath, immutable ? 'public, max-age=31536000, immutable' : 'no-cache');
+      return;
+    }
+
+    // Paths that look like files are real misses; everything else is a client route
+    if (extname(decoded) === '' && await isFile(indexPath)) {
+      sendFile(req, res, indexPath, 'no-cache');
+      return;
+    }
+
+    res.statusCode = 404;
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end('Not found');
+  };
+}
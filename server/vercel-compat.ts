@@ -0,0 +1,120 @@
+/**
+ * Vercel Request/Response Compatibility
+ * Gives plain Node requests the query, cookies and parsed body Vercel adds, and
+ * responses its status/json/send helpers, so api/ handlers run unchanged
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Matches nginx's client_max_body_size; space file uploads arrive as JSON
+export const MAX_BODY_BYTES = 100 * 1024 * 1024;
+
+export class RequestBodyError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+function parseQuery(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length === 1 ? values[0] : values;
+  }
+  return query;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of header?.split(';') ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      cookies[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large', 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Same rules as Vercel: JSON and form bodies are parsed, text stays a string
+function parseBody(raw: Buffer, contentType: string | undefined): unknown {
+  if (raw.length === 0) return undefined;
+
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (type === 'application/json') {
+    try {
+      return JSON.parse(raw.toString('utf8'));
+    } catch {
+      throw new RequestBodyError('Invalid JSON body', 400);
+    }
+  }
+  if (type === 'application/x-www-form-urlencoded') {
+    return parseQuery(new URLSearchParams(raw.toString('utf8')));
+  }
+  if (type?.startsWith('text/')) {
+    return raw.toString('utf8');
+  }
+  return raw;
+}
+
+export async function toVercelRequest(req: IncomingMessage): Promise<VercelRequest> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+
+  return Object.assign(req, {
+    query: parseQuery(url.searchParams),
+    cookies: parseCookies(req.headers.cookie),
+    body: hasBody ? parseBody(await readBody(req), req.headers['content-type']) : undefined
+  }) as VercelRequest;
+}
+
+export function toVercelResponse(res: ServerResponse): VercelResponse {
+  const response = res as VercelResponse;
+
+  response.status = (statusCode: number) => {
+    res.statusCode = statusCode;
+    return response;
+  };
+
+  response.json = (body: unknown) => {
+    if (!res.hasHeader('Content-Type')) {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    }
+    res.end(JSON.stringify(body));
+    return response;
+  };
+
+  response.send = (body: unknown) => {
+    if (body !== null && typeof body === 'object' && !Buffer.isBuffer(body)) {
+      return response.json(body);
+    }
+    if (!res.hasHeader('Content-Type')) {
+      res.setHeader('Content-Type', Buffer.isBuffer(body) ? 'application/octet-stream' : 'text/html; charset=utf-8');
+    }
+    res.end(body === undefined || body === null ? undefined : body);
+    return response;
+  };
+
+  response.redirect = (statusOrUrl: string | number, url?: string) => {
+    res.statusCode = typeof statusOrUrl === 'number' ? statusOrUrl : 307;
+    res.setHeader('Location', typeof statusOrUrl === 'string' ? statusOrUrl : url ?? '/');
+    res.end();
+    return response;
+  };
+
+  return response;
+}
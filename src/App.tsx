@@ -7,6 +7,7 @@ import { Navigation } from './components/Navigation';
 import { NotificationSystem, useNotifications } from './components/NotificationSystem';
 import { AppRoutes } from './routes/AppRoutes';
 import { MessengerButton } from './components/MessengerButton';
+import { AnnouncementBanner } from './components/AnnouncementBanner';
 import { communicationManager, type CommunicationMessage } from './services/communication-manager';
 import { holographicMemoryManager } from './services/holographic-memory';
 
@@ -84,7 +85,7 @@ const AppContent: React.FC = () => {
 
   // Listen for global message notifications via SSE
   React.useEffect(() => {
-    const handleGlobalMessageNotification = (message: CommunicationMessage) => {
+    const handleGlobalMessageNotification = async (message: CommunicationMessage) => {
       if (message.kind === 'beaconReceived') {
         const payload = message.payload as {
           beaconId: string;
@@ -98,7 +99,7 @@ const AppContent: React.FC = () => {
           console.log(`[App] Global message notification from ${payload.senderId}`);
           
           try {
-            const decodedContent = holographicMemoryManager.decodeMemory(payload.beacon);
+            const decodedContent = await holographicMemoryManager.decryptMemory(payload.beacon);
             
             if (decodedContent) {
               let messageData;
@@ -160,6 +161,7 @@ const AppContent: React.FC = () => {
       <div className="absolute inset-0 bg-[url('data:image/svg+xml,%3Csvg%20width%3D%2260%22%20height%3D%2260%22%20viewBox%3D%220%200%2060%2060%22%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%3E%3Cg%20fill%3D%22none%22%20fill-rule%3D%22evenodd%22%3E%3Cg%20fill%3D%22%2523ffffff%22%20fill-opacity%3D%220.05%22%3E%3Ccircle%20cx%3D%2230%22%20cy%3D%2230%22%20r%3D%221%22%2F%3E%3C%2Fg%3E%3C%2Fg%3E%3C%2Fsvg%3E')] opacity-20"></div>
       
       {isAuthenticated && <Navigation />}
+      {isAuthenticated && <AnnouncementBanner />}
       
       <main className="relative">
         <AppRoutes />
@@ -9,6 +9,8 @@ import {
   SuccessAction,
   ThunkAction,
 } from './types';
+import { engagementService } from '../services/engagement';
+import { communicationManager } from '../services/communication-manager';
 
 // Helper function to create action with metadata
 const createAction = (type: string, payload?: unknown, meta?: Record<string, unknown>): BaseAction => ({
@@ -242,8 +244,8 @@ export const activityActions = {
     ));
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 300));
-      dispatch(createAction(ACTION_TYPES.ACTIVITIES.LIKE_ACTIVITY, { id }));
+      const likes = await engagementService.likePost(id);
+      dispatch(createAction(ACTION_TYPES.ACTIVITIES.LIKE_ACTIVITY, { id, likes }));
     } catch (_error) {
       dispatch(createAction(ACTION_TYPES.ACTIVITIES.UPDATE_FAILURE, {
         message: 'Failed to like activity',
@@ -272,15 +274,17 @@ export const activityActions = {
     ));
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 500));
+      const { comment: stored, commentCount } = await engagementService.addComment(activityId, comment);
       const newComment = { 
-        id: Date.now().toString(), 
-        content: comment, 
-        timestamp: new Date().toISOString() 
+        id: stored.commentId, 
+        content: stored.content, 
+        timestamp: stored.createdAt 
       };
       dispatch(createAction(ACTION_TYPES.ACTIVITIES.ADD_COMMENT, {
         activityId,
         comment: newComment,
+        commentCount,
+        tempCommentId,
       }));
       return newComment;
     } catch (error) {
@@ -366,6 +370,16 @@ export const userActions = {
       throw error;
     }
   },
+
+  // The server only keeps the status while the user has an event stream open
+  setOnlineStatus: (status: 'online' | 'away'): ThunkAction => async (dispatch) => {
+    const response = await communicationManager.send({ kind: 'setPresence', payload: { status } });
+    if (response.kind === 'error') {
+      throw new Error(response.payload.message);
+    }
+    dispatch(createAction(ACTION_TYPES.USERS.SET_ONLINE_STATUS, response.payload));
+    return response.payload;
+  },
 };
 
 // UI Action Creators
@@ -1,55 +1,160 @@
-import { TrendingUp, Users, Database, Zap, Clock, Activity, BarChart3, PieChart } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { TrendingUp, Users, Database, Zap, Clock, Activity, BarChart3, Upload } from 'lucide-react';
 import { ResonanceIndicator } from './ResonanceIndicator';
+import { useAuth } from '../contexts/AuthContext';
+import { analyticsService } from '../services/analytics';
+import type { AnalyticsCounts, AnalyticsEventType, AnalyticsRange, AnalyticsReport } from '../protocol';
 
-const analyticsData = {
-  overview: {
-    totalSpaces: 12,
-    totalFiles: 1247,
-    activeUsers: 89,
-    avgResonance: 0.847,
-    totalStorage: '15.6 GB',
-    summonSuccess: 94.2
-  },
-  trends: [
-    { label: 'Files Summoned', value: 156, change: +12, period: 'today' },
-    { label: 'New Contributions', value: 43, change: +8, period: 'today' },
-    { label: 'Active Sessions', value: 28, change: -3, period: 'now' },
-    { label: 'Avg Response Time', value: '12ms', change: -2, period: 'today' }
-  ],
-  resonanceHealth: [
-    { space: 'Project Quantum', strength: 0.94, trend: 'up' },
-    { space: 'Design System', strength: 0.89, trend: 'up' },
-    { space: 'Research Papers', strength: 0.82, trend: 'stable' },
-    { space: 'Temporal Archive', strength: 0.76, trend: 'down' }
-  ],
-  recentActivity: [
-    { time: '14:32', event: 'High resonance achieved', space: 'Project Quantum', type: 'success' },
-    { time: '14:28', event: 'New member joined', space: 'Design System', type: 'info' },
-    { time: '14:15', event: 'File contribution', space: 'Research Papers', type: 'info' },
-    { time: '14:02', event: 'Resonance lock timeout', space: 'Temporal Archive', type: 'warning' }
-  ]
+const EVENT_LABELS: Record<AnalyticsEventType, string> = {
+  space_view: 'Space Views',
+  post: 'Posts',
+  file_contribution: 'New Contributions',
+  summon: 'Files Summoned',
+  join: 'New Members',
+  message: 'Messages'
 };
 
+const ACTIVITY_DESCRIPTIONS: Record<AnalyticsEventType, string> = {
+  space_view: 'viewed the space',
+  post: 'posted',
+  file_contribution: 'contributed a file',
+  summon: 'summoned a file',
+  join: 'joined',
+  message: 'sent a message'
+};
+
+const ACTIVITY_COLORS: Record<AnalyticsEventType, string> = {
+  space_view: 'bg-gray-400',
+  post: 'bg-blue-400',
+  file_contribution: 'bg-green-400',
+  summon: 'bg-yellow-400',
+  join: 'bg-purple-400',
+  message: 'bg-cyan-400'
+};
+
+const RANGE_LABELS: Record<AnalyticsRange, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days'
+};
+
+const EVENT_TYPES = Object.keys(EVENT_LABELS) as AnalyticsEventType[];
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+const sumCounts = (counts: AnalyticsCounts): number =>
+  EVENT_TYPES.reduce((total, type) => total + counts[type], 0);
+
 export function AnalyticsBoard() {
+  const [range, setRange] = useState<AnalyticsRange>('7d');
+  const [spaceId, setSpaceId] = useState<string>('');
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [spaceOptions, setSpaceOptions] = useState<{ spaceId: string; name: string }[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { waitForAuth } = useAuth();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    waitForAuth()
+      .then(() => analyticsService.getReport(range, spaceId || undefined))
+      .then(next => {
+        if (cancelled) return;
+        setReport(next);
+        setError(null);
+        // The unfiltered report lists every space the filter can offer
+        if (!next.spaceId) {
+          setSpaceOptions(next.spaces.map(({ spaceId, name }) => ({ spaceId, name })));
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load analytics:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load analytics');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [range, spaceId, waitForAuth]);
+
+  const totalFiles = report?.spaces.reduce((total, space) => total + space.fileCount, 0) ?? 0;
+  const totalStorage = report?.spaces.reduce((total, space) => total + space.storageBytes, 0) ?? 0;
+  const dailyTotals = report?.daily.map(day => ({ date: day.date, total: sumCounts(day.counts) })) ?? [];
+  const busiestDay = Math.max(1, ...dailyTotals.map(day => day.total));
+  const spaceActivity = report?.spaces.map(space => ({
+    ...space,
+    total: sumCounts(space.totals),
+    previous: sumCounts(space.previousTotals)
+  })).sort((a, b) => b.total - a.total) ?? [];
+  const busiestSpace = Math.max(1, ...spaceActivity.map(space => space.total));
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="space-y-8">
       {/* Header */}
-        <div>
-          <h2 className="text-3xl font-bold text-white mb-2">Analytics Dashboard</h2>
-          <p className="text-gray-400">Comprehensive insights into your quantum collaboration network</p>
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-white mb-2">Analytics Dashboard</h2>
+            <p className="text-gray-400">Activity across the spaces you belong to</p>
+          </div>
+          <div className="flex gap-3">
+            <select
+              value={spaceId}
+              onChange={(e) => setSpaceId(e.target.value)}
+              className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+            >
+              <option value="">All spaces</option>
+              {spaceOptions.map(option => (
+                <option key={option.spaceId} value={option.spaceId}>{option.name}</option>
+              ))}
+            </select>
+            <select
+              value={range}
+              onChange={(e) => setRange(e.target.value as AnalyticsRange)}
+              className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+            >
+              {(Object.keys(RANGE_LABELS) as AnalyticsRange[]).map(option => (
+                <option key={option} value={option}>{RANGE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300">{error}</div>
+        )}
+
+        {!report && loading && (
+          <div className="text-center text-gray-400 py-12">Loading analytics...</div>
+        )}
+
+        {report && report.spaces.length === 0 && (
+          <div className="text-center text-gray-400 py-12">Join a space to see its activity here.</div>
+        )}
+
+        {report && report.spaces.length > 0 && (
+        <>
         {/* Overview Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {[
-          { label: 'Total Spaces', value: analyticsData.overview.totalSpaces, icon: Database, color: 'text-cyan-400' },
-          { label: 'Files Managed', value: analyticsData.overview.totalFiles.toLocaleString(), icon: BarChart3, color: 'text-purple-400' },
-          { label: 'Active Users', value: analyticsData.overview.activeUsers, icon: Users, color: 'text-green-400' },
-          { label: 'Storage Used', value: analyticsData.overview.totalStorage, icon: Activity, color: 'text-orange-400' },
-          { label: 'Summon Success', value: `${analyticsData.overview.summonSuccess}%`, icon: Zap, color: 'text-yellow-400' },
-          { label: 'Avg Resonance', value: `${(analyticsData.overview.avgResonance * 100).toFixed(1)}%`, icon: TrendingUp, color: 'text-pink-400' }
-        ].map((metric, index) => (
+          { label: spaceId ? 'Members' : 'Spaces', value: spaceId ? report.spaces[0].memberCount : report.spaces.length, icon: Database, color: 'text-cyan-400' },
+          { label: 'Files Managed', value: totalFiles.toLocaleString(), icon: BarChart3, color: 'text-purple-400' },
+          { label: 'Active Users', value: report.activeUsers, icon: Users, color: 'text-green-400' },
+          { label: 'Storage Used', value: formatBytes(totalStorage), icon: Activity, color: 'text-orange-400' },
+          { label: 'Files Summoned', value: report.totals.summon.toLocaleString(), icon: Zap, color: 'text-yellow-400' },
+          { label: 'New Contributions', value: report.totals.file_contribution.toLocaleString(), icon: Upload, color: 'text-pink-400' }
+        ].map((metric) => (
           <div key={metric.label} className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
             <div className="flex items-center justify-between mb-4">
               <metric.icon className={`w-8 h-8 ${metric.color}`} />
@@ -62,53 +167,78 @@ export function AnalyticsBoard() {
         ))}
       </div>
 
+      {/* Daily Activity */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+        <div className="flex items-center space-x-2 mb-6">
+          <BarChart3 className="w-5 h-5 text-cyan-400" />
+          <h3 className="text-lg font-semibold text-white">Daily Activity</h3>
+        </div>
+        <div className="flex items-end h-32 gap-1">
+          {dailyTotals.map(day => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${day.total}`}
+              className="flex-1 bg-cyan-400/60 hover:bg-cyan-300 rounded-t transition-colors"
+              style={{ height: `${Math.max(2, (day.total / busiestDay) * 100)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between mt-2 text-xs font-mono text-gray-400">
+          <span>{report.from}</span>
+          <span>{report.to}</span>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Trends */}
         <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
           <div className="flex items-center space-x-2 mb-6">
             <TrendingUp className="w-5 h-5 text-cyan-400" />
-            <h3 className="text-lg font-semibold text-white">Performance Trends</h3>
+            <h3 className="text-lg font-semibold text-white">Activity Trends</h3>
           </div>
           <div className="space-y-4">
-            {analyticsData.trends.map((trend, index) => (
-              <div key={trend.label} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
-                <div>
-                  <div className="text-white font-medium">{trend.label}</div>
-                  <div className="text-sm text-gray-400">{trend.period}</div>
-                </div>
-                <div className="text-right">
-                  <div className="text-lg font-bold text-white">{trend.value}</div>
-                  <div className={`text-sm ${trend.change > 0 ? 'text-green-400' : 'text-red-400'}`}>
-                    {trend.change > 0 ? '+' : ''}{trend.change}
+            {EVENT_TYPES.map(type => {
+              const change = report.totals[type] - report.previousTotals[type];
+              return (
+                <div key={type} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+                  <div>
+                    <div className="text-white font-medium">{EVENT_LABELS[type]}</div>
+                    <div className="text-sm text-gray-400">
+                      {RANGE_LABELS[range].toLowerCase()} · you: {report.personal[type]}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-lg font-bold text-white">{report.totals[type]}</div>
+                    <div className={`text-sm ${change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                      {change > 0 ? '+' : ''}{change}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
 
-        {/* Resonance Health */}
+        {/* Activity by Space */}
         <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
           <div className="flex items-center space-x-2 mb-6">
             <Zap className="w-5 h-5 text-purple-400" />
-            <h3 className="text-lg font-semibold text-white">Resonance Health by Space</h3>
+            <h3 className="text-lg font-semibold text-white">Activity by Space</h3>
           </div>
           <div className="space-y-4">
-            {analyticsData.resonanceHealth.map((space, index) => (
-              <div key={space.space} className="space-y-2">
+            {spaceActivity.map(space => (
+              <div key={space.spaceId} className="space-y-2">
                 <div className="flex items-center justify-between">
-                  <span className="text-white font-medium">{space.space}</span>
+                  <span className="text-white font-medium">{space.name}</span>
                   <div className="flex items-center space-x-2">
-                    <span className="text-sm font-mono text-cyan-400">
-                      {(space.strength * 100).toFixed(0)}%
-                    </span>
+                    <span className="text-sm font-mono text-cyan-400">{space.total}</span>
                     <div className={`w-2 h-2 rounded-full ${
-                      space.trend === 'up' ? 'bg-green-400' :
-                      space.trend === 'down' ? 'bg-red-400' : 'bg-yellow-400'
+                      space.total > space.previous ? 'bg-green-400' :
+                      space.total < space.previous ? 'bg-red-400' : 'bg-yellow-400'
                     }`} />
                   </div>
                 </div>
-                <ResonanceIndicator strength={space.strength} animated />
+                <ResonanceIndicator strength={space.total / busiestSpace} />
               </div>
             ))}
           </div>
@@ -119,31 +249,31 @@ export function AnalyticsBoard() {
       <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
         <div className="flex items-center space-x-2 mb-6">
           <Clock className="w-5 h-5 text-green-400" />
-          <h3 className="text-lg font-semibold text-white">Real-time Activity Log</h3>
+          <h3 className="text-lg font-semibold text-white">Recent Activity</h3>
         </div>
+        {report.recentActivity.length === 0 ? (
+          <div className="text-gray-400">No activity yet.</div>
+        ) : (
         <div className="space-y-3">
-          {analyticsData.recentActivity.map((activity, index) => (
+          {report.recentActivity.map((activity, index) => (
             <div key={index} className="flex items-center space-x-3 p-3 bg-white/5 rounded-lg">
-              <div className="text-sm font-mono text-gray-400 w-12">{activity.time}</div>
-              <div className={`w-2 h-2 rounded-full ${
-                activity.type === 'success' ? 'bg-green-400' :
-                activity.type === 'warning' ? 'bg-yellow-400' : 'bg-blue-400'
-              }`} />
+              <div className="text-sm font-mono text-gray-400 w-12">
+                {new Date(activity.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </div>
+              <div className={`w-2 h-2 rounded-full ${ACTIVITY_COLORS[activity.eventType]}`} />
               <div className="flex-1">
-                <span className="text-white">{activity.event}</span>
+                <span className="text-white">{activity.username} {ACTIVITY_DESCRIPTIONS[activity.eventType]}</span>
                 <span className="text-gray-400 mx-2">in</span>
-                <span className="text-purple-300">{activity.space}</span>
+                <span className="text-purple-300">{activity.spaceName}</span>
               </div>
             </div>
           ))}
         </div>
-        <div className="mt-4 pt-4 border-t border-white/10">
-          <button className="w-full text-sm text-cyan-400 hover:text-cyan-300 transition-colors">
-            View full activity log
-          </button>
-        </div>
+        )}
       </div>
+        </>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
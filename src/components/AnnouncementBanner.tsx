@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { Megaphone, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { moderationService } from '../services/moderation';
+import type { ClientAnnouncement } from '../protocol';
+
+// Platform announcements the user has not dismissed, newest on top
+export function AnnouncementBanner() {
+  const [announcements, setAnnouncements] = useState<ClientAnnouncement[]>([]);
+  const { waitForAuth } = useAuth();
+
+  useEffect(() => {
+    let cancelled = false;
+    waitForAuth()
+      .then(() => moderationService.getAnnouncements())
+      .then(loaded => {
+        if (!cancelled) setAnnouncements(loaded);
+      })
+      .catch(error => console.error('[AnnouncementBanner] Failed to load announcements:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [waitForAuth]);
+
+  const handleDismiss = async (announcementId: string) => {
+    setAnnouncements(prev => prev.filter(a => a.announcementId !== announcementId));
+    try {
+      await moderationService.dismissAnnouncement(announcementId);
+    } catch (error) {
+      console.error('[AnnouncementBanner] Failed to dismiss announcement:', error);
+    }
+  };
+
+  if (announcements.length === 0) return null;
+
+  return (
+    <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4 space-y-2">
+      {announcements.map(announcement => (
+        <div
+          key={announcement.announcementId}
+          className="flex items-start space-x-3 bg-cyan-500/10 border border-cyan-500/20 rounded-lg p-4"
+        >
+          <Megaphone className="w-5 h-5 text-cyan-300 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <h3 className="text-white font-medium">{announcement.title}</h3>
+            <p className="text-gray-300 text-sm whitespace-pre-line">{announcement.content}</p>
+          </div>
+          <button
+            onClick={() => handleDismiss(announcement.announcementId)}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
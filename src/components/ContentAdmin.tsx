@@ -1,54 +1,15 @@
-import { useState, useEffect } from 'react';
-import { ArrowLeft, Users, Flag, Eye, Trash2, CheckCircle, XCircle, MessageCircle, Globe, TrendingUp, AlertTriangle, Megaphone, FileText } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Users, Flag, Eye, EyeOff, Trash2, CheckCircle, XCircle, MessageCircle, Globe, TrendingUp, AlertTriangle, Megaphone, FileText, Ban, RotateCcw, Archive, Send } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { contentAdminService } from '../services/content-admin';
+import type {
+  Announcement, AnnouncementAction, ContentModerationAction, ReportedContent, SpaceStat, UserModerationAction, UserStat
+} from '../protocol';
 
 interface ContentAdminProps {
   onBack: () => void;
 }
 
-interface ReportedContent {
-  id: string;
-  type: string;
-  content: string;
-  author: string;
-  reporter: string;
-  reason: string;
-  timestamp: string;
-  status: string;
-  reportCount: number;
-}
-
-interface UserStat {
-  id: string;
-  name: string;
-  username: string;
-  status: string;
-  joinDate: string;
-  posts: number;
-  followers: number;
-  reports: number;
-  lastActive: string;
-}
-
-interface SpaceStat {
-  id: string;
-  name: string;
-  creator: string;
-  members: number;
-  posts: number;
-  status: string;
-  created: string;
-  reports: number;
-}
-
-interface Announcement {
-  id: string;
-  title: string;
-  content: string;
-  status: string;
-  created: string;
-  views: number;
-}
-
 export function ContentAdmin({ onBack }: ContentAdminProps) {
   const [activeTab, setActiveTab] = useState<'reports' | 'users' | 'spaces' | 'posts' | 'analytics' | 'announcements' | 'policies'>('reports');
   const [loading, setLoading] = useState(true);
@@ -57,105 +18,104 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
   const [userStats, setUserStats] = useState<UserStat[]>([]);
   const [spaceStats, setSpaceStats] = useState<SpaceStat[]>([]);
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [userSearch, setUserSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [showAnnouncementForm, setShowAnnouncementForm] = useState(false);
+  const [announcementTitle, setAnnouncementTitle] = useState('');
+  const [announcementContent, setAnnouncementContent] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { waitForAuth, user } = useAuth();
 
-  const tabs = [
+  const allTabs = [
     { id: 'reports', label: 'Content Reports', icon: Flag },
     { id: 'users', label: 'User Management', icon: Users },
     { id: 'spaces', label: 'Space Management', icon: Globe },
     { id: 'posts', label: 'Post Moderation', icon: MessageCircle },
     { id: 'analytics', label: 'Content Analytics', icon: TrendingUp },
-    { id: 'announcements', label: 'Announcements', icon: Megaphone },
+    { id: 'announcements', label: 'Announcements', icon: Megaphone, adminOnly: true },
     { id: 'policies', label: 'Policies', icon: FileText }
   ];
+  // Moderators work reports, users and spaces; announcements are for admins
+  const tabs = allTabs.filter(tab => !tab.adminOnly || user?.role === 'admin');
 
-  useEffect(() => {
-    loadContentData();
-  }, [activeTab]);
-
-  const loadContentData = async () => {
+  const loadContentData = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
+      await waitForAuth();
       switch (activeTab) {
-        case 'reports': {
-          const reportsRes = await fetch('/api/admin/content/reports');
-          if (reportsRes.ok) {
-            setReportedContent(await reportsRes.json());
-          }
+        case 'reports':
+          setReportedContent(await contentAdminService.getReports());
           break;
-        }
-        case 'users': {
-          const usersRes = await fetch('/api/admin/users/stats');
-          if (usersRes.ok) {
-            setUserStats(await usersRes.json());
-          }
+        case 'users':
+          setUserStats(await contentAdminService.getUserStats(appliedSearch));
           break;
-        }
-        case 'spaces': {
-          const spacesRes = await fetch('/api/admin/spaces/stats');
-          if (spacesRes.ok) {
-            setSpaceStats(await spacesRes.json());
-          }
+        case 'spaces':
+          setSpaceStats(await contentAdminService.getSpaceStats());
           break;
-        }
-        case 'announcements': {
-          const announcementsRes = await fetch('/api/admin/announcements');
-          if (announcementsRes.ok) {
-            setAnnouncements(await announcementsRes.json());
-          }
+        case 'announcements':
+          setAnnouncements(await contentAdminService.getAnnouncements());
           break;
-        }
       }
     } catch (err) {
       console.error('Failed to load content data:', err);
-      setError('Failed to load data. Please check your permissions.');
+      setError(`Failed to load data: ${err instanceof Error ? err.message : 'unknown error'}`);
     } finally {
       setLoading(false);
     }
-  };
+  }, [activeTab, appliedSearch, waitForAuth]);
 
-  const handleContentAction = async (contentId: string, action: 'approve' | 'remove' | 'flag') => {
-    try {
-      const response = await fetch(`/api/admin/content/${contentId}/${action}`, {
-        method: 'POST'
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to ${action} content`);
-      }
+  useEffect(() => {
+    loadContentData();
+  }, [loadContentData]);
 
-      // Reload content
+  // Runs an action, then reloads the current tab; the server's reason is shown on failure
+  const runAction = async (description: string, action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
       await loadContentData();
     } catch (err) {
-      console.error(`Failed to ${action} content:`, err);
-      setError(`Failed to ${action} content. Please try again.`);
+      console.error(`Failed to ${description}:`, err);
+      setActionError(`Failed to ${description}: ${err instanceof Error ? err.message : 'unknown error'}`);
     }
   };
 
-  const handleUserAction = async (userId: string, action: 'verify' | 'suspend' | 'ban') => {
-    try {
-      const response = await fetch(`/api/admin/users/${userId}/${action}`, {
-        method: 'POST'
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to ${action} user`);
-      }
+  const handleContentAction = (report: ReportedContent, action: ContentModerationAction) => {
+    if ((action === 'delete' || action === 'ban') && !window.confirm(`${action === 'delete' ? 'Delete this content' : `Ban ${report.author}`}? This cannot be undone.`)) {
+      return;
+    }
+    return runAction(`${action} ${report.type}`, () => contentAdminService.actOnReport(report.id, action));
+  };
 
-      // Reload users
-      await loadContentData();
-    } catch (err) {
-      console.error(`Failed to ${action} user:`, err);
-      setError(`Failed to ${action} user. Please try again.`);
+  const handleUserAction = (user: UserStat, action: UserModerationAction) => {
+    if (action === 'ban' && !window.confirm(`Ban ${user.username}? They will be signed out everywhere.`)) {
+      return;
     }
+    return runAction(`${action} ${user.username}`, () => contentAdminService.actOnUser(user.id, action));
+  };
+
+  const handleAnnouncementStatus = (announcement: Announcement, action: AnnouncementAction) =>
+    runAction(`${action} announcement`, () => contentAdminService.setAnnouncementStatus(announcement.id, action));
+
+  const handleCreateAnnouncement = async (publish: boolean) => {
+    setSaving(true);
+    await runAction('create announcement', async () => {
+      await contentAdminService.createAnnouncement({ title: announcementTitle, content: announcementContent, publish });
+      setAnnouncementTitle('');
+      setAnnouncementContent('');
+      setShowAnnouncementForm(false);
+    });
+    setSaving(false);
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'active': case 'verified': return 'text-green-400';
-      case 'pending': case 'reviewing': return 'text-yellow-400';
-      case 'flagged': case 'under_review': return 'text-red-400';
+      case 'active': return 'text-green-400';
+      case 'pending': return 'text-yellow-400';
+      case 'hidden': case 'banned': return 'text-red-400';
       case 'suspended': return 'text-orange-400';
       default: return 'text-gray-400';
     }
@@ -163,10 +123,10 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'active': case 'verified': return CheckCircle;
-      case 'pending': case 'reviewing': return AlertTriangle;
-      case 'flagged': case 'under_review': return Flag;
-      case 'suspended': return XCircle;
+      case 'active': return CheckCircle;
+      case 'pending': return AlertTriangle;
+      case 'hidden': return EyeOff;
+      case 'banned': case 'suspended': return XCircle;
       default: return Eye;
     }
   };
@@ -177,6 +137,8 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
     return num.toString();
   };
 
+  const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="flex items-center space-x-4 mb-8">
@@ -212,6 +174,15 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
         </nav>
       </div>
 
+      {actionError && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 mb-6 flex items-center justify-between">
+          <p className="text-red-400">{actionError}</p>
+          <button onClick={() => setActionError(null)} className="text-red-300 hover:text-red-200 transition-colors">
+            <XCircle className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {activeTab === 'reports' && (
         <div className="space-y-6">
           <div className="flex items-center justify-between">
@@ -249,7 +220,7 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
                       }`}>
                         {report.type.toUpperCase()}
                       </span>
-                      <span className="text-gray-400 text-sm">{report.timestamp}</span>
+                      <span className="text-gray-400 text-sm">{formatDate(report.timestamp)}</span>
                       <span className="text-red-400 text-sm">{report.reportCount} reports</span>
                     </div>
                     
@@ -276,28 +247,56 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
                   
                   <div className="flex flex-col space-y-2 ml-6">
                     <button
-                      onClick={() => handleContentAction(report.id, 'approve')}
+                      onClick={() => handleContentAction(report, 'dismiss')}
                       className="px-4 py-2 bg-green-500/20 text-green-300 text-sm rounded-lg 
                                hover:bg-green-500/30 transition-colors flex items-center space-x-2"
                     >
                       <CheckCircle className="w-4 h-4" />
-                      <span>Approve</span>
+                      <span>Dismiss</span>
                     </button>
+                    {report.type !== 'user' && (
+                      <button
+                        onClick={() => handleContentAction(report, 'hide')}
+                        className="px-4 py-2 bg-gray-500/20 text-gray-300 text-sm rounded-lg 
+                                 hover:bg-gray-500/30 transition-colors flex items-center space-x-2"
+                      >
+                        <EyeOff className="w-4 h-4" />
+                        <span>Hide</span>
+                      </button>
+                    )}
+                    {report.type !== 'user' && (
+                      <button
+                        onClick={() => handleContentAction(report, 'delete')}
+                        className="px-4 py-2 bg-red-500/20 text-red-300 text-sm rounded-lg 
+                                 hover:bg-red-500/30 transition-colors flex items-center space-x-2"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete</span>
+                      </button>
+                    )}
                     <button
-                      onClick={() => handleContentAction(report.id, 'remove')}
-                      className="px-4 py-2 bg-red-500/20 text-red-300 text-sm rounded-lg 
-                               hover:bg-red-500/30 transition-colors flex items-center space-x-2"
+                      onClick={() => handleContentAction(report, 'warn')}
+                      className="px-4 py-2 bg-yellow-500/20 text-yellow-300 text-sm rounded-lg 
+                               hover:bg-yellow-500/30 transition-colors flex items-center space-x-2"
                     >
-                      <Trash2 className="w-4 h-4" />
-                      <span>Remove</span>
+                      <AlertTriangle className="w-4 h-4" />
+                      <span>Warn</span>
                     </button>
                     <button
-                      onClick={() => handleContentAction(report.id, 'flag')}
-                      className="px-4 py-2 bg-yellow-500/20 text-yellow-300 text-sm rounded-lg 
-                               hover:bg-yellow-500/30 transition-colors flex items-center space-x-2"
+                      onClick={() => handleContentAction(report, 'suspend')}
+                      className="px-4 py-2 bg-orange-500/20 text-orange-300 text-sm rounded-lg 
+                               hover:bg-orange-500/30 transition-colors flex items-center space-x-2"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      <span>Suspend</span>
+                    </button>
+                    <button
+                      onClick={() => handleContentAction(report, 'ban')}
+                      className="px-4 py-2 bg-red-500/20 text-red-300 text-sm rounded-lg 
+                               hover:bg-red-500/30 transition-colors flex items-center space-x-2"
                     >
-                      <Flag className="w-4 h-4" />
-                      <span>Flag</span>
+                      <Ban className="w-4 h-4" />
+                      <span>Ban</span>
                     </button>
                   </div>
                 </div>
@@ -316,6 +315,9 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
               <input
                 type="text"
                 placeholder="Search users..."
+                value={userSearch}
+                onChange={(e) => setUserSearch(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && setAppliedSearch(userSearch)}
                 className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white 
                          placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
               />
@@ -362,43 +364,53 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
                       
                       <div className="flex items-center space-x-2">
                         <StatusIcon className={`w-4 h-4 ${getStatusColor(user.status)}`} />
-                        <span className={`text-sm capitalize ${getStatusColor(user.status)}`}>
+                        <span
+                          className={`text-sm capitalize ${getStatusColor(user.status)}`}
+                          title={user.suspendedUntil && `Until ${formatDate(user.suspendedUntil)}`}
+                        >
                           {user.status}
                         </span>
                       </div>
                       
-                      <div className="text-sm text-gray-300">{user.joinDate}</div>
+                      <div className="text-sm text-gray-300">{formatDate(user.joinDate)}</div>
                       <div className="text-sm text-white">{user.posts}</div>
                       <div className="text-sm text-white">{formatNumber(user.followers)}</div>
                       <div className={`text-sm ${user.reports > 0 ? 'text-red-400' : 'text-gray-400'}`}>
                         {user.reports}
                       </div>
-                      <div className="text-sm text-gray-400">{user.lastActive}</div>
+                      <div className="text-sm text-gray-400">{formatDate(user.lastActive)}</div>
                       
                       <div className="flex items-center space-x-1">
-                        {user.status !== 'verified' && (
-                          <button
-                            onClick={() => handleUserAction(user.id, 'verify')}
-                            className="p-1 text-green-400 hover:text-green-300 transition-colors"
-                            title="Verify user"
-                          >
-                            <CheckCircle className="w-4 h-4" />
-                          </button>
-                        )}
                         <button
-                          onClick={() => handleUserAction(user.id, 'suspend')}
+                          onClick={() => handleUserAction(user, 'warn')}
                           className="p-1 text-yellow-400 hover:text-yellow-300 transition-colors"
-                          title="Suspend user"
+                          title="Warn user"
                         >
                           <AlertTriangle className="w-4 h-4" />
                         </button>
                         <button
-                          onClick={() => handleUserAction(user.id, 'ban')}
+                          onClick={() => handleUserAction(user, 'suspend')}
+                          className="p-1 text-orange-400 hover:text-orange-300 transition-colors"
+                          title="Suspend user"
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleUserAction(user, 'ban')}
                           className="p-1 text-red-400 hover:text-red-300 transition-colors"
                           title="Ban user"
                         >
-                          <XCircle className="w-4 h-4" />
+                          <Ban className="w-4 h-4" />
                         </button>
+                        {user.status !== 'active' && (
+                          <button
+                            onClick={() => handleUserAction(user, 'reinstate')}
+                            className="p-1 text-green-400 hover:text-green-300 transition-colors"
+                            title="Reinstate user"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -444,7 +456,7 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
                       </div>
                       <div>
                         <h3 className="text-lg font-semibold text-white">{space.name}</h3>
-                        <p className="text-sm text-gray-400">Created by {space.creator} • {space.created}</p>
+                        <p className="text-sm text-gray-400">Created by {space.creator} • {formatDate(space.created)}</p>
                       </div>
                     </div>
 
@@ -467,7 +479,7 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
                       <div className="flex items-center space-x-2">
                         <StatusIcon className={`w-4 h-4 ${getStatusColor(space.status)}`} />
                         <span className={`text-sm capitalize ${getStatusColor(space.status)}`}>
-                          {space.status.replace('_', ' ')}
+                          {space.status}
                         </span>
                       </div>
                     </div>
@@ -484,12 +496,53 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h2 className="text-2xl font-semibold text-white">Platform Announcements</h2>
-            <button className="px-4 py-2 bg-cyan-500/20 text-cyan-300 text-sm rounded-lg hover:bg-cyan-500/30 transition-colors flex items-center space-x-2">
+            <button
+              onClick={() => setShowAnnouncementForm(!showAnnouncementForm)}
+              className="px-4 py-2 bg-cyan-500/20 text-cyan-300 text-sm rounded-lg hover:bg-cyan-500/30 transition-colors flex items-center space-x-2"
+            >
               <Megaphone className="w-4 h-4" />
               <span>New Announcement</span>
             </button>
           </div>
 
+          {showAnnouncementForm && (
+            <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10 space-y-4">
+              <input
+                type="text"
+                placeholder="Title"
+                value={announcementTitle}
+                onChange={(e) => setAnnouncementTitle(e.target.value)}
+                className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white 
+                         placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              <textarea
+                placeholder="What should everyone know?"
+                value={announcementContent}
+                onChange={(e) => setAnnouncementContent(e.target.value)}
+                rows={4}
+                className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white 
+                         placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              <div className="flex items-center justify-end space-x-2">
+                <button
+                  onClick={() => handleCreateAnnouncement(false)}
+                  disabled={saving}
+                  className="px-3 py-1.5 bg-blue-500/20 text-blue-300 text-sm rounded-lg hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+                >
+                  Save Draft
+                </button>
+                <button
+                  onClick={() => handleCreateAnnouncement(true)}
+                  disabled={saving}
+                  className="px-3 py-1.5 bg-green-500/20 text-green-300 text-sm rounded-lg hover:bg-green-500/30 transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4" />
+                  <span>Publish</span>
+                </button>
+              </div>
+            </div>
+          )}
+
           {loading ? (
             <div className="flex items-center justify-center py-12">
               <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
@@ -515,21 +568,36 @@ export function ContentAdmin({ onBack }: ContentAdminProps) {
                     </div>
                     <p className="text-gray-300 mb-3">{announcement.content}</p>
                     <div className="flex items-center space-x-4 text-sm text-gray-400">
-                      <span>Created {announcement.created}</span>
+                      <span>Created {formatDate(announcement.created)}</span>
+                      {announcement.publishedAt && (
+                        <>
+                          <span>•</span>
+                          <span>Published {formatDate(announcement.publishedAt)}</span>
+                        </>
+                      )}
                       <span>•</span>
                       <span>{formatNumber(announcement.views)} views</span>
                     </div>
                   </div>
                   
                   <div className="flex items-center space-x-2">
-                    <button className="px-3 py-1.5 bg-blue-500/20 text-blue-300 text-sm rounded-lg hover:bg-blue-500/30 transition-colors">
-                      Edit
-                    </button>
-                    {announcement.status === 'draft' && (
-                      <button className="px-3 py-1.5 bg-green-500/20 text-green-300 text-sm rounded-lg hover:bg-green-500/30 transition-colors">
+                    {announcement.status !== 'active' && (
+                      <button
+                        onClick={() => handleAnnouncementStatus(announcement, 'publish')}
+                        className="px-3 py-1.5 bg-green-500/20 text-green-300 text-sm rounded-lg hover:bg-green-500/30 transition-colors"
+                      >
                         Publish
                       </button>
                     )}
+                    {announcement.status !== 'archived' && (
+                      <button
+                        onClick={() => handleAnnouncementStatus(announcement, 'archive')}
+                        className="px-3 py-1.5 bg-gray-500/20 text-gray-300 text-sm rounded-lg hover:bg-gray-500/30 transition-colors flex items-center space-x-2"
+                      >
+                        <Archive className="w-4 h-4" />
+                        <span>Archive</span>
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -3,6 +3,8 @@ import { Image, Video, FileText, Smile, MapPin, Globe, X, Plus, ChevronDown, Has
 import { holographicMemoryManager } from '../services/holographic-memory';
 import { useAuth } from '../contexts/AuthContext';
 import { communicationManager } from '../services/communication-manager';
+import { serializeBeacon } from '../services/utils/beacon-serializer';
+import { BEACON_TYPES } from '../constants/beaconTypes';
 
 const spaceOptions = [
   { 
@@ -61,7 +63,7 @@ export function ContentComposer() {
     await waitForAuth();
 
     // 1. Encode the memory using the holographic manager
-    const fragment = holographicMemoryManager.encodeMemory(content);
+    const fragment = await holographicMemoryManager.encodeMemory(content);
 
     if (fragment) {
       // 2. Send the resulting beacon to the server
@@ -70,8 +72,8 @@ export function ContentComposer() {
       communicationManager.send({
         kind: 'submitPostBeacon',
         payload: {
-          // @ts-expect-error - In a real scenario, the fragment would be converted to a Beacon type
-          beacon: fragment
+          beacon: serializeBeacon(fragment),
+          beaconType: BEACON_TYPES.POST
         }
       });
     }
@@ -9,6 +9,7 @@ import { useNetworkState } from '../contexts/NetworkContext';
 import { userDataManager } from '../services/user-data';
 import { quaternionicChatService } from '../services/quaternionic-chat';
 import { communicationManager } from '../services/communication-manager';
+import { engagementService } from '../services/engagement';
 import { useNotifications } from './NotificationSystem';
 
 // Import dashboard components
@@ -20,6 +21,8 @@ import { EnhancedContentComposer } from './dashboard/EnhancedContentComposer';
 import { YourSpacesCard } from './dashboard/YourSpacesCard';
 import { SuggestedConnectionsCard } from './dashboard/SuggestedConnectionsCard';
 import { QuickActionsCard } from './dashboard/QuickActionsCard';
+import { CommentThread } from './posts/CommentThread';
+import { Modal } from './ui/Modal';
 
 interface ActivityItem {
   id: string;
@@ -72,6 +75,7 @@ export function Dashboard({
   
   // Social feed state
   const [feedPosts, setFeedPosts] = useState<Post[]>([]);
+  const [commentingPost, setCommentingPost] = useState<Post | null>(null);
 
   // Load real data on mount
   useEffect(() => {
@@ -127,7 +131,7 @@ export function Dashboard({
         // Request real follower count from server
         communicationManager.send({
           kind: 'getFollowers',
-          payload: { userId: user.id }
+          payload: {}
         });
 
         // Request real beacons for activity
@@ -333,13 +337,13 @@ export function Dashboard({
           console.log('[Dashboard] Someone followed us, updating follower count');
           communicationManager.send({
             kind: 'getFollowers',
-            payload: { userId: user.id }
+            payload: {}
           });
         } else if (message.payload.type === 'unfollow') {
           console.log('[Dashboard] Someone unfollowed us, updating follower count');
           communicationManager.send({
             kind: 'getFollowers',
-            payload: { userId: user.id }
+            payload: {}
           });
         }
       }
@@ -414,48 +418,49 @@ export function Dashboard({
     setFeedPosts(prev => [newPost, ...prev]);
   };
 
-  const handleLikePost = (postId: string) => {
-    setFeedPosts(prev => prev.map(post =>
-      post.id === postId
-        ? {
-            ...post,
-            isLiked: !post.isLiked,
-            likes: post.isLiked ? post.likes - 1 : post.likes + 1
-          }
-        : post
+  const handleLikePost = async (postId: string) => {
+    const post = feedPosts.find(p => p.id === postId);
+    if (!post) return;
+    
+    const liked = !post.isLiked;
+    setFeedPosts(prev => prev.map(p =>
+      p.id === postId
+        ? { ...p, isLiked: liked, likes: p.likes + (liked ? 1 : -1) }
+        : p
     ));
-  };
-
-  const handleCommentPost = async (postId: string) => {
+    
+    // Posts that never reached the server only keep the like locally
+    if (!post.beaconId) return;
+    
     try {
-      // Find the post
-      const post = feedPosts.find(p => p.id === postId);
-      if (!post) return;
-      
-      // Open comment dialog or navigate to post detail
-      console.log('Opening comments for post:', postId);
-      
-      // For now, increment comment count optimistically
-      setFeedPosts(prev => prev.map(p =>
-        p.id === postId
-          ? { ...p, comments: p.comments + 1 }
-          : p
-      ));
-      
-      // Comment functionality would be implemented here
-      // For now, just log the action
-      console.log('Comment functionality to be implemented for post:', postId);
+      const likes = liked
+        ? await engagementService.likePost(post.beaconId)
+        : await engagementService.unlikePost(post.beaconId);
+      setFeedPosts(prev => prev.map(p => p.id === postId ? { ...p, likes } : p));
     } catch (error) {
-      console.error('Error commenting on post:', error);
+      console.error('Error liking post:', error);
       // Revert optimistic update
       setFeedPosts(prev => prev.map(p =>
         p.id === postId
-          ? { ...p, comments: Math.max(0, p.comments - 1) }
+          ? { ...p, isLiked: post.isLiked, likes: post.likes }
           : p
       ));
     }
   };
 
+  const handleCommentPost = (postId: string) => {
+    const post = feedPosts.find(p => p.id === postId);
+    if (!post?.beaconId) {
+      console.log('Comments are only available on stored posts:', postId);
+      return;
+    }
+    setCommentingPost(post);
+  };
+
+  const handleCommentCountChange = (postId: string, comments: number) => {
+    setFeedPosts(prev => prev.map(p => p.id === postId ? { ...p, comments } : p));
+  };
+
   const handleSharePost = async (postId: string) => {
     try {
       // Find the post
@@ -561,6 +566,22 @@ export function Dashboard({
           setIsCreateModalOpen(false);
         }}
       />
+
+      {/* Comments Modal */}
+      <Modal
+        isOpen={commentingPost !== null}
+        onClose={() => setCommentingPost(null)}
+        title="Comments"
+        subtitle={commentingPost ? `On ${commentingPost.author.name}'s post` : undefined}
+      >
+        {commentingPost?.beaconId && (
+          <CommentThread
+            postBeaconId={commentingPost.beaconId}
+            currentUserId={user?.id}
+            onCommentCountChange={count => handleCommentCountChange(commentingPost.id, count)}
+          />
+        )}
+      </Modal>
     </PageLayout>
   );
 }
\ No newline at end of file
@@ -153,7 +153,7 @@ export function DirectMessages({ onBack }: DirectMessagesProps) {
   // Listen for P2P messages (both quantum teleported and beacon-based)
   useEffect(() => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const handleP2PMessage = (message: { kind: string; payload: Record<string, any> }) => {
+    const handleP2PMessage = async (message: { kind: string; payload: Record<string, any> }) => {
       console.log('[DirectMessages] ===== RECEIVED SSE MESSAGE =====');
       console.log('[DirectMessages] Message kind:', message.kind);
       console.log('[DirectMessages] Full message:', message);
@@ -188,8 +188,8 @@ export function DirectMessages({ onBack }: DirectMessagesProps) {
             console.log('[DirectMessages] Attempting to decode beacon...');
             console.log('[DirectMessages] Holographic memory manager ready?', holographicMemoryManager.isReady);
             
-            // Decode the holographic beacon content (P2P, server never sees plaintext)
-            const decodedContent = holographicMemoryManager.decodeMemory(payload.beacon);
+            // Open the sealed holographic beacon (P2P, server never sees plaintext)
+            const decodedContent = await holographicMemoryManager.decryptMemory(payload.beacon);
             console.log(`[DirectMessages] Decoding result:`, decodedContent);
             
             if (decodedContent) {
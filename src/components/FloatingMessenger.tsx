@@ -1,7 +1,12 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { X, Minimize2, Maximize2, Send, Search, MoreVertical } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { communicationManager, type CommunicationMessage } from '../services/communication-manager';
+import { useTypingSignal } from '../hooks/useTypingSignal';
+import type {
+  ClientConversation, MessageDeliveryStatus, MessageReceiptPayload, PresenceStatus, PrivateMessagePayload,
+  UnreadCountPayload, UserPresence, UserTypingPayload
+} from '../protocol';
 
 interface Message {
   id: string;
@@ -11,22 +16,43 @@ interface Message {
   content: string;
   timestamp: number;
   read: boolean;
+  deliveryStatus?: MessageDeliveryStatus;
 }
 
 interface Conversation {
+  conversationId?: string;
   userId: string;
   userName: string;
   userAvatar?: string;
   lastMessage?: Message;
   unreadCount: number;
   messages: Message[];
+  // Cursor for older messages; null once the whole history is loaded
+  cursor?: string | null;
 }
 
+const DELIVERY_MARKS: Record<MessageDeliveryStatus, string> = {
+  sending: ' …',
+  sent: ' ✓',
+  delivered: ' ✓✓',
+  read: ' ✓✓'
+};
+
+const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: 'Online',
+  away: 'Away',
+  offline: 'Offline'
+};
+
+const PRESENCE_DOTS: Record<Exclude<PresenceStatus, 'offline'>, string> = {
+  online: 'bg-green-500',
+  away: 'bg-yellow-500'
+};
+
 interface Friend {
   userId: string;
   username: string;
   avatar?: string;
-  isOnline?: boolean;
 }
 
 interface FloatingMessengerProps {
@@ -44,9 +70,23 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [messageInput, setMessageInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [presence, setPresence] = useState<Map<string, PresenceStatus>>(new Map());
   const [loadingFriends, setLoadingFriends] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  // Listeners are registered once per open, so they read the open conversation from here
+  const selectedConversationRef = useRef<string | null>(null);
+  // Typing is only signalled in conversations the server already knows about
+  const typingSignal = useTypingSignal(
+    selectedConversation && conversations.get(selectedConversation)?.conversationId
+      ? { partnerId: selectedConversation }
+      : null
+  );
+
+  useEffect(() => {
+    selectedConversationRef.current = selectedConversation;
+    setIsTyping(false);
+  }, [selectedConversation]);
 
   // Scroll to bottom when messages change
   const scrollToBottom = () => {
@@ -57,138 +97,155 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
     scrollToBottom();
   }, [conversations, selectedConversation]);
 
-  // Set up message listeners
-  useEffect(() => {
-    if (!isOpen || !user) return;
+  const currentUserId = user?.id;
 
-    const handleMessage = (message: CommunicationMessage) => {
-      switch (message.kind) {
-        case 'privateMessage':
-          handlePrivateMessage(message.payload);
-          break;
-        case 'messageRead':
-          handleMessageRead(message.payload);
-          break;
-        case 'userTyping':
-          handleUserTyping(message.payload);
-          break;
-        case 'conversationHistory':
-          handleConversationHistory(message.payload);
-          break;
-        case 'friendsList':
-          handleFriendsList(message.payload);
-          break;
-      }
+  const handlePrivateMessage = useCallback((payload: PrivateMessagePayload & { tempId?: string }) => {
+    const own = payload.senderId === currentUserId;
+    const message: Message = {
+      id: payload.messageId,
+      senderId: payload.senderId,
+      senderName: payload.senderName,
+      content: payload.content,
+      timestamp: payload.timestamp,
+      read: own,
+      ...(own && { deliveryStatus: 'sent' as const })
     };
+    const conversationId = own ? payload.recipientId : payload.senderId;
+    const viewing = !own && selectedConversationRef.current === conversationId;
 
-    communicationManager.onMessage(handleMessage);
-
-    // Load recent conversations and friends
-    loadRecentConversations();
-    loadFriends();
-
-    return () => {
-      // Cleanup if needed
-    };
-  }, [isOpen, user]);
+    setConversations(prev => {
+      const updated = new Map(prev);
+      const existing = updated.get(conversationId);
+      // Replace the optimistic copy added by sendMessage
+      const messages = (existing?.messages ?? []).filter(m => m.id !== payload.tempId && m.id !== message.id);
+      updated.set(conversationId, {
+        ...existing,
+        conversationId: payload.conversationId,
+        userId: conversationId,
+        userName: existing?.userName ?? (own ? payload.recipientName : payload.senderName),
+        messages: [...messages, { ...message, read: message.read || viewing }],
+        lastMessage: message,
+        unreadCount: (existing?.unreadCount ?? 0) + (own || viewing ? 0 : 1)
+      });
+      return updated;
+    });
 
-  const handlePrivateMessage = (payload: Record<string, unknown>) => {
-    const message: Message = {
-      id: payload.messageId as string,
-      senderId: payload.senderId as string,
-      senderName: payload.senderName as string,
-      senderAvatar: payload.senderAvatar as string | undefined,
-      content: payload.content as string,
-      timestamp: payload.timestamp as number,
-      read: false
-    };
+    if (!own) {
+      // An open conversation reads the message straight away
+      communicationManager.send({
+        kind: viewing ? 'markMessageRead' : 'markMessageDelivered',
+        payload: { messageId: payload.messageId }
+      });
+    }
+  }, [currentUserId]);
 
+  // Receipts cover every message in the conversation up to payload.timestamp
+  const handleReceipt = useCallback((payload: MessageReceiptPayload, marker: 'read' | 'delivered') => {
     setConversations(prev => {
       const updated = new Map(prev);
-      const senderId = payload.senderId as string;
-      const recipientId = payload.recipientId as string;
-      const conversationId = senderId === user?.id ? recipientId : senderId;
-      
-      if (!updated.has(conversationId)) {
-        updated.set(conversationId, {
-          userId: conversationId,
-          userName: senderId === user?.id ? (payload.recipientName as string) : (payload.senderName as string),
-          userAvatar: senderId === user?.id ? (payload.recipientAvatar as string | undefined) : (payload.senderAvatar as string | undefined),
-          lastMessage: message,
-          unreadCount: 1,
-          messages: [message]
+      for (const [partnerId, conversation] of updated) {
+        if (conversation.conversationId !== payload.conversationId) continue;
+
+        const mine = payload.userId === currentUserId;
+        const messages = conversation.messages.map(msg => {
+          if (msg.timestamp > payload.timestamp) return msg;
+          if (mine && msg.senderId !== currentUserId && marker === 'read') {
+            return { ...msg, read: true };
+          }
+          if (!mine && msg.senderId === currentUserId && msg.deliveryStatus !== 'read') {
+            return { ...msg, deliveryStatus: marker };
+          }
+          return msg;
         });
-      } else {
-        const conversation = updated.get(conversationId)!;
-        conversation.messages.push(message);
-        conversation.lastMessage = message;
-        if (senderId !== user?.id) {
-          conversation.unreadCount++;
-        }
+        const unreadCount = mine && marker === 'read'
+          ? messages.filter(msg => !msg.read && msg.senderId !== currentUserId).length
+          : conversation.unreadCount;
+        updated.set(partnerId, { ...conversation, messages, unreadCount });
       }
-      
       return updated;
     });
-  };
+  }, [currentUserId]);
 
-  const handleMessageRead = (payload: Record<string, unknown>) => {
+  const handleUnreadCounts = (payload: UnreadCountPayload) => {
+    const counts = new Map(payload.conversations.map(c => [c.userId, c.unreadCount]));
     setConversations(prev => {
       const updated = new Map(prev);
-      const userId = payload.userId as string;
-      const messageId = payload.messageId as string;
-      const conversation = updated.get(userId);
-      
-      if (conversation) {
-        conversation.messages.forEach(msg => {
-          if (msg.id === messageId) {
-            msg.read = true;
-          }
-        });
-        conversation.unreadCount = Math.max(0, conversation.unreadCount - 1);
+      for (const [partnerId, conversation] of updated) {
+        updated.set(partnerId, { ...conversation, unreadCount: counts.get(partnerId) ?? 0 });
       }
-      
       return updated;
     });
   };
 
-  const handleUserTyping = (payload: Record<string, unknown>) => {
-    const userId = payload.userId as string;
-    if (userId === selectedConversation) {
-      setIsTyping(true);
-      
-      if (typingTimeoutRef.current) {
-        clearTimeout(typingTimeoutRef.current);
-      }
-      
+  // Shows the open conversation's partner typing until they stop or it lapses
+  const handleUserTyping = (payload: UserTypingPayload) => {
+    if (!payload.conversationId || payload.userId !== selectedConversationRef.current) return;
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    setIsTyping(payload.typing);
+
+    if (payload.typing && payload.expiresAt) {
       typingTimeoutRef.current = setTimeout(() => {
         setIsTyping(false);
-      }, 3000);
+      }, Math.max(payload.expiresAt - Date.now(), 0));
     }
   };
 
-  const handleConversationHistory = (payload: Record<string, unknown>) => {
-    const messages = payload.messages as Message[];
-    const conversation: Conversation = {
-      userId: payload.userId as string,
-      userName: payload.userName as string,
-      userAvatar: payload.userAvatar as string | undefined,
-      lastMessage: messages[messages.length - 1],
-      unreadCount: (payload.unreadCount as number) || 0,
-      messages: messages
-    };
-    
+  const handlePresence = (updates: UserPresence[]) => {
+    setPresence(prev => {
+      const updated = new Map(prev);
+      updates.forEach(p => updated.set(p.userId, p.status));
+      return updated;
+    });
+  };
+
+  const requestPresence = useCallback((userIds: string[]) => {
+    if (userIds.length === 0) return;
+    communicationManager.send({
+      kind: 'getPresence',
+      payload: { userIds: userIds.slice(0, 100) }
+    });
+  }, []);
+
+  const presenceDot = (userId: string) => {
+    const status = presence.get(userId) ?? 'offline';
+    return status === 'offline' ? null : (
+      <div className={`absolute bottom-0 right-0 w-3 h-3 ${PRESENCE_DOTS[status]} rounded-full border-2 border-gray-900`}></div>
+    );
+  };
+
+  // Newest pages replace what is loaded; pages fetched with a cursor have no
+  // lastMessage and go in front of it
+  const handleConversationHistory = (payload: ClientConversation) => {
     setConversations(prev => {
       const updated = new Map(prev);
-      updated.set(conversation.userId, conversation);
+      const existing = updated.get(payload.userId);
+      const olderPage = !payload.lastMessage && payload.messages.length > 0 && existing;
+      const messages = olderPage ? [...payload.messages, ...existing.messages] : payload.messages;
+
+      updated.set(payload.userId, {
+        conversationId: payload.conversationId,
+        userId: payload.userId,
+        userName: payload.userName,
+        userAvatar: existing?.userAvatar,
+        lastMessage: payload.lastMessage ?? existing?.lastMessage,
+        unreadCount: payload.unreadCount,
+        // The recent conversations list only carries the latest message
+        messages: !olderPage && existing && payload.cursor === undefined ? existing.messages : messages,
+        cursor: payload.cursor === undefined ? existing?.cursor : payload.cursor
+      });
       return updated;
     });
   };
 
-  const handleFriendsList = (payload: Record<string, unknown>) => {
+  const handleFriendsList = useCallback((payload: Record<string, unknown>) => {
     const friendsList = payload.friends as Friend[];
     setFriends(friendsList);
     setLoadingFriends(false);
-  };
+    requestPresence(friendsList.map(f => f.userId));
+  }, [requestPresence]);
 
   const loadRecentConversations = async () => {
     await communicationManager.send({
@@ -205,6 +262,57 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
     });
   };
 
+  // Set up message listeners
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const handleMessage = (message: CommunicationMessage) => {
+      switch (message.kind) {
+        case 'privateMessage':
+          handlePrivateMessage(message.payload as unknown as PrivateMessagePayload & { tempId?: string });
+          break;
+        case 'messageRead':
+          handleReceipt(message.payload as unknown as MessageReceiptPayload, 'read');
+          break;
+        case 'messageDelivered':
+          handleReceipt(message.payload as unknown as MessageReceiptPayload, 'delivered');
+          break;
+        case 'unreadCountUpdate':
+          handleUnreadCounts(message.payload as unknown as UnreadCountPayload);
+          break;
+        case 'userTyping':
+          handleUserTyping(message.payload as unknown as UserTypingPayload);
+          break;
+        case 'presenceUpdate':
+          handlePresence([message.payload as unknown as UserPresence]);
+          break;
+        case 'presenceResponse':
+          handlePresence(message.payload.presence as UserPresence[]);
+          break;
+        case 'conversationHistory':
+          handleConversationHistory(message.payload as unknown as ClientConversation);
+          break;
+        case 'recentConversations':
+          (message.payload.conversations as ClientConversation[]).forEach(handleConversationHistory);
+          requestPresence((message.payload.conversations as ClientConversation[]).map(c => c.userId));
+          break;
+        case 'friendsList':
+          handleFriendsList(message.payload);
+          break;
+      }
+    };
+
+    communicationManager.onMessage(handleMessage);
+
+    // Load recent conversations and friends
+    loadRecentConversations();
+    loadFriends();
+
+    return () => {
+      // Cleanup if needed
+    };
+  }, [isOpen, user, handlePrivateMessage, handleReceipt, handleFriendsList, requestPresence]);
+
   const startConversationWithFriend = (friendId: string) => {
     setSelectedConversation(friendId);
     setShowFriendsList(false);
@@ -234,7 +342,7 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
     // Load conversation history
     communicationManager.send({
       kind: 'getConversationHistory',
-      payload: { userId: friendId }
+      payload: { partnerId: friendId }
     });
   };
 
@@ -249,7 +357,8 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
       senderAvatar: user.avatar,
       content: messageInput,
       timestamp: Date.now(),
-      read: false
+      read: true,
+      deliveryStatus: 'sending'
     };
 
     // Optimistically add message to UI
@@ -266,6 +375,7 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
     });
 
     setMessageInput('');
+    typingSignal.stop();
 
     // Send message via SSE
     await communicationManager.send({
@@ -278,28 +388,44 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
     });
   };
 
+  // One receipt for the newest message read covers everything before it
   const markAsRead = async (conversationId: string) => {
     const conversation = conversations.get(conversationId);
     if (!conversation || conversation.unreadCount === 0) return;
 
-    const unreadMessages = conversation.messages.filter(msg => !msg.read && msg.senderId !== user?.id);
-    
-    for (const msg of unreadMessages) {
+    const received = [...conversation.messages, conversation.lastMessage]
+      .filter((msg): msg is Message => msg !== undefined && msg.senderId !== user?.id);
+    const newest = received.reduce<Message | undefined>(
+      (latest, msg) => (!latest || msg.timestamp > latest.timestamp ? msg : latest),
+      undefined
+    );
+    if (newest) {
       await communicationManager.send({
         kind: 'markMessageRead',
-        payload: {
-          messageId: msg.id,
-          senderId: msg.senderId
-        }
+        payload: { messageId: newest.id }
       });
     }
   };
 
   const handleConversationClick = (userId: string) => {
     setSelectedConversation(userId);
+    communicationManager.send({
+      kind: 'getConversationHistory',
+      payload: { partnerId: userId }
+    });
     markAsRead(userId);
   };
 
+  const loadEarlierMessages = () => {
+    const conversation = selectedConversation ? conversations.get(selectedConversation) : undefined;
+    if (!conversation?.cursor) return;
+
+    communicationManager.send({
+      kind: 'getConversationHistory',
+      payload: { partnerId: conversation.userId, before: conversation.cursor }
+    });
+  };
+
   const filteredConversations = Array.from(conversations.values()).filter(conv =>
     conv.userName.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -433,9 +559,7 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
                             alt={conv.userName}
                             className="w-10 h-10 rounded-full"
                           />
-                          {friends.find(f => f.userId === conv.userId)?.isOnline && (
-                            <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-gray-900"></div>
-                          )}
+                          {presenceDot(conv.userId)}
                         </div>
                         <div className="flex-1 min-w-0 ml-3">
                           <div className="flex items-center justify-between">
@@ -485,14 +609,12 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
                               alt={friend.username}
                               className="w-10 h-10 rounded-full"
                             />
-                            {friend.isOnline && (
-                              <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-gray-900"></div>
-                            )}
+                            {presenceDot(friend.userId)}
                           </div>
                           <div className="flex-1 ml-3">
                             <h4 className="text-white font-medium">{friend.username}</h4>
                             <p className="text-gray-400 text-sm">
-                              {friend.isOnline ? 'Online' : 'Offline'}
+                              {PRESENCE_LABELS[presence.get(friend.userId) ?? 'offline']}
                             </p>
                           </div>
                           <button className="text-blue-400 hover:text-blue-300 text-sm">
@@ -514,7 +636,6 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
                           {Array.from(conversations.values()).filter(conv =>
                             friends.some(f => f.userId === conv.userId)
                           ).map(conv => {
-                            const friend = friends.find(f => f.userId === conv.userId);
                             return (
                               <div
                                 key={conv.userId}
@@ -527,9 +648,7 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
                                     alt={conv.userName}
                                     className="w-10 h-10 rounded-full"
                                   />
-                                  {friend?.isOnline && (
-                                    <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-gray-900"></div>
-                                  )}
+                                  {presenceDot(conv.userId)}
                                 </div>
                                 <div className="flex-1 ml-3">
                                   <h4 className="text-white font-medium">{conv.userName}</h4>
@@ -571,6 +690,14 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
 
               {/* Messages */}
               <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                {selectedConv.cursor && (
+                  <button
+                    onClick={loadEarlierMessages}
+                    className="w-full text-center text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    Load earlier messages
+                  </button>
+                )}
                 {selectedConv.messages.map(msg => (
                   <div
                     key={msg.id}
@@ -584,7 +711,11 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
                       <p className="text-sm">{msg.content}</p>
                       <p className="text-xs opacity-70 mt-1">
                         {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                        {msg.read && msg.senderId === user?.id && ' ✓✓'}
+                        {msg.senderId === user?.id && msg.deliveryStatus && (
+                          <span className={msg.deliveryStatus === 'read' ? 'text-cyan-300' : undefined}>
+                            {DELIVERY_MARKS[msg.deliveryStatus]}
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -609,7 +740,10 @@ export function FloatingMessenger({ isOpen, onClose }: FloatingMessengerProps) {
                   <input
                     type="text"
                     value={messageInput}
-                    onChange={(e) => setMessageInput(e.target.value)}
+                    onChange={(e) => {
+                      setMessageInput(e.target.value);
+                      typingSignal.onInput();
+                    }}
                     placeholder="Type a message..."
                     className="flex-1 px-3 py-2 bg-gray-800 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
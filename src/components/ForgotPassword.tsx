@@ -4,7 +4,7 @@ import { AuthFormLayout } from './common/forms/AuthFormLayout';
 import { FormField } from './ui/forms/FormField';
 import { Alert } from './ui/feedback/Alert';
 import { useForm, validators } from '../hooks/useForm';
-import { communicationManager, type CommunicationMessage } from '../services/communication-manager';
+import { communicationManager } from '../services/communication-manager';
 
 interface ForgotPasswordProps {
   onBack?: () => void; // Make optional since it's not used
@@ -34,45 +34,16 @@ export function ForgotPasswordRefactored({
       setGeneralError('');
       
       try {
-        // Set up message handler for password reset response
-        let resetResolve: () => void;
-        let resetReject: (error: Error) => void;
-        const resetPromise = new Promise<void>((resolve, reject) => {
-          resetResolve = resolve;
-          resetReject = reject;
-        });
-        
-        const handleResetMessage = (message: CommunicationMessage) => {
-          if (message.kind === 'passwordResetSent') {
-            console.log('Password reset email sent to:', values.email);
-            setIsSubmitted(true);
-            resetResolve();
-          } else if (message.kind === 'error') {
-            const payload = message.payload as Record<string, unknown>;
-            if (payload.requestKind === 'requestPasswordReset') {
-              const errorMessage = (payload.message as string) || 'Failed to send reset email. Please try again.';
-              setGeneralError(errorMessage);
-              resetReject(new Error(errorMessage));
-            }
-          }
-        };
-        
-        // Listen for the response
-        communicationManager.onMessage(handleResetMessage);
-        
-        // Send password reset request
-        await communicationManager.send({
+        const response = await communicationManager.send({
           kind: 'requestPasswordReset',
           payload: { email: values.email }
         });
-        
-        // Wait for the response with a timeout
-        await Promise.race([
-          resetPromise,
-          new Promise((_, reject) =>
-            setTimeout(() => reject(new Error('Request timed out. Please try again.')), 10000)
-          )
-        ]);
+
+        if (response.kind === 'error') {
+          setGeneralError(response.payload.message || 'Failed to send reset email. Please try again.');
+          return;
+        }
+        setIsSubmitted(true);
       } catch (error) {
         if (error instanceof Error) {
           setGeneralError(error.message);
@@ -108,7 +79,7 @@ export function ForgotPasswordRefactored({
           </p>
           <p className="text-sm">
             Please check your email and follow the instructions to reset your password.
-            The link will expire in 24 hours.
+            The link will expire in 1 hour.
           </p>
         </Alert>
         
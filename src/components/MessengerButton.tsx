@@ -43,8 +43,8 @@ export function MessengerButton() {
 
   const handleToggleMessenger = () => {
     setIsMessengerOpen(!isMessengerOpen);
+    // The count is the server's and only drops as conversations are read
     if (!isMessengerOpen) {
-      setUnreadCount(0);
       setHasNewMessage(false);
     }
   };
@@ -11,6 +11,9 @@ export function Navigation() {
   const navigate = useNavigate();
   const location = useLocation();
   const { user, logout } = useAuth();
+  // Menu entries for the admin consoles follow the platform role; the server enforces it
+  const isAdmin = user?.role === 'admin';
+  const canModerate = isAdmin || user?.role === 'moderator';
   const { nodes, recentBeacons, connectedUsers } = useNetworkState();
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [responseTime, setResponseTime] = useState(0);
@@ -293,30 +296,36 @@ export function Navigation() {
                       <span>Settings</span>
                     </button>
                     
-                    <div className="my-1 border-t border-white/10"></div>
-                    
-                    <button
-                      onClick={() => {
-                        navigate('/admin/system');
-                        setShowUserMenu(false);
-                      }}
-                      className="w-full px-4 py-2 text-left text-gray-300 hover:text-white
-                               hover:bg-white/10 transition-colors flex items-center space-x-3"
-                    >
-                      <Database className="w-4 h-4" />
-                      <span>System Admin</span>
-                    </button>
-                    <button
-                      onClick={() => {
-                        navigate('/admin/content');
-                        setShowUserMenu(false);
-                      }}
-                      className="w-full px-4 py-2 text-left text-gray-300 hover:text-white
-                               hover:bg-white/10 transition-colors flex items-center space-x-3"
-                    >
-                      <Shield className="w-4 h-4" />
-                      <span>Content Admin</span>
-                    </button>
+                    {canModerate && (
+                      <>
+                        <div className="my-1 border-t border-white/10"></div>
+
+                        {isAdmin && (
+                          <button
+                            onClick={() => {
+                              navigate('/admin/system');
+                              setShowUserMenu(false);
+                            }}
+                            className="w-full px-4 py-2 text-left text-gray-300 hover:text-white
+                                     hover:bg-white/10 transition-colors flex items-center space-x-3"
+                          >
+                            <Database className="w-4 h-4" />
+                            <span>System Admin</span>
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            navigate('/admin/content');
+                            setShowUserMenu(false);
+                          }}
+                          className="w-full px-4 py-2 text-left text-gray-300 hover:text-white
+                                   hover:bg-white/10 transition-colors flex items-center space-x-3"
+                        >
+                          <Shield className="w-4 h-4" />
+                          <span>Content Admin</span>
+                        </button>
+                      </>
+                    )}
                     <button
                       onClick={() => {
                         // TODO: Navigate to user profile
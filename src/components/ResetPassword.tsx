@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Lock, ArrowLeft } from 'lucide-react';
+import { AuthFormLayout } from './common/forms/AuthFormLayout';
+import { FormField } from './ui/forms/FormField';
+import { Alert } from './ui/feedback/Alert';
+import { useForm, validators } from '../hooks/useForm';
+
+interface ResetPasswordProps {
+  token: string | null;
+  onBackToLogin: () => void;
+}
+
+export function ResetPassword({ token, onBackToLogin }: ResetPasswordProps) {
+  const [isReset, setIsReset] = useState(false);
+  const [generalError, setGeneralError] = useState('');
+
+  const form = useForm({
+    initialValues: {
+      password: '',
+      confirmPassword: ''
+    },
+    validate: (values) => {
+      const errors: Record<string, string> = {};
+
+      const passwordError = validators.minLength(8)(values.password, 'Password');
+      if (passwordError) errors.password = passwordError;
+
+      if (!values.confirmPassword) {
+        errors.confirmPassword = 'Please confirm your password';
+      } else if (values.password !== values.confirmPassword) {
+        errors.confirmPassword = 'Passwords do not match';
+      }
+
+      return errors;
+    },
+    onSubmit: async (values) => {
+      setGeneralError('');
+
+      try {
+        const response = await fetch('/api/auth/login', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ action: 'confirmPasswordReset', token, password: values.password })
+        });
+
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to reset password. Please try again.');
+        }
+        setIsReset(true);
+      } catch (error) {
+        setGeneralError(error instanceof Error ? error.message : 'Failed to reset password. Please try again.');
+      }
+    }
+  });
+
+  const footer = (
+    <button
+      onClick={onBackToLogin}
+      className="flex items-center justify-center space-x-2 text-gray-400 hover:text-white transition-colors"
+    >
+      <ArrowLeft className="w-4 h-4" />
+      <span>Back to login</span>
+    </button>
+  );
+
+  if (!token || isReset) {
+    return (
+      <AuthFormLayout
+        title={isReset ? 'Password Updated' : 'Invalid Reset Link'}
+        submitLabel=""
+        onSubmit={(e) => e.preventDefault()}
+        footer={footer}
+      >
+        {isReset ? (
+          <Alert variant="success">
+            Your password has been changed and every other session has been signed out.
+            You can now log in with your new password.
+          </Alert>
+        ) : (
+          <Alert variant="error">
+            This link is missing its reset token. Request a new link from the forgot password page.
+          </Alert>
+        )}
+      </AuthFormLayout>
+    );
+  }
+
+  return (
+    <AuthFormLayout
+      title="Choose a New Password"
+      subtitle="Reset links work once and expire after an hour"
+      submitLabel="Reset Password"
+      onSubmit={form.handleSubmit}
+      loading={form.isSubmitting}
+      error={generalError}
+      footer={footer}
+    >
+      <FormField
+        name="password"
+        label="New Password"
+        type="password"
+        value={form.values.password}
+        onChange={form.handleChange('password')}
+        onBlur={form.handleBlur('password')}
+        error={form.touched.password ? form.errors.password : undefined}
+        icon={Lock}
+        placeholder="••••••••"
+        helperText="Must be at least 8 characters"
+        required
+        autoComplete="new-password"
+      />
+
+      <FormField
+        name="confirmPassword"
+        label="Confirm Password"
+        type="password"
+        value={form.values.confirmPassword}
+        onChange={form.handleChange('confirmPassword')}
+        onBlur={form.handleBlur('confirmPassword')}
+        error={form.touched.confirmPassword ? form.errors.confirmPassword : undefined}
+        icon={Lock}
+        placeholder="••••••••"
+        required
+        autoComplete="new-password"
+      />
+    </AuthFormLayout>
+  );
+}
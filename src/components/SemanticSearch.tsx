@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useRef } from 'react';
 import { Search, Sparkles, User, Users, FileText } from 'lucide-react';
 import { PageLayout } from './layouts/PageLayout';
 import { SearchInput } from './ui/SearchInput';
 import { Tabs } from './ui/Tabs';
 import { Select } from './ui/forms/Select';
 import { EmptyState } from './ui/EmptyState';
+import { Button } from './ui/Button';
 import { UserCard } from './common/UserCard';
 import { SpaceCard } from './common/SpaceCard';
 import { SearchResultsSection, PostCard } from './common/search';
@@ -12,14 +13,12 @@ import type { PostResult } from './common/search';
 import { User as UserType, Space as SpaceType } from '../types/common';
 import { useAuth } from '../contexts/AuthContext';
 import { communicationManager } from '../services/communication-manager';
+import type { SearchCategory, SearchSort } from '../protocol';
 
 interface SemanticSearchProps {
   onBack: () => void;
 }
 
-type SearchCategory = 'all' | 'people' | 'spaces' | 'posts';
-type SortOption = 'relevance' | 'recent' | 'popular' | 'trending';
-
 const trendingSearches = [
   'quantum algorithms',
   'design systems',
@@ -30,81 +29,101 @@ const trendingSearches = [
 export function SemanticSearch({ onBack }: SemanticSearchProps) {
   const [query, setQuery] = useState('');
   const [category, setCategory] = useState<SearchCategory>('all');
-  const [sortBy, setSortBy] = useState<SortOption>('relevance');
+  const [sortBy, setSortBy] = useState<SearchSort>('relevance');
   const [isSearching, setIsSearching] = useState(false);
   const [results, setResults] = useState<{ people: UserType[], spaces: SpaceType[], posts: PostResult[] }>({ people: [], spaces: [], posts: [] });
+  const [totals, setTotals] = useState({ people: 0, spaces: 0, posts: 0 });
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const latestSearch = useRef(0);
   const { waitForAuth } = useAuth();
 
-  useEffect(() => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const handleMessage = (message: { kind: string; payload: any }) => {
-      if (message.kind === 'searchResponse') {
-        setResults({
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          people: message.payload.users.map((u: any) => ({
-            id: u.user_id,
-            name: u.username,
-            username: `@${u.username}`,
-            avatar: `https://api.dicebear.com/8.x/bottts/svg?seed=${u.user_id}`,
-            bio: 'Network user',
-            isFollowing: false,
-            stats: { followers: 0, following: 0, spaces: 0, resonanceScore: 0.5 },
-            recentActivity: 'Active',
-            tags: [],
-          })),
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          spaces: message.payload.spaces.map((s: any) => ({
-            id: s.space_id,
-            name: s.name,
-            description: s.description,
-            isPublic: true,
-            isJoined: false,
-            memberCount: 0,
-            tags: [],
-          })),
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          posts: message.payload.beacons.map((b: any) => ({
-            id: b.beacon_id,
-            author: {
-              name: b.author_id.substring(0, 8),
-              username: `@${b.author_id.substring(0, 8)}`,
-              avatar: `https://api.dicebear.com/8.x/bottts/svg?seed=${b.author_id}`,
-              verified: false,
-            },
-            content: '[Holographic Memory - Click to Summon]',
-            timestamp: 'Recent',
-            likes: 0,
-            comments: 0,
-            shares: 0,
-            hasLiked: false,
-            tags: ['memory'],
-          })),
-        });
-        setIsSearching(false);
-      }
-    };
-
-    communicationManager.onMessage(handleMessage);
-    return () => {}; // SSE cleanup handled automatically
-  }, []);
-
-  const handleSearch = async (searchQuery: string) => {
+  const runSearch = async (searchQuery: string, searchCategory: SearchCategory, searchSort: SearchSort, searchPage = 1) => {
     if (!searchQuery.trim()) {
       setResults({ people: [], spaces: [], posts: [] });
+      setTotals({ people: 0, spaces: 0, posts: 0 });
+      setHasMore(false);
       return;
     }
 
-    setIsSearching(true);
-    
-    // Wait for auth before searching
-    await waitForAuth();
-    
-    communicationManager.send({
-      kind: 'search',
-      payload: { query: searchQuery, category }
-    });
+    // Responses can arrive out of order while typing; only the newest counts
+    const searchId = ++latestSearch.current;
+    setIsSearching(searchPage === 1);
+
+    try {
+      // Wait for auth before searching
+      await waitForAuth();
+
+      const response = await communicationManager.send({
+        kind: 'search',
+        payload: { query: searchQuery, category: searchCategory, sortBy: searchSort, page: searchPage }
+      });
+      if (searchId !== latestSearch.current) return;
+
+      if (response.kind === 'error') {
+        console.error('Search failed:', response.payload.message);
+        return;
+      }
+
+      const { users, spaces, beacons } = response.payload;
+      const next = {
+        people: users.map(u => ({
+          id: u.userId,
+          name: u.username,
+          username: `@${u.username}`,
+          avatar: `https://api.dicebear.com/8.x/bottts/svg?seed=${u.userId}`,
+          bio: 'Network user',
+          isFollowing: false,
+          stats: { followers: 0, following: 0, spaces: 0, resonanceScore: 0.5 },
+          recentActivity: 'Active',
+          tags: [],
+        })),
+        spaces: spaces.map(s => ({
+          id: s.space_id,
+          name: s.name,
+          description: s.description ?? '',
+          isPublic: true,
+          isJoined: false,
+          memberCount: s.member_count,
+          tags: [],
+        })),
+        posts: beacons.map(b => ({
+          id: b.beacon_id,
+          author: {
+            name: b.username ?? b.author_id.substring(0, 8),
+            username: `@${b.username ?? b.author_id.substring(0, 8)}`,
+            avatar: `https://api.dicebear.com/8.x/bottts/svg?seed=${b.author_id}`,
+            verified: false,
+          },
+          content: b.originalText ?? '[Holographic Memory - Click to Summon]',
+          timestamp: new Date(b.created_at).toLocaleDateString(),
+          likes: 0,
+          comments: 0,
+          shares: 0,
+          hasLiked: false,
+          tags: ['memory'],
+        })),
+      };
+
+      setResults(prev => searchPage === 1 ? next : {
+        people: [...prev.people, ...next.people],
+        spaces: [...prev.spaces, ...next.spaces],
+        posts: [...prev.posts, ...next.posts],
+      });
+      setTotals(response.payload.totals);
+      setPage(searchPage);
+      setHasMore(response.payload.hasMore);
+    } catch (error) {
+      console.error('Search failed:', error);
+    } finally {
+      if (searchId === latestSearch.current) {
+        setIsSearching(false);
+      }
+    }
   };
 
+  const handleSearch = (searchQuery: string) => runSearch(searchQuery, category, sortBy);
+
   const handleFollow = (personId: string) => {
     setResults(prev => ({
       ...prev,
@@ -127,10 +146,10 @@ export function SemanticSearch({ onBack }: SemanticSearchProps) {
   };
 
   const counts = {
-    all: results.people.length + results.spaces.length + results.posts.length,
-    people: results.people.length,
-    spaces: results.spaces.length,
-    posts: results.posts.length
+    all: totals.people + totals.spaces + totals.posts,
+    people: totals.people,
+    spaces: totals.spaces,
+    posts: totals.posts
   };
 
   const categories = [
@@ -187,12 +206,18 @@ export function SemanticSearch({ onBack }: SemanticSearchProps) {
             <Tabs
               tabs={categories}
               activeTab={category}
-              onTabChange={(tabId) => setCategory(tabId as SearchCategory)}
+              onTabChange={(tabId) => {
+                setCategory(tabId as SearchCategory);
+                runSearch(query, tabId as SearchCategory, sortBy);
+              }}
               variant="pills"
             />
             <Select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as SortOption)}
+              onChange={(e) => {
+                setSortBy(e.target.value as SearchSort);
+                runSearch(query, category, e.target.value as SearchSort);
+              }}
               options={sortOptions}
             />
           </div>
@@ -206,7 +231,7 @@ export function SemanticSearch({ onBack }: SemanticSearchProps) {
           ) : (
             <>
               {(category === 'all' || category === 'people') && results.people.length > 0 && (
-                <SearchResultsSection title="People" icon={User} count={results.people.length}>
+                <SearchResultsSection title="People" icon={User} count={totals.people}>
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                     {results.people.map((person) => (
                       <UserCard key={person.id} user={person} onFollow={handleFollow} />
@@ -216,7 +241,7 @@ export function SemanticSearch({ onBack }: SemanticSearchProps) {
               )}
 
               {(category === 'all' || category === 'spaces') && results.spaces.length > 0 && (
-                <SearchResultsSection title="Spaces" icon={Users} count={results.spaces.length}>
+                <SearchResultsSection title="Spaces" icon={Users} count={totals.spaces}>
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                     {results.spaces.map((space) => (
                       <SpaceCard key={space.id} space={space} onJoin={handleJoinSpace} showJoinButton />
@@ -226,7 +251,7 @@ export function SemanticSearch({ onBack }: SemanticSearchProps) {
               )}
 
               {(category === 'all' || category === 'posts') && results.posts.length > 0 && (
-                <SearchResultsSection title="Posts" icon={FileText} count={results.posts.length}>
+                <SearchResultsSection title="Posts" icon={FileText} count={totals.posts}>
                   <div className="space-y-4">
                     {results.posts.map((post) => (
                       <PostCard key={post.id} post={post} onLike={handleLikePost} />
@@ -235,6 +260,14 @@ export function SemanticSearch({ onBack }: SemanticSearchProps) {
                 </SearchResultsSection>
               )}
 
+              {hasMore && (
+                <div className="flex justify-center">
+                  <Button variant="secondary" onClick={() => runSearch(query, category, sortBy, page + 1)}>
+                    Load more results
+                  </Button>
+                </div>
+              )}
+
               {!isSearching && counts.all === 0 && (
                 <EmptyState icon={Search} title={`No results found for "${query}"`} description="Try different keywords or explore trending searches." />
               )}
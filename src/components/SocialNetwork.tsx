@@ -57,7 +57,7 @@ export function SocialNetwork({ onBack }: SocialNetworkProps) {
             // Also request from server for completeness (to get follower notifications)
             communicationManager.send({
                 kind: 'getFollowing',
-                payload: { userId: currentUser.id }
+                payload: {}
             });
         } catch (error) {
             console.error('Failed to fetch following:', error);
@@ -83,7 +83,7 @@ export function SocialNetwork({ onBack }: SocialNetworkProps) {
         // Request followers list from server
         communicationManager.send({
           kind: 'getFollowers',
-          payload: { userId: currentUser.id }
+          payload: {}
         });
       } catch (error) {
         console.error('Failed to fetch followers:', error);
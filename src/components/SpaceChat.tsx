@@ -6,6 +6,8 @@ import { spaceManager } from '../services/space-manager';
 import { holographicMemoryManager } from '../services/holographic-memory';
 import { useNotifications } from './NotificationSystem';
 import { communicationManager } from '../services/communication-manager';
+import { useTypingSignal } from '../hooks/useTypingSignal';
+import type { PresenceStatus, UserPresence, UserTypingPayload } from '../protocol';
 
 interface ChatMessage {
   id: string;
@@ -30,6 +32,7 @@ interface TypingIndicator {
   userId: string;
   userName: string;
   timestamp: Date;
+  expiresAt: number;
 }
 
 interface SpaceChatProps {
@@ -41,14 +44,15 @@ export function SpaceChat({ spaceId, currentUserId }: SpaceChatProps) {
   const { user: currentUser, pri: currentUserPRI, waitForAuth } = useAuth();
   const { showError } = useNotifications();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [spaceMembers, setSpaceMembers] = useState<Array<{ id: string; name: string; status: string }>>([]);
+  const [spaceMembers, setSpaceMembers] = useState<Array<{ id: string; name: string; status: PresenceStatus }>>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newMessage, setNewMessage] = useState('');
-  const [typingUsers,] = useState<TypingIndicator[]>([]);
+  const [typingUsers, setTypingUsers] = useState<TypingIndicator[]>([]);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const typingSignal = useTypingSignal({ spaceId });
 
   // Initialize messaging and load space data
   useEffect(() => {
@@ -78,10 +82,18 @@ export function SpaceChat({ spaceId, currentUserId }: SpaceChatProps) {
         const memberList = members.map(member => ({
           id: member.userId,
           name: member.userId.substring(0, 8), // Simplified for now
-          status: 'online' // All members considered online for now
+          status: 'offline' as PresenceStatus
         }));
         setSpaceMembers(memberList);
         
+        // Statuses arrive as a presenceResponse, then as presenceUpdate signals
+        if (memberList.length > 0) {
+          communicationManager.send({
+            kind: 'getPresence',
+            payload: { userIds: memberList.slice(0, 100).map(member => member.id) }
+          });
+        }
+        
         // Load existing space messages (placeholder for now)
         setMessages([]);
         
@@ -104,13 +116,50 @@ export function SpaceChat({ spaceId, currentUserId }: SpaceChatProps) {
     scrollToBottom();
   }, [messages]);
 
+  // Indicators lapse on their own unless the typist refreshes them
+  useEffect(() => {
+    if (typingUsers.length === 0) return;
+    const nextExpiry = Math.min(...typingUsers.map(u => u.expiresAt));
+    const timeout = setTimeout(() => {
+      setTypingUsers(prev => prev.filter(u => u.expiresAt > Date.now()));
+    }, Math.max(nextExpiry - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [typingUsers]);
+
   // Listen for space messages
   useEffect(() => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const handleSpaceMessage = (message: { kind: string; payload: Record<string, any> }) => {
+    const handleSpaceMessage = async (message: { kind: string; payload: Record<string, any> }) => {
       console.log('[SpaceChat] ===== RECEIVED SSE MESSAGE =====');
       console.log('[SpaceChat] Message kind:', message.kind);
       
+      if (message.kind === 'userTyping') {
+        const payload = message.payload as UserTypingPayload;
+        if (payload.spaceId !== spaceId || payload.userId === currentUser?.id) return;
+        
+        setTypingUsers(prev => {
+          const others = prev.filter(u => u.userId !== payload.userId);
+          return payload.typing && payload.expiresAt
+            ? [...others, {
+                userId: payload.userId,
+                userName: payload.userName,
+                timestamp: new Date(payload.timestamp),
+                expiresAt: payload.expiresAt
+              }]
+            : others;
+        });
+        return;
+      }
+      
+      if (message.kind === 'presenceUpdate' || message.kind === 'presenceResponse') {
+        const updates = message.kind === 'presenceUpdate'
+          ? [message.payload as UserPresence]
+          : (message.payload.presence as UserPresence[]);
+        const statuses = new Map(updates.map(p => [p.userId, p.status]));
+        setSpaceMembers(prev => prev.map(member => ({ ...member, status: statuses.get(member.id) ?? member.status })));
+        return;
+      }
+      
       if (message.kind === 'beaconReceived') {
         const payload = message.payload as {
           beaconId: string;
@@ -135,8 +184,8 @@ export function SpaceChat({ spaceId, currentUserId }: SpaceChatProps) {
           }
           
           try {
-            // Decode the holographic beacon content
-            const decodedContent = holographicMemoryManager.decodeMemory(payload.beacon);
+            // Open the beacon with the space key
+            const decodedContent = await holographicMemoryManager.decryptMemory(payload.beacon);
             console.log(`[SpaceChat] Decoding result:`, decodedContent);
             
             if (decodedContent) {
@@ -187,6 +236,7 @@ export function SpaceChat({ spaceId, currentUserId }: SpaceChatProps) {
     
     try {
       console.log(`[SpaceChat] Sending space message to ${spaceId}: "${newMessage}"`);
+      typingSignal.stop();
       
       // Send via messaging service
       await messagingService.sendSpaceMessage(spaceId, newMessage);
@@ -448,7 +498,10 @@ export function SpaceChat({ spaceId, currentUserId }: SpaceChatProps) {
               ref={inputRef}
               type="text"
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                typingSignal.onInput();
+              }}
               onKeyPress={handleKeyPress}
               placeholder="Type a space message..."
               className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white 
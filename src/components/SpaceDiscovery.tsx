@@ -170,24 +170,12 @@ export function SpaceDiscovery({ onViewSpace }: SpaceDiscoveryProps) {
       } else {
         console.log('[SpaceDiscovery] Joining space:', spaceId);
         
-        try {
-          await spaceManager.joinSpace(spaceId);
-          console.log('[SpaceDiscovery] Join successful, getting role...');
-        } catch (joinError) {
-          console.error('[SpaceDiscovery] Join failed:', joinError);
-          throw joinError;
-        }
-        
-        let userRole: SpaceRole = 'member';
-        if (user) {
-          try {
-            const role = await spaceManager.getUserRole(spaceId, user.id);
-            userRole = role || 'member';
-            console.log('[SpaceDiscovery] User role:', userRole);
-          } catch (error) {
-            console.warn('[SpaceDiscovery] Could not get user role after joining:', error);
-          }
+        const membership = await spaceManager.joinSpace(spaceId);
+        if (membership.status === 'pending') {
+          showSuccess('Request Sent', `${space.name} requires approval. You'll be let in once an admin approves you.`);
+          return;
         }
+        const userRole: SpaceRole = membership.role;
         
         console.log('[SpaceDiscovery] Updating UI state...');
         setSpaces(prev => prev.map(s =>
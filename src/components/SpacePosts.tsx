@@ -4,6 +4,9 @@ import { FlexibleSocialFeedCard } from './dashboard/FlexibleSocialFeedCard';
 import { PostComposer } from './posts/PostComposer';
 import { Post, PostType, RichTextPost, BinaryFilePost, CreatePost, CreateRichTextPost, CreateBinaryFilePost } from '../types/posts';
 import { Card } from './ui/Card';
+import { Modal } from './ui/Modal';
+import { CommentThread } from './posts/CommentThread';
+import { engagementService } from '../services/engagement';
 import { MessageSquare, Plus, X } from 'lucide-react';
 
 interface SpacePostsProps {
@@ -17,6 +20,7 @@ export function SpacePosts({ spaceId, spaceName, isUserMember }: SpacePostsProps
   const [posts, setPosts] = useState<Post[]>([]);
   const [showComposer, setShowComposer] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [commentingPost, setCommentingPost] = useState<Post | null>(null);
 
   useEffect(() => {
     // Load space posts - currently no posts are stored as beacons
@@ -123,21 +127,40 @@ export function SpacePosts({ spaceId, spaceName, isUserMember }: SpacePostsProps
     setShowComposer(false);
   };
 
-  const handleLike = (postId: string) => {
-    setPosts(prev => prev.map(post =>
-      post.id === postId
-        ? {
-            ...post,
-            isLiked: !post.isLiked,
-            likes: post.isLiked ? post.likes - 1 : post.likes + 1
-          }
-        : post
+  const handleLike = async (postId: string) => {
+    const post = posts.find(p => p.id === postId);
+    if (!post) return;
+
+    const liked = !post.isLiked;
+    setPosts(prev => prev.map(p =>
+      p.id === postId
+        ? { ...p, isLiked: liked, likes: p.likes + (liked ? 1 : -1) }
+        : p
     ));
+
+    // Posts that never reached the server only keep the like locally
+    if (!post.beaconId) return;
+
+    try {
+      const likes = liked
+        ? await engagementService.likePost(post.beaconId)
+        : await engagementService.unlikePost(post.beaconId);
+      setPosts(prev => prev.map(p => p.id === postId ? { ...p, likes } : p));
+    } catch (error) {
+      console.error('Failed to update like:', error);
+      setPosts(prev => prev.map(p =>
+        p.id === postId ? { ...p, isLiked: post.isLiked, likes: post.likes } : p
+      ));
+    }
   };
 
   const handleComment = (postId: string) => {
-    console.log('Comment on post:', postId);
-    // TODO: Implement comment functionality
+    const post = posts.find(p => p.id === postId);
+    if (!post?.beaconId) {
+      console.log('Comments are only available on stored posts:', postId);
+      return;
+    }
+    setCommentingPost(post);
   };
 
   const handleShare = (postId: string) => {
@@ -210,6 +233,23 @@ export function SpacePosts({ spaceId, spaceName, isUserMember }: SpacePostsProps
         isLoading={isLoading}
         hasMore={false}
       />
+
+      <Modal
+        isOpen={commentingPost !== null}
+        onClose={() => setCommentingPost(null)}
+        title="Comments"
+        subtitle={commentingPost ? `In ${spaceName}` : undefined}
+      >
+        {commentingPost?.beaconId && (
+          <CommentThread
+            postBeaconId={commentingPost.beaconId}
+            currentUserId={user?.id}
+            onCommentCountChange={comments => setPosts(prev => prev.map(p =>
+              p.id === commentingPost.id ? { ...p, comments } : p
+            ))}
+          />
+        )}
+      </Modal>
     </div>
   );
 }
\ No newline at end of file
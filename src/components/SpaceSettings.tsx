@@ -1,6 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { X, Save, Settings, Shield, Database, Trash2, AlertTriangle } from 'lucide-react';
 import { spaceManager } from '../services/space-manager';
+import { DEFAULT_SPACE_SETTINGS } from '../services/space-manager/types';
+import type { SpaceSettings as SpaceSettingsValues, SpaceVisibility } from '../services/space-manager/types';
 import { useNotifications } from './NotificationSystem';
 
 interface SpaceSettingsProps {
@@ -9,79 +11,59 @@ interface SpaceSettingsProps {
   spaceId: string;
 }
 
-interface SpaceConfig {
+interface SpaceConfig extends SpaceSettingsValues {
   name: string;
   description: string;
-  visibility: 'public' | 'private' | 'invite-only';
-  maxMembers: number;
-  autoArchive: boolean;
-  archiveDays: number;
-  requireApproval: boolean;
-  defaultPermissions: string[];
-  resonanceConfig: {
-    primeCount: number;
-    quantization: number;
-    epochDuration: number;
-  };
 }
 
 export function SpaceSettings({ isOpen, onClose, spaceId }: SpaceSettingsProps) {
   const [config, setConfig] = useState<SpaceConfig>({
     name: `Space-${spaceId.substring(0, 8)}`,
-    description: 'A collaborative quantum space',
-    visibility: 'private',
-    maxMembers: 50,
-    autoArchive: false,
-    archiveDays: 90,
-    requireApproval: true,
-    defaultPermissions: ['view_space', 'view_volumes', 'summon_files'],
-    resonanceConfig: {
-      primeCount: 32,
-      quantization: 64,
-      epochDuration: 2000
-    }
+    description: '',
+    ...DEFAULT_SPACE_SETTINGS
   });
+  const [canEdit, setCanEdit] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'general' | 'security' | 'resonance' | 'danger'>('general');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
   const { showSuccess, showError } = useNotifications();
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    spaceManager.getSpaceSettings(spaceId)
+      .then(({ name, description, settings, canEdit }) => {
+        if (cancelled) return;
+        setConfig({ name, description: description ?? '', ...settings });
+        setCanEdit(canEdit);
+        setLoadError(null);
+      })
+      .catch(error => {
+        console.error('Failed to load space settings:', error);
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Failed to load settings');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, spaceId]);
+
   if (!isOpen) return null;
 
   const handleSave = async () => {
     setLoading(true);
     
     try {
-      // Create a space configuration beacon
-      const configData = {
-        spaceId,
-        config: {
-          name: config.name,
-          description: config.description,
-          visibility: config.visibility,
-          maxMembers: config.maxMembers,
-          autoArchive: config.autoArchive,
-          archiveDays: config.archiveDays,
-          requireApproval: config.requireApproval,
-          defaultPermissions: config.defaultPermissions,
-          resonanceConfig: config.resonanceConfig,
-          updatedAt: new Date().toISOString()
-        }
-      };
-      
-      // For now, log the configuration update
-      // In a real implementation, this would create a space_config beacon
-      console.log('Updating space configuration:', configData);
-      
-      // Simulate saving with a small delay
-      await new Promise(resolve => setTimeout(resolve, 500));
+      const { name, description, ...settings } = config;
+      await spaceManager.updateSpaceSettings(spaceId, { name, description, settings });
       
       showSuccess('Settings Saved', 'Space configuration has been updated successfully.');
       onClose();
     } catch (error) {
       console.error('Failed to save space settings:', error);
-      showError('Save Failed', 'Failed to save settings. Please try again.');
+      showError('Save Failed', error instanceof Error ? error.message : 'Failed to save settings. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -96,21 +78,17 @@ export function SpaceSettings({ isOpen, onClose, spaceId }: SpaceSettingsProps)
     setLoading(true);
     
     try {
-      // For now, log the deletion request
-      // In a real implementation, this would remove all space-related beacons
-      console.log('Deleting space:', spaceId);
-      
-      // Leave the space first
-      await spaceManager.leaveSpace(spaceId);
+      // Removes the space's posts, files and memberships along with it
+      await spaceManager.deleteSpace(spaceId);
       
-      showSuccess('Space Deleted', 'You have left the space. Full deletion requires owner consensus.');
+      showSuccess('Space Deleted', 'The space and everything in it have been deleted.');
       onClose();
       
       // Navigate back to spaces list
       window.location.href = '/spaces';
     } catch (error) {
       console.error('Failed to delete space:', error);
-      showError('Delete Failed', 'Failed to delete space. Please try again.');
+      showError('Delete Failed', error instanceof Error ? error.message : 'Failed to delete space. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -135,7 +113,9 @@ export function SpaceSettings({ isOpen, onClose, spaceId }: SpaceSettingsProps)
           <div className="flex items-center justify-between p-6 border-b border-white/10">
             <div>
               <h2 className="text-xl font-bold text-white">Space Settings</h2>
-              <p className="text-sm text-gray-400">Configure {config.name}</p>
+              <p className="text-sm text-gray-400">
+                {loadError ?? (canEdit ? `Configure ${config.name}` : `Only the owner can change ${config.name}`)}
+              </p>
             </div>
             <button
               onClick={onClose}
@@ -208,7 +188,7 @@ export function SpaceSettings({ isOpen, onClose, spaceId }: SpaceSettingsProps)
                         </label>
                         <select
                           value={config.visibility}
-                          onChange={(e) => setConfig({ ...config, visibility: e.target.value as 'public' | 'private' | 'invite-only' })}
+                          onChange={(e) => setConfig({ ...config, visibility: e.target.value as SpaceVisibility })}
                           className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white 
                                    focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
                         >
@@ -441,7 +421,7 @@ export function SpaceSettings({ isOpen, onClose, spaceId }: SpaceSettingsProps)
                             </button>
                             <button
                               onClick={handleDeleteSpace}
-                              disabled={loading || deleteConfirmText !== 'DELETE'}
+                              disabled={loading || !canEdit || deleteConfirmText !== 'DELETE'}
                               className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm
                                            rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                               Confirm Delete
@@ -466,7 +446,7 @@ export function SpaceSettings({ isOpen, onClose, spaceId }: SpaceSettingsProps)
             </button>
             <button
               onClick={handleSave}
-              disabled={loading}
+              disabled={loading || !canEdit}
               className="px-6 py-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white
                        rounded-lg hover:from-blue-400 hover:to-teal-400 transition-all
                        duration-200 font-medium shadow-lg hover:shadow-xl flex items-center space-x-2
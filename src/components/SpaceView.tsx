@@ -12,6 +12,7 @@ import { spaceManager, SpaceMember } from '../services/space-manager';
 import type { Space } from '../types/common';
 import type { PublicSpacesResponseMessage } from '../../server/protocol';
 import { communicationManager } from '../services/communication-manager';
+import { analyticsService } from '../services/analytics';
 import { ArrowLeft, Crown } from 'lucide-react';
 
 
@@ -26,8 +27,18 @@ export function SpaceView({ spaceId, onBack }: SpaceViewProps) {
     const [space, setSpace] = useState<Space | null>(null);
     const [members, setMembers] = useState<SpaceMember[]>([]);
     const [activeTab, setActiveTab] = useState<SpaceViewTab>('posts');
+    const [deleted, setDeleted] = useState(false);
     const { user } = useAuth();
 
+    useEffect(() => {
+        if (deleted) onBack();
+    }, [deleted, onBack]);
+
+    const userId = user?.id;
+    useEffect(() => {
+        if (spaceId && userId) analyticsService.recordSpaceView(spaceId);
+    }, [spaceId, userId]);
+
     useEffect(() => {
         const loadSpaceData = async () => {
             if (!spaceId || !user) return;
@@ -123,21 +134,24 @@ export function SpaceView({ spaceId, onBack }: SpaceViewProps) {
                 }
             }
             
-            // Listen for incoming space member list beacons from other users
-            if (message.kind === 'beaconReceived' && message.payload.beaconType === 'space_members') {
-                console.log('Received space member list beacon from another user, refreshing...');
+            // Membership changes the server pushes for this space
+            if ((message.kind === 'memberUpdated' || message.kind === 'memberRemoved') && message.payload.spaceId === spaceId) {
+                console.log(`Received ${message.kind} for space ${spaceId}, refreshing members...`);
                 try {
-                    // CRITICAL FIX: Don't clear cache when receiving beacon updates
-                    // Just refresh the member list - SpaceManager will handle cache properly
+                    await spaceManager.clearSpaceMemberCache(spaceId);
                     const updatedMembers = await spaceManager.getSpaceMembers(spaceId);
                     setMembers(updatedMembers);
-                    
-                    // Update space member count
-                    setSpace(prev => prev ? { ...prev, memberCount: updatedMembers.length } : prev);
+                    setSpace(prev => prev ? { ...prev, memberCount: message.payload.memberCount } : prev);
                 } catch (error) {
-                    console.error('Error refreshing member list from beacon:', error);
+                    console.error('Error refreshing member list:', error);
                 }
             }
+            
+            // The owner deleted the space while we were looking at it
+            if (message.kind === 'spaceDeleted' && message.payload.spaceId === spaceId) {
+                await spaceManager.forgetSpace(spaceId);
+                setDeleted(true);
+            }
         };
 
         communicationManager.onMessage(handleRealtimeUpdates);
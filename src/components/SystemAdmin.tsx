@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Server, Database, Users, Zap, Activity, Clock, Shield, RefreshCw, Globe, BarChart3 } from 'lucide-react';
 import { ResonanceIndicator } from './ResonanceIndicator';
 import { PageHeader } from './ui/PageHeader';
@@ -7,45 +7,14 @@ import { StatsGrid } from './common/StatsGrid';
 import { Card } from './ui/Card';
 import { Badge } from './ui/Badge';
 import { Button } from './ui/Button';
+import { useAuth } from '../contexts/AuthContext';
+import { systemAdminService } from '../services/system-admin';
+import type { NodeStatus, SystemEvent, SystemMetrics } from '../protocol';
 
 interface SystemAdminProps {
   onBack: () => void;
 }
 
-interface SystemMetrics {
-  uptime: string;
-  totalUsers: number;
-  activeUsers: number;
-  totalSpaces: number;
-  totalFiles: number;
-  storageUsed: string;
-  storageCapacity: string;
-  networkThroughput: string;
-  avgResponseTime: string;
-  resonanceSystemHealth: number;
-  quantumProcessors: number;
-  primeGenerators: number;
-  activeResonanceLocks: number;
-  pendingSummons: number;
-}
-
-interface SystemEvent {
-  time: string;
-  level: string;
-  system: string;
-  message: string;
-  status: string;
-}
-
-interface NodeStatus {
-  id: string;
-  region: string;
-  status: string;
-  load: number;
-  resonanceOps: number;
-  uptime: string;
-}
-
 export function SystemAdmin({ onBack }: SystemAdminProps) {
   const [activeTab, setActiveTab] = useState<'overview' | 'nodes' | 'resonance' | 'users' | 'storage' | 'logs' | 'security'>('overview');
   const [loading, setLoading] = useState(true);
@@ -54,64 +23,36 @@ export function SystemAdmin({ onBack }: SystemAdminProps) {
   const [recentEvents, setRecentEvents] = useState<SystemEvent[]>([]);
   const [nodeStatus, setNodeStatus] = useState<NodeStatus[]>([]);
   const [refreshing, setRefreshing] = useState(false);
+  const { waitForAuth } = useAuth();
 
-  // Load system metrics
-  useEffect(() => {
-    loadSystemData();
-    // Set up polling for real-time updates
-    const interval = setInterval(loadSystemData, 30000); // Refresh every 30 seconds
-    return () => clearInterval(interval);
-  }, []);
-
-  const loadSystemData = async () => {
+  const loadSystemData = useCallback(async () => {
     try {
-      setError(null);
-      
-      // Load system metrics
-      const [metricsRes, eventsRes, nodesRes] = await Promise.all([
-        fetch('/api/admin/system/metrics'),
-        fetch('/api/admin/system/events?limit=10'),
-        fetch('/api/admin/system/nodes')
-      ]);
-
-      if (!metricsRes.ok || !eventsRes.ok || !nodesRes.ok) {
-        throw new Error('Failed to load system data');
-      }
-
+      await waitForAuth();
       const [metrics, events, nodes] = await Promise.all([
-        metricsRes.json(),
-        eventsRes.json(),
-        nodesRes.json()
+        systemAdminService.getMetrics(),
+        systemAdminService.getEvents(10),
+        systemAdminService.getNodes()
       ]);
 
       setSystemMetrics(metrics);
       setRecentEvents(events);
       setNodeStatus(nodes);
+      setError(null);
     } catch (err) {
       console.error('Failed to load system data:', err);
-      setError('Failed to load system data. Please check your permissions.');
-      
-      // Set default values on error
-      setSystemMetrics({
-        uptime: '0d 0h 0m',
-        totalUsers: 0,
-        activeUsers: 0,
-        totalSpaces: 0,
-        totalFiles: 0,
-        storageUsed: '0 GB',
-        storageCapacity: '0 GB',
-        networkThroughput: '0 MB/s',
-        avgResponseTime: '0ms',
-        resonanceSystemHealth: 0,
-        quantumProcessors: 0,
-        primeGenerators: 0,
-        activeResonanceLocks: 0,
-        pendingSummons: 0
-      });
+      setError(`Failed to load system data: ${err instanceof Error ? err.message : 'unknown error'}`);
     } finally {
       setLoading(false);
     }
-  };
+  }, [waitForAuth]);
+
+  // Load system metrics
+  useEffect(() => {
+    loadSystemData();
+    // Set up polling for real-time updates
+    const interval = setInterval(loadSystemData, 30000); // Refresh every 30 seconds
+    return () => clearInterval(interval);
+  }, [loadSystemData]);
 
   const handleRefresh = async () => {
     setRefreshing(true);
@@ -408,11 +349,11 @@ export function SystemAdmin({ onBack }: SystemAdminProps) {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-400">Success Rate</span>
-                  <span className="text-green-400">94.7%</span>
+                  <span className="text-green-400">{((systemMetrics?.resonanceSystemHealth ?? 0) * 100).toFixed(1)}%</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-400">Avg Lock Time</span>
-                  <span className="text-orange-400">1.2s</span>
+                  <span className="text-gray-400">p95 Response Time</span>
+                  <span className="text-orange-400">{Math.round(systemMetrics?.latency.p95Ms ?? 0)}ms</span>
                 </div>
               </div>
             </Card>
@@ -422,19 +363,51 @@ export function SystemAdmin({ onBack }: SystemAdminProps) {
               <div className="space-y-3">
                 <div className="flex justify-between">
                   <span className="text-gray-400">CPU Usage</span>
-                  <span className="text-yellow-400">34%</span>
+                  <span className="text-yellow-400">{((nodeStatus[0]?.load ?? 0) * 100).toFixed(0)}%</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-400">Memory Usage</span>
-                  <span className="text-red-400">67%</span>
+                  <span className="text-gray-400">Heap Usage</span>
+                  <span className="text-red-400">
+                    {systemMetrics?.memory.heapTotalBytes
+                      ? ((systemMetrics.memory.heapUsedBytes / systemMetrics.memory.heapTotalBytes) * 100).toFixed(0)
+                      : 0}%
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-400">Queue Depth</span>
-                  <span className="text-blue-400">12</span>
+                  <span className="text-blue-400">{systemMetrics?.pendingSummons ?? 0}</span>
                 </div>
               </div>
             </Card>
           </div>
+
+          {systemMetrics && (
+            <Card>
+              <h3 className="text-lg font-semibold text-white mb-4">
+                Request Latency
+                <span className="ml-2 text-sm font-normal text-gray-400">
+                  last {systemMetrics.latency.windowSeconds / 60} min · {systemMetrics.latency.requests} requests
+                </span>
+              </h3>
+              <div className="flex items-end h-24 gap-1">
+                {systemMetrics.latency.buckets.map(bucket => (
+                  <div
+                    key={bucket.le ?? 'inf'}
+                    title={`${bucket.le === null ? 'slower' : `≤ ${bucket.le}ms`}: ${bucket.count}`}
+                    className="flex-1 bg-cyan-400/60 rounded-t"
+                    style={{
+                      height: `${Math.max(2, (bucket.count / Math.max(1, ...systemMetrics.latency.buckets.map(b => b.count))) * 100)}%`
+                    }}
+                  />
+                ))}
+              </div>
+              <div className="flex gap-1 mt-2 text-xs font-mono text-gray-400">
+                {systemMetrics.latency.buckets.map(bucket => (
+                  <span key={bucket.le ?? 'inf'} className="flex-1 text-center">{bucket.le ?? '∞'}</span>
+                ))}
+              </div>
+            </Card>
+          )}
         </div>
       )}
 
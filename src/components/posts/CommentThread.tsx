@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CornerDownRight, Pencil, Trash2 } from 'lucide-react';
+import type { ClientComment } from '../../protocol';
+import { engagementService } from '../../services/engagement';
+import { Button } from '../ui/Button';
+
+interface CommentThreadProps {
+  postBeaconId: string;
+  currentUserId?: string;
+  onCommentCountChange?: (count: number) => void;
+}
+
+export function CommentThread({ postBeaconId, currentUserId, onCommentCountChange }: CommentThreadProps) {
+  const [comments, setComments] = useState<ClientComment[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadPage = useCallback(async (from: string | null) => {
+    setIsLoading(true);
+    try {
+      const page = await engagementService.getComments(postBeaconId, from);
+      setComments(prev => from ? [...prev, ...page.comments] : page.comments);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postBeaconId]);
+
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage]);
+
+  const handleSubmit = async () => {
+    if (!draft.trim()) return;
+    setIsSubmitting(true);
+    try {
+      const { comment, commentCount } = await engagementService.addComment(postBeaconId, draft, replyingTo ?? undefined);
+      setComments(prev => [...prev, comment]);
+      setDraft('');
+      setReplyingTo(null);
+      setError(null);
+      onCommentCountChange?.(commentCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    try {
+      const updated = await engagementService.editComment(commentId, editDraft);
+      setComments(prev => prev.map(c => c.commentId === commentId ? updated : c));
+      setEditingId(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to edit comment');
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      const commentCount = await engagementService.deleteComment(commentId);
+      // Keep the row so replies stay attached to it
+      setComments(prev => prev.map(c => c.commentId === commentId ? { ...c, content: '', deleted: true } : c));
+      setError(null);
+      onCommentCountChange?.(commentCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  const repliesByParent = new Map<string | null, ClientComment[]>();
+  for (const comment of comments) {
+    // Replies whose parent isn't loaded yet are shown at the top level
+    const parentId = comment.parentCommentId && comments.some(c => c.commentId === comment.parentCommentId)
+      ? comment.parentCommentId
+      : null;
+    repliesByParent.set(parentId, [...(repliesByParent.get(parentId) ?? []), comment]);
+  }
+
+  const renderComment = (comment: ClientComment, depth: number) => {
+    const isOwn = comment.authorId === currentUserId;
+    const isEditing = editingId === comment.commentId;
+
+    return (
+      <div key={comment.commentId} className={depth > 0 ? 'ml-6 border-l border-white/10 pl-4' : ''}>
+        <div className="py-2">
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="font-medium text-white">{comment.authorUsername}</span>
+            <span className="text-gray-500">{new Date(comment.createdAt).toLocaleString()}</span>
+            {comment.updatedAt && !comment.deleted && <span className="text-gray-500">(edited)</span>}
+          </div>
+
+          {isEditing ? (
+            <div className="mt-2 space-y-2">
+              <textarea
+                value={editDraft}
+                onChange={e => setEditDraft(e.target.value)}
+                className="w-full bg-white/5 border border-white/10 rounded-lg p-2 text-white text-sm"
+                rows={2}
+              />
+              <div className="flex space-x-2">
+                <Button size="sm" onClick={() => handleSaveEdit(comment.commentId)}>Save</Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+              </div>
+            </div>
+          ) : (
+            <p className={`mt-1 text-sm ${comment.deleted ? 'italic text-gray-500' : 'text-gray-300'}`}>
+              {comment.deleted ? 'Comment deleted' : comment.content}
+            </p>
+          )}
+
+          {!comment.deleted && !isEditing && (
+            <div className="flex items-center space-x-3 mt-1 text-xs text-gray-400">
+              <button onClick={() => setReplyingTo(comment.commentId)} className="flex items-center hover:text-white">
+                <CornerDownRight className="w-3 h-3 mr-1" />
+                Reply
+              </button>
+              {isOwn && (
+                <>
+                  <button
+                    onClick={() => {
+                      setEditingId(comment.commentId);
+                      setEditDraft(comment.content);
+                    }}
+                    className="flex items-center hover:text-white"
+                  >
+                    <Pencil className="w-3 h-3 mr-1" />
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(comment.commentId)} className="flex items-center hover:text-red-400">
+                    <Trash2 className="w-3 h-3 mr-1" />
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {(repliesByParent.get(comment.commentId) ?? []).map(reply => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  const replyTarget = comments.find(c => c.commentId === replyingTo);
+
+  return (
+    <div className="p-6 space-y-4">
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {!isLoading && comments.length === 0 && (
+        <p className="text-gray-400 text-sm">No comments yet. Start the conversation.</p>
+      )}
+
+      <div>{(repliesByParent.get(null) ?? []).map(comment => renderComment(comment, 0))}</div>
+
+      {hasMore && (
+        <Button size="sm" variant="secondary" loading={isLoading} onClick={() => loadPage(cursor)}>
+          Load more comments
+        </Button>
+      )}
+
+      <div className="space-y-2 border-t border-white/10 pt-4">
+        {replyTarget && (
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>Replying to {replyTarget.authorUsername}</span>
+            <button onClick={() => setReplyingTo(null)} className="hover:text-white">Cancel</button>
+          </div>
+        )}
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="Write a comment..."
+          className="w-full bg-white/5 border border-white/10 rounded-lg p-3 text-white text-sm placeholder-gray-500"
+          rows={3}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" loading={isSubmitting} disabled={!draft.trim()} onClick={handleSubmit}>
+            Comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
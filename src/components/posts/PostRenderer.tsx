@@ -1,10 +1,12 @@
-import { Heart, MessageCircle, Share, MoreHorizontal, Clock } from 'lucide-react';
+import { useState } from 'react';
+import { Heart, MessageCircle, Share, Flag, Clock } from 'lucide-react';
 import { Post, PostType } from '../../types/posts';
 import { Button } from '../ui/Button';
 import { RichTextRenderer } from './RichTextRenderer';
 import { ArticleLinkRenderer } from './ArticleLinkRenderer';
 import { YouTubeRenderer } from './YouTubeRenderer';
 import { BinaryFileRenderer } from './BinaryFileRenderer';
+import { ReportDialog } from './ReportDialog';
 
 interface PostRendererProps {
   post: Post;
@@ -27,6 +29,8 @@ export function PostRenderer({
   showActions = true,
   compact = false
 }: PostRendererProps) {
+  const [reporting, setReporting] = useState(false);
+
   const formatTimeAgo = (timestamp: Date) => {
     const now = new Date();
     const diffInMinutes = Math.floor((now.getTime() - timestamp.getTime()) / (1000 * 60));
@@ -95,9 +99,15 @@ export function PostRenderer({
         
         <div className="flex-1"></div>
         
-        {!compact && (
-          <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100 transition-opacity">
-            <MoreHorizontal className="w-4 h-4" />
+        {!compact && post.beaconId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReporting(true)}
+            title="Report post"
+            className="opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            <Flag className="w-4 h-4" />
           </Button>
         )}
       </header>
@@ -160,6 +170,15 @@ export function PostRenderer({
           )}
         </footer>
       )}
+
+      {post.beaconId && (
+        <ReportDialog
+          isOpen={reporting}
+          onClose={() => setReporting(false)}
+          targetType="post"
+          targetId={post.beaconId}
+        />
+      )}
     </article>
   );
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { moderationService } from '../../services/moderation';
+import type { ReportReason, ReportTargetType } from '../../protocol';
+
+interface ReportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+const REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'hate', label: 'Hate speech' },
+  { value: 'violence', label: 'Violence' },
+  { value: 'explicit', label: 'Explicit content' },
+  { value: 'misinformation', label: 'Misinformation' },
+  { value: 'other', label: 'Something else' }
+];
+
+export function ReportDialog({ isOpen, onClose, targetType, targetId }: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setSubmitted(false);
+    setError(null);
+    setDetails('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await moderationService.reportContent(targetType, targetId, reason, details.trim() || undefined);
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`Report ${targetType}`} size="sm">
+      {submitted ? (
+        <div className="space-y-4">
+          <p className="text-gray-300">Thanks. Moderators will review this report.</p>
+          <Button variant="secondary" onClick={handleClose} fullWidth>Close</Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {REASONS.map(option => (
+              <label key={option.value} className="flex items-center space-x-3 text-gray-300 cursor-pointer">
+                <input
+                  type="radio"
+                  name="report-reason"
+                  value={option.value}
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+          <textarea
+            placeholder="Anything moderators should know (optional)"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white 
+                     placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          <Button variant="danger" onClick={handleSubmit} loading={submitting} fullWidth>Send Report</Button>
+        </div>
+      )}
+    </Modal>
+  );
+}
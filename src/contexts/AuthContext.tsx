@@ -5,6 +5,8 @@ import { holographicMemoryManager, PrimeResonanceIdentity } from '../services/ho
 import { userDataManager } from '../services/user-data';
 import { spaceManager } from '../services/space-manager';
 import { beaconCacheManager } from '../services/beacon-cache';
+import { beaconCrypto } from '../services/crypto';
+import type { PlatformRole } from '../protocol';
 
 // Auth State Types
 interface AuthState {
@@ -23,6 +25,7 @@ type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: { user: User; token: string; pri: PrimeResonanceIdentity } }
   | { type: 'AUTH_FAILURE'; payload: string }
+  | { type: 'TOKEN_REFRESHED'; payload: string }
   | { type: 'SESSION_RESTORE_START' }
   | { type: 'SESSION_RESTORE_COMPLETE' }
   | { type: 'SERVICES_INIT_START' }
@@ -73,6 +76,8 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
       };
     case 'AUTH_FAILURE':
       return { ...state, isAuthenticated: false, user: null, token: null, pri: null, loading: false, sessionRestoring: false, servicesInitializing: false, error: action.payload };
+    case 'TOKEN_REFRESHED':
+      return { ...state, token: action.payload };
     case 'SESSION_RESTORE_START':
       return { ...state, sessionRestoring: true };
     case 'SESSION_RESTORE_COMPLETE':
@@ -92,6 +97,60 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
   }
 };
 
+// A stored token is refreshed once less than this is left of it, so tabs opened
+// in between share it instead of each replacing it on load
+const SESSION_REFRESH_WINDOW_MS = 6 * 24 * 60 * 60 * 1000;
+
+// Send a session action with a stored token; null means the server no longer
+// accepts the token (expired or revoked)
+const sessionRequest = async (
+  action: 'validateSession' | 'refreshSession',
+  sessionToken: string
+): Promise<Record<string, unknown> | null> => {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${sessionToken}`,
+    },
+    body: JSON.stringify({ action })
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `${action} failed`);
+  }
+  return result.payload;
+};
+
+// Check a stored token, refreshing it when it is close to expiry, along with
+// the user's current platform role
+const restoreSessionToken = async (sessionToken: string): Promise<{ token: string; role: PlatformRole } | null> => {
+  const session = await sessionRequest('validateSession', sessionToken);
+  if (!session) {
+    return null;
+  }
+  if (Date.parse(session.expiresAt as string) - Date.now() > SESSION_REFRESH_WINDOW_MS) {
+    return { token: sessionToken, role: session.role as PlatformRole };
+  }
+
+  const refreshed = await sessionRequest('refreshSession', sessionToken);
+  return refreshed && { token: refreshed.sessionToken as string, role: refreshed.role as PlatformRole };
+};
+
+// The token in localStorage, which another tab may have replaced
+const storedSessionToken = (): string | null => {
+  try {
+    return JSON.parse(localStorage.getItem('summoned_spaces_session') ?? 'null')?.token ?? null;
+  } catch {
+    return null;
+  }
+};
+
 // Create Context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -160,17 +219,43 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
               setTimeout(() => reject(new Error('Service initialization timeout after 10 seconds')), 10000);
             });
             
-            const initPromise = Promise.all([
-              userDataManager.loadUserData().catch(e => { console.error('[AUTH] loadUserData failed:', e); throw e; }),
-              beaconCacheManager.preloadUserBeacons(user.id).catch(e => { console.error('[AUTH] preloadUserBeacons failed:', e); throw e; })
-            ]).then(() => {
-              console.log('[AUTH] User data and beacons loaded successfully');
-              return spaceManager.initializeForUser(user.id);
-            }).then(() => {
-              console.log('[AUTH] SpaceManager initialized after beacon data load, isReady:', spaceManager.isReady());
-              dispatch({ type: 'SERVICES_INIT_COMPLETE' });
-              dispatch({ type: 'SESSION_RESTORE_COMPLETE' });
-              console.log('[AUTH] Service initialization complete');
+            // Check the token before any service talks to the server with it
+            const initPromise = restoreSessionToken(session.token).catch((error: Error) => {
+              console.warn('[AUTH] Session check failed, keeping the stored token:', error.message);
+              return { token: session.token as string, role: user.role ?? 'user' };
+            }).then(restored => {
+              // Another tab may have refreshed the token since this one read it
+              const replacement = storedSessionToken();
+              const refreshed = restored ?? (replacement && replacement !== session.token
+                ? { token: replacement, role: user.role ?? 'user' }
+                : null);
+              if (!refreshed) {
+                console.log('[AUTH] Stored session has expired or been revoked');
+                localStorage.removeItem('summoned_spaces_session');
+                communicationManager.setSession(null);
+                dispatch({ type: 'LOGOUT' });
+                return;
+              }
+
+              const { token, role } = refreshed;
+              communicationManager.setSession(token);
+              dispatch({ type: 'TOKEN_REFRESHED', payload: token });
+              if (role !== user.role) {
+                dispatch({ type: 'UPDATE_USER', payload: { role } });
+              }
+
+              return Promise.all([
+                userDataManager.loadUserData().catch(e => { console.error('[AUTH] loadUserData failed:', e); throw e; }),
+                beaconCacheManager.preloadUserBeacons(user.id).catch(e => { console.error('[AUTH] preloadUserBeacons failed:', e); throw e; })
+              ]).then(() => {
+                console.log('[AUTH] User data and beacons loaded successfully');
+                return spaceManager.initializeForUser(user.id);
+              }).then(() => {
+                console.log('[AUTH] SpaceManager initialized after beacon data load, isReady:', spaceManager.isReady());
+                dispatch({ type: 'SERVICES_INIT_COMPLETE' });
+                dispatch({ type: 'SESSION_RESTORE_COMPLETE' });
+                console.log('[AUTH] Service initialization complete');
+              });
             });
             
             Promise.race([initPromise, initTimeout]).catch((error: Error) => {
@@ -214,6 +299,29 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [state.isAuthenticated]);
 
+  // Follow a token another tab refreshed; the old one only lasts a short grace
+  // period on the server
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'summoned_spaces_session' || !event.newValue) return;
+
+      const { isAuthenticated, user, token } = stateRef.current;
+      try {
+        const session = JSON.parse(event.newValue);
+        if (!isAuthenticated || session.user?.id !== user?.id || !session.token || session.token === token) return;
+
+        console.log('[AUTH] Picking up session token refreshed in another tab');
+        communicationManager.setSession(session.token);
+        dispatch({ type: 'TOKEN_REFRESHED', payload: session.token });
+      } catch (error) {
+        console.error('[AUTH] Failed to read session written by another tab:', error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
   // Save session to localStorage whenever auth state changes
   useEffect(() => {
     try {
@@ -273,6 +381,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         stats: payload.stats as User['stats'] || { followers: 0, following: 0, spaces: 0, resonanceScore: 0.5 },
         recentActivity: payload.recentActivity as string || 'Just logged in',
         tags: payload.tags as string[] || [],
+        role: payload.role as PlatformRole || 'user',
       };
       
       dispatch({
@@ -284,6 +393,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         },
       });
       
+      communicationManager.setSession(payload.sessionToken as string);
+      
       // Mark services as initializing
       dispatch({ type: 'SERVICES_INIT_START' });
       
@@ -357,12 +468,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       token: !!state.token
     });
 
+    // Revoke the session server-side; logging out locally shouldn't wait on it
+    if (state.token) {
+      fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${state.token}`,
+        },
+        body: JSON.stringify({ action: 'logout' })
+      }).catch(error => console.warn('[AUTH] Failed to revoke session:', error));
+    }
+
     // Clear communication manager session
     communicationManager.disconnect();
+    communicationManager.setSession(null);
 
     // Clear holographic memory manager
     // holographicMemoryManager.clearCurrentUser(); // Method doesn't exist
 
+    // Forget this user's opened space keys and cached public keys
+    beaconCrypto.clear();
+
     // Clear user data manager
     // userDataManager.clearCurrentUser(); // Method doesn't exist
 
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { communicationManager } from '../services/communication-manager';
+import type { RequestPayloads } from '../protocol';
+
+type TypingTarget = Pick<RequestPayloads['setTyping'], 'partnerId' | 'spaceId'>;
+
+// The server drops repeats sent more often than this
+const TYPING_REFRESH_MS = 3000;
+// Typing counts as stopped after this long without input
+const TYPING_IDLE_MS = 4000;
+
+function sendTyping(target: TypingTarget, typing: boolean): void {
+  communicationManager.send({ kind: 'setTyping', payload: { ...target, typing } }).catch(error => {
+    console.warn('[Typing] Failed to send typing status:', error);
+  });
+}
+
+/**
+ * Tells the people at target that the user is typing. Call onInput on every
+ * change to the draft and stop once it is sent; switching to another target
+ * or to null stops at the previous one.
+ */
+export function useTypingSignal(target: TypingTarget | null) {
+  const targetKey = target ? `${target.partnerId ?? ''}:${target.spaceId ?? ''}` : null;
+  const targetRef = useRef(target);
+  targetRef.current = target;
+  const activeRef = useRef<TypingTarget | null>(null);
+  const lastSentRef = useRef(0);
+  const idleTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const stop = useCallback(() => {
+    clearTimeout(idleTimeoutRef.current);
+    const active = activeRef.current;
+    if (!active) return;
+    activeRef.current = null;
+    lastSentRef.current = 0;
+    sendTyping(active, false);
+  }, []);
+
+  const onInput = useCallback(() => {
+    const current = targetRef.current;
+    if (!current) return;
+
+    const now = Date.now();
+    if (!activeRef.current || now - lastSentRef.current >= TYPING_REFRESH_MS) {
+      activeRef.current = current;
+      lastSentRef.current = now;
+      sendTyping(current, true);
+    }
+    clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = setTimeout(stop, TYPING_IDLE_MS);
+  }, [stop]);
+
+  useEffect(() => stop, [targetKey, stop]);
+
+  return { onInput, stop };
+}
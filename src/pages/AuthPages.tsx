@@ -1,8 +1,9 @@
 import React, { useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { Login } from '../components/Login';
 import { Register } from '../components/Register';
 import { ForgotPassword } from '../components/ForgotPassword';
+import { ResetPassword } from '../components/ResetPassword';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../components/NotificationSystem';
 
@@ -133,4 +134,16 @@ export function ForgotPasswordPage() {
       onBackToLogin={handleBack}
     />
   );
-}
\ No newline at end of file
+}
+
+export function ResetPasswordPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  return (
+    <ResetPassword
+      token={searchParams.get('token')}
+      onBackToLogin={() => navigate('/login')}
+    />
+  );
+}
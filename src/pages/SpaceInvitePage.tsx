@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Link2 } from 'lucide-react';
+import { PageLayout } from '../components/layouts/PageLayout';
+import { EmptyState } from '../components/ui/EmptyState';
+import { useAuth } from '../contexts/AuthContext';
+import { spaceManager } from '../services/space-manager';
+
+// Landing page for /invite/:token links; joins the space and opens it
+export function SpaceInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, servicesInitializing } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token || !user || servicesInitializing) return;
+
+    // Accepting twice is harmless: an active member keeps their membership
+    spaceManager.acceptInvite(token)
+      .then(member => navigate(`/spaces/${member.spaceId}`, { replace: true }))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to accept invite'));
+  }, [token, user, servicesInitializing, navigate]);
+
+  return (
+    <PageLayout>
+      <EmptyState
+        icon={Link2}
+        title={error ? 'Invite unavailable' : 'Joining space...'}
+        description={error ?? 'Checking your invite link.'}
+        action={error ? { label: 'Browse spaces', onClick: () => navigate('/spaces') } : undefined}
+      />
+    </PageLayout>
+  );
+}
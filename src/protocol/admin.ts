@@ -0,0 +1,184 @@
+/**
+ * Admin Protocol
+ * Shapes exchanged with the /api/admin endpoints behind SystemAdmin and
+ * ContentAdmin
+ */
+
+import type { ReportTargetType } from './messages';
+
+// Platform-wide standing of an account; suspended accounts are read-only
+export type AccountStanding = 'active' | 'suspended' | 'banned';
+
+// Platform-wide role. Moderators work the content console; admins also run
+// the system console and announcements and manage moderators.
+export type PlatformRole = 'user' | 'moderator' | 'admin';
+
+// ============================================
+// System Metrics
+// ============================================
+
+// Requests slower than `le` milliseconds fall in a later bucket; the last
+// bucket has no upper bound (le: null)
+export interface LatencyBucket {
+  le: number | null;
+  count: number;
+}
+
+// API requests finished within the last windowSeconds
+export interface RequestLatency {
+  windowSeconds: number;
+  requests: number;
+  errors: number;
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  buckets: LatencyBucket[];
+}
+
+export interface MemoryUsage {
+  rssBytes: number;
+  heapUsedBytes: number;
+  heapTotalBytes: number;
+}
+
+export interface SystemMetrics {
+  uptime: string;
+  totalUsers: number;
+  // Distinct users with an open event stream
+  activeUsers: number;
+  totalSpaces: number;
+  totalFiles: number;
+  storageUsed: string;
+  storageCapacity: string;
+  networkThroughput: string;
+  avgResponseTime: string;
+  // Share of recent requests that did not fail with a 5xx, 0..1
+  resonanceSystemHealth: number;
+  quantumProcessors: number;
+  primeGenerators: number;
+  // Open event streams
+  activeResonanceLocks: number;
+  // Requests being handled right now
+  pendingSummons: number;
+  memory: MemoryUsage;
+  latency: RequestLatency;
+}
+
+// ============================================
+// System Events
+// ============================================
+
+export type SystemEventLevel = 'INFO' | 'WARN' | 'ERROR';
+
+export type SystemEventStatus = 'success' | 'info' | 'warning' | 'error';
+
+export interface SystemEvent {
+  // UTC time of day, HH:MM:SS
+  time: string;
+  timestamp: number;
+  level: SystemEventLevel;
+  system: string;
+  message: string;
+  status: SystemEventStatus;
+}
+
+// ============================================
+// Nodes
+// ============================================
+
+export type NodeHealth = 'healthy' | 'warning' | 'error' | 'maintenance';
+
+export interface NodeStatus {
+  id: string;
+  region: string;
+  status: NodeHealth;
+  // Load average over the CPU count, 0..1 when not saturated
+  load: number;
+  // API requests per second
+  resonanceOps: number;
+  uptime: string;
+}
+
+// ============================================
+// Moderation
+// ============================================
+
+// dismiss closes the reports without acting; warn, suspend and ban apply to
+// the post's author, the space's owner or the reported user
+export type ContentModerationAction = 'dismiss' | 'hide' | 'delete' | 'warn' | 'suspend' | 'ban';
+
+export type UserModerationAction = 'warn' | 'suspend' | 'ban' | 'reinstate';
+
+// Optional body of a moderation action request
+export interface ModerationActionOptions {
+  note?: string;
+  // suspend only; defaults to DEFAULT_SUSPENSION_DAYS
+  days?: number;
+}
+
+// Pending reports on one target, grouped; id is the oldest report's id and
+// acting on it resolves them all
+export interface ReportedContent {
+  id: string;
+  type: ReportTargetType;
+  targetId: string;
+  content: string;
+  author: string;
+  reporter: string;
+  reason: string;
+  timestamp: string;
+  status: 'pending';
+  reportCount: number;
+}
+
+export interface UserStat {
+  id: string;
+  name: string;
+  username: string;
+  status: AccountStanding;
+  role: PlatformRole;
+  joinDate: string;
+  posts: number;
+  followers: number;
+  // Pending reports against the user or their posts
+  reports: number;
+  lastActive: string;
+  suspendedUntil?: string;
+}
+
+export interface SpaceStat {
+  id: string;
+  name: string;
+  creator: string;
+  members: number;
+  posts: number;
+  status: 'active' | 'hidden';
+  created: string;
+  reports: number;
+}
+
+// ============================================
+// Announcements
+// ============================================
+
+export type AnnouncementStatus = 'draft' | 'active' | 'archived';
+
+export type AnnouncementAction = 'publish' | 'archive';
+
+export interface Announcement {
+  id: string;
+  title: string;
+  content: string;
+  status: AnnouncementStatus;
+  created: string;
+  publishedAt?: string;
+  // Users who have seen it
+  views: number;
+}
+
+export interface CreateAnnouncementRequest {
+  title: string;
+  content: string;
+  // Publish straight away instead of saving a draft
+  publish?: boolean;
+}
@@ -0,0 +1,9 @@
+/**
+ * Protocol Module
+ * Shared by the client (src/services) and the API functions (api/)
+ */
+
+export type * from './messages';
+export type * from './admin';
+export { validateRequest, isRequestKind } from './validation';
+export type { ValidationResult } from './validation';
@@ -0,0 +1,628 @@
+/**
+ * Message Protocol
+ * Request and response shapes exchanged between the client and /api/messages
+ */
+
+import type { Permission, SpaceRole, SpaceSettings } from '../services/space-manager/types';
+
+// ============================================
+// Shared Shapes
+// ============================================
+
+// Added to every request by the communication manager. The server resolves
+// the caller from this token; identity is never read from the payload
+export interface SessionFields {
+  sessionToken?: string | null;
+}
+
+// Beacon as sent over the wire (Uint8Arrays converted to arrays)
+export interface SerializedBeacon {
+  index?: number[];
+  epoch?: number;
+  fingerprint?: number[];
+  signature?: number[];
+  prime_indices?: string;
+  originalText?: string;
+}
+
+// Beacon as returned to the client beacon cache (see CachedBeacon)
+export interface ClientBeacon {
+  beacon_id: string;
+  beacon_type: string;
+  author_id: string;
+  prime_indices: string;
+  index: number[];
+  epoch: number;
+  fingerprint: number[];
+  signature: number[];
+  originalText?: string;
+  metadata: string | null;
+  created_at: string;
+  username?: string;
+}
+
+export interface UserSummary {
+  userId: string;
+  username: string;
+}
+
+export interface ClientSpace {
+  space_id: string;
+  name: string;
+  description?: string;
+  is_public: number;
+  member_count: number;
+  created_at: string;
+  owner?: string;
+}
+
+// pending members asked to join a space that requires approval
+export interface ClientSpaceMember {
+  userId: string;
+  username: string;
+  spaceId: string;
+  role: SpaceRole;
+  status: 'active' | 'pending';
+  joinedAt: string;
+  permissions: Permission[];
+}
+
+export interface ClientSpaceFile {
+  file_id: string;
+  space_id: string;
+  uploader_id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  fingerprint: string;
+  created_at: string;
+}
+
+// Comments come back as a flat list, oldest first; parentCommentId threads them
+export interface ClientComment {
+  commentId: string;
+  postBeaconId: string;
+  authorId: string;
+  authorUsername: string;
+  parentCommentId: string | null;
+  content: string;
+  createdAt: string;
+  updatedAt: string | null;
+  deleted: boolean;
+}
+
+// 'sending' is never sent by the server; clients use it for optimistic copies
+export type MessageDeliveryStatus = 'sending' | 'sent' | 'delivered' | 'read';
+
+export interface ClientDirectMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  content: string;
+  timestamp: number;
+  // Whether the viewer has read it; always true for their own messages
+  read: boolean;
+  // How far the viewer's own messages have got with the other participant
+  deliveryStatus?: MessageDeliveryStatus;
+}
+
+export interface ClientConversation {
+  conversationId: string;
+  userId: string;
+  userName: string;
+  messages: ClientDirectMessage[];
+  lastMessage?: ClientDirectMessage;
+  unreadCount: number;
+  // Pass as before to load older messages; null once the start is loaded
+  cursor?: string | null;
+}
+
+// A device key that private beacons are sealed to; publicKey is base64 SPKI
+// and keyId the base64url SHA-256 of it
+export interface ClientEncryptionKey {
+  keyId: string;
+  userId: string;
+  publicKey: string;
+}
+
+// One version of a space key, sealed to one of the caller's device keys
+export interface ClientSpaceKey {
+  keyVersion: number;
+  keyId: string;
+  wrappedKey: string;
+  createdBy: string;
+}
+
+export interface SpaceKeyState {
+  spaceId: string;
+  // 0 until a member creates the first key
+  latestVersion: number;
+  // Every version sealed to any of the caller's devices, newest first
+  keys: ClientSpaceKey[];
+  // Every active member's device keys, and those the latest version has
+  // not been sealed to yet
+  devices: ClientEncryptionKey[];
+  pending: string[];
+  // A device outside the space holds the latest version, so the next sender
+  // should create a new one
+  rotate: boolean;
+}
+
+// Offline users have no open event stream; away ones have one but said so
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus;
+  // When an offline user's last event stream closed, if the server saw it
+  lastSeen?: number;
+}
+
+export type AnalyticsEventType = 'space_view' | 'post' | 'file_contribution' | 'summon' | 'join' | 'message';
+
+export type AnalyticsRange = '7d' | '30d' | '90d';
+
+export type AnalyticsCounts = Record<AnalyticsEventType, number>;
+
+export interface AnalyticsDay {
+  date: string;
+  counts: AnalyticsCounts;
+}
+
+export interface AnalyticsSpaceSummary {
+  spaceId: string;
+  name: string;
+  memberCount: number;
+  fileCount: number;
+  storageBytes: number;
+  totals: AnalyticsCounts;
+  previousTotals: AnalyticsCounts;
+}
+
+export interface AnalyticsActivity {
+  eventType: AnalyticsEventType;
+  spaceId: string;
+  spaceName: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+}
+
+// Totals cover the range; previousTotals the same length of time before it.
+// Space figures only include spaces the viewer is an active member of, while
+// personal counts the viewer's own activity anywhere, messages included.
+export interface AnalyticsReport {
+  range: AnalyticsRange;
+  spaceId?: string;
+  from: string;
+  to: string;
+  totals: AnalyticsCounts;
+  previousTotals: AnalyticsCounts;
+  activeUsers: number;
+  daily: AnalyticsDay[];
+  spaces: AnalyticsSpaceSummary[];
+  personal: AnalyticsCounts;
+  recentActivity: AnalyticsActivity[];
+}
+
+// What users can report; moderators act on the post, its author, the space
+// or its owner, see lib/moderation
+export type ReportTargetType = 'post' | 'user' | 'space';
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'violence' | 'explicit' | 'misinformation' | 'other';
+
+// Pushed to a user when a moderator acts on them or their content
+export interface ModerationNoticePayload {
+  action: 'warn' | 'suspend' | 'ban' | 'hide' | 'delete' | 'reinstate';
+  targetType: ReportTargetType;
+  targetId: string;
+  note?: string;
+  // Suspensions only
+  until?: string;
+  timestamp: number;
+}
+
+export interface ClientAnnouncement {
+  announcementId: string;
+  title: string;
+  content: string;
+  publishedAt: string;
+}
+
+// ============================================
+// Requests
+// ============================================
+
+export type SearchCategory = 'all' | 'people' | 'spaces' | 'posts';
+
+export type SearchSort = 'relevance' | 'recent' | 'popular' | 'trending';
+
+export interface RequestPayloads {
+  ping: Record<never, never>;
+  // Direct messages (direct_message, quantum_message) name their recipient and
+  // space messages their space; private types must carry a sealed envelope
+  submitPostBeacon: { beacon: SerializedBeacon; beaconType: string; recipientId?: string; spaceId?: string };
+  submitCommentBeacon: { postBeaconId: string; content: string; parentCommentId?: string };
+  editComment: { commentId: string; content: string };
+  deleteComment: { commentId: string };
+  getComments: { postBeaconId: string; limit?: number; cursor?: string | null };
+  likePost: { postBeaconId: string };
+  unlikePost: { postBeaconId: string };
+  getPostEngagement: { postBeaconId: string };
+  follow: { userIdToFollow: string };
+  unfollow: { userIdToUnfollow: string };
+  getQueuedMessages: Record<never, never>;
+  // userId names the author here; '*' requests every author
+  getBeaconsByUser: { userId?: string; beaconType?: string; limit?: number; cursor?: string | null };
+  search: {
+    query: string;
+    category?: SearchCategory;
+    sortBy?: SearchSort;
+    page?: number;
+    pageSize?: number;
+  };
+  getPublicSpaces: Record<never, never>;
+  createSpace: { name: string; description?: string; isPublic: boolean };
+  joinSpace: { spaceId: string };
+  leaveSpace: { spaceId: string };
+  // Pending join requests are only listed for members who can manage members
+  getSpaceMembers: { spaceId: string };
+  updateMemberRole: { spaceId: string; userId: string; role: SpaceRole };
+  approveMember: { spaceId: string; userId: string };
+  removeMember: { spaceId: string; userId: string };
+  createSpaceInvite: { spaceId: string; role?: SpaceRole; expiresInHours?: number; maxUses?: number };
+  acceptSpaceInvite: { token: string };
+  getSpaceSettings: { spaceId: string };
+  // Omitted fields and settings keep their current values
+  updateSpaceSettings: { spaceId: string; name?: string; description?: string; settings?: Partial<SpaceSettings> };
+  deleteSpace: { spaceId: string };
+  recordSpaceView: { spaceId: string };
+  // Defaults to 7d across every space the caller belongs to
+  getAnalytics: { range?: AnalyticsRange; spaceId?: string };
+  getFollowers: { targetUserId?: string };
+  getFollowing: { targetUserId?: string };
+  getMutualFollows: Record<never, never>;
+  getSpaceFiles: { spaceId: string };
+  addFileToSpace: {
+    spaceId: string;
+    fileName: string;
+    fileType?: string;
+    fileSize?: number;
+    fingerprint: string;
+    fileContent: string;
+  };
+  removeFileFromSpace: { spaceId: string; fileId: string };
+  downloadFile: { spaceId: string; fingerprint: string };
+  sendPrivateMessage: { recipientId: string; content: string; tempId?: string };
+  // Newest messages first; pass the returned cursor as before for older pages
+  getConversationHistory: { partnerId: string; limit?: number; before?: string | null };
+  getRecentConversations: Record<never, never>;
+  // Both mark the whole conversation up to and including messageId
+  markMessageRead: { messageId: string };
+  markMessageDelivered: { messageId: string };
+  getUnreadCount: Record<never, never>;
+  // Exactly one of partnerId and spaceId; repeat typing: true while the user
+  // keeps typing, as indicators lapse on their own
+  setTyping: { partnerId?: string; spaceId?: string; typing: boolean };
+  // Offline follows from closing every event stream
+  setPresence: { status: Exclude<PresenceStatus, 'offline'> };
+  // Users the caller shares no conversation or space with are left out
+  getPresence: { userIds: string[] };
+  requestTeleport: { targetUserId: string; memoryId: string };
+  requestPasswordReset: { email: string };
+  reportContent: { targetType: ReportTargetType; targetId: string; reason: ReportReason; details?: string };
+  // Published announcements the caller has not dismissed, newest first
+  getAnnouncements: Record<never, never>;
+  dismissAnnouncement: { announcementId: string };
+  // priFingerprint must be the caller's, binding the key to their identity
+  publishEncryptionKey: { publicKey: string; priFingerprint: string };
+  getPublicKeys: { userIds: string[] };
+  getSpaceKeys: { spaceId: string };
+  // keyVersion is the latest version, to seal it to more devices, or the one
+  // after it, to create a new key
+  shareSpaceKeys: { spaceId: string; keyVersion: number; keys: { keyId: string; wrappedKey: string }[] };
+}
+
+export type RequestKind = keyof RequestPayloads;
+
+export type RequestPayload<K extends RequestKind> = RequestPayloads[K] & SessionFields;
+
+export type ProtocolRequest<K extends RequestKind = RequestKind> = {
+  [P in K]: { kind: P; payload: RequestPayload<P> };
+}[K];
+
+// ============================================
+// Responses and Server Pushes
+// ============================================
+
+// SUSPENDED: the caller's account may read but not post or interact until
+// the suspension ends
+export type ErrorCode =
+  | 'INVALID_MESSAGE' | 'UNKNOWN_MESSAGE_KIND' | 'INVALID_PAYLOAD' | 'UNAUTHENTICATED' | 'FORBIDDEN' | 'SUSPENDED';
+
+export interface PayloadIssue {
+  field: string;
+  expected: string;
+  received: string;
+}
+
+export interface ErrorPayload {
+  requestKind?: string;
+  code?: ErrorCode;
+  message: string;
+  details?: string | PayloadIssue[];
+  redirect?: string;
+  // With FORBIDDEN, the space permission the caller was missing
+  permission?: Permission;
+}
+
+export interface FollowNotificationPayload {
+  followerId: string;
+  followerUsername: string;
+  type: 'follow' | 'unfollow';
+  timestamp?: number;
+}
+
+// Pushed when someone else submits a beacon meant for the user: a direct
+// message to them, a message in one of their spaces, or a post by someone
+// they follow or in one of their spaces
+export interface BeaconReceivedPayload {
+  beaconId: string;
+  senderId: string;
+  beaconType: string;
+  beacon: SerializedBeacon;
+  spaceId?: string;
+  timestamp: number;
+}
+
+export interface PrivateMessagePayload {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  senderName: string;
+  recipientId: string;
+  recipientName: string;
+  content: string;
+  timestamp: number;
+  tempId?: string;
+}
+
+// userId has read or received every message in the conversation up to
+// timestamp, the time of messageId
+export interface MessageReceiptPayload {
+  conversationId: string;
+  userId: string;
+  messageId: string;
+  timestamp: number;
+  // False when the marker was already there
+  updated: boolean;
+}
+
+export interface UnreadCountPayload {
+  count: number;
+  conversations: { conversationId: string; userId: string; unreadCount: number }[];
+}
+
+// typing: false, or passing expiresAt, ends the indicator
+export interface UserTypingPayload {
+  userId: string;
+  userName: string;
+  // One of the two, matching the setTyping request
+  conversationId?: string;
+  spaceId?: string;
+  typing: boolean;
+  timestamp: number;
+  expiresAt?: number;
+}
+
+export interface CommentNotificationPayload {
+  postBeaconId: string;
+  comment: ClientComment;
+  timestamp: number;
+}
+
+export interface LikeNotificationPayload {
+  postBeaconId: string;
+  userId: string;
+  username: string;
+  likeCount: number;
+  timestamp: number;
+}
+
+export interface SpaceCreatedPayload {
+  spaceId: string;
+  name: string;
+  description?: string;
+  isPublic: boolean;
+  owner?: string;
+  createdAt: string;
+  memberCount: number;
+  role: 'owner';
+  message?: string;
+}
+
+export interface ResponsePayloads {
+  error: ErrorPayload;
+  pong: { timestamp: number };
+  submitPostSuccess: { message: string; timestamp: number; beaconId: string; userId: string };
+  submitCommentSuccess: {
+    commentId: string;
+    postBeaconId: string;
+    author: string;
+    message: string;
+    comment: ClientComment;
+    commentCount: number;
+  };
+  commentUpdated: { comment: ClientComment };
+  commentDeleted: { commentId: string; postBeaconId: string; commentCount: number };
+  commentsResponse: {
+    postBeaconId: string;
+    comments: ClientComment[];
+    count: number;
+    hasMore: boolean;
+    cursor: string | null;
+  };
+  likePostSuccess: { postBeaconId: string; liked: boolean; user: string; message: string; likeCount: number };
+  postEngagement: { postBeaconId: string; likeCount: number; commentCount: number; liked: boolean };
+  commentNotification: CommentNotificationPayload;
+  likeNotification: LikeNotificationPayload;
+  followSuccess: {
+    userIdToFollow: string;
+    message: string;
+    follower: string;
+    notification: ServerMessage<'followNotification'>;
+  };
+  unfollowSuccess: {
+    userIdToUnfollow: string;
+    message: string;
+    follower: string;
+    notification: ServerMessage<'followNotification'>;
+  };
+  followNotification: FollowNotificationPayload;
+  queuedMessages: { messages: ServerMessage[]; count: number; timestamp: number };
+  beaconsResponse: {
+    beacons: ClientBeacon[];
+    userId?: string;
+    beaconType?: string;
+    count: number;
+    hasMore: boolean;
+    cursor: string | null;
+  };
+  searchResponse: {
+    users: UserSummary[];
+    spaces: ClientSpace[];
+    beacons: ClientBeacon[];
+    query: string;
+    category: SearchCategory;
+    sortBy: SearchSort;
+    // Matches per category across all pages
+    totals: { people: number; spaces: number; posts: number };
+    totalResults: number;
+    page: number;
+    hasMore: boolean;
+  };
+  publicSpacesResponse: { spaces: ClientSpace[]; totalSpaces: number; page: number; hasMore: boolean };
+  createSpaceSuccess: SpaceCreatedPayload;
+  spaceJoined: { spaceId: string; member: ClientSpaceMember; memberCount: number };
+  spaceMembersResponse: { spaceId: string; members: ClientSpaceMember[]; pending: ClientSpaceMember[]; count: number };
+  // Both are also pushed to the affected member, and memberUpdated to the
+  // space's managers when someone asks to join
+  memberUpdated: { spaceId: string; member: ClientSpaceMember; memberCount: number };
+  memberRemoved: { spaceId: string; userId: string; memberCount: number };
+  spaceInviteCreated: { spaceId: string; token: string; url: string; role: SpaceRole; expiresAt: string; maxUses?: number };
+  spaceSettingsResponse: { spaceId: string; name: string; description?: string; settings: SpaceSettings; canEdit: boolean };
+  // Also pushed to every other member of the deleted space
+  spaceDeleted: { spaceId: string };
+  spaceViewRecorded: { spaceId: string };
+  analyticsResponse: AnalyticsReport;
+  followersResponse: { userId: string; followers: UserSummary[]; count: number };
+  followingResponse: { userId: string; following: UserSummary[]; count: number };
+  friendsList: { friends: UserSummary[]; count: number };
+  spaceFilesResponse: { spaceId: string; files: ClientSpaceFile[] };
+  fileAddedToSpace: { spaceId: string; file: ClientSpaceFile };
+  fileRemovedFromSpace: { spaceId: string; fileId: string };
+  downloadFileResponse: { fingerprint: string; success: boolean; content?: string; error?: string };
+  privateMessage: PrivateMessagePayload;
+  beaconReceived: BeaconReceivedPayload;
+  conversationHistory: ClientConversation;
+  recentConversations: { conversations: ClientConversation[]; count: number };
+  messageRead: MessageReceiptPayload;
+  messageDelivered: MessageReceiptPayload;
+  unreadCountUpdate: UnreadCountPayload;
+  // broadcast is false when the signal was redundant or over the rate limit
+  typingSent: { partnerId?: string; spaceId?: string; typing: boolean; broadcast: boolean };
+  // Pushed to the user's contacts as a signal whenever their status changes
+  presenceUpdate: UserPresence;
+  presenceResponse: { presence: UserPresence[] };
+  userTyping: UserTypingPayload;
+  teleportRequested: { targetUserId: string; memoryId: string };
+  teleportRequest: { fromUserId: string; fromUsername: string; memoryId: string; timestamp: number };
+  passwordResetSent: { message: string };
+  reportSubmitted: { reportId: string; targetType: ReportTargetType; targetId: string };
+  announcementsResponse: { announcements: ClientAnnouncement[] };
+  announcementDismissed: { announcementId: string };
+  // Pushed to every user when an announcement is published
+  announcement: ClientAnnouncement;
+  moderationNotice: ModerationNoticePayload;
+  encryptionKeyPublished: ClientEncryptionKey;
+  publicKeysResponse: { keys: ClientEncryptionKey[] };
+  spaceKeysResponse: SpaceKeyState;
+  spaceKeysShared: { spaceId: string; keyVersion: number; added: number };
+  connected: { message: string; timestamp: number; userId?: string };
+  heartbeat: { timestamp: number };
+}
+
+export type ResponseKind = keyof ResponsePayloads;
+
+export type ProtocolResponse<K extends ResponseKind = ResponseKind> = {
+  [P in K]: { kind: P; payload: ResponsePayloads[P] };
+}[K];
+
+// Anything the server delivers, whether as a response, over SSE or via polling
+export type ServerMessage<K extends ResponseKind = ResponseKind> = ProtocolResponse<K>;
+
+// Untyped envelope for listeners that inspect many kinds at once
+export interface MessageEnvelope {
+  kind: string;
+  payload: Record<string, unknown>;
+}
+
+// Success response for each request kind; any request may also get an error
+export interface ResponseKinds {
+  ping: 'pong';
+  submitPostBeacon: 'submitPostSuccess';
+  submitCommentBeacon: 'submitCommentSuccess';
+  editComment: 'commentUpdated';
+  deleteComment: 'commentDeleted';
+  getComments: 'commentsResponse';
+  likePost: 'likePostSuccess';
+  unlikePost: 'likePostSuccess';
+  getPostEngagement: 'postEngagement';
+  follow: 'followSuccess';
+  unfollow: 'unfollowSuccess';
+  getQueuedMessages: 'queuedMessages';
+  getBeaconsByUser: 'beaconsResponse';
+  search: 'searchResponse';
+  getPublicSpaces: 'publicSpacesResponse';
+  createSpace: 'createSpaceSuccess';
+  joinSpace: 'spaceJoined';
+  leaveSpace: 'memberRemoved';
+  getSpaceMembers: 'spaceMembersResponse';
+  updateMemberRole: 'memberUpdated';
+  approveMember: 'memberUpdated';
+  removeMember: 'memberRemoved';
+  createSpaceInvite: 'spaceInviteCreated';
+  acceptSpaceInvite: 'spaceJoined';
+  getSpaceSettings: 'spaceSettingsResponse';
+  updateSpaceSettings: 'spaceSettingsResponse';
+  deleteSpace: 'spaceDeleted';
+  recordSpaceView: 'spaceViewRecorded';
+  getAnalytics: 'analyticsResponse';
+  getFollowers: 'followersResponse';
+  getFollowing: 'followingResponse';
+  getMutualFollows: 'friendsList';
+  getSpaceFiles: 'spaceFilesResponse';
+  addFileToSpace: 'fileAddedToSpace';
+  removeFileFromSpace: 'fileRemovedFromSpace';
+  downloadFile: 'downloadFileResponse';
+  sendPrivateMessage: 'privateMessage';
+  getConversationHistory: 'conversationHistory';
+  getRecentConversations: 'recentConversations';
+  markMessageRead: 'messageRead';
+  markMessageDelivered: 'messageDelivered';
+  getUnreadCount: 'unreadCountUpdate';
+  setTyping: 'typingSent';
+  setPresence: 'presenceUpdate';
+  getPresence: 'presenceResponse';
+  requestTeleport: 'teleportRequested';
+  requestPasswordReset: 'passwordResetSent';
+  reportContent: 'reportSubmitted';
+  getAnnouncements: 'announcementsResponse';
+  dismissAnnouncement: 'announcementDismissed';
+  publishEncryptionKey: 'encryptionKeyPublished';
+  getPublicKeys: 'publicKeysResponse';
+  getSpaceKeys: 'spaceKeysResponse';
+  shareSpaceKeys: 'spaceKeysShared';
+}
+
+export type ResponseFor<K extends RequestKind> = ProtocolResponse<ResponseKinds[K] | 'error'>;
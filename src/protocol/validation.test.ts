@@ -0,0 +1,46 @@
+/**
+ * Protocol Validation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateRequest } from './validation';
+
+describe('validateRequest', () => {
+  it('accepts a well-formed request and keeps the session token', () => {
+    const result = validateRequest({
+      kind: 'follow',
+      payload: { userIdToFollow: 'user_b', sessionToken: 'token' }
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.request.kind).toBe('follow');
+      expect(result.request.payload.sessionToken).toBe('token');
+    }
+  });
+
+  it('rejects unknown kinds and malformed bodies', () => {
+    const unknown = validateRequest({ kind: 'bogusKind', payload: {} });
+    expect(!unknown.ok && unknown.error.payload.code).toBe('UNKNOWN_MESSAGE_KIND');
+
+    const malformed = validateRequest('ping');
+    expect(!malformed.ok && malformed.error.payload.code).toBe('INVALID_MESSAGE');
+  });
+
+  it('reports every invalid field', () => {
+    const result = validateRequest({
+      kind: 'createSpace',
+      payload: { name: '  ', isPublic: 'yes', description: 42 }
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.payload).toMatchObject({ requestKind: 'createSpace', code: 'INVALID_PAYLOAD' });
+      expect(result.error.payload.details).toEqual([
+        { field: 'name', expected: 'non-empty string', received: 'empty string' },
+        { field: 'description', expected: 'string', received: 'number' },
+        { field: 'isPublic', expected: 'boolean', received: 'string' }
+      ]);
+    }
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Runtime validation for incoming protocol requests
+ * Used at the API boundary; the schemas mirror RequestPayloads field for field
+ */
+
+import type {
+  ErrorCode, PayloadIssue, ProtocolRequest, ProtocolResponse,
+  RequestKind, RequestPayloads
+} from './messages';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// A trailing '?' marks the field optional (undefined or null)
+type FieldSpec = FieldType | `${FieldType}?`;
+
+type PayloadSchema<T> = { [F in keyof T]-?: FieldSpec };
+
+const SESSION_SCHEMA = {
+  sessionToken: 'string?'
+} as const satisfies Record<string, FieldSpec>;
+
+const REQUEST_SCHEMAS: { [K in RequestKind]: PayloadSchema<RequestPayloads[K]> } = {
+  ping: {},
+  submitPostBeacon: { beacon: 'object', beaconType: 'string', recipientId: 'string?', spaceId: 'string?' },
+  submitCommentBeacon: { postBeaconId: 'string', content: 'string', parentCommentId: 'string?' },
+  editComment: { commentId: 'string', content: 'string' },
+  deleteComment: { commentId: 'string' },
+  getComments: { postBeaconId: 'string', limit: 'number?', cursor: 'string?' },
+  likePost: { postBeaconId: 'string' },
+  unlikePost: { postBeaconId: 'string' },
+  getPostEngagement: { postBeaconId: 'string' },
+  follow: { userIdToFollow: 'string' },
+  unfollow: { userIdToUnfollow: 'string' },
+  getQueuedMessages: {},
+  getBeaconsByUser: { userId: 'string?', beaconType: 'string?', limit: 'number?', cursor: 'string?' },
+  search: { query: 'string', category: 'string?', sortBy: 'string?', page: 'number?', pageSize: 'number?' },
+  getPublicSpaces: {},
+  createSpace: { name: 'string', description: 'string?', isPublic: 'boolean' },
+  joinSpace: { spaceId: 'string' },
+  leaveSpace: { spaceId: 'string' },
+  getSpaceMembers: { spaceId: 'string' },
+  updateMemberRole: { spaceId: 'string', userId: 'string', role: 'string' },
+  approveMember: { spaceId: 'string', userId: 'string' },
+  removeMember: { spaceId: 'string', userId: 'string' },
+  createSpaceInvite: { spaceId: 'string', role: 'string?', expiresInHours: 'number?', maxUses: 'number?' },
+  acceptSpaceInvite: { token: 'string' },
+  getSpaceSettings: { spaceId: 'string' },
+  updateSpaceSettings: { spaceId: 'string', name: 'string?', description: 'string?', settings: 'object?' },
+  deleteSpace: { spaceId: 'string' },
+  recordSpaceView: { spaceId: 'string' },
+  getAnalytics: { range: 'string?', spaceId: 'string?' },
+  getFollowers: { targetUserId: 'string?' },
+  getFollowing: { targetUserId: 'string?' },
+  getMutualFollows: {},
+  getSpaceFiles: { spaceId: 'string' },
+  addFileToSpace: {
+    spaceId: 'string',
+    fileName: 'string',
+    fileType: 'string?',
+    fileSize: 'number?',
+    fingerprint: 'string',
+    fileContent: 'string'
+  },
+  removeFileFromSpace: { spaceId: 'string', fileId: 'string' },
+  downloadFile: { spaceId: 'string', fingerprint: 'string' },
+  sendPrivateMessage: { recipientId: 'string', content: 'string', tempId: 'string?' },
+  getConversationHistory: { partnerId: 'string', limit: 'number?', before: 'string?' },
+  getRecentConversations: {},
+  markMessageRead: { messageId: 'string' },
+  markMessageDelivered: { messageId: 'string' },
+  getUnreadCount: {},
+  setTyping: { partnerId: 'string?', spaceId: 'string?', typing: 'boolean' },
+  setPresence: { status: 'string' },
+  getPresence: { userIds: 'array' },
+  requestTeleport: { targetUserId: 'string', memoryId: 'string' },
+  requestPasswordReset: { email: 'string' },
+  reportContent: { targetType: 'string', targetId: 'string', reason: 'string', details: 'string?' },
+  getAnnouncements: {},
+  dismissAnnouncement: { announcementId: 'string' },
+  publishEncryptionKey: { publicKey: 'string', priFingerprint: 'string' },
+  getPublicKeys: { userIds: 'array' },
+  getSpaceKeys: { spaceId: 'string' },
+  shareSpaceKeys: { spaceId: 'string', keyVersion: 'number', keys: 'array' }
+};
+
+export type ValidationResult =
+  | { ok: true; request: ProtocolRequest }
+  | { ok: false; error: ProtocolResponse<'error'> };
+
+export function isRequestKind(kind: string): kind is RequestKind {
+  return Object.prototype.hasOwnProperty.call(REQUEST_SCHEMAS, kind);
+}
+
+/**
+ * Check an untrusted request body against the protocol. Unknown fields are
+ * ignored; required strings must be non-empty.
+ */
+export function validateRequest(body: unknown): ValidationResult {
+  if (!isPlainObject(body) || typeof body.kind !== 'string') {
+    return invalid('INVALID_MESSAGE', 'Request body must be an object with a string kind');
+  }
+
+  const kind = body.kind;
+  if (!isRequestKind(kind)) {
+    return invalid('UNKNOWN_MESSAGE_KIND', `Unknown message kind: ${kind}`, kind);
+  }
+
+  const payload = body.payload ?? {};
+  if (!isPlainObject(payload)) {
+    return invalid('INVALID_PAYLOAD', `Payload for ${kind} must be an object`, kind);
+  }
+
+  const schema: Record<string, FieldSpec> = { ...SESSION_SCHEMA, ...REQUEST_SCHEMAS[kind] };
+  const issues: PayloadIssue[] = [];
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const issue = checkField(field, spec, payload[field]);
+    if (issue) issues.push(issue);
+  }
+
+  if (issues.length > 0) {
+    return invalid(
+      'INVALID_PAYLOAD',
+      `Invalid payload for ${kind}: ${issues.map(issue => issue.field).join(', ')}`,
+      kind,
+      issues
+    );
+  }
+
+  return { ok: true, request: { kind, payload } as ProtocolRequest };
+}
+
+function checkField(field: string, spec: FieldSpec, value: unknown): PayloadIssue | null {
+  const optional = spec.endsWith('?');
+  const expected = (optional ? spec.slice(0, -1) : spec) as FieldType;
+
+  if (value === undefined || value === null) {
+    return optional ? null : { field, expected, received: 'missing' };
+  }
+
+  const received = describe(value);
+  if (received !== expected) {
+    return { field, expected, received };
+  }
+  if (expected === 'string' && !optional && (value as string).trim() === '') {
+    return { field, expected: 'non-empty string', received: 'empty string' };
+  }
+  if (expected === 'number' && !Number.isFinite(value)) {
+    return { field, expected: 'finite number', received: String(value) };
+  }
+  return null;
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(
+  code: ErrorCode,
+  message: string,
+  requestKind?: string,
+  details?: PayloadIssue[]
+): ValidationResult {
+  return {
+    ok: false,
+    error: { kind: 'error', payload: { requestKind, code, message, details } }
+  };
+}
@@ -3,12 +3,13 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import { ProtectedRoute, RoleProtectedRoute } from './ProtectedRoute';
 
 // Auth Pages
-import { LoginPage, RegisterPage, ForgotPasswordPage } from '../pages/AuthPages';
+import { LoginPage, RegisterPage, ForgotPasswordPage, ResetPasswordPage } from '../pages/AuthPages';
 
 // Main Pages
 import { DashboardPage } from '../pages/DashboardPage';
 import { SpacesPage } from '../pages/SpacesPage';
 import { SpaceDetailPage } from '../pages/SpaceDetailPage';
+import { SpaceInvitePage } from '../pages/SpaceInvitePage';
 import { MessagesPage } from '../pages/MessagesPage';
 
 // Other Pages
@@ -31,6 +32,7 @@ export function AppRoutes() {
       <Route path="/login" element={<LoginPage />} />
       <Route path="/register" element={<RegisterPage />} />
       <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+      <Route path="/reset-password" element={<ResetPasswordPage />} />
       <Route path="/feed" element={<FeedPage />} />
 
       {/* Protected Routes */}
@@ -61,6 +63,15 @@ export function AppRoutes() {
         }
       />
 
+      <Route
+        path="/invite/:token"
+        element={
+          <ProtectedRoute>
+            <SpaceInvitePage />
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/friends"
         element={
@@ -119,7 +130,7 @@ export function AppRoutes() {
       <Route
         path="/admin/content"
         element={
-          <RoleProtectedRoute requiredRoles={['admin']}>
+          <RoleProtectedRoute requiredRoles={['moderator', 'admin']}>
             <ContentAdminPage />
           </RoleProtectedRoute>
         }
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import type { PlatformRole } from '../protocol';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -44,30 +45,28 @@ export function ProtectedRoute({
 
 interface RoleProtectedRouteProps {
   children: React.ReactNode;
-  requiredRoles?: string[];
+  requiredRoles?: PlatformRole[];
   fallback?: string;
 }
 
+// Signed-in users whose platform role is not among requiredRoles are sent to
+// fallback. The server checks the role again on every admin request.
 export function RoleProtectedRoute({ 
   children, 
   requiredRoles = [],
   fallback = '/dashboard' 
 }: RoleProtectedRouteProps) {
-  const { user } = useAuth();
+  const { user, isAuthenticated } = useAuth();
   
   // If no roles required, just check authentication
   if (requiredRoles.length === 0) {
     return <ProtectedRoute>{children}</ProtectedRoute>;
   }
   
-  // Check if user has required roles
-  // For now, assume all authenticated users can access basic admin features
-  // TODO: Implement proper role system when User interface is updated
-  const hasRequiredRole = requiredRoles.length === 0 || user?.id;
-  
-  if (!hasRequiredRole) {
+  // ProtectedRoute handles loading and signed-out visitors
+  if (isAuthenticated && !requiredRoles.includes(user?.role ?? 'user')) {
     return <Navigate to={fallback} replace />;
   }
   
   return <ProtectedRoute>{children}</ProtectedRoute>;
-}
\ No newline at end of file
+}
@@ -0,0 +1,30 @@
+import { communicationManager } from './communication-manager';
+import type { AnalyticsRange, AnalyticsReport, ErrorPayload, ProtocolResponse } from '../protocol';
+
+/**
+ * AnalyticsService - Activity reports for the spaces the user belongs to
+ * The server records activity itself; only space views are reported from here
+ */
+class AnalyticsService {
+  async getReport(range: AnalyticsRange, spaceId?: string): Promise<AnalyticsReport> {
+    return expectSuccess(await communicationManager.send({ kind: 'getAnalytics', payload: { range, spaceId } }));
+  }
+
+  // Best effort; a lost view is not worth bothering the user about
+  async recordSpaceView(spaceId: string): Promise<void> {
+    try {
+      expectSuccess(await communicationManager.send({ kind: 'recordSpaceView', payload: { spaceId } }));
+    } catch (error) {
+      console.warn(`Could not record view of space ${spaceId}:`, error);
+    }
+  }
+}
+
+function expectSuccess<R extends ProtocolResponse>(response: R): Exclude<R, { kind: 'error' }>['payload'] {
+  if (response.kind === 'error') {
+    throw new Error((response.payload as ErrorPayload).message);
+  }
+  return response.payload;
+}
+
+export const analyticsService = new AnalyticsService();
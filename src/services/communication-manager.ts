@@ -3,14 +3,17 @@
  * Provides real-time functionality using Server-Sent Events and REST API
  */
 
-interface CommunicationMessage {
-  kind: string;
-  payload: Record<string, unknown>;
-}
+import type { MessageEnvelope, ProtocolRequest, RequestKind, ResponseFor } from '../protocol';
+
+// Incoming messages; outgoing ones are checked against ProtocolRequest
+type CommunicationMessage = MessageEnvelope;
 
 interface CommunicationManager {
+  setSession(sessionToken: string | null): void;
+  getSessionToken(): string | null;
   connect(): Promise<void>;
-  send(message: CommunicationMessage): Promise<void>;
+  // Resolves with the immediate response, which listeners also receive
+  send<K extends RequestKind>(message: ProtocolRequest<K>): Promise<ResponseFor<K>>;
   onMessage(callback: (message: CommunicationMessage) => void): void;
   disconnect(): void;
   isConnected(): boolean;
@@ -21,12 +24,21 @@ class SSECommunicationManager implements CommunicationManager {
   private eventSource: EventSource | null = null;
   private connected = false;
   private sessionToken: string | null = null;
-  private userId: string | null = null;
+  // Highest queued-message id seen; ids only grow, so anything at or below it is a replay
+  private lastEventId: number | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectTimeout: number | null = null;
   private baseReconnectDelay = 5000; // 5 seconds
 
+  // A hidden tab shows the user as away to their contacts
+  private reportVisibility = (): void => {
+    if (!this.sessionToken || !this.eventSource) return;
+    this.send({ kind: 'setPresence', payload: { status: document.hidden ? 'away' : 'online' } }).catch(error => {
+      console.warn('[SSE] Failed to report presence:', error);
+    });
+  };
+
   async connect(): Promise<void> {
     // Don't reconnect if already connected
     if (this.connected && this.eventSource) {
@@ -36,13 +48,12 @@ class SSECommunicationManager implements CommunicationManager {
     
     console.log('[SSE] Initializing SSE + REST communication');
     
-    // Try to restore session from localStorage
-    const savedSession = localStorage.getItem('summoned_spaces_session');
+    // Fall back to the session AuthContext saved if it hasn't handed us one yet
+    const savedSession = this.sessionToken ? null : localStorage.getItem('summoned_spaces_session');
     if (savedSession) {
       try {
         const session = JSON.parse(savedSession);
-        this.sessionToken = session.sessionToken;
-        this.userId = session.userId;
+        this.sessionToken = session.token ?? null;
       } catch (error) {
         console.warn('[SSE] Failed to parse saved session:', error);
       }
@@ -51,19 +62,49 @@ class SSECommunicationManager implements CommunicationManager {
     // Mark as connected immediately so send() can work even if SSE setup fails
     // (will use REST-only mode as fallback)
     this.connected = true;
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.reportVisibility);
+    }
     
     // Set up Server-Sent Events for real-time updates
     this.setupSSE();
   }
 
+  setSession(sessionToken: string | null): void {
+    if (sessionToken === this.sessionToken) {
+      return;
+    }
+    this.sessionToken = sessionToken;
+    this.lastEventId = null;
+
+    // The event stream is bound to the token it was opened with
+    if (this.connected) {
+      this.setupSSE();
+    }
+  }
+
+  getSessionToken(): string | null {
+    return this.sessionToken;
+  }
+
   private setupSSE(): void {
     if (typeof EventSource === 'undefined') {
       console.warn('[SSE] EventSource not supported in this browser');
       return;
     }
 
-    // Always try SSE first, regardless of environment
-    const sseUrl = `/api/events${this.userId ? `?userId=${this.userId}` : ''}`;
+    // Always try SSE first, regardless of environment. A new EventSource
+    // doesn't send Last-Event-ID, so resume from the last id explicitly
+    const params = new URLSearchParams();
+    if (this.sessionToken) {
+      params.set('token', this.sessionToken);
+    }
+    if (this.lastEventId !== null) {
+      params.set('lastEventId', String(this.lastEventId));
+    }
+    const query = params.toString();
+    const sseUrl = `/api/events${query ? `?${query}` : ''}`;
     
     // Try to create EventSource - it will work on Vercel with the api/events.ts handler
     try {
@@ -94,6 +135,18 @@ class SSECommunicationManager implements CommunicationManager {
     this.eventSource.onmessage = (event) => {
       try {
         const message = JSON.parse(event.data);
+
+        // connected and heartbeat carry no id and report the previous one
+        const isTransportMessage = message.kind === 'connected' || message.kind === 'heartbeat';
+        const eventId = event.lastEventId ? Number(event.lastEventId) : NaN;
+        if (!isTransportMessage && Number.isInteger(eventId)) {
+          if (this.lastEventId !== null && eventId <= this.lastEventId) {
+            console.log('[SSE] Skipping already received message:', eventId);
+            return;
+          }
+          this.lastEventId = eventId;
+        }
+
         console.log('[SSE] Received real-time message:', message.kind);
         if (this.messageCallback) {
           this.messageCallback(message);
@@ -171,29 +224,20 @@ class SSECommunicationManager implements CommunicationManager {
   }
 
 
-  async send(message: CommunicationMessage): Promise<void> {
+  async send<K extends RequestKind>(message: ProtocolRequest<K>): Promise<ResponseFor<K>> {
     // Auto-connect if not connected yet
     if (!this.connected) {
       console.log('[SSE] Auto-connecting before sending message...');
       await this.connect();
     }
 
-    // Add session info to message if available
-    const enhancedMessage = {
-      ...message,
-      payload: {
-        ...message.payload,
-        sessionToken: this.sessionToken,
-        userId: this.userId
-      }
-    };
-
     const response = await fetch('/api/messages', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(this.sessionToken ? { Authorization: `Bearer ${this.sessionToken}` } : {})
       },
-      body: JSON.stringify(enhancedMessage)
+      body: JSON.stringify(message)
     });
 
     if (!response.ok) {
@@ -213,16 +257,7 @@ class SSECommunicationManager implements CommunicationManager {
       this.messageCallback(result.payload.notification);
     }
 
-    // Store session info if provided
-    if (result.payload?.sessionToken) {
-      this.sessionToken = result.payload.sessionToken;
-      this.userId = result.payload.userId;
-      
-      localStorage.setItem('summoned_spaces_session', JSON.stringify({
-        sessionToken: this.sessionToken,
-        userId: this.userId
-      }));
-    }
+    return result;
   }
 
   onMessage(callback: (message: CommunicationMessage) => void): void {
@@ -231,6 +266,10 @@ class SSECommunicationManager implements CommunicationManager {
 
   disconnect(): void {
     this.connected = false;
+
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.reportVisibility);
+    }
     
     // Clear any pending reconnection timeout
     if (this.reconnectTimeout !== null) {
@@ -279,11 +318,19 @@ export const communicationManager = {
   },
   
   // Proxy methods to the actual instance
+  setSession(sessionToken: string | null): void {
+    return this.getInstance().setSession(sessionToken);
+  },
+  
+  getSessionToken(): string | null {
+    return this.getInstance().getSessionToken();
+  },
+  
   async connect(): Promise<void> {
     return this.getInstance().connect();
   },
   
-  async send(message: CommunicationMessage): Promise<void> {
+  async send<K extends RequestKind>(message: ProtocolRequest<K>): Promise<ResponseFor<K>> {
     return this.getInstance().send(message);
   },
   
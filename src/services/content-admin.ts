@@ -0,0 +1,60 @@
+import { communicationManager } from './communication-manager';
+import type {
+  Announcement, AnnouncementAction, ContentModerationAction, CreateAnnouncementRequest, ModerationActionOptions,
+  ReportedContent, SpaceStat, UserModerationAction, UserStat
+} from '../protocol';
+
+/**
+ * ContentAdminService - Moderation data and actions for the admin console
+ * Reads are GETs and actions are POSTs under /api/admin; both answer only for admins
+ */
+class ContentAdminService {
+  getReports(): Promise<ReportedContent[]> {
+    return requestJson('/api/admin/content/reports');
+  }
+
+  getUserStats(search = ''): Promise<UserStat[]> {
+    const query = search.trim() ? `?search=${encodeURIComponent(search.trim())}` : '';
+    return requestJson(`/api/admin/users/stats${query}`);
+  }
+
+  getSpaceStats(): Promise<SpaceStat[]> {
+    return requestJson('/api/admin/spaces/stats');
+  }
+
+  getAnnouncements(): Promise<Announcement[]> {
+    return requestJson('/api/admin/announcements');
+  }
+
+  actOnReport(reportId: string, action: ContentModerationAction, options: ModerationActionOptions = {}): Promise<void> {
+    return requestJson(`/api/admin/content/${encodeURIComponent(reportId)}/${action}`, options);
+  }
+
+  actOnUser(userId: string, action: UserModerationAction, options: ModerationActionOptions = {}): Promise<void> {
+    return requestJson(`/api/admin/users/${encodeURIComponent(userId)}/${action}`, options);
+  }
+
+  createAnnouncement(request: CreateAnnouncementRequest): Promise<void> {
+    return requestJson('/api/admin/announcements', request);
+  }
+
+  setAnnouncementStatus(announcementId: string, action: AnnouncementAction): Promise<void> {
+    return requestJson(`/api/admin/announcements/${encodeURIComponent(announcementId)}/${action}`, {});
+  }
+}
+
+// GETs when there is no body, POSTs it as JSON otherwise
+async function requestJson<T>(url: string, body?: object): Promise<T> {
+  const headers: Record<string, string> = { Authorization: `Bearer ${communicationManager.getSessionToken() ?? ''}` };
+  if (body) {
+    headers['Content-Type'] = 'application/json';
+  }
+  const response = await fetch(url, body ? { method: 'POST', headers, body: JSON.stringify(body) } : { headers });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error((result as { error?: string } | null)?.error ?? `Request failed with status ${response.status}`);
+  }
+  return result as T;
+}
+
+export const contentAdminService = new ContentAdminService();
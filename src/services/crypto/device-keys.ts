@@ -0,0 +1,59 @@
+/**
+ * Device Key Storage
+ * Keeps each user's device key pair in IndexedDB. The private key is
+ * non-extractable, so it never leaves this browser; without IndexedDB the
+ * pair only lasts as long as the page.
+ */
+
+const DB_NAME = 'summoned-spaces-keys';
+const STORE_NAME = 'deviceKeys';
+
+const memoryStore = new Map<string, CryptoKeyPair>();
+
+function openDatabase(): Promise<IDBDatabase> | null {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function loadDeviceKeyPair(userId: string): Promise<CryptoKeyPair | null> {
+  const opening = openDatabase();
+  if (!opening) {
+    return memoryStore.get(userId) ?? null;
+  }
+  const db = await opening;
+  try {
+    const stored = await runRequest(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(userId));
+    return (stored as CryptoKeyPair | undefined) ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveDeviceKeyPair(userId: string, keyPair: CryptoKeyPair): Promise<void> {
+  const opening = openDatabase();
+  if (!opening) {
+    console.warn('[BeaconCrypto] IndexedDB is unavailable; this device key will not survive a reload');
+    memoryStore.set(userId, keyPair);
+    return;
+  }
+  const db = await opening;
+  try {
+    await runRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(keyPair, userId));
+  } finally {
+    db.close();
+  }
+}
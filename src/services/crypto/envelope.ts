@@ -0,0 +1,220 @@
+/**
+ * Sealed Beacon Envelopes
+ * WebCrypto primitives for end-to-end encrypted beacons. Text is encrypted
+ * with AES-256-GCM, either under a fresh content key sealed to each recipient
+ * device or under a space's shared key. Sealing to a device uses an ephemeral
+ * ECDH P-256 key, HKDF-SHA-256 and AES-GCM, so only the holder of the device's
+ * private key can recover the content key.
+ */
+
+import { base64ToUint8Array, uint8ArrayToBase64 } from '../utils/uint8-converter';
+
+// Starts every sealed payload; the server checks for it on private beacon types
+export const SEALED_ENVELOPE_PREFIX = 'HBE1:';
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+const HKDF_INFO = 'holographic-beacon/v1';
+
+export interface RecipientKey {
+  keyId: string;
+  publicKey: CryptoKey;
+}
+
+export interface DeviceKey {
+  keyId: string;
+  privateKey: CryptoKey;
+}
+
+// A content or space key sealed to one device
+interface SealedKey {
+  kid: string;
+  epk: string;
+  iv: string;
+  key: string;
+}
+
+interface Envelope {
+  v: 1;
+  iv: string;
+  ct: string;
+  // Present when sealed to devices
+  to?: SealedKey[];
+  // Present when encrypted under a space key
+  space?: { id: string; ver: number };
+}
+
+export interface OpenOptions {
+  device: DeviceKey | null;
+  // Resolves null when the space key version is not available to this device
+  spaceKey(spaceId: string, version: number): Promise<CryptoKey | null>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function randomIv(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(12));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return uint8ArrayToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function spaceAad(spaceId: string, version: number): Uint8Array {
+  return encoder.encode(`space:${spaceId}:${version}`);
+}
+
+export function isSealedText(text: unknown): text is string {
+  return typeof text === 'string' && text.startsWith(SEALED_ENVELOPE_PREFIX);
+}
+
+function parseEnvelope(text: string): Envelope | null {
+  if (!isSealedText(text)) return null;
+  try {
+    const envelope = JSON.parse(text.slice(SEALED_ENVELOPE_PREFIX.length)) as Envelope;
+    return envelope.v === 1 && typeof envelope.iv === 'string' && typeof envelope.ct === 'string' ? envelope : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Device keys
+// ============================================
+
+// The private key cannot be exported, only stored as a CryptoKey
+export function generateDeviceKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+}
+
+// base64 SPKI and the id the server derives from it
+export async function exportPublicKey(publicKey: CryptoKey): Promise<{ publicKey: string; keyId: string }> {
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', spki));
+  return { publicKey: uint8ArrayToBase64(spki), keyId: toBase64Url(digest) };
+}
+
+export function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('spki', base64ToUint8Array(publicKey), ECDH_PARAMS, true, []);
+}
+
+async function keyEncryptionKey(privateKey: CryptoKey, publicKey: CryptoKey, epk: Uint8Array, kid: string): Promise<CryptoKey> {
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: epk, info: encoder.encode(`${HKDF_INFO}:${kid}`) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function sealRawKey(raw: Uint8Array, recipient: RecipientKey): Promise<SealedKey> {
+  const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  const epk = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const kek = await keyEncryptionKey(ephemeral.privateKey, recipient.publicKey, epk, recipient.keyId);
+  const iv = randomIv();
+  const key = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, kek, raw));
+  return { kid: recipient.keyId, epk: uint8ArrayToBase64(epk), iv: uint8ArrayToBase64(iv), key: uint8ArrayToBase64(key) };
+}
+
+async function openRawKey(sealed: SealedKey, device: DeviceKey): Promise<ArrayBuffer> {
+  const epk = base64ToUint8Array(sealed.epk);
+  const ephemeralKey = await crypto.subtle.importKey('raw', epk, ECDH_PARAMS, false, []);
+  const kek = await keyEncryptionKey(device.privateKey, ephemeralKey, epk, device.keyId);
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToUint8Array(sealed.iv) },
+    kek,
+    base64ToUint8Array(sealed.key)
+  );
+}
+
+// ============================================
+// Space keys
+// ============================================
+
+// Extractable so members can seal it on to devices that join later
+export function generateSpaceKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+export async function sealSpaceKey(spaceKey: CryptoKey, recipient: RecipientKey): Promise<string> {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', spaceKey));
+  return JSON.stringify(await sealRawKey(raw, recipient));
+}
+
+export async function openSpaceKey(wrappedKey: string, device: DeviceKey): Promise<CryptoKey> {
+  const raw = await openRawKey(JSON.parse(wrappedKey) as SealedKey, device);
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', true, ['encrypt', 'decrypt']);
+}
+
+// ============================================
+// Envelopes
+// ============================================
+
+function serialize(envelope: Envelope): string {
+  return SEALED_ENVELOPE_PREFIX + JSON.stringify(envelope);
+}
+
+// Readable by every listed device and nothing else
+export async function sealToDevices(text: string, recipients: RecipientKey[]): Promise<string> {
+  if (recipients.length === 0) {
+    throw new Error('Cannot seal a beacon without any recipient keys');
+  }
+  const contentKey = crypto.getRandomValues(new Uint8Array(32));
+  const key = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const iv = randomIv();
+  const ct = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text)));
+  return serialize({
+    v: 1,
+    iv: uint8ArrayToBase64(iv),
+    ct: uint8ArrayToBase64(ct),
+    to: await Promise.all(recipients.map(recipient => sealRawKey(contentKey, recipient)))
+  });
+}
+
+export async function sealToSpace(text: string, spaceKey: CryptoKey, spaceId: string, version: number): Promise<string> {
+  const iv = randomIv();
+  const ct = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: spaceAad(spaceId, version) },
+    spaceKey,
+    encoder.encode(text)
+  ));
+  return serialize({ v: 1, iv: uint8ArrayToBase64(iv), ct: uint8ArrayToBase64(ct), space: { id: spaceId, ver: version } });
+}
+
+/**
+ * Decrypt a sealed payload. Resolves null when this device holds no key for
+ * it or authentication fails, never with anything but the sealed text.
+ */
+export async function openEnvelope(text: string, options: OpenOptions): Promise<string | null> {
+  const envelope = parseEnvelope(text);
+  if (!envelope) return null;
+
+  try {
+    let key: CryptoKey | null = null;
+    let additionalData: Uint8Array | undefined;
+    if (envelope.to) {
+      const device = options.device;
+      const sealed = device && envelope.to.find(entry => entry.kid === device.keyId);
+      if (!device || !sealed) return null;
+      const contentKey = await openRawKey(sealed, device);
+      key = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['decrypt']);
+    } else if (envelope.space) {
+      key = await options.spaceKey(envelope.space.id, envelope.space.ver);
+      additionalData = spaceAad(envelope.space.id, envelope.space.ver);
+    }
+    if (!key) return null;
+
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToUint8Array(envelope.iv), ...(additionalData && { additionalData }) },
+      key,
+      base64ToUint8Array(envelope.ct)
+    );
+    return decoder.decode(plaintext);
+  } catch (error) {
+    console.warn('[BeaconCrypto] Could not open sealed beacon:', error);
+    return null;
+  }
+}
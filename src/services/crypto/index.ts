@@ -0,0 +1,236 @@
+/**
+ * Beacon Crypto Service
+ * Seals private beacons on this device and opens the ones sealed to it.
+ * Direct messages and personal lists are sealed to every device key of the
+ * people involved, the sender included; space messages use the space's
+ * current key, which members seal on to each other's devices as they join.
+ */
+
+import { communicationManager } from '../communication-manager';
+import type { ClientEncryptionKey, ErrorPayload, ProtocolResponse, SpaceKeyState } from '../../protocol';
+import {
+  exportPublicKey, generateDeviceKeyPair, generateSpaceKey, importPublicKey, openEnvelope, openSpaceKey, sealSpaceKey,
+  sealToDevices, sealToSpace
+} from './envelope';
+import type { DeviceKey, RecipientKey } from './envelope';
+import { loadDeviceKeyPair, saveDeviceKeyPair } from './device-keys';
+
+export { SEALED_ENVELOPE_PREFIX, isSealedText } from './envelope';
+
+// Who can open a sealed beacon besides the sender's own devices
+export type SealTarget = { userIds: string[] } | { spaceId: string };
+
+// Public keys are refetched after this long so newly added devices are included
+const PUBLIC_KEY_TTL_MS = 60 * 1000;
+
+interface Identity {
+  userId: string;
+  priFingerprint: string;
+}
+
+// This device's key, with its public half as published
+interface LocalDevice extends DeviceKey {
+  publicKey: string;
+}
+
+class BeaconCryptoService {
+  private identity: Identity | null = null;
+  private device: Promise<LocalDevice> | null = null;
+  private published: Promise<void> | null = null;
+  private publicKeys = new Map<string, { keys: RecipientKey[]; fetchedAt: number }>();
+  // Opened space keys by `${spaceId}:${version}`
+  private spaceKeys = new Map<string, CryptoKey>();
+
+  /**
+   * Use this device's key for the user, creating it on first use, and
+   * publish it so others can seal to it.
+   */
+  setIdentity(userId: string, priFingerprint: string): void {
+    if (this.identity?.userId === userId && this.identity.priFingerprint === priFingerprint) {
+      return;
+    }
+    this.clear();
+    this.identity = { userId, priFingerprint };
+    this.publishDeviceKey().catch(error => {
+      console.warn('[BeaconCrypto] Device key not published yet:', error);
+    });
+  }
+
+  clear(): void {
+    this.identity = null;
+    this.device = null;
+    this.published = null;
+    this.publicKeys.clear();
+    this.spaceKeys.clear();
+  }
+
+  async seal(text: string, target: SealTarget): Promise<string> {
+    const device = await this.publishDeviceKey();
+    if ('spaceId' in target) {
+      const { key, version } = await this.currentSpaceKey(target.spaceId, device);
+      return sealToSpace(text, key, target.spaceId, version);
+    }
+
+    const self = this.requireIdentity().userId;
+    const userIds = [...new Set([...target.userIds, self])];
+    const keys = await this.recipientKeys(userIds);
+    for (const userId of userIds) {
+      if (!keys.some(key => key.userId === userId)) {
+        throw new Error(`${userId === self ? 'This account' : userId} has no encryption keys yet`);
+      }
+    }
+    return sealToDevices(text, keys);
+  }
+
+  // Resolves null when this device cannot open the payload
+  async open(sealed: string): Promise<string | null> {
+    const device = await this.deviceKey();
+    return openEnvelope(sealed, {
+      device,
+      spaceKey: (spaceId, version) => this.spaceKey(spaceId, version, device)
+    });
+  }
+
+  private requireIdentity(): Identity {
+    if (!this.identity) {
+      throw new Error('Beacon encryption is not set up: no current user');
+    }
+    return this.identity;
+  }
+
+  private deviceKey(): Promise<LocalDevice> {
+    if (!this.device) {
+      const { userId } = this.requireIdentity();
+      this.device = (async () => {
+        let keyPair = await loadDeviceKeyPair(userId);
+        if (!keyPair) {
+          keyPair = await generateDeviceKeyPair();
+          await saveDeviceKeyPair(userId, keyPair);
+        }
+        const { keyId, publicKey } = await exportPublicKey(keyPair.publicKey);
+        return { keyId, publicKey, privateKey: keyPair.privateKey };
+      })();
+      this.device.catch(() => {
+        this.device = null;
+      });
+    }
+    return this.device;
+  }
+
+  // Retried on the next call until the server has accepted the key
+  private async publishDeviceKey(): Promise<LocalDevice> {
+    const device = await this.deviceKey();
+    if (!this.published) {
+      const { priFingerprint } = this.requireIdentity();
+      this.published = communicationManager.send({
+        kind: 'publishEncryptionKey',
+        payload: { publicKey: device.publicKey, priFingerprint }
+      }).then(expectSuccess).then(() => undefined);
+      this.published.catch(() => {
+        this.published = null;
+      });
+    }
+    await this.published;
+    return device;
+  }
+
+  private async recipientKeys(userIds: string[]): Promise<(RecipientKey & { userId: string })[]> {
+    const now = Date.now();
+    const stale = userIds.filter(userId => {
+      const cached = this.publicKeys.get(userId);
+      return !cached || now - cached.fetchedAt > PUBLIC_KEY_TTL_MS;
+    });
+    if (stale.length > 0) {
+      const response = expectSuccess(await communicationManager.send({ kind: 'getPublicKeys', payload: { userIds: stale } }));
+      const fetched = new Map<string, RecipientKey[]>(stale.map(userId => [userId, []]));
+      for (const key of response.keys) {
+        fetched.get(key.userId)?.push({ keyId: key.keyId, publicKey: await importPublicKey(key.publicKey) });
+      }
+      for (const [userId, keys] of fetched) {
+        this.publicKeys.set(userId, { keys, fetchedAt: now });
+      }
+    }
+    return userIds.flatMap(userId => (this.publicKeys.get(userId)?.keys ?? []).map(key => ({ ...key, userId })));
+  }
+
+  private async spaceKeyState(spaceId: string): Promise<SpaceKeyState> {
+    return expectSuccess(await communicationManager.send({ kind: 'getSpaceKeys', payload: { spaceId } }));
+  }
+
+  private async openFromState(state: SpaceKeyState, version: number, device: DeviceKey): Promise<CryptoKey | null> {
+    const sealed = state.keys.find(key => key.keyVersion === version && key.keyId === device.keyId);
+    if (!sealed) return null;
+    const key = await openSpaceKey(sealed.wrappedKey, device);
+    this.spaceKeys.set(`${state.spaceId}:${version}`, key);
+    return key;
+  }
+
+  private async spaceKey(spaceId: string, version: number, device: DeviceKey): Promise<CryptoKey | null> {
+    const cached = this.spaceKeys.get(`${spaceId}:${version}`);
+    if (cached) return cached;
+    return this.openFromState(await this.spaceKeyState(spaceId), version, device);
+  }
+
+  /**
+   * The key to send to the space with. Starts a new version when there is
+   * none yet or a former member's device holds the latest one, and otherwise
+   * seals the latest version on to any member device still without it.
+   */
+  private async currentSpaceKey(
+    spaceId: string,
+    device: DeviceKey,
+    retried = false
+  ): Promise<{ key: CryptoKey; version: number }> {
+    const state = await this.spaceKeyState(spaceId);
+
+    if (state.latestVersion === 0 || state.rotate) {
+      const version = state.latestVersion + 1;
+      const key = await generateSpaceKey();
+      const keys = await sealSpaceKeyTo(key, state.devices);
+      const shared = expectSuccess(await communicationManager.send({
+        kind: 'shareSpaceKeys',
+        payload: { spaceId, keyVersion: version, keys }
+      }));
+      // Another member started the same version first; theirs is the one stored
+      if (shared.added < keys.length) {
+        if (retried) {
+          throw new Error('The space key changed while sending; try again');
+        }
+        return this.currentSpaceKey(spaceId, device, true);
+      }
+      this.spaceKeys.set(`${spaceId}:${version}`, key);
+      return { key, version };
+    }
+
+    const version = state.latestVersion;
+    const key = this.spaceKeys.get(`${spaceId}:${version}`) ?? await this.openFromState(state, version, device);
+    if (!key) {
+      throw new Error('This device is waiting for another member to share the space key');
+    }
+
+    const pending = state.devices.filter(recipient => state.pending.includes(recipient.keyId));
+    if (pending.length > 0) {
+      const keys = await sealSpaceKeyTo(key, pending);
+      communicationManager.send({ kind: 'shareSpaceKeys', payload: { spaceId, keyVersion: version, keys } }).catch(error => {
+        console.warn('[BeaconCrypto] Failed to share the space key with new devices:', error);
+      });
+    }
+    return { key, version };
+  }
+}
+
+function sealSpaceKeyTo(key: CryptoKey, devices: ClientEncryptionKey[]): Promise<{ keyId: string; wrappedKey: string }[]> {
+  return Promise.all(devices.map(async device => ({
+    keyId: device.keyId,
+    wrappedKey: await sealSpaceKey(key, { keyId: device.keyId, publicKey: await importPublicKey(device.publicKey) })
+  })));
+}
+
+function expectSuccess<R extends ProtocolResponse>(response: R): Exclude<R, { kind: 'error' }>['payload'] {
+  if (response.kind === 'error') {
+    throw new Error((response.payload as ErrorPayload).message);
+  }
+  return response.payload;
+}
+
+export const beaconCrypto = new BeaconCryptoService();
@@ -0,0 +1,82 @@
+import { communicationManager } from './communication-manager';
+import type { ClientComment, ErrorPayload, ProtocolResponse } from '../protocol';
+
+export interface CommentPage {
+  comments: ClientComment[];
+  hasMore: boolean;
+  cursor: string | null;
+}
+
+export interface PostEngagement {
+  likeCount: number;
+  commentCount: number;
+  liked: boolean;
+}
+
+/**
+ * EngagementService - Comments and likes on post beacons
+ * Each call resolves with the server's answer or throws its error message
+ */
+class EngagementService {
+  async likePost(postBeaconId: string): Promise<number> {
+    const response = expectSuccess(await communicationManager.send({ kind: 'likePost', payload: { postBeaconId } }));
+    return response.likeCount;
+  }
+
+  async unlikePost(postBeaconId: string): Promise<number> {
+    const response = expectSuccess(await communicationManager.send({ kind: 'unlikePost', payload: { postBeaconId } }));
+    return response.likeCount;
+  }
+
+  async getPostEngagement(postBeaconId: string): Promise<PostEngagement> {
+    const { likeCount, commentCount, liked } = expectSuccess(
+      await communicationManager.send({ kind: 'getPostEngagement', payload: { postBeaconId } })
+    );
+    return { likeCount, commentCount, liked };
+  }
+
+  async getComments(postBeaconId: string, cursor: string | null = null): Promise<CommentPage> {
+    const { comments, hasMore, cursor: next } = expectSuccess(
+      await communicationManager.send({ kind: 'getComments', payload: { postBeaconId, cursor } })
+    );
+    return { comments, hasMore, cursor: next };
+  }
+
+  /**
+   * Add a comment, optionally as a reply. Resolves with the stored comment and
+   * the post's new comment count.
+   */
+  async addComment(
+    postBeaconId: string,
+    content: string,
+    parentCommentId?: string
+  ): Promise<{ comment: ClientComment; commentCount: number }> {
+    const { comment, commentCount } = expectSuccess(
+      await communicationManager.send({
+        kind: 'submitCommentBeacon',
+        payload: { postBeaconId, content, parentCommentId }
+      })
+    );
+    return { comment, commentCount };
+  }
+
+  async editComment(commentId: string, content: string): Promise<ClientComment> {
+    const response = expectSuccess(await communicationManager.send({ kind: 'editComment', payload: { commentId, content } }));
+    return response.comment;
+  }
+
+  // Resolves with the post's remaining comment count
+  async deleteComment(commentId: string): Promise<number> {
+    const response = expectSuccess(await communicationManager.send({ kind: 'deleteComment', payload: { commentId } }));
+    return response.commentCount;
+  }
+}
+
+function expectSuccess<R extends ProtocolResponse>(response: R): Exclude<R, { kind: 'error' }>['payload'] {
+  if (response.kind === 'error') {
+    throw new Error((response.payload as ErrorPayload).message);
+  }
+  return response.payload;
+}
+
+export const engagementService = new EngagementService();
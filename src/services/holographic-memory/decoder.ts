@@ -5,9 +5,24 @@
 
 import { holographicEncodingDecode } from '../../../resolang/build/resolang.js';
 import { toUint8Array } from '../utils/uint8-converter';
+import { sealedPayload } from './sealed';
 import type { ResonantFragment, CachedBeaconData } from './types';
 
 export class MemoryDecoder {
+  /**
+   * open decrypts a sealed envelope, resolving null without the right key
+   */
+  constructor(private open: (sealed: string) => Promise<string | null>) {}
+
+  /**
+   * Decrypt a sealed beacon. Only succeeds on a device holding a key the
+   * beacon was sealed to; null for anything else, sealed or not.
+   */
+  async decodeSealed(data: unknown): Promise<string | null> {
+    const sealed = sealedPayload(data);
+    return sealed ? this.open(sealed) : null;
+  }
+
   /**
    * Decode fragment using holographic field
    */
@@ -18,9 +18,11 @@ export class MemoryEncoder {
   ) {}
 
   /**
-   * Encode text into holographic memory fragment
+   * Encode text into holographic memory fragment. A sealed payload is
+   * already an encrypted envelope: the coefficients index the ciphertext and
+   * it is never attached as originalText.
    */
-  async encodeMemory(text: string): Promise<EncodedMemory | null> {
+  async encodeMemory(text: string, sealed = false): Promise<EncodedMemory | null> {
     console.log(`[MemoryEncoder] Encoding text of length: ${text.length}`);
     
     const currentUserPRI = this.getCurrentUserPRI();
@@ -71,11 +73,11 @@ export class MemoryEncoder {
       // Generate beacon metadata
       const beaconData = this.generateBeaconData(fragment, text, currentUserPRI);
       
-      console.log(`Successfully encoded text "${text}" using ResoLang`);
+      console.log(`Successfully encoded ${sealed ? 'sealed payload' : `text "${text}"`} using ResoLang`);
       return {
         ...fragment,
         ...beaconData,
-        originalText: text
+        ...(!sealed && { originalText: text })
       };
     } catch (error) {
       console.error("Error during ResoLang encoding:", error);
@@ -174,7 +176,7 @@ export class MemoryEncoder {
     ]);
     const fingerprint = new Uint8Array(fingerprintData.buffer);
     
-    // Generate signature containing full text for decoding
+    // Generate signature containing the full text, or the sealed envelope
     const textBytes = new TextEncoder().encode(text);
     const priBytes = new TextEncoder().encode(JSON.stringify(pri.publicResonance));
     
@@ -3,12 +3,15 @@
  * Various methods to extract text when holographic decoding fails
  */
 
+import { sealedPayload } from './sealed';
+
 export class FallbackDecoder {
   /**
-   * Try various fallback decoding methods
+   * Try various fallback decoding methods. Sealed beacons are left to
+   * MemoryDecoder.decodeSealed, as any text found here would be ciphertext.
    */
   tryFallbackDecoding(data: unknown): string | null {
-    if (typeof data !== 'object' || data === null) {
+    if (typeof data !== 'object' || data === null || sealedPayload(data)) {
       return null;
     }
 
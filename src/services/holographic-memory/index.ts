@@ -8,6 +8,9 @@ import { generatePrimesSync } from '../utils/prime-utils';
 import { MemoryEncoder } from './encoder';
 import { MemoryDecoder } from './decoder';
 import { FallbackDecoder } from './fallback-decoder';
+import { sealedPayload } from './sealed';
+import { beaconCrypto } from '../crypto';
+import type { SealTarget } from '../crypto';
 
 // Re-export types
 export type { 
@@ -38,7 +41,7 @@ export class HolographicMemoryManager {
       this.resolveReady = resolve;
     });
     
-    this.decoder = new MemoryDecoder();
+    this.decoder = new MemoryDecoder(sealed => beaconCrypto.open(sealed));
     this.fallbackDecoder = new FallbackDecoder();
     
     this.loadWasmModule();
@@ -80,14 +83,16 @@ export class HolographicMemoryManager {
    */
   public setCurrentUser(pri: PrimeResonanceIdentity) {
     this.currentUserPRI = pri;
+    beaconCrypto.setIdentity(pri.nodeAddress, pri.fingerprint);
     console.log("[HolographicMemoryManager] Initialized for user:", pri.nodeAddress);
     console.log("[HolographicMemoryManager] PRI publicResonance:", pri.publicResonance);
   }
 
   /**
-   * Encode memory to holographic fragment
+   * Encode memory to holographic fragment, sealed so only sealTo and the
+   * current user's devices can read it when given
    */
-  public async encodeMemory(text: string): Promise<EncodedMemory | null> {
+  public async encodeMemory(text: string, sealTo?: SealTarget): Promise<EncodedMemory | null> {
     console.log(`[HolographicMemoryManager] encodeMemory called with text length: ${text.length}`);
     
     await this.isReady;
@@ -103,17 +108,36 @@ export class HolographicMemoryManager {
     }
     
     console.log("[HolographicMemoryManager] Starting encoding process...");
+    if (sealTo) {
+      return this.encoder.encodeMemory(await beaconCrypto.seal(text, sealTo), true);
+    }
     return this.encoder.encodeMemory(text);
   }
 
   /**
-   * Decode memory from holographic fragment
+   * Decode a fragment, decrypting it with this device's keys if it is sealed
+   */
+  public async decryptMemory(fragment: unknown): Promise<string | null> {
+    if (sealedPayload(fragment)) {
+      return this.decoder.decodeSealed(fragment);
+    }
+    return this.decodeMemory(fragment);
+  }
+
+  /**
+   * Decode memory from holographic fragment. Sealed fragments need
+   * decryptMemory and decode to null here.
    */
   public decodeMemory(fragment: unknown): string | null {
     if (!this.wasm) {
       throw new Error("HolographicMemoryManager is not ready: WASM module not available.");
     }
     
+    if (sealedPayload(fragment)) {
+      console.warn("Fragment is sealed; use decryptMemory to open it");
+      return null;
+    }
+    
     try {
       // Try fallback decoding first for cached beacons
       const fallbackText = this.fallbackDecoder.tryFallbackDecoding(fragment);
@@ -0,0 +1,25 @@
+/**
+ * Sealed Beacon Detection
+ * Sealed beacons carry an encrypted envelope where others carry their text,
+ * so no decoder should guess at their content without a key.
+ */
+
+import { SEALED_ENVELOPE_PREFIX } from '../crypto/envelope';
+import { toUint8Array } from '../utils/uint8-converter';
+
+/**
+ * The envelope packed into a beacon's signature, or null if the beacon is
+ * not sealed. The signature holds a 4-byte length and then the payload.
+ */
+export function sealedPayload(data: unknown): string | null {
+  if (typeof data !== 'object' || data === null || !('signature' in data)) {
+    return null;
+  }
+  const signature = toUint8Array(data.signature);
+  if (signature.length < 4 + SEALED_ENVELOPE_PREFIX.length) {
+    return null;
+  }
+  const length = new DataView(signature.buffer, signature.byteOffset, 4).getUint32(0, true);
+  const payload = new TextDecoder().decode(signature.subarray(4, 4 + length));
+  return payload.startsWith(SEALED_ENVELOPE_PREFIX) ? payload : null;
+}
@@ -31,7 +31,8 @@ export interface EncodedMemory extends ResonantFragment {
   epoch: number;
   fingerprint: Uint8Array;
   signature: Uint8Array;
-  originalText: string;
+  // Absent for sealed beacons, whose text only exists inside the signature's envelope
+  originalText?: string;
 }
 
 export interface CachedBeaconData {
@@ -6,7 +6,7 @@ import { BEACON_TYPES } from '../constants/beaconTypes';
 
 /**
  * MessagingService - Manages direct messages as holographic beacons
- * Messages are encoded client-side and only accessible by sender/recipient
+ * Messages are sealed client-side and only readable by sender/recipient
  */
 class MessagingService {
     private currentUserId: string | null = null;
@@ -90,8 +90,10 @@ class MessagingService {
                         isQuantumDelivered: true
                     });
                     
-                    // Encode as quantum beacon and submit
-                    const quantumBeacon = await holographicMemoryManager.encodeMemory(quantumMessageData);
+                    // Encode as quantum beacon sealed to both parties and submit
+                    const quantumBeacon = await holographicMemoryManager.encodeMemory(
+                        quantumMessageData, { userIds: [recipientId] }
+                    );
                     
                     if (quantumBeacon) {
                         const serializableBeacon = {
@@ -100,7 +102,6 @@ class MessagingService {
                             signature: Array.from(quantumBeacon.signature),
                             // Add decoder-compatible fields for quantum messages too
                             prime_indices: JSON.stringify(quantumBeacon.index),
-                            originalText: quantumMessageData,  // Store the full JSON data for fallback
                             coeffs: undefined,
                             center: undefined,
                             entropy: undefined,
@@ -113,7 +114,8 @@ class MessagingService {
                             kind: 'submitPostBeacon',
                             payload: {
                                 beacon: serializableBeacon as any,
-                                beaconType: 'quantum_message' // Note: This is a special type not in our constants yet
+                                beaconType: 'quantum_message', // Note: This is a special type not in our constants yet
+                                recipientId
                             }
                         });
                         
@@ -129,7 +131,7 @@ class MessagingService {
             console.log(`[MessagingService] Holographic memory manager ready?`, await holographicMemoryManager.isReady);
             console.log(`[MessagingService] Encoding message data:`, messageData);
             
-            const beacon = await holographicMemoryManager.encodeMemory(messageData);
+            const beacon = await holographicMemoryManager.encodeMemory(messageData, { userIds: [recipientId] });
             console.log(`[MessagingService] Beacon encoding result:`, beacon ? 'Success' : 'Failed');
             
             if (beacon) {
@@ -150,7 +152,6 @@ class MessagingService {
                     signature: Array.from(beacon.signature),
                     // Add decoder-compatible fields
                     prime_indices: JSON.stringify(beacon.index),  // Convert index to prime_indices string
-                    originalText: content,  // Store original text for fallback decoding
                     // Remove non-serializable fields
                     coeffs: undefined,
                     center: undefined,
@@ -172,7 +173,9 @@ class MessagingService {
                     kind: 'submitPostBeacon',
                     payload: {
                         beacon: serializableBeacon as any,
-                        beaconType: BEACON_TYPES.DIRECT_MESSAGE
+                        beaconType: BEACON_TYPES.DIRECT_MESSAGE,
+                        // The server delivers the beacon to this user as beaconReceived
+                        recipientId
                     }
                 } as any;
                 console.log(`[MessagingService] Sending message via communication manager:`, wsMessage);
@@ -222,9 +225,9 @@ class MessagingService {
         console.log(`[MessagingService] Space message data prepared:`, messageData);
 
         try {
-            // Encode as holographic beacon
+            // Encode as holographic beacon sealed with the space key
             console.log(`[MessagingService] Encoding space message as holographic beacon...`);
-            const beacon = await holographicMemoryManager.encodeMemory(messageData);
+            const beacon = await holographicMemoryManager.encodeMemory(messageData, { spaceId });
             console.log(`[MessagingService] Space beacon encoding result:`, beacon ? 'Success' : 'Failed');
             
             if (beacon) {
@@ -235,7 +238,6 @@ class MessagingService {
                     signature: Array.from(beacon.signature),
                     // Add decoder-compatible fields
                     prime_indices: JSON.stringify(beacon.index),
-                    originalText: messageData,
                     // Remove non-serializable fields
                     coeffs: undefined,
                     center: undefined,
@@ -250,7 +252,8 @@ class MessagingService {
                     kind: 'submitPostBeacon',
                     payload: {
                         beacon: serializableBeacon as any,
-                        beaconType: BEACON_TYPES.SPACE_MESSAGE
+                        beaconType: BEACON_TYPES.SPACE_MESSAGE,
+                        spaceId
                     }
                 });
                 
@@ -0,0 +1,41 @@
+import { communicationManager } from './communication-manager';
+import type {
+  ClientAnnouncement, ErrorPayload, ProtocolResponse, ReportReason, ReportTargetType
+} from '../protocol';
+
+/**
+ * ModerationService - Reporting content and reading platform announcements
+ * Each call resolves with the server's answer or throws its error message
+ */
+class ModerationService {
+  // Resolves with the new report's id
+  async reportContent(
+    targetType: ReportTargetType,
+    targetId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<string> {
+    const response = expectSuccess(
+      await communicationManager.send({ kind: 'reportContent', payload: { targetType, targetId, reason, details } })
+    );
+    return response.reportId;
+  }
+
+  async getAnnouncements(): Promise<ClientAnnouncement[]> {
+    const response = expectSuccess(await communicationManager.send({ kind: 'getAnnouncements', payload: {} }));
+    return response.announcements;
+  }
+
+  async dismissAnnouncement(announcementId: string): Promise<void> {
+    expectSuccess(await communicationManager.send({ kind: 'dismissAnnouncement', payload: { announcementId } }));
+  }
+}
+
+function expectSuccess<R extends ProtocolResponse>(response: R): Exclude<R, { kind: 'error' }>['payload'] {
+  if (response.kind === 'error') {
+    throw new Error((response.payload as ErrorPayload).message);
+  }
+  return response.payload;
+}
+
+export const moderationService = new ModerationService();
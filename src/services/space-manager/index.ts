@@ -8,12 +8,17 @@ import { communicationManager } from '../communication-manager';
 import { quantumNetworkOps } from '../quantum';
 import { userDataManager } from '../user-data';
 import { MemberManager } from './member-management';
+import type { SpaceInviteLink } from './member-management';
 import { SpaceQuantumOperations } from './quantum-operations';
-import { SpaceBeaconOperations } from './beacon-operations';
+import { SpaceSettingsManager } from './settings-management';
+import type { SpaceConfiguration, SpaceConfigurationUpdate } from './settings-management';
 
 // Re-export types
 export type { SpaceRole, SpaceMember, SpaceMetadata } from './types';
+export type { SpaceInviteLink } from './member-management';
+export type { SpaceConfiguration, SpaceConfigurationUpdate } from './settings-management';
 import type { SpaceMember, SpaceRole, SpaceMetadata } from './types';
+import { ROLE_PERMISSIONS } from './types';
 
 /**
  * Main Space Manager
@@ -27,12 +32,12 @@ class SpaceManager {
 
   private memberManager: MemberManager;
   private quantumOps: SpaceQuantumOperations;
-  private beaconOps: SpaceBeaconOperations;
+  private settingsManager: SpaceSettingsManager;
 
   constructor() {
     this.memberManager = new MemberManager();
     this.quantumOps = new SpaceQuantumOperations();
-    this.beaconOps = new SpaceBeaconOperations();
+    this.settingsManager = new SpaceSettingsManager();
   }
 
   /**
@@ -172,13 +177,14 @@ class SpaceManager {
             createdAt: new Date().toISOString()
           });
 
-          // Initialize member list with creator as owner
+          // The server recorded the creator as owner; seed the cache to match
           const initialMembers: SpaceMember[] = [{
             userId: effectiveUserId,
             spaceId,  // Added per design spec
             role: 'owner',
+            status: 'active',
             joinedAt: new Date().toISOString(),
-            permissions: [],  // Owner gets all permissions via role
+            permissions: ROLE_PERMISSIONS.owner,
             resonanceKeys: undefined  // Will be set by quantum entanglement
           }];
 
@@ -189,22 +195,18 @@ class SpaceManager {
             // Create quantum entanglement
             return this.quantumOps.createUserSpaceEntanglement(effectiveUserId, spaceId);
           }).then(() => {
-            console.log(`[SpaceManager] Step 3: Submitting member beacon`);
-            // Submit initial member list beacon
-            return this.beaconOps.submitSpaceMemberBeacon(spaceId, initialMembers);
-          }).then(() => {
-            console.log(`[SpaceManager] Step 4: Updating member cache`);
+            console.log(`[SpaceManager] Step 3: Updating member cache`);
             this.memberManager.updateMemberCache(spaceId, initialMembers);
             
-            console.log(`[SpaceManager] Step 5: Adding space to user's local list`);
+            console.log(`[SpaceManager] Step 4: Adding space to user's local list`);
             // Add to user's personal spaces list with owner role
             return userDataManager.joinSpace(spaceId, 'owner');
           }).then(() => {
-            console.log(`[SpaceManager] Step 6: Space ${spaceId} fully initialized`);
+            console.log(`[SpaceManager] Step 5: Space ${spaceId} fully initialized`);
             console.log(`[SpaceManager] User's spaces list now:`, userDataManager.getSpacesList());
             
             // Forward the createSpaceSuccess message to original handler for UI update
-            console.log(`[SpaceManager] Step 7: Forwarding createSpaceSuccess to UI`);
+            console.log(`[SpaceManager] Step 6: Forwarding createSpaceSuccess to UI`);
             if (originalHandler) {
               originalHandler(message);
             }
@@ -251,7 +253,7 @@ class SpaceManager {
       
       communicationManager.send({
         kind: 'createSpace',
-        payload: { name, description, isPublic, userId: effectiveUserId }
+        payload: { name, description, isPublic }
       }).catch(error => {
         resolved = true;
         
@@ -281,140 +283,85 @@ class SpaceManager {
   }
 
   /**
-   * Add member to space
+   * Create an invite link for a space. Links skip approval and join with the
+   * given role (contributor by default).
    */
-  async addMember(spaceId: string, userId: string, role: SpaceRole = 'contributor'): Promise<void> {
+  async createInvite(
+    spaceId: string,
+    options: { role?: SpaceRole; expiresInHours?: number; maxUses?: number } = {}
+  ): Promise<SpaceInviteLink> {
     if (!this.currentUserId) {
       throw new Error('User not authenticated');
     }
 
-    const members = await this.memberManager.getSpaceMembers(spaceId);
-    
-    if (members.some(m => m.userId === userId)) {
-      console.log(`User ${userId} is already a member of space ${spaceId}`);
-      return;
-    }
+    return this.memberManager.createInvite(spaceId, options);
+  }
 
-    // Validate permission with quantum consensus
-    const permissionValid = await this.quantumOps.validatePermissionWithConsensus(
-      spaceId,
-      this.currentUserId,
-      'addMember',
-      { targetUserId: userId, role },
-      (spaceId) => this.memberManager.getSpaceMembers(spaceId)
-    );
-
-    if (!permissionValid) {
-      throw new Error('Insufficient permissions to add members (quantum consensus failed)');
+  /**
+   * Join a space through an invite link token
+   */
+  async acceptInvite(token: string): Promise<SpaceMember> {
+    if (!this.currentUserId) {
+      throw new Error('User not authenticated');
     }
 
-    // Create quantum entanglement
-    await this.quantumOps.createUserSpaceEntanglement(userId, spaceId);
-
-    // Add new member
-    const newMember: SpaceMember = {
-      userId,
-      spaceId,  // Added per design spec
-      role,
-      joinedAt: new Date().toISOString(),
-      permissions: [],  // TODO: Load from space.memberPolicy.defaultPermissions
-      resonanceKeys: undefined  // Will be set by quantum entanglement
-    };
-
-    const updatedMembers = [...members, newMember];
-    
-    // Use quantum teleportation to update member list
-    await this.quantumOps.quantumUpdateMemberList(spaceId, updatedMembers);
-    await this.beaconOps.submitSpaceMemberBeacon(spaceId, updatedMembers);
-    this.memberManager.updateMemberCache(spaceId, updatedMembers);
-    
-    console.log(`User ${userId} added to space ${spaceId} with quantum entanglement`);
+    const member = await this.memberManager.acceptInvite(token);
+    await userDataManager.joinSpace(member.spaceId, member.role);
+    return member;
   }
 
   /**
-   * Remove member from space
+   * Approve a pending join request
    */
-  async removeMember(spaceId: string, userId: string): Promise<void> {
+  async approveMember(spaceId: string, userId: string): Promise<void> {
     if (!this.currentUserId) {
       throw new Error('User not authenticated');
     }
 
-    const members = await this.memberManager.getSpaceMembers(spaceId);
-    const currentUserMember = members.find(m => m.userId === this.currentUserId);
-    
-    if (!currentUserMember || (currentUserMember.role !== 'owner' && currentUserMember.role !== 'admin')) {
-      throw new Error('Insufficient permissions to remove members');
-    }
+    await this.memberManager.approve(spaceId, userId);
+  }
 
-    const targetMember = members.find(m => m.userId === userId);
-    if (targetMember?.role === 'owner') {
-      throw new Error('Cannot remove space owner');
+  /**
+   * Remove member from space, or reject their join request
+   */
+  async removeMember(spaceId: string, userId: string): Promise<void> {
+    if (!this.currentUserId) {
+      throw new Error('User not authenticated');
     }
 
-    const updatedMembers = members.filter(m => m.userId !== userId);
-    await this.beaconOps.submitSpaceMemberBeacon(spaceId, updatedMembers);
-    this.memberManager.updateMemberCache(spaceId, updatedMembers);
+    await this.memberManager.remove(spaceId, userId);
   }
 
   /**
    * Update member role
+   * The owner manages admins; owners and admins manage everyone else
    */
   async updateMemberRole(spaceId: string, userId: string, newRole: SpaceRole): Promise<void> {
     if (!this.currentUserId) {
       throw new Error('User not authenticated');
     }
 
-    const members = await this.memberManager.getSpaceMembers(spaceId);
-    const currentUserMember = members.find(m => m.userId === this.currentUserId);
-    
-    if (!currentUserMember || currentUserMember.role !== 'owner') {
-      throw new Error('Only space owner can change member roles');
-    }
-
-    const targetMember = members.find(m => m.userId === userId);
-    if (targetMember?.role === 'owner') {
-      throw new Error('Cannot change owner role');
-    }
-
-    const updatedMembers = members.map(m => 
-      m.userId === userId ? { ...m, role: newRole } : m
-    );
-
-    await this.beaconOps.submitSpaceMemberBeacon(spaceId, updatedMembers);
-    this.memberManager.updateMemberCache(spaceId, updatedMembers);
+    await this.memberManager.updateRole(spaceId, userId, newRole);
   }
 
   /**
    * Join space
-   * Default role is 'contributor' per design spec (design.md:290-297)
+   * Joiners get the 'contributor' role per design spec (design.md:290-297).
+   * Resolves with the membership, which stays pending if the space requires
+   * approval.
    */
-  async joinSpace(spaceId: string): Promise<void> {
+  async joinSpace(spaceId: string): Promise<SpaceMember> {
     if (!this.currentUserId) {
       throw new Error('User not authenticated');
     }
 
-    const members = await this.memberManager.getSpaceMembers(spaceId);
-    
-    if (members.some(m => m.userId === this.currentUserId)) {
-      console.log(`User ${this.currentUserId} is already a member of space ${spaceId}`);
-      return;
+    const member = await this.memberManager.join(spaceId);
+    if (member.status === 'active') {
+      await userDataManager.joinSpace(spaceId, member.role);
     }
 
-    const newMember: SpaceMember = {
-      userId: this.currentUserId,
-      spaceId,  // Added per design spec
-      role: 'contributor',  // Changed from 'member' to 'contributor' per design spec
-      joinedAt: new Date().toISOString(),
-      permissions: [],  // TODO: Load from space.memberPolicy.defaultPermissions
-      resonanceKeys: undefined  // Will be set by quantum entanglement
-    };
-
-    const updatedMembers = [...members, newMember];
-    await this.beaconOps.submitSpaceMemberBeacon(spaceId, updatedMembers);
-    this.memberManager.updateMemberCache(spaceId, updatedMembers);
-    await userDataManager.joinSpace(spaceId, 'contributor');  // Changed from 'member' to 'contributor'
-
-    console.log(`User ${this.currentUserId} joined space ${spaceId} with role 'contributor'`);
+    console.log(`User ${this.currentUserId} joined space ${spaceId} with role '${member.role}' (${member.status})`);
+    return member;
   }
 
   /**
@@ -425,24 +372,51 @@ class SpaceManager {
       throw new Error('User not authenticated');
     }
 
-    const members = await this.memberManager.getSpaceMembers(spaceId);
-    const currentMember = members.find(m => m.userId === this.currentUserId);
-    
-    if (!currentMember) {
-      console.log(`User ${this.currentUserId} is not a member of space ${spaceId}`);
-      return;
+    await this.memberManager.leave(spaceId);
+    await userDataManager.leaveSpace(spaceId);
+
+    console.log(`User ${this.currentUserId} left space ${spaceId}`);
+  }
+
+  /**
+   * Get a space's name, description and settings
+   */
+  async getSpaceSettings(spaceId: string): Promise<SpaceConfiguration> {
+    return this.settingsManager.get(spaceId);
+  }
+
+  /**
+   * Save settings; only the owner may
+   */
+  async updateSpaceSettings(spaceId: string, update: SpaceConfigurationUpdate): Promise<SpaceConfiguration> {
+    if (!this.currentUserId) {
+      throw new Error('User not authenticated');
     }
 
-    if (currentMember.role === 'owner') {
-      throw new Error('Space owner cannot leave. Transfer ownership or delete the space instead.');
+    return this.settingsManager.update(spaceId, update);
+  }
+
+  /**
+   * Delete a space with its posts, files and memberships; only the owner may
+   */
+  async deleteSpace(spaceId: string): Promise<void> {
+    if (!this.currentUserId) {
+      throw new Error('User not authenticated');
     }
 
-    const updatedMembers = members.filter(m => m.userId !== this.currentUserId);
-    await this.beaconOps.submitSpaceMemberBeacon(spaceId, updatedMembers);
-    this.memberManager.updateMemberCache(spaceId, updatedMembers);
-    await userDataManager.leaveSpace(spaceId);
+    await this.settingsManager.delete(spaceId);
+    await this.forgetSpace(spaceId);
 
-    console.log(`User ${this.currentUserId} left space ${spaceId}`);
+    console.log(`User ${this.currentUserId} deleted space ${spaceId}`);
+  }
+
+  /**
+   * Drop a deleted space from local state, e.g. when its owner deletes it
+   */
+  async forgetSpace(spaceId: string): Promise<void> {
+    this.spaceMetadata.delete(spaceId);
+    this.memberManager.clearSpaceMemberCache(spaceId, this.currentUserId !== null);
+    await userDataManager.leaveSpace(spaceId);
   }
 
   /**
@@ -452,6 +426,13 @@ class SpaceManager {
     return this.memberManager.getSpaceMembers(spaceId);
   }
 
+  /**
+   * Get join requests awaiting approval (visible to owners and admins)
+   */
+  async getPendingMembers(spaceId: string): Promise<SpaceMember[]> {
+    return this.memberManager.getPendingMembers(spaceId);
+  }
+
   /**
    * Check if user is member
    */
@@ -1,17 +1,22 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * Space Member Management
- * Handles member operations (add, remove, update roles)
+ * Memberships live on the server; this caches member lists and sends changes
  */
 
-import { beaconCacheManager } from '../beacon-cache';
-import { holographicMemoryManager } from '../holographic-memory';
-import { parseJsonWithRepair } from '../utils/json-repair';
-import { BEACON_TYPES } from '../../constants/beaconTypes';
+import { communicationManager } from '../communication-manager';
+import type { ClientSpaceMember, ErrorPayload, ProtocolResponse } from '../../protocol';
 import type { SpaceMember, SpaceRole } from './types';
 
+export interface SpaceInviteLink {
+  url: string;
+  role: SpaceRole;
+  expiresAt: string;
+  maxUses?: number;
+}
+
 export class MemberManager {
   private spaceMemberLists: Map<string, SpaceMember[]> = new Map();
+  private pendingMemberLists: Map<string, SpaceMember[]> = new Map();
 
   /**
    * Get space members (with caching)
@@ -24,53 +29,31 @@ export class MemberManager {
 
     try {
       console.log(`[MemberManager] Fetching members for space ${spaceId}`);
-      
-      const allSpaceMemberBeacons = await beaconCacheManager.getBeaconsByType(BEACON_TYPES.SPACE_MEMBERS);
-      console.log(`[MemberManager] Found ${allSpaceMemberBeacons.length} space_members beacons`);
-      
-      let latestBeacon = null;
-      let latestTimestamp = 0;
-      
-      // Find most recent beacon for this specific space
-      for (const beacon of allSpaceMemberBeacons) {
-        try {
-          const decoded = holographicMemoryManager.decodeMemory(beacon as any);
-          if (decoded) {
-            const data = parseJsonWithRepair(decoded);
-            if (data && (data as any).spaceId === spaceId && (data as any).version > latestTimestamp) {
-              latestBeacon = beacon;
-              latestTimestamp = (data as any).version;
-            }
-          }
-        } catch (error) {
-          console.warn(`[MemberManager] Could not decode beacon:`, error);
-        }
-      }
-      
-      if (!latestBeacon) {
-        console.log(`[MemberManager] No member list beacon found for space ${spaceId}`);
-        return [];
-      }
-
-      const decoded = holographicMemoryManager.decodeMemory(latestBeacon as any);
-      if (!decoded) {
-        console.log(`[MemberManager] Could not decode member list for space ${spaceId}`);
-        return [];
-      }
-
-      const data = parseJsonWithRepair(decoded);
-      const members = (data as any)?.members || [];
-      
-      console.log(`[MemberManager] Found ${members.length} members for space ${spaceId}`);
-      this.spaceMemberLists.set(spaceId, members);
-      
-      return members;
+      const { members, pending } = expectSuccess(
+        await communicationManager.send({ kind: 'getSpaceMembers', payload: { spaceId } })
+      );
+
+      const activeMembers = members.map(toSpaceMember);
+      this.spaceMemberLists.set(spaceId, activeMembers);
+      this.pendingMemberLists.set(spaceId, pending.map(toSpaceMember));
+
+      console.log(`[MemberManager] Found ${activeMembers.length} members for space ${spaceId}`);
+      return activeMembers;
     } catch (error) {
       console.error(`[MemberManager] Error getting space members for ${spaceId}:`, error);
       return [];
     }
   }
 
+  /**
+   * Get join requests awaiting approval. Empty unless the current user can
+   * manage members.
+   */
+  async getPendingMembers(spaceId: string): Promise<SpaceMember[]> {
+    await this.getSpaceMembers(spaceId);
+    return this.pendingMemberLists.get(spaceId) ?? [];
+  }
+
   /**
    * Check if user is a member
    */
@@ -88,6 +71,60 @@ export class MemberManager {
     return member?.role || null;
   }
 
+  /**
+   * Join a space; the membership stays pending if the space requires approval
+   */
+  async join(spaceId: string): Promise<SpaceMember> {
+    const { member } = expectSuccess(await communicationManager.send({ kind: 'joinSpace', payload: { spaceId } }));
+    this.spaceMemberLists.delete(spaceId);
+    return toSpaceMember(member);
+  }
+
+  async leave(spaceId: string): Promise<void> {
+    expectSuccess(await communicationManager.send({ kind: 'leaveSpace', payload: { spaceId } }));
+    this.spaceMemberLists.delete(spaceId);
+  }
+
+  async updateRole(spaceId: string, userId: string, role: SpaceRole): Promise<SpaceMember> {
+    const { member } = expectSuccess(
+      await communicationManager.send({ kind: 'updateMemberRole', payload: { spaceId, userId, role } })
+    );
+    this.spaceMemberLists.delete(spaceId);
+    return toSpaceMember(member);
+  }
+
+  async approve(spaceId: string, userId: string): Promise<SpaceMember> {
+    const { member } = expectSuccess(
+      await communicationManager.send({ kind: 'approveMember', payload: { spaceId, userId } })
+    );
+    this.spaceMemberLists.delete(spaceId);
+    return toSpaceMember(member);
+  }
+
+  // Removes a member or rejects a pending join request
+  async remove(spaceId: string, userId: string): Promise<void> {
+    expectSuccess(await communicationManager.send({ kind: 'removeMember', payload: { spaceId, userId } }));
+    this.spaceMemberLists.delete(spaceId);
+  }
+
+  async createInvite(
+    spaceId: string,
+    options: { role?: SpaceRole; expiresInHours?: number; maxUses?: number } = {}
+  ): Promise<SpaceInviteLink> {
+    const { url, role, expiresAt, maxUses } = expectSuccess(
+      await communicationManager.send({ kind: 'createSpaceInvite', payload: { spaceId, ...options } })
+    );
+    return { url, role, expiresAt, maxUses };
+  }
+
+  async acceptInvite(token: string): Promise<SpaceMember> {
+    const { spaceId, member } = expectSuccess(
+      await communicationManager.send({ kind: 'acceptSpaceInvite', payload: { token } })
+    );
+    this.spaceMemberLists.delete(spaceId);
+    return toSpaceMember(member);
+  }
+
   /**
    * Update cached member list
    */
@@ -100,9 +137,10 @@ export class MemberManager {
    */
   clearSpaceMemberCache(spaceId: string, hasCurrentUser: boolean): void {
     console.log(`[MemberManager] Clearing member cache for space: ${spaceId}`);
-    
+
     if (hasCurrentUser) {
       this.spaceMemberLists.delete(spaceId);
+      this.pendingMemberLists.delete(spaceId);
       console.log(`[MemberManager] Cache cleared for space: ${spaceId}`);
     } else {
       console.log(`[MemberManager] Skipping cache clear during initialization`);
@@ -114,5 +152,25 @@ export class MemberManager {
    */
   clear(): void {
     this.spaceMemberLists.clear();
+    this.pendingMemberLists.clear();
+  }
+}
+
+function toSpaceMember(member: ClientSpaceMember): SpaceMember {
+  return {
+    userId: member.userId,
+    username: member.username,
+    spaceId: member.spaceId,
+    role: member.role,
+    status: member.status,
+    joinedAt: member.joinedAt,
+    permissions: member.permissions
+  };
+}
+
+function expectSuccess<R extends ProtocolResponse>(response: R): Exclude<R, { kind: 'error' }>['payload'] {
+  if (response.kind === 'error') {
+    throw new Error((response.payload as ErrorPayload).message);
   }
-}
\ No newline at end of file
+  return response.payload;
+}
@@ -0,0 +1,47 @@
+/**
+ * Space Settings Management
+ * Loads and saves the settings stored on the server, and deletes spaces
+ */
+
+import { communicationManager } from '../communication-manager';
+import type { ErrorPayload, ProtocolResponse } from '../../protocol';
+import type { SpaceSettings } from './types';
+
+export interface SpaceConfiguration {
+  spaceId: string;
+  name: string;
+  description?: string;
+  settings: SpaceSettings;
+  // Only the owner may change settings
+  canEdit: boolean;
+}
+
+export interface SpaceConfigurationUpdate {
+  name?: string;
+  description?: string;
+  settings?: Partial<SpaceSettings>;
+}
+
+export class SpaceSettingsManager {
+  async get(spaceId: string): Promise<SpaceConfiguration> {
+    return expectSuccess(await communicationManager.send({ kind: 'getSpaceSettings', payload: { spaceId } }));
+  }
+
+  async update(spaceId: string, update: SpaceConfigurationUpdate): Promise<SpaceConfiguration> {
+    return expectSuccess(
+      await communicationManager.send({ kind: 'updateSpaceSettings', payload: { spaceId, ...update } })
+    );
+  }
+
+  // Removes the space with all of its posts, files and memberships
+  async delete(spaceId: string): Promise<void> {
+    expectSuccess(await communicationManager.send({ kind: 'deleteSpace', payload: { spaceId } }));
+  }
+}
+
+function expectSuccess<R extends ProtocolResponse>(response: R): Exclude<R, { kind: 'error' }>['payload'] {
+  if (response.kind === 'error') {
+    throw new Error((response.payload as ErrorPayload).message);
+  }
+  return response.payload;
+}
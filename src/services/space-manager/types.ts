@@ -18,11 +18,25 @@ export enum Permission {
   ADMIN = 'admin'
 }
 
+// What each role may do in its space. Owners and admins manage members;
+// only the owner holds ADMIN
+export const ROLE_PERMISSIONS: Record<SpaceRole, Permission[]> = {
+  owner: Object.values(Permission),
+  admin: [
+    Permission.VIEW_SPACE, Permission.VIEW_VOLUMES, Permission.CONTRIBUTE_FILES, Permission.SUMMON_FILES,
+    Permission.MANAGE_MEMBERS, Permission.MANAGE_VOLUMES, Permission.DELETE_FILES
+  ],
+  contributor: [Permission.VIEW_SPACE, Permission.VIEW_VOLUMES, Permission.CONTRIBUTE_FILES, Permission.SUMMON_FILES],
+  viewer: [Permission.VIEW_SPACE, Permission.VIEW_VOLUMES]
+};
+
 // SpaceMember per design spec (design.md:259-269)
 export interface SpaceMember {
   userId: string;
+  username?: string;
   spaceId: string;  // Added per design spec
   role: SpaceRole;
+  status?: 'active' | 'pending';  // Pending members await approval
   joinedAt: string;  // Keep as string for JSON serialization
   permissions: Permission[];  // Added per design spec
   resonanceKeys?: {  // Added per design spec (optional for backward compatibility)
@@ -43,4 +57,39 @@ export interface SpaceMemberListData {
   spaceId: string;
   members: SpaceMember[];
   version: number;
-}
\ No newline at end of file
+}
+
+// Private spaces are unlisted; invite-only spaces are listed but can only be
+// joined through an invite link
+export type SpaceVisibility = 'public' | 'private' | 'invite-only';
+
+export interface ResonanceConfig {
+  primeCount: number;
+  quantization: number;
+  epochDuration: number;
+}
+
+// Owner-editable settings, stored in the space's metadata
+export interface SpaceSettings {
+  visibility: SpaceVisibility;
+  maxMembers: number;
+  autoArchive: boolean;
+  archiveDays: number;
+  requireApproval: boolean;
+  defaultPermissions: Permission[];
+  resonanceConfig: ResonanceConfig;
+}
+
+export const DEFAULT_SPACE_SETTINGS: SpaceSettings = {
+  visibility: 'public',
+  maxMembers: 1000,
+  autoArchive: false,
+  archiveDays: 90,
+  requireApproval: false,
+  defaultPermissions: [Permission.VIEW_SPACE, Permission.VIEW_VOLUMES, Permission.CONTRIBUTE_FILES, Permission.SUMMON_FILES],
+  resonanceConfig: {
+    primeCount: 32,
+    quantization: 64,
+    epochDuration: 2000
+  }
+};
@@ -0,0 +1,33 @@
+import { communicationManager } from './communication-manager';
+import type { NodeStatus, SystemEvent, SystemMetrics } from '../protocol';
+
+/**
+ * SystemAdminService - Monitoring data for the admin console
+ * The /api/admin/system endpoints are plain GETs that answer only for admins
+ */
+class SystemAdminService {
+  getMetrics(): Promise<SystemMetrics> {
+    return getJson('/api/admin/system/metrics');
+  }
+
+  getEvents(limit: number): Promise<SystemEvent[]> {
+    return getJson(`/api/admin/system/events?limit=${limit}`);
+  }
+
+  getNodes(): Promise<NodeStatus[]> {
+    return getJson('/api/admin/system/nodes');
+  }
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${communicationManager.getSessionToken() ?? ''}` }
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error((body as { error?: string } | null)?.error ?? `Request failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+export const systemAdminService = new SystemAdminService();
@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 // Mock holographic memory manager
 const mockEncodeMemory = vi.fn();
 const mockDecodeMemory = vi.fn();
+const mockDecryptMemory = vi.fn();
 const mockSetCurrentUser = vi.fn();
 
 // Mock communication manager
@@ -17,6 +18,7 @@ vi.mock('./holographic-memory', () => ({
   holographicMemoryManager: {
     encodeMemory: mockEncodeMemory,
     decodeMemory: mockDecodeMemory,
+    decryptMemory: mockDecryptMemory,
     setCurrentUser: mockSetCurrentUser,
     isReady: true,
   }
@@ -69,7 +71,8 @@ describe('UserDataManager - Holographic Architecture', () => {
     await userDataManager.followUser('user123');
 
     expect(mockEncodeMemory).toHaveBeenCalledWith(
-      JSON.stringify({ following: ['user123'] })
+      JSON.stringify({ following: ['user123'] }),
+      { userIds: [] }
     );
     expect(mockSend).toHaveBeenCalled();
   });
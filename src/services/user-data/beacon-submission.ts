@@ -10,6 +10,9 @@ import { beaconCacheManager } from '../beacon-cache';
 import { serializeBeacon } from '../utils/beacon-serializer';
 import { BEACON_TYPES } from '../../constants/beaconTypes';
 
+// Personal lists are sealed to no one else, so only the user's own devices can read them
+const OWN_DEVICES_ONLY = { userIds: [] };
+
 export class BeaconSubmitter {
   constructor(
     private holographicMemoryManager: HolographicMemoryManager
@@ -26,7 +29,7 @@ export class BeaconSubmitter {
     });
     
     try {
-      const beacon = await this.holographicMemoryManager.encodeMemory(listData);
+      const beacon = await this.holographicMemoryManager.encodeMemory(listData, OWN_DEVICES_ONLY);
       console.log(`[BeaconSubmitter] Beacon encoded:`, beacon ? 'Success' : 'Failed');
       
       if (beacon) {
@@ -73,7 +76,7 @@ export class BeaconSubmitter {
       version: Date.now()
     });
     
-    const beacon = await this.holographicMemoryManager.encodeMemory(listData);
+    const beacon = await this.holographicMemoryManager.encodeMemory(listData, OWN_DEVICES_ONLY);
     
     if (beacon) {
       const serializableBeacon = serializeBeacon(beacon as any);
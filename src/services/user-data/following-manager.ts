@@ -5,7 +5,7 @@
  */
 
 import { communicationManager } from '../communication-manager';
-import type { CommunicationMessage } from '../communication-manager';
+import type { ProtocolRequest } from '../../protocol';
 import { BeaconSubmitter } from './beacon-submission';
 
 export class FollowingManager {
@@ -31,7 +31,7 @@ export class FollowingManager {
     
     // Send follow message to server via SSE
     try {
-      const followMessage: CommunicationMessage = {
+      const followMessage: ProtocolRequest<'follow'> = {
         kind: 'follow',
         payload: { userIdToFollow }
       };
@@ -55,7 +55,7 @@ export class FollowingManager {
     
     // Send unfollow message to server via SSE
     try {
-      const unfollowMessage: CommunicationMessage = {
+      const unfollowMessage: ProtocolRequest<'unfollow'> = {
         kind: 'unfollow',
         payload: { userIdToUnfollow: userId }
       };
@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * User Data Management Module
  * Main export for refactored user data functionality
@@ -81,7 +80,7 @@ export class UserDataManager {
     );
 
     if (followingBeacon) {
-      const decoded = this.holographicMemoryManager.decodeMemory(followingBeacon as any);
+      const decoded = await this.holographicMemoryManager.decryptMemory(followingBeacon);
       if (decoded) {
         const payload = typeof decoded === 'string' ? extractJsonPayload(decoded) : null;
 
@@ -113,7 +112,7 @@ export class UserDataManager {
     );
 
     if (spacesBeacon) {
-      const decoded = this.holographicMemoryManager.decodeMemory(spacesBeacon as any);
+      const decoded = await this.holographicMemoryManager.decryptMemory(spacesBeacon);
       if (decoded) {
         const payload = typeof decoded === 'string' ? extractJsonPayload(decoded) : null;
 
@@ -4,6 +4,7 @@
  */
 
 import { communicationManager, type CommunicationMessage } from './communication-manager';
+import type { ProtocolRequest } from '../protocol';
 
 interface PollConfig {
   baseInterval: number;  // Base polling interval in ms
@@ -14,10 +15,8 @@ interface PollConfig {
 class VercelRealtimeManager {
   private pollInterval: number;
   private pollTimer: NodeJS.Timeout | null = null;
-  private lastMessageTime: number = Date.now();
   private messageCallbacks: ((message: CommunicationMessage) => void)[] = [];
   private isPolling: boolean = false;
-  private userId: string | null = null;
   
   private config: PollConfig = {
     baseInterval: 2000,      // Start with 2 second polls
@@ -29,12 +28,11 @@ class VercelRealtimeManager {
     this.pollInterval = this.config.baseInterval;
   }
 
-  async start(userId?: string) {
+  // Polls as whoever holds the communication manager's session
+  async start() {
     if (this.isPolling) return;
     
-    this.userId = userId || null;
     this.isPolling = true;
-    this.lastMessageTime = Date.now();
     
     console.log('[Vercel Realtime] Starting intelligent polling system');
     this.startPolling();
@@ -62,11 +60,10 @@ class VercelRealtimeManager {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${communicationManager.getSessionToken() ?? ''}`
         },
-        body: JSON.stringify({
-          userId: this.userId,
-          lastMessageTime: this.lastMessageTime
-        })
+        // The server hands out each queued message once, so no cursor is needed
+        body: JSON.stringify({})
       });
 
       if (response.ok) {
@@ -75,7 +72,6 @@ class VercelRealtimeManager {
         if (data.messages && data.messages.length > 0) {
           // We got messages! Reset interval to base
           this.pollInterval = this.config.baseInterval;
-          this.lastMessageTime = Date.now();
           
           // Deliver messages to callbacks
           data.messages.forEach((message: CommunicationMessage) => {
@@ -103,7 +99,7 @@ class VercelRealtimeManager {
   }
 
   // Send a message and immediately poll for response
-  async sendAndPoll(message: CommunicationMessage) {
+  async sendAndPoll(message: ProtocolRequest) {
     // Send via normal communication manager
     await communicationManager.send(message);
     
@@ -139,10 +135,7 @@ export function setupRealtimeForEnvironment() {
     const originalConnect = communicationManager.connect.bind(communicationManager);
     communicationManager.connect = async () => {
       await originalConnect();
-      const userId = localStorage.getItem('summoned_spaces_session') 
-        ? JSON.parse(localStorage.getItem('summoned_spaces_session')!).userId 
-        : null;
-      vercelRealtimeManager.start(userId);
+      vercelRealtimeManager.start();
     };
     
     // Stop polling on disconnect
@@ -1,3 +1,5 @@
+import type { PlatformRole } from '../protocol';
+
 export interface User {
   id: string;
   name: string;
@@ -7,6 +9,8 @@ export interface User {
   isFollowing: boolean;
   followsMe?: boolean;
   isVerified?: boolean;
+  // Only known for the signed-in user
+  role?: PlatformRole;
   stats: {
     followers: number;
     following: number;
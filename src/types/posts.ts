@@ -50,6 +50,8 @@ export interface FileAttachment {
 // Base Post Interface
 export interface BasePost {
   id: string;
+  // Set once the post is stored as a beacon; likes and comments need it
+  beaconId?: string;
   author: Author;
   spaceId: string;
   spaceName: string;
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vite'
+
+// Bundles server/ with the api/ and lib/ code it imports into one Node module.
+// Dependencies stay external and load from node_modules at runtime.
+export default defineConfig({
+  build: {
+    ssr: 'server/index.ts',
+    outDir: 'dist-server',
+    target: 'node18',
+    emptyOutDir: true
+  }
+})